@@ -0,0 +1,461 @@
+import { SchemaInferrer, type TableSchema } from "./schemaTool.ts";
+import type { TableProfile } from "./streamTool.ts";
+import type { CorrelationMatrix } from "./correlationTool.ts";
+import type { InsightReport } from "./insightTool.ts";
+
+export type ChartKind = "histogram" | "bar" | "missingness" | "correlation" | "timeseries";
+
+// Charts are described once as simple shapes in a top-left coordinate system, then rendered to SVG for
+// the browser and to PDF drawing operators for the reports, so both show the same vector graphics
+export type ChartShape =
+  | { type: "rect"; x: number; y: number; width: number; height: number; fill: string; stroke?: string }
+  | { type: "line"; x1: number; y1: number; x2: number; y2: number; stroke: string; width?: number; dashed?: boolean }
+  | { type: "polyline"; points: Array<[number, number]>; stroke: string; width?: number; dashed?: boolean }
+  | { type: "text"; x: number; y: number; text: string; size: number; anchor?: "start" | "middle" | "end"; fill?: string; bold?: boolean };
+
+export interface ChartScene {
+  width: number;
+  height: number;
+  shapes: ChartShape[];
+}
+
+export interface ReportChart {
+  id: string;
+  kind: ChartKind;
+  title: string;
+  columns: string[];
+  scene: ChartScene;
+  svg: string;
+}
+
+export interface ColumnHistogram {
+  column: string;
+  binStart: number;
+  binWidth: number;
+  counts: number[];
+  below: number; // Values left of the first bin (extreme outliers)
+  above: number;
+}
+
+export interface MissingnessGrid {
+  columns: string[];
+  blockSize: number; // Rows per block; the last block may be shorter
+  blockRows: number[];
+  missing: number[][]; // [column][block] missing-value counts
+}
+
+export interface TableDistributions {
+  histograms: ColumnHistogram[];
+  missingness: MissingnessGrid;
+}
+
+const MAX_HISTOGRAMS = 12;
+const MAX_BAR_CHARTS = 12;
+const MAX_MISSINGNESS_COLUMNS = 30;
+const MISSINGNESS_BLOCKS = 40;
+const MAX_TIMESERIES_CHARTS = 4;
+
+const WIDTH = 560;
+const PRIMARY = "#6366f1";
+const SECONDARY = "#10b981";
+const NEGATIVE = "#ef4444";
+const MISSING = "#f59e0b";
+const AXIS = "#94a3b8";
+const GRID = "#e2e8f0";
+const TEXT = "#334155";
+
+// Bins numeric columns against their profiled range and counts missing values per block of rows, in one pass
+export class DistributionAnalyzer {
+  private inferrer = new SchemaInferrer();
+  private histograms: Array<ColumnHistogram & { index: number }> = [];
+  private missingColumns: number[];
+  private blockSize: number;
+  private blockRows: number[] = [];
+  private missing: number[][];
+  private row = 0;
+
+  constructor(private headers: string[], schema: TableSchema, profile: TableProfile) {
+    schema.columns.forEach((column, index) => {
+      const numeric = profile.columns[index].numeric;
+      if (!this.inferrer.isNumeric(column.type) || !numeric || this.histograms.length >= MAX_HISTOGRAMS) return;
+
+      // Extreme outliers would squeeze the rest of the distribution into a few bins, so they are counted separately
+      const iqr = numeric.q3 - numeric.q1;
+      const low = iqr > 0 ? Math.max(numeric.min, numeric.q1 - 3 * iqr) : numeric.min;
+      const high = iqr > 0 ? Math.min(numeric.max, numeric.q3 + 3 * iqr) : numeric.max;
+      const integerValued = column.type === "integer" && Number.isInteger(low) && Number.isInteger(high);
+
+      let binStart = low;
+      let bins = Math.min(20, Math.max(5, Math.ceil(Math.log2(numeric.count) + 1)));
+      let binWidth = (high - low) / bins;
+      if (integerValued && high - low + 1 <= 20) {
+        binStart = low - 0.5;
+        bins = high - low + 1;
+        binWidth = 1;
+      } else if (binWidth === 0) {
+        binStart = low - 0.5;
+        bins = 1;
+        binWidth = 1;
+      }
+      this.histograms.push({ index, column: headers[index], binStart, binWidth, counts: new Array(bins).fill(0), below: 0, above: 0 });
+    });
+
+    this.missingColumns = headers.map((_, idx) => idx).slice(0, MAX_MISSINGNESS_COLUMNS);
+    this.blockSize = Math.max(1, Math.ceil(profile.rowCount / MISSINGNESS_BLOCKS));
+    this.missing = this.missingColumns.map(() => []);
+  }
+
+  addRow(row: string[]): void {
+    for (const histogram of this.histograms) {
+      const value = this.inferrer.parseNumber(row[histogram.index] ?? "");
+      if (value === null) continue;
+      const bin = Math.floor((value - histogram.binStart) / histogram.binWidth);
+      if (bin < 0) histogram.below++;
+      else if (bin >= histogram.counts.length) {
+        // The maximum lands exactly on the upper edge of the last bin
+        if (value <= histogram.binStart + histogram.binWidth * histogram.counts.length) histogram.counts[histogram.counts.length - 1]++;
+        else histogram.above++;
+      } else histogram.counts[bin]++;
+    }
+
+    const block = Math.floor(this.row / this.blockSize);
+    if (block === this.blockRows.length) {
+      this.blockRows.push(0);
+      this.missing.forEach(counts => counts.push(0));
+    }
+    this.blockRows[block]++;
+    this.missingColumns.forEach((colIdx, m) => {
+      if ((row[colIdx] ?? "").trim() === "") this.missing[m][block]++;
+    });
+    this.row++;
+  }
+
+  finish(): TableDistributions {
+    return {
+      histograms: this.histograms.map(({ index: _index, ...histogram }) => histogram),
+      missingness: {
+        columns: this.missingColumns.map(idx => this.headers[idx]),
+        blockSize: this.blockSize,
+        blockRows: this.blockRows,
+        missing: this.missing,
+      },
+    };
+  }
+}
+
+export function buildReportCharts(report: InsightReport, correlations: CorrelationMatrix, distributions: TableDistributions): ReportChart[] {
+  const charts: ReportChart[] = [];
+  const add = (id: string, kind: ChartKind, title: string, columns: string[], scene: ChartScene) => {
+    charts.push({ id, kind, title, columns, scene, svg: renderSVG(scene, title) });
+  };
+
+  for (const histogram of distributions.histograms) {
+    add(`histogram:${histogram.column}`, "histogram", `Distribution of ${histogram.column}`, [histogram.column], histogramScene(histogram));
+  }
+
+  report.columns
+    .filter(column => column.categorical && !column.categorical.allUnique && column.categorical.topValues.length > 1 && column.type !== "text")
+    .slice(0, MAX_BAR_CHARTS)
+    .forEach(column => {
+      add(`bar:${column.name}`, "bar", `Most frequent values of ${column.name}`, [column.name], barScene(column.categorical!.topValues, column.count));
+    });
+
+  const { missingness } = distributions;
+  if (missingness.missing.some(counts => counts.some(count => count > 0))) {
+    add("missingness", "missingness", "Missing values by column and row range", missingness.columns, missingnessScene(missingness));
+  }
+
+  if (correlations.numericColumns.length > 1) {
+    add("correlation:pearson", "correlation", "Pearson correlation heatmap", correlations.numericColumns, correlationScene(correlations.numericColumns, correlations.pearson));
+  }
+
+  const timeSeries = report.timeSeries;
+  if (timeSeries) {
+    timeSeries.metrics
+      .filter(metric => new Set(metric.values.filter(v => v !== null)).size > 1)
+      .slice(0, MAX_TIMESERIES_CHARTS)
+      .forEach(metric => {
+        const label = metric.aggregation === "count" ? "Rows" : `${metric.aggregation === "sum" ? "Total" : "Average"} ${metric.name}`;
+        add(
+          `timeseries:${metric.name}`,
+          "timeseries",
+          `${label} per ${timeSeries.granularity} (${timeSeries.column})`,
+          metric.column ? [timeSeries.column, metric.column] : [timeSeries.column],
+          lineScene(timeSeries.periods, metric.values, metric.rolling.mean, metric.rolling.window),
+        );
+      });
+  }
+
+  return charts;
+}
+
+// Short axis labels: 1,234 / 12.5K / 3.4M
+function compact(value: number): string {
+  const magnitude = Math.abs(value);
+  if (magnitude >= 1e9) return `${(value / 1e9).toFixed(1)}B`;
+  if (magnitude >= 1e6) return `${(value / 1e6).toFixed(1)}M`;
+  if (magnitude >= 1e4) return `${(value / 1e3).toFixed(1)}K`;
+  return value.toLocaleString(undefined, { maximumFractionDigits: magnitude >= 100 ? 0 : 2 });
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.substring(0, length - 1)}…` : text;
+}
+
+// Blends a hex color towards white; share 1 is the full color
+function tint(hex: string, share: number): string {
+  const channel = (offset: number) => {
+    const value = parseInt(hex.substring(offset, offset + 2), 16);
+    return Math.round(255 - (255 - value) * Math.max(0, Math.min(1, share))).toString(16).padStart(2, "0");
+  };
+  return `#${channel(1)}${channel(3)}${channel(5)}`;
+}
+
+// Draws horizontal grid lines at round steps (1, 2 or 5 times a power of ten) and returns the value-to-y mapping
+function valueAxis(shapes: ChartShape[], left: number, top: number, right: number, bottom: number, min: number, max: number): (value: number) => number {
+  const rough = (max - min || Math.abs(max) || 1) / 4;
+  const power = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 5, 10].map(multiple => multiple * power).find(candidate => candidate >= rough)!;
+  const axisMin = Math.floor(min / step) * step;
+  const axisMax = Math.max(Math.ceil(max / step) * step, axisMin + step);
+  const scale = (value: number) => bottom - ((value - axisMin) / (axisMax - axisMin)) * (bottom - top);
+  for (let value = axisMin; value <= axisMax + step / 2; value += step) {
+    const y = scale(value);
+    shapes.push({ type: "line", x1: left, y1: y, x2: right, y2: y, stroke: GRID });
+    shapes.push({ type: "text", x: left - 6, y: y + 3, text: compact(value), size: 9, anchor: "end", fill: TEXT });
+  }
+  shapes.push({ type: "line", x1: left, y1: bottom, x2: right, y2: bottom, stroke: AXIS });
+  return scale;
+}
+
+function histogramScene(histogram: ColumnHistogram): ChartScene {
+  const height = 220;
+  const [left, top, right, bottom] = [60, 14, WIDTH - 16, height - 40];
+  const shapes: ChartShape[] = [];
+  const maxCount = Math.max(...histogram.counts, 1);
+  const y = valueAxis(shapes, left, top, right, bottom, 0, maxCount);
+  const barWidth = (right - left) / histogram.counts.length;
+
+  histogram.counts.forEach((count, idx) => {
+    if (count === 0) return;
+    shapes.push({ type: "rect", x: left + idx * barWidth + 1, y: y(count), width: Math.max(1, barWidth - 2), height: bottom - y(count), fill: PRIMARY });
+  });
+
+  const end = histogram.binStart + histogram.binWidth * histogram.counts.length;
+  if (histogram.binWidth === 1 && Number.isInteger(histogram.binStart + 0.5)) {
+    // One bar per integer value: label the values under the bars rather than the bin edges
+    histogram.counts.forEach((_, idx) => {
+      if (histogram.counts.length <= 10 || idx % Math.ceil(histogram.counts.length / 10) === 0) {
+        shapes.push({ type: "text", x: left + (idx + 0.5) * barWidth, y: bottom + 14, text: compact(histogram.binStart + 0.5 + idx), size: 9, anchor: "middle", fill: TEXT });
+      }
+    });
+  } else {
+    shapes.push({ type: "text", x: left, y: bottom + 14, text: compact(histogram.binStart), size: 9, anchor: "start", fill: TEXT });
+    shapes.push({ type: "text", x: (left + right) / 2, y: bottom + 14, text: compact((histogram.binStart + end) / 2), size: 9, anchor: "middle", fill: TEXT });
+    shapes.push({ type: "text", x: right, y: bottom + 14, text: compact(end), size: 9, anchor: "end", fill: TEXT });
+  }
+  if (histogram.below > 0 || histogram.above > 0) {
+    shapes.push({
+      type: "text",
+      x: left,
+      y: bottom + 30,
+      text: `Not shown: ${[histogram.below > 0 ? `${histogram.below.toLocaleString()} below` : "", histogram.above > 0 ? `${histogram.above.toLocaleString()} above` : ""].filter(Boolean).join(", ")} the plotted range (extreme outliers)`,
+      size: 9,
+      fill: TEXT,
+    });
+  }
+  return { width: WIDTH, height, shapes };
+}
+
+function barScene(values: Array<{ value: string; count: number; percent: number }>, observations: number): ChartScene {
+  const rowHeight = 22;
+  const height = values.length * rowHeight + 20;
+  const [left, right] = [150, WIDTH - 90];
+  const shapes: ChartShape[] = [];
+  const maxCount = Math.max(...values.map(v => v.count), 1);
+
+  values.forEach(({ value, count, percent }, idx) => {
+    const y = 10 + idx * rowHeight;
+    const width = ((right - left) * count) / maxCount;
+    shapes.push({ type: "text", x: left - 8, y: y + 14, text: truncate(value || "(empty)", 22), size: 10, anchor: "end", fill: TEXT });
+    shapes.push({ type: "rect", x: left, y: y + 3, width: Math.max(1, width), height: rowHeight - 6, fill: SECONDARY });
+    shapes.push({ type: "text", x: left + width + 6, y: y + 14, text: `${count.toLocaleString()} (${percent.toFixed(1)}%)`, size: 9, fill: TEXT });
+  });
+  shapes.push({ type: "line", x1: left, y1: 10, x2: left, y2: height - 10, stroke: AXIS });
+  if (observations > values.reduce((sum, v) => sum + v.count, 0)) {
+    shapes.push({ type: "text", x: left, y: height - 1, text: "Other values not shown", size: 8, fill: AXIS });
+  }
+  return { width: WIDTH, height, shapes };
+}
+
+function missingnessScene(grid: MissingnessGrid): ChartScene {
+  const rowHeight = 14;
+  const [left, top] = [150, 10];
+  const right = WIDTH - 16;
+  const height = top + grid.columns.length * rowHeight + 40;
+  const cellWidth = (right - left) / Math.max(1, grid.blockRows.length);
+  const shapes: ChartShape[] = [];
+
+  grid.columns.forEach((column, c) => {
+    const y = top + c * rowHeight;
+    shapes.push({ type: "text", x: left - 8, y: y + 10, text: truncate(column, 22), size: 9, anchor: "end", fill: TEXT });
+    grid.blockRows.forEach((rows, b) => {
+      const share = rows > 0 ? grid.missing[c][b] / rows : 0;
+      shapes.push({ type: "rect", x: left + b * cellWidth, y, width: cellWidth + 0.2, height: rowHeight - 1, fill: share > 0 ? tint(MISSING, 0.25 + share * 0.75) : "#f8fafc" });
+    });
+  });
+
+  const bottom = top + grid.columns.length * rowHeight;
+  const totalRows = grid.blockRows.reduce((sum, rows) => sum + rows, 0);
+  shapes.push({ type: "text", x: left, y: bottom + 14, text: "Row 1", size: 9, fill: TEXT });
+  shapes.push({ type: "text", x: right, y: bottom + 14, text: `Row ${totalRows.toLocaleString()}`, size: 9, anchor: "end", fill: TEXT });
+  shapes.push({ type: "rect", x: left, y: bottom + 22, width: 10, height: 10, fill: tint(MISSING, 1) });
+  shapes.push({ type: "text", x: left + 14, y: bottom + 31, text: `Darker cells have more missing values (${grid.blockSize.toLocaleString()} rows per cell)`, size: 9, fill: TEXT });
+  return { width: WIDTH, height, shapes };
+}
+
+function correlationScene(columns: string[], matrix: Array<Array<number | null>>): ChartScene {
+  const size = Math.min(30, Math.floor((WIDTH - 180) / columns.length));
+  const [left, top] = [170, 24];
+  const height = top + size * columns.length + 30;
+  const shapes: ChartShape[] = [];
+
+  columns.forEach((column, i) => {
+    shapes.push({ type: "text", x: left - 8, y: top + i * size + size / 2 + 3, text: `${i + 1}. ${truncate(column, 20)}`, size: 9, anchor: "end", fill: TEXT });
+    shapes.push({ type: "text", x: left + i * size + size / 2, y: top - 6, text: String(i + 1), size: 9, anchor: "middle", fill: TEXT });
+    columns.forEach((_, j) => {
+      const value = matrix[i][j];
+      shapes.push({
+        type: "rect",
+        x: left + j * size,
+        y: top + i * size,
+        width: size - 1,
+        height: size - 1,
+        fill: value === null ? "#f1f5f9" : tint(value >= 0 ? PRIMARY : NEGATIVE, Math.abs(value)),
+      });
+      if (value !== null && size >= 22) {
+        shapes.push({ type: "text", x: left + j * size + size / 2, y: top + i * size + size / 2 + 3, text: value.toFixed(1), size: 8, anchor: "middle", fill: Math.abs(value) > 0.6 ? "#ffffff" : TEXT });
+      }
+    });
+  });
+
+  const legendY = top + size * columns.length + 12;
+  shapes.push({ type: "rect", x: left, y: legendY, width: 10, height: 10, fill: NEGATIVE });
+  shapes.push({ type: "text", x: left + 14, y: legendY + 9, text: "negative", size: 9, fill: TEXT });
+  shapes.push({ type: "rect", x: left + 70, y: legendY, width: 10, height: 10, fill: PRIMARY });
+  shapes.push({ type: "text", x: left + 84, y: legendY + 9, text: "positive (darker = stronger)", size: 9, fill: TEXT });
+  return { width: WIDTH, height, shapes };
+}
+
+function lineScene(periods: string[], values: Array<number | null>, rollingMean: Array<number | null>, window: number): ChartScene {
+  const height = 220;
+  const [left, top, right, bottom] = [60, 14, WIDTH - 16, height - 44];
+  const shapes: ChartShape[] = [];
+  const present = values.filter((v): v is number => v !== null);
+  const min = Math.min(0, ...present);
+  const max = Math.max(...present);
+  const y = valueAxis(shapes, left, top, right, bottom, min, max);
+  const x = (idx: number) => left + (periods.length > 1 ? (idx / (periods.length - 1)) * (right - left) : (right - left) / 2);
+
+  // Gaps in the series break the line rather than being drawn as zero
+  const segments = (series: Array<number | null>) => {
+    const result: Array<Array<[number, number]>> = [];
+    let current: Array<[number, number]> = [];
+    series.forEach((value, idx) => {
+      if (value === null) {
+        if (current.length > 0) result.push(current);
+        current = [];
+      } else {
+        current.push([x(idx), y(value)]);
+      }
+    });
+    if (current.length > 0) result.push(current);
+    return result;
+  };
+
+  for (const points of segments(values)) {
+    if (points.length === 1) shapes.push({ type: "rect", x: points[0][0] - 1.5, y: points[0][1] - 1.5, width: 3, height: 3, fill: PRIMARY });
+    else shapes.push({ type: "polyline", points, stroke: PRIMARY, width: 1.5 });
+  }
+  for (const points of segments(rollingMean)) {
+    if (points.length > 1) shapes.push({ type: "polyline", points, stroke: SECONDARY, width: 1.5, dashed: true });
+  }
+
+  shapes.push({ type: "text", x: left, y: bottom + 14, text: periods[0], size: 9, anchor: "start", fill: TEXT });
+  if (periods.length > 2) {
+    shapes.push({ type: "text", x: x(Math.floor((periods.length - 1) / 2)), y: bottom + 14, text: periods[Math.floor((periods.length - 1) / 2)], size: 9, anchor: "middle", fill: TEXT });
+  }
+  shapes.push({ type: "text", x: right, y: bottom + 14, text: periods[periods.length - 1], size: 9, anchor: "end", fill: TEXT });
+  shapes.push({ type: "line", x1: left, y1: bottom + 28, x2: left + 18, y2: bottom + 28, stroke: PRIMARY, width: 1.5 });
+  shapes.push({ type: "text", x: left + 22, y: bottom + 31, text: "per period", size: 9, fill: TEXT });
+  shapes.push({ type: "line", x1: left + 90, y1: bottom + 28, x2: left + 108, y2: bottom + 28, stroke: SECONDARY, width: 1.5, dashed: true });
+  shapes.push({ type: "text", x: left + 112, y: bottom + 31, text: `${window}-period rolling mean`, size: 9, fill: TEXT });
+  return { width: WIDTH, height, shapes };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+export function renderSVG(scene: ChartScene, title: string): string {
+  const round = (value: number) => Math.round(value * 10) / 10;
+  const elements = scene.shapes.map(shape => {
+    switch (shape.type) {
+      case "rect":
+        return `<rect x="${round(shape.x)}" y="${round(shape.y)}" width="${round(shape.width)}" height="${round(shape.height)}" fill="${shape.fill}"${shape.stroke ? ` stroke="${shape.stroke}"` : ""}/>`;
+      case "line":
+        return `<line x1="${round(shape.x1)}" y1="${round(shape.y1)}" x2="${round(shape.x2)}" y2="${round(shape.y2)}" stroke="${shape.stroke}" stroke-width="${shape.width ?? 1}"${shape.dashed ? ' stroke-dasharray="4 3"' : ""}/>`;
+      case "polyline":
+        return `<polyline points="${shape.points.map(([x, y]) => `${round(x)},${round(y)}`).join(" ")}" fill="none" stroke="${shape.stroke}" stroke-width="${shape.width ?? 1}"${shape.dashed ? ' stroke-dasharray="4 3"' : ""}/>`;
+      case "text":
+        return `<text x="${round(shape.x)}" y="${round(shape.y)}" font-size="${shape.size}" fill="${shape.fill ?? TEXT}"${shape.anchor && shape.anchor !== "start" ? ` text-anchor="${shape.anchor}"` : ""}${shape.bold ? ' font-weight="bold"' : ""}>${escapeXml(shape.text)}</text>`;
+    }
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${scene.width} ${scene.height}" width="${scene.width}" height="${scene.height}" role="img" font-family="Helvetica, Arial, sans-serif"><title>${escapeXml(title)}</title>${elements.join("")}</svg>`;
+}
+
+function pdfColor(hex: string): string {
+  return [1, 3, 5].map(offset => (parseInt(hex.substring(offset, offset + 2), 16) / 255).toFixed(3)).join(" ");
+}
+
+// A font resource of the PDF page: `encode` turns text into a string operand for Tj, `measure` gives its width in points
+export interface PDFFont {
+  name: string;
+  encode(text: string): string;
+  measure(text: string, size: number): number;
+}
+
+// Draws a scene into a PDF content stream with its top-left corner at (x, top) in PDF coordinates
+export function renderPDFOperators(scene: ChartScene, x: number, top: number, scale: number, fonts: { regular: PDFFont; bold: PDFFont }): string {
+  const px = (value: number) => (x + value * scale).toFixed(2);
+  const py = (value: number) => (top - value * scale).toFixed(2);
+  const ops: string[] = ["q"];
+
+  for (const shape of scene.shapes) {
+    switch (shape.type) {
+      case "rect":
+        ops.push(`${pdfColor(shape.fill)} rg`);
+        ops.push(`${px(shape.x)} ${py(shape.y + shape.height)} ${(shape.width * scale).toFixed(2)} ${(shape.height * scale).toFixed(2)} re f`);
+        break;
+      case "line":
+      case "polyline": {
+        const points = shape.type === "line" ? [[shape.x1, shape.y1], [shape.x2, shape.y2]] : shape.points;
+        ops.push(`${pdfColor(shape.stroke)} RG ${((shape.width ?? 1) * scale).toFixed(2)} w ${shape.dashed ? "[3 2] 0 d" : "[] 0 d"}`);
+        ops.push(points.map(([px1, py1], idx) => `${px(px1)} ${py(py1)} ${idx === 0 ? "m" : "l"}`).join(" ") + " S");
+        break;
+      }
+      case "text": {
+        const size = shape.size * scale;
+        const font = shape.bold ? fonts.bold : fonts.regular;
+        const width = font.measure(shape.text, size);
+        const offset = shape.anchor === "middle" ? width / 2 : shape.anchor === "end" ? width : 0;
+        ops.push(`${pdfColor(shape.fill ?? TEXT)} rg`);
+        ops.push(`BT /${font.name} ${size.toFixed(2)} Tf ${(x + shape.x * scale - offset).toFixed(2)} ${py(shape.y)} Td ${font.encode(shape.text)} Tj ET`);
+        break;
+      }
+    }
+  }
+
+  ops.push("Q");
+  return ops.join("\n");
+}
@@ -0,0 +1,508 @@
+import { SchemaInferrer, type ColumnType, type TableSchema } from "./schemaTool.ts";
+import { hashString, type ColumnProfile, type TableProfile } from "./streamTool.ts";
+import type { ReportTable } from "./correlationTool.ts";
+import type { InsightLine } from "./insightTool.ts";
+
+// Compares two versions of a table (last month's export against this month's, staging against production):
+// which columns were added, removed or retyped, how the row count changed, and how far each shared column's
+// distribution moved. With key columns, rows are also matched one to one to count added, removed and changed rows.
+
+export type ShiftLevel = "stable" | "moderate" | "major";
+
+// Population Stability Index bands: below 0.1 the distribution is stable, from 0.25 it has shifted materially
+const PSI_MODERATE = 0.1;
+const PSI_MAJOR = 0.25;
+// Share given to empty bins, so a value range that appears or disappears yields a large but finite PSI
+const PSI_FLOOR = 0.0001;
+// Missing rates that move by more than this many percentage points are reported even when the values did not shift
+const MISSING_CHANGE_POINTS = 5;
+// Baseline rows held in memory for the key comparison
+export const MAX_KEY_ROWS = 1_000_000;
+
+export interface ComparedTable {
+  name: string; // File and sheet, shown in the report
+  headers: string[];
+  schema: TableSchema;
+  profile: TableProfile;
+}
+
+export interface ColumnComparison {
+  name: string;
+  baselineType: ColumnType;
+  currentType: ColumnType;
+  missingPercent: { baseline: number; current: number };
+  distinct: { baseline: number; current: number };
+  numeric?: {
+    baseline: { mean: number; median: number; stdDev: number; min: number; max: number };
+    current: { mean: number; median: number; stdDev: number; min: number; max: number };
+    meanChangePercent: number | null; // Null when the baseline mean is zero
+  };
+  categorical?: {
+    topChanges: Array<{ value: string; baselinePercent: number; currentPercent: number }>; // Largest share changes first
+    newValues: string[]; // Frequent current values the baseline's frequent values do not include
+    droppedValues: string[];
+  };
+  temporal?: { baseline: { min: string; max: string }; current: { min: string; max: string } }; // ISO 8601
+  psi: number | null; // Null for free text, identifiers and columns whose two types cannot be compared
+  shift: ShiftLevel | null;
+  changedRows?: number; // Key comparison: matched rows whose value in this column differs
+}
+
+export interface KeyComparison {
+  keys: string[];
+  addedRows: number; // Keys only in the current table
+  removedRows: number; // Keys only in the baseline
+  changedRows: number; // Keys in both whose shared columns differ
+  unchangedRows: number;
+  duplicateKeys: { baseline: number; current: number }; // Rows whose key repeats an earlier row; only the first is compared
+  emptyKeys: { baseline: number; current: number }; // Rows with an empty key column, left out of the comparison
+}
+
+export interface DatasetComparison {
+  title: string;
+  subtitle: string;
+  generatedAt: string;
+  baseline: { name: string; rowCount: number; columnCount: number; duplicateRows: number };
+  current: { name: string; rowCount: number; columnCount: number; duplicateRows: number };
+  rowCountChange: number;
+  rowCountChangePercent: number | null; // Null when the baseline is empty
+  addedColumns: string[];
+  removedColumns: string[];
+  typeChanges: Array<{ column: string; from: ColumnType; to: ColumnType }>;
+  columns: ColumnComparison[]; // Columns present in both tables, in baseline order
+  keyComparison: KeyComparison | null;
+  keyComparisonSkipped?: string; // Why the key comparison was not run
+}
+
+// Column positions shared by both tables, matched by name (case-insensitive)
+interface SharedColumn {
+  name: string;
+  baselineIdx: number;
+  currentIdx: number;
+  edges: number[] | null; // Bin edges from the baseline when both sides are numeric or both are dates
+  parse: ((value: string, side: "baseline" | "current") => number | null) | null; // Dates follow each side's day order
+  numeric: boolean;
+}
+
+// Feed every baseline row, then every current row; finish() builds the comparison. Categorical columns are compared
+// from the profiles alone; numeric columns are binned on the baseline quartiles and date columns on quarters of the
+// baseline's date range as rows arrive.
+export class ComparisonAnalyzer {
+  private inferrer = new SchemaInferrer();
+  private shared: SharedColumn[];
+  private bins: { baseline: number[][]; current: number[][] };
+  private keyState: {
+    baselineKeys: number[];
+    currentKeys: number[];
+    rows: Map<string, Float64Array>;
+    seen: Set<string>;
+    currentSeen: Set<string>;
+    changedRows: number;
+    unchangedRows: number;
+    addedRows: number;
+    columnChanges: number[];
+    duplicateKeys: { baseline: number; current: number };
+    emptyKeys: { baseline: number; current: number };
+  } | null = null;
+  private keySkipped?: string;
+
+  constructor(private baseline: ComparedTable, private current: ComparedTable, keys?: { baseline: number[]; current: number[] }) {
+    const currentPositions = new Map(current.headers.map((name, idx) => [name.trim().toLowerCase(), idx]));
+    this.shared = [];
+    baseline.headers.forEach((name, baselineIdx) => {
+      const currentIdx = currentPositions.get(name.trim().toLowerCase());
+      if (currentIdx === undefined) return;
+      const { numeric: numericProfile, temporal } = baseline.profile.columns[baselineIdx];
+      const baselineType = baseline.schema.columns[baselineIdx].type;
+      const currentType = current.schema.columns[currentIdx].type;
+      const numeric = this.inferrer.isNumeric(baselineType) && this.inferrer.isNumeric(currentType);
+      const dates = this.inferrer.isTemporal(baselineType) && this.inferrer.isTemporal(currentType);
+
+      let edges: number[] | null = null;
+      let parse: SharedColumn["parse"] = null;
+      if (numeric && numericProfile && numericProfile.count > 0) {
+        edges = [numericProfile.min, numericProfile.q1, numericProfile.median, numericProfile.q3, numericProfile.max];
+        parse = value => this.inferrer.parseNumber(value);
+      } else if (dates && temporal && temporal.count > 0 && temporal.max > temporal.min) {
+        const span = temporal.max - temporal.min;
+        edges = [temporal.min, temporal.min + span / 4, temporal.min + span / 2, temporal.min + (span * 3) / 4, temporal.max];
+        const dayFirst = { baseline: baseline.schema.columns[baselineIdx].dayFirst, current: current.schema.columns[currentIdx].dayFirst };
+        parse = (value, side) => this.inferrer.parseDate(value, dayFirst[side]);
+      }
+      this.shared.push({ name, baselineIdx, currentIdx, edges, parse, numeric });
+    });
+    this.bins = {
+      baseline: this.shared.map(() => new Array(6).fill(0)),
+      current: this.shared.map(() => new Array(6).fill(0)),
+    };
+
+    if (keys && keys.baseline.length > 0) {
+      if (baseline.profile.rowCount > MAX_KEY_ROWS) {
+        this.keySkipped = `The baseline has more than ${MAX_KEY_ROWS.toLocaleString()} rows, too many to match by key in memory.`;
+      } else {
+        this.keyState = {
+          baselineKeys: keys.baseline,
+          currentKeys: keys.current,
+          rows: new Map(),
+          seen: new Set(),
+          currentSeen: new Set(),
+          changedRows: 0,
+          unchangedRows: 0,
+          addedRows: 0,
+          columnChanges: this.shared.map(() => 0),
+          duplicateKeys: { baseline: 0, current: 0 },
+          emptyKeys: { baseline: 0, current: 0 },
+        };
+      }
+    }
+  }
+
+  // Only numeric and date columns are binned; without a key comparison the categorical profiles say enough
+  get needsRows(): boolean {
+    return this.keyState !== null || this.shared.some(column => column.edges !== null);
+  }
+
+  addBaselineRow(row: string[]): void {
+    this.binRow(row, "baseline");
+    const state = this.keyState;
+    if (!state) return;
+
+    const key = this.keyOf(row, state.baselineKeys);
+    if (key === null) {
+      state.emptyKeys.baseline++;
+    } else if (state.rows.has(key)) {
+      state.duplicateKeys.baseline++;
+    } else {
+      state.rows.set(key, this.hashRow(row, "baseline"));
+    }
+  }
+
+  addCurrentRow(row: string[]): void {
+    this.binRow(row, "current");
+    const state = this.keyState;
+    if (!state) return;
+
+    const key = this.keyOf(row, state.currentKeys);
+    if (key === null) {
+      state.emptyKeys.current++;
+      return;
+    }
+    if (state.currentSeen.has(key)) {
+      state.duplicateKeys.current++;
+      return;
+    }
+    state.currentSeen.add(key);
+
+    const baselineHashes = state.rows.get(key);
+    if (!baselineHashes) {
+      state.addedRows++;
+      return;
+    }
+    state.seen.add(key);
+    const hashes = this.hashRow(row, "current");
+    let changed = false;
+    hashes.forEach((hash, idx) => {
+      if (hash !== baselineHashes[idx]) {
+        state.columnChanges[idx]++;
+        changed = true;
+      }
+    });
+    if (changed) state.changedRows++;
+    else state.unchangedRows++;
+  }
+
+  finish(): DatasetComparison {
+    const { baseline, current } = this;
+    const currentNames = new Set(current.headers.map(name => name.trim().toLowerCase()));
+    const baselineNames = new Set(baseline.headers.map(name => name.trim().toLowerCase()));
+    const typeChanges: DatasetComparison["typeChanges"] = [];
+
+    const columns = this.shared.map((column, sharedIdx): ColumnComparison => {
+      const before = baseline.profile.columns[column.baselineIdx];
+      const after = current.profile.columns[column.currentIdx];
+      const baselineType = baseline.schema.columns[column.baselineIdx].type;
+      const currentType = current.schema.columns[column.currentIdx].type;
+      if (baselineType !== currentType) typeChanges.push({ column: column.name, from: baselineType, to: currentType });
+
+      const comparison: ColumnComparison = {
+        name: column.name,
+        baselineType,
+        currentType,
+        missingPercent: { baseline: missingPercent(before), current: missingPercent(after) },
+        distinct: { baseline: before.distinct, current: after.distinct },
+        psi: null,
+        shift: null,
+      };
+
+      if (column.numeric && before.numeric && after.numeric) {
+        const summary = (numeric: NonNullable<ColumnProfile["numeric"]>) => ({
+          mean: numeric.mean,
+          median: numeric.median,
+          stdDev: numeric.stdDev,
+          min: numeric.min,
+          max: numeric.max,
+        });
+        comparison.numeric = {
+          baseline: summary(before.numeric),
+          current: summary(after.numeric),
+          meanChangePercent: before.numeric.mean !== 0 ? ((after.numeric.mean - before.numeric.mean) / Math.abs(before.numeric.mean)) * 100 : null,
+        };
+        if (column.edges) comparison.psi = psi(this.bins.baseline[sharedIdx], this.bins.current[sharedIdx]);
+      } else if (baselineType === currentType && (baselineType === "categorical" || baselineType === "boolean")) {
+        Object.assign(comparison, this.compareCategories(before, after));
+      } else if (this.inferrer.isTemporal(baselineType) && this.inferrer.isTemporal(currentType) && before.temporal && after.temporal) {
+        const range = (temporal: { min: number; max: number }) => ({ min: new Date(temporal.min).toISOString(), max: new Date(temporal.max).toISOString() });
+        comparison.temporal = { baseline: range(before.temporal), current: range(after.temporal) };
+        if (column.edges) comparison.psi = psi(this.bins.baseline[sharedIdx], this.bins.current[sharedIdx]);
+      }
+
+      if (comparison.psi !== null) comparison.shift = shiftLevel(comparison.psi);
+      if (this.keyState) comparison.changedRows = this.keyState.columnChanges[sharedIdx];
+      return comparison;
+    });
+
+    let keyComparison: KeyComparison | null = null;
+    if (this.keyState) {
+      const state = this.keyState;
+      keyComparison = {
+        keys: state.baselineKeys.map(idx => baseline.headers[idx]),
+        addedRows: state.addedRows,
+        removedRows: state.rows.size - state.seen.size,
+        changedRows: state.changedRows,
+        unchangedRows: state.unchangedRows,
+        duplicateKeys: state.duplicateKeys,
+        emptyKeys: state.emptyKeys,
+      };
+    }
+
+    const rowCountChange = current.profile.rowCount - baseline.profile.rowCount;
+    return {
+      title: "DATASET COMPARISON REPORT",
+      subtitle: `${baseline.name} compared with ${current.name}`,
+      generatedAt: new Date().toISOString(),
+      baseline: { name: baseline.name, rowCount: baseline.profile.rowCount, columnCount: baseline.headers.length, duplicateRows: baseline.profile.duplicateRows },
+      current: { name: current.name, rowCount: current.profile.rowCount, columnCount: current.headers.length, duplicateRows: current.profile.duplicateRows },
+      rowCountChange,
+      rowCountChangePercent: baseline.profile.rowCount > 0 ? (rowCountChange / baseline.profile.rowCount) * 100 : null,
+      addedColumns: current.headers.filter(name => !baselineNames.has(name.trim().toLowerCase())),
+      removedColumns: baseline.headers.filter(name => !currentNames.has(name.trim().toLowerCase())),
+      typeChanges,
+      columns,
+      keyComparison,
+      keyComparisonSkipped: this.keySkipped,
+    };
+  }
+
+  // Top values of both profiles plus "everything else" form the categories; shares are of non-empty values
+  private compareCategories(before: ColumnProfile, after: ColumnProfile): Pick<ColumnComparison, "categorical" | "psi"> {
+    const beforeCounts = new Map(before.topValues.map(top => [top.value, top.count]));
+    const afterCounts = new Map(after.topValues.map(top => [top.value, top.count]));
+    const values = [...new Set([...beforeCounts.keys(), ...afterCounts.keys()])];
+    const share = (counts: Map<string, number>, total: number, value: string) => (total > 0 ? (counts.get(value) ?? 0) / total : 0);
+
+    const beforeShares = values.map(value => share(beforeCounts, before.count, value));
+    const afterShares = values.map(value => share(afterCounts, after.count, value));
+    const other = (shares: number[]) => Math.max(0, 1 - shares.reduce((sum, value) => sum + value, 0));
+    const psiValue = before.count > 0 && after.count > 0
+      ? psi([...beforeShares, other(beforeShares)], [...afterShares, other(afterShares)])
+      : null;
+
+    const topChanges = values
+      .map((value, idx) => ({ value, baselinePercent: beforeShares[idx] * 100, currentPercent: afterShares[idx] * 100 }))
+      .sort((a, b) => Math.abs(b.currentPercent - b.baselinePercent) - Math.abs(a.currentPercent - a.baselinePercent))
+      .slice(0, 5);
+
+    return {
+      categorical: {
+        topChanges,
+        newValues: values.filter(value => !beforeCounts.has(value) && afterCounts.has(value)),
+        droppedValues: values.filter(value => beforeCounts.has(value) && !afterCounts.has(value)),
+      },
+      psi: psiValue,
+    };
+  }
+
+  // Bins: below the baseline minimum, four bins between the baseline edges, above the baseline maximum
+  private binRow(row: string[], side: "baseline" | "current"): void {
+    this.shared.forEach((column, sharedIdx) => {
+      if (!column.edges || !column.parse) return;
+      const raw = row[side === "baseline" ? column.baselineIdx : column.currentIdx] ?? "";
+      if (!raw.trim()) return;
+      const value = column.parse(raw, side);
+      if (value === null) return;
+
+      const [min, q1, median, q3, max] = column.edges;
+      const bin = value < min ? 0 : value < q1 ? 1 : value < median ? 2 : value < q3 ? 3 : value <= max ? 4 : 5;
+      this.bins[side][sharedIdx][bin]++;
+    });
+  }
+
+  private keyOf(row: string[], keys: number[]): string | null {
+    const parts: string[] = [];
+    for (const idx of keys) {
+      const value = (row[idx] ?? "").trim();
+      if (!value) return null;
+      parts.push(value);
+    }
+    return parts.join("\u0000");
+  }
+
+  // Shared column values as hashes; numbers compare by value, so "5" and "5.0" are not a change
+  private hashRow(row: string[], side: "baseline" | "current"): Float64Array {
+    const hashes = new Float64Array(this.shared.length);
+    this.shared.forEach((column, idx) => {
+      const raw = (row[side === "baseline" ? column.baselineIdx : column.currentIdx] ?? "").trim();
+      const parsed = column.numeric && raw ? this.inferrer.parseNumber(raw) : null;
+      hashes[idx] = hashString(parsed === null ? raw : String(parsed));
+    });
+    return hashes;
+  }
+}
+
+function missingPercent(column: ColumnProfile): number {
+  const total = column.count + column.missing;
+  return total > 0 ? (column.missing / total) * 100 : 0;
+}
+
+// Takes counts or shares; both sides are normalized to shares first
+function psi(baseline: number[], current: number[]): number {
+  const baselineTotal = baseline.reduce((sum, value) => sum + value, 0);
+  const currentTotal = current.reduce((sum, value) => sum + value, 0);
+  if (baselineTotal === 0 || currentTotal === 0) return 0;
+
+  let total = 0;
+  baseline.forEach((count, idx) => {
+    const expected = Math.max(count / baselineTotal, PSI_FLOOR);
+    const actual = Math.max(current[idx] / currentTotal, PSI_FLOOR);
+    total += (actual - expected) * Math.log(actual / expected);
+  });
+  return total;
+}
+
+function shiftLevel(value: number): ShiftLevel {
+  return value >= PSI_MAJOR ? "major" : value >= PSI_MODERATE ? "moderate" : "stable";
+}
+
+const formatNumber = (value: number) => (Math.abs(value) >= 1000 || Number.isInteger(value) ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : value.toPrecision(4));
+const formatSigned = (value: number, digits = 1) => `${value > 0 ? "+" : ""}${value.toFixed(digits)}`;
+
+// Lays the comparison out in the same tagged lines as the insight report, so the existing renderers can show it
+export function renderComparisonLines(comparison: DatasetComparison): InsightLine[] {
+  const lines: InsightLine[] = [];
+  const blank = () => lines.push({ kind: "blank", text: "" });
+  const heading = (text: string) => {
+    blank();
+    lines.push({ kind: "heading", text });
+    blank();
+  };
+  const text = (value: string) => {
+    lines.push({ kind: "text", text: value });
+    blank();
+  };
+  const { baseline, current } = comparison;
+
+  lines.push({ kind: "title", text: comparison.title });
+  lines.push({ kind: "subtitle", text: comparison.subtitle });
+  blank();
+
+  heading("SUMMARY");
+  const shifted = comparison.columns.filter(column => column.shift === "major" || column.shift === "moderate");
+  text(`The baseline (${baseline.name}) has ${baseline.rowCount.toLocaleString()} rows and ${baseline.columnCount} columns; the current table (${current.name}) has ${current.rowCount.toLocaleString()} rows and ${current.columnCount} columns. The row count changed by ${formatSigned(comparison.rowCountChange, 0)}${comparison.rowCountChangePercent !== null ? ` (${formatSigned(comparison.rowCountChangePercent)}%)` : ""}. ${comparison.addedColumns.length + comparison.removedColumns.length + comparison.typeChanges.length === 0 ? "The schema is unchanged" : `${comparison.addedColumns.length} column(s) were added, ${comparison.removedColumns.length} removed and ${comparison.typeChanges.length} changed type`}, and ${shifted.length === 0 ? "no shared column shows a material distribution shift" : `${shifted.length} of ${comparison.columns.length} shared columns shifted (${shifted.map(column => column.name).join(", ")})`}.`);
+
+  heading("SCHEMA DIFFERENCES");
+  if (comparison.addedColumns.length > 0) text(`Added columns: ${comparison.addedColumns.join(", ")}.`);
+  if (comparison.removedColumns.length > 0) text(`Removed columns: ${comparison.removedColumns.join(", ")}.`);
+  comparison.typeChanges.forEach(change => text(`${change.column} changed type from ${change.from} to ${change.to}.`));
+  if (comparison.addedColumns.length + comparison.removedColumns.length + comparison.typeChanges.length === 0) {
+    text("Both tables have the same columns with the same inferred types.");
+  }
+
+  heading("ROW CHANGES");
+  text(`Rows: ${baseline.rowCount.toLocaleString()} to ${current.rowCount.toLocaleString()}. Duplicate rows: ${baseline.duplicateRows.toLocaleString()} to ${current.duplicateRows.toLocaleString()}.`);
+  const keys = comparison.keyComparison;
+  if (keys) {
+    text(`Matched on ${keys.keys.join(", ")}: ${keys.addedRows.toLocaleString()} rows added, ${keys.removedRows.toLocaleString()} removed, ${keys.changedRows.toLocaleString()} changed and ${keys.unchangedRows.toLocaleString()} unchanged.`);
+    if (keys.duplicateKeys.baseline + keys.duplicateKeys.current > 0) {
+      text(`The key repeats in ${keys.duplicateKeys.baseline.toLocaleString()} baseline and ${keys.duplicateKeys.current.toLocaleString()} current rows; only the first row per key was compared, so the key may not identify rows uniquely.`);
+    }
+    if (keys.emptyKeys.baseline + keys.emptyKeys.current > 0) {
+      text(`${keys.emptyKeys.baseline.toLocaleString()} baseline and ${keys.emptyKeys.current.toLocaleString()} current rows have an empty key and were not matched.`);
+    }
+    const changedColumns = comparison.columns.filter(column => (column.changedRows ?? 0) > 0).sort((a, b) => b.changedRows! - a.changedRows!);
+    if (changedColumns.length > 0) {
+      text(`Most edited columns: ${changedColumns.slice(0, 5).map(column => `${column.name} (${column.changedRows!.toLocaleString()} rows)`).join(", ")}.`);
+    }
+  } else if (comparison.keyComparisonSkipped) {
+    text(`Rows were not matched by key. ${comparison.keyComparisonSkipped}`);
+  }
+
+  heading("DISTRIBUTION SHIFTS");
+  text(`Shifts are measured with the Population Stability Index (PSI) against the baseline: below ${PSI_MODERATE} is stable, ${PSI_MODERATE} to ${PSI_MAJOR} a moderate shift, ${PSI_MAJOR} or more a major shift. Numeric columns are binned on the baseline quartiles, date columns on quarters of the baseline's date range, and categorical columns compare the shares of their most frequent values.`);
+  let reported = 0;
+  for (const column of comparison.columns) {
+    const missingChange = column.missingPercent.current - column.missingPercent.baseline;
+    const notable = column.shift === "major" || column.shift === "moderate" || Math.abs(missingChange) > MISSING_CHANGE_POINTS || column.baselineType !== column.currentType;
+    if (!notable) continue;
+    reported++;
+
+    const shiftText = column.shift === "stable" ? "stable" : `${column.shift} shift`;
+    lines.push({ kind: "subheading", text: `${column.name}${column.shift ? ` - ${shiftText} (PSI ${column.psi!.toFixed(3)})` : ""}` });
+    if (Math.abs(missingChange) > MISSING_CHANGE_POINTS) {
+      text(`Missing values went from ${column.missingPercent.baseline.toFixed(1)}% to ${column.missingPercent.current.toFixed(1)}% (${formatSigned(missingChange)} points).`);
+    }
+    if (column.numeric) {
+      const { baseline: before, current: after, meanChangePercent } = column.numeric;
+      text(`Mean ${formatNumber(before.mean)} to ${formatNumber(after.mean)}${meanChangePercent !== null ? ` (${formatSigned(meanChangePercent)}%)` : ""}, median ${formatNumber(before.median)} to ${formatNumber(after.median)}, standard deviation ${formatNumber(before.stdDev)} to ${formatNumber(after.stdDev)}, range ${formatNumber(before.min)}-${formatNumber(before.max)} to ${formatNumber(after.min)}-${formatNumber(after.max)}.`);
+    }
+    if (column.categorical) {
+      const changes = column.categorical.topChanges.filter(change => Math.abs(change.currentPercent - change.baselinePercent) >= 0.5);
+      if (changes.length > 0) {
+        text(`Largest share changes: ${changes.map(change => `${change.value} ${change.baselinePercent.toFixed(1)}% to ${change.currentPercent.toFixed(1)}%`).join("; ")}.`);
+      }
+      if (column.categorical.newValues.length > 0) text(`New frequent values: ${column.categorical.newValues.slice(0, 10).join(", ")}.`);
+      if (column.categorical.droppedValues.length > 0) text(`No longer frequent: ${column.categorical.droppedValues.slice(0, 10).join(", ")}.`);
+    }
+    if (column.temporal) {
+      text(`Range ${column.temporal.baseline.min.substring(0, 10)} to ${column.temporal.baseline.max.substring(0, 10)} became ${column.temporal.current.min.substring(0, 10)} to ${column.temporal.current.max.substring(0, 10)}.`);
+    }
+    if (column.baselineType !== column.currentType) {
+      text(`Inferred type changed from ${column.baselineType} to ${column.currentType}${column.psi === null ? "; the values are not comparable across the two types" : ""}.`);
+    }
+  }
+  if (reported === 0) text("No shared column shows a notable distribution or missing-value change.");
+
+  while (lines.length > 0 && lines[lines.length - 1].kind === "blank") lines.pop();
+  return lines;
+}
+
+export function renderComparisonText(comparison: DatasetComparison): string {
+  return renderComparisonLines(comparison).map(line => line.text).join("\n");
+}
+
+// Per-column side-by-side figures for the report's table section
+export function comparisonTables(comparison: DatasetComparison): ReportTable[] {
+  const tables: ReportTable[] = [{
+    title: "Shared Columns",
+    columns: ["Column", "Type", "Missing %", "Distinct", "Mean", "PSI", "Shift"],
+    rows: comparison.columns.map(column => [
+      column.name,
+      column.baselineType === column.currentType ? column.baselineType : `${column.baselineType} > ${column.currentType}`,
+      `${column.missingPercent.baseline.toFixed(1)} > ${column.missingPercent.current.toFixed(1)}`,
+      `${column.distinct.baseline.toLocaleString()} > ${column.distinct.current.toLocaleString()}`,
+      column.numeric ? `${formatNumber(column.numeric.baseline.mean)} > ${formatNumber(column.numeric.current.mean)}` : "-",
+      column.psi === null ? "-" : column.psi.toFixed(3),
+      column.shift ?? "-",
+    ]),
+  }];
+
+  if (comparison.keyComparison) {
+    tables.push({
+      title: `Changed Rows per Column (matched on ${comparison.keyComparison.keys.join(", ")})`,
+      columns: ["Column", "Changed rows"],
+      rows: comparison.columns
+        .filter(column => !comparison.keyComparison!.keys.includes(column.name))
+        .map(column => [column.name, (column.changedRows ?? 0).toLocaleString()]),
+    });
+  }
+  return tables;
+}
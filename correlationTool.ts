@@ -0,0 +1,396 @@
+import { SchemaInferrer, type TableSchema } from "./schemaTool.ts";
+import type { TableProfile } from "./streamTool.ts";
+
+export type AssociationMethod = "pearson" | "spearman" | "cramers_v" | "correlation_ratio";
+export type AssociationStrength = "strong" | "moderate" | "weak" | "negligible";
+
+export interface PairAssociation {
+  columns: [string, string];
+  method: AssociationMethod;
+  value: number;
+  strength: AssociationStrength;
+  observations: number; // Rows where both columns have a usable value
+}
+
+export interface CorrelationMatrix {
+  numericColumns: string[];
+  pearson: Array<Array<number | null>>;
+  spearman: Array<Array<number | null>>;
+  categoricalColumns: string[];
+  cramersV: Array<Array<number | null>>;
+  correlationRatio: Array<Array<number | null>>; // Rows: categoricalColumns, columns: numericColumns
+  pairs: PairAssociation[]; // Every computed pair, strongest first (Spearman is reported alongside Pearson, not listed separately)
+  strongPairs: PairAssociation[];
+  multicollinearity: Array<{ column: string; vif: number }>; // Numeric columns with a variance inflation factor of 10 or more
+  spearmanSampleRows: number;
+  spearmanApproximate: boolean; // Spearman ranks come from a uniform row sample rather than every row
+}
+
+// A plain table for reports: the PDF generators and the insights modal render these as grids
+export interface ReportTable {
+  title: string;
+  columns: string[];
+  rows: string[][];
+}
+
+const MAX_NUMERIC_COLUMNS = 30;
+const MAX_CATEGORICAL_COLUMNS = 20;
+const MAX_CATEGORIES = 50;
+const SPEARMAN_SAMPLE_SIZE = 5000;
+const VIF_THRESHOLD = 10;
+
+// The same bands are used for |r|, rho, Cramer's V and eta, which all range over [0, 1] in magnitude
+export function associationStrength(value: number): AssociationStrength {
+  const magnitude = Math.abs(value);
+  if (magnitude >= 0.7) return "strong";
+  if (magnitude >= 0.4) return "moderate";
+  if (magnitude >= 0.2) return "weak";
+  return "negligible";
+}
+
+// Accumulates pairwise statistics in one pass over the rows: bivariate Welford co-moments for Pearson,
+// contingency tables for Cramer's V, per-category sums for the correlation ratio, and a row sample for Spearman
+export class CorrelationAnalyzer {
+  private inferrer = new SchemaInferrer();
+  private numericIndexes: number[];
+  private categoricalIndexes: number[];
+  private moments: Float64Array; // Per numeric pair: n, meanX, meanY, m2X, m2Y, coMoment
+  private contingency: Array<Map<string, number>>;
+  private categoryStats: Array<Map<string, { count: number; sum: number }>>;
+  private ratioTotals: Float64Array; // Per categorical-numeric pair: n, sum, sumSquares
+  private sample: Array<Array<number | null>> = [];
+  private rowCount = 0;
+
+  constructor(private headers: string[], schema: TableSchema, profile: TableProfile) {
+    this.numericIndexes = schema.columns
+      .map((column, idx) => ({ column, idx }))
+      .filter(({ column, idx }) => this.inferrer.isNumeric(column.type) && (profile.columns[idx].numeric?.stdDev ?? 0) > 0)
+      .slice(0, MAX_NUMERIC_COLUMNS)
+      .map(({ idx }) => idx);
+    this.categoricalIndexes = schema.columns
+      .map((column, idx) => ({ column, idx }))
+      .filter(({ column, idx }) =>
+        (column.type === "categorical" || column.type === "boolean") &&
+        profile.columns[idx].distinct >= 2 && profile.columns[idx].distinct <= MAX_CATEGORIES)
+      .slice(0, MAX_CATEGORICAL_COLUMNS)
+      .map(({ idx }) => idx);
+
+    const numericPairs = this.numericIndexes.length * (this.numericIndexes.length - 1) / 2;
+    const categoricalPairs = this.categoricalIndexes.length * (this.categoricalIndexes.length - 1) / 2;
+    const mixedPairs = this.categoricalIndexes.length * this.numericIndexes.length;
+    this.moments = new Float64Array(numericPairs * 6);
+    this.contingency = Array.from({ length: categoricalPairs }, () => new Map());
+    this.categoryStats = Array.from({ length: mixedPairs }, () => new Map());
+    this.ratioTotals = new Float64Array(mixedPairs * 3);
+  }
+
+  // False when the table has fewer than two analyzable columns, so the pass over the rows can be skipped
+  get hasPairs(): boolean {
+    return this.moments.length > 0 || this.contingency.length > 0 || this.ratioTotals.length > 0;
+  }
+
+  addRow(row: string[]): void {
+    this.rowCount++;
+    const numbers = this.numericIndexes.map(idx => this.inferrer.parseNumber(row[idx] ?? ""));
+    const categories = this.categoricalIndexes.map(idx => (row[idx] ?? "").trim());
+
+    let pair = 0;
+    for (let a = 0; a < numbers.length; a++) {
+      for (let b = a + 1; b < numbers.length; b++, pair++) {
+        const x = numbers[a];
+        const y = numbers[b];
+        if (x === null || y === null) continue;
+
+        const m = this.moments;
+        const o = pair * 6;
+        const n = ++m[o];
+        const dx = x - m[o + 1];
+        m[o + 1] += dx / n;
+        const dy = y - m[o + 2];
+        m[o + 2] += dy / n;
+        m[o + 3] += dx * (x - m[o + 1]);
+        m[o + 4] += dy * (y - m[o + 2]);
+        m[o + 5] += dx * (y - m[o + 2]);
+      }
+    }
+
+    pair = 0;
+    for (let a = 0; a < categories.length; a++) {
+      for (let b = a + 1; b < categories.length; b++, pair++) {
+        if (!categories[a] || !categories[b]) continue;
+        const key = `${categories[a]}\u0000${categories[b]}`;
+        const table = this.contingency[pair];
+        table.set(key, (table.get(key) || 0) + 1);
+      }
+    }
+
+    for (let c = 0; c < categories.length; c++) {
+      if (!categories[c]) continue;
+      for (let v = 0; v < numbers.length; v++) {
+        const y = numbers[v];
+        if (y === null) continue;
+        const index = c * numbers.length + v;
+        const stats = this.categoryStats[index];
+        const group = stats.get(categories[c]);
+        if (group) {
+          group.count++;
+          group.sum += y;
+        } else {
+          stats.set(categories[c], { count: 1, sum: y });
+        }
+        this.ratioTotals[index * 3]++;
+        this.ratioTotals[index * 3 + 1] += y;
+        this.ratioTotals[index * 3 + 2] += y * y;
+      }
+    }
+
+    if (numbers.length > 1) {
+      if (this.sample.length < SPEARMAN_SAMPLE_SIZE) {
+        this.sample.push(numbers);
+      } else {
+        const slot = Math.floor(Math.random() * this.rowCount);
+        if (slot < SPEARMAN_SAMPLE_SIZE) this.sample[slot] = numbers;
+      }
+    }
+  }
+
+  finish(): CorrelationMatrix {
+    const numericColumns = this.numericIndexes.map(idx => this.headers[idx]);
+    const categoricalColumns = this.categoricalIndexes.map(idx => this.headers[idx]);
+    const k = numericColumns.length;
+    const pearson = this.identity(k);
+    const spearman = this.identity(k);
+    const cramersV = this.identity(categoricalColumns.length);
+    const correlationRatio = categoricalColumns.map(() => numericColumns.map((): number | null => null));
+    const pairs: PairAssociation[] = [];
+
+    let pair = 0;
+    for (let a = 0; a < k; a++) {
+      for (let b = a + 1; b < k; b++, pair++) {
+        const o = pair * 6;
+        const [n, , , m2x, m2y, coMoment] = this.moments.subarray(o, o + 6);
+        const r = n > 2 && m2x > 0 && m2y > 0 ? Math.max(-1, Math.min(1, coMoment / Math.sqrt(m2x * m2y))) : null;
+        pearson[a][b] = pearson[b][a] = r;
+        spearman[a][b] = spearman[b][a] = this.spearman(a, b);
+        if (r !== null) pairs.push(this.association(numericColumns[a], numericColumns[b], "pearson", r, n));
+      }
+    }
+
+    pair = 0;
+    for (let a = 0; a < categoricalColumns.length; a++) {
+      for (let b = a + 1; b < categoricalColumns.length; b++, pair++) {
+        const { value, n } = this.cramersV(this.contingency[pair]);
+        cramersV[a][b] = cramersV[b][a] = value;
+        if (value !== null) pairs.push(this.association(categoricalColumns[a], categoricalColumns[b], "cramers_v", value, n));
+      }
+    }
+
+    for (let c = 0; c < categoricalColumns.length; c++) {
+      for (let v = 0; v < k; v++) {
+        const index = c * k + v;
+        const { value, n } = this.correlationRatio(this.categoryStats[index], this.ratioTotals.subarray(index * 3, index * 3 + 3));
+        correlationRatio[c][v] = value;
+        if (value !== null) pairs.push(this.association(categoricalColumns[c], numericColumns[v], "correlation_ratio", value, n));
+      }
+    }
+
+    pairs.sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+
+    return {
+      numericColumns,
+      pearson,
+      spearman,
+      categoricalColumns,
+      cramersV,
+      correlationRatio,
+      pairs,
+      strongPairs: pairs.filter(p => p.strength === "strong"),
+      multicollinearity: this.varianceInflation(numericColumns, pearson),
+      spearmanSampleRows: this.sample.length,
+      spearmanApproximate: this.sample.length < this.rowCount,
+    };
+  }
+
+  private identity(size: number): Array<Array<number | null>> {
+    return Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? 1 : null)));
+  }
+
+  private association(a: string, b: string, method: AssociationMethod, value: number, observations: number): PairAssociation {
+    return { columns: [a, b], method, value, strength: associationStrength(value), observations };
+  }
+
+  // Pearson correlation of average ranks over the sampled rows where both values are present
+  private spearman(a: number, b: number): number | null {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (const row of this.sample) {
+      if (row[a] !== null && row[b] !== null) {
+        xs.push(row[a]!);
+        ys.push(row[b]!);
+      }
+    }
+    if (xs.length < 3) return null;
+
+    const rx = this.ranks(xs);
+    const ry = this.ranks(ys);
+    const mean = (rx.length + 1) / 2;
+    let cov = 0;
+    let vx = 0;
+    let vy = 0;
+    for (let i = 0; i < rx.length; i++) {
+      cov += (rx[i] - mean) * (ry[i] - mean);
+      vx += (rx[i] - mean) ** 2;
+      vy += (ry[i] - mean) ** 2;
+    }
+    return vx > 0 && vy > 0 ? cov / Math.sqrt(vx * vy) : null;
+  }
+
+  private ranks(values: number[]): number[] {
+    const order = values.map((value, idx) => ({ value, idx })).sort((a, b) => a.value - b.value);
+    const ranks = new Array<number>(values.length);
+    for (let i = 0; i < order.length;) {
+      let j = i;
+      while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+      const rank = (i + j) / 2 + 1; // Ties share their average rank
+      for (let t = i; t <= j; t++) ranks[order[t].idx] = rank;
+      i = j + 1;
+    }
+    return ranks;
+  }
+
+  // chi-square = n * (sum of O^2 / (rowTotal * colTotal) - 1), V = sqrt(chi-square / (n * (min(r, c) - 1)))
+  private cramersV(table: Map<string, number>): { value: number | null; n: number } {
+    const rowTotals = new Map<string, number>();
+    const colTotals = new Map<string, number>();
+    let n = 0;
+    for (const [key, count] of table) {
+      const [a, b] = key.split("\u0000");
+      rowTotals.set(a, (rowTotals.get(a) || 0) + count);
+      colTotals.set(b, (colTotals.get(b) || 0) + count);
+      n += count;
+    }
+
+    const minDimension = Math.min(rowTotals.size, colTotals.size);
+    if (n === 0 || minDimension < 2) return { value: null, n };
+
+    let sum = 0;
+    for (const [key, count] of table) {
+      const [a, b] = key.split("\u0000");
+      sum += (count * count) / (rowTotals.get(a)! * colTotals.get(b)!);
+    }
+    const chiSquare = n * (sum - 1);
+    return { value: Math.sqrt(Math.max(0, chiSquare) / (n * (minDimension - 1))), n };
+  }
+
+  // eta = sqrt(between-group sum of squares / total sum of squares)
+  private correlationRatio(groups: Map<string, { count: number; sum: number }>, totals: Float64Array): { value: number | null; n: number } {
+    const [n, sum, sumSquares] = totals;
+    if (n < 3 || groups.size < 2) return { value: null, n };
+
+    const mean = sum / n;
+    const total = sumSquares - n * mean * mean;
+    if (total <= 0) return { value: null, n };
+
+    let between = 0;
+    for (const group of groups.values()) {
+      between += group.count * (group.sum / group.count - mean) ** 2;
+    }
+    return { value: Math.sqrt(Math.min(1, between / total)), n };
+  }
+
+  // VIF_i is the i-th diagonal entry of the inverted correlation matrix
+  private varianceInflation(columns: string[], pearson: Array<Array<number | null>>): Array<{ column: string; vif: number }> {
+    const usable = columns.map((_, i) => i).filter(i => pearson[i].every(v => v !== null));
+    if (usable.length < 2) return [];
+
+    const size = usable.length;
+    const matrix = usable.map((i, r) => [
+      ...usable.map(j => pearson[i][j]! + (i === j ? 1e-9 : 0)),
+      ...Array.from({ length: size }, (_, c) => (c === r ? 1 : 0)),
+    ]);
+
+    for (let col = 0; col < size; col++) {
+      let pivot = col;
+      for (let r = col + 1; r < size; r++) {
+        if (Math.abs(matrix[r][col]) > Math.abs(matrix[pivot][col])) pivot = r;
+      }
+      [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+      const divisor = matrix[col][col];
+      if (Math.abs(divisor) < 1e-12) {
+        // Perfectly collinear columns: every column in the singular block has unbounded VIF
+        return usable.slice(col).map(i => ({ column: columns[i], vif: Infinity }));
+      }
+      for (let c = 0; c < 2 * size; c++) matrix[col][c] /= divisor;
+      for (let r = 0; r < size; r++) {
+        if (r === col) continue;
+        const factor = matrix[r][col];
+        if (factor === 0) continue;
+        for (let c = 0; c < 2 * size; c++) matrix[r][c] -= factor * matrix[col][c];
+      }
+    }
+
+    return usable
+      .map((i, r) => ({ column: columns[i], vif: matrix[r][size + r] }))
+      .filter(entry => entry.vif >= VIF_THRESHOLD)
+      .sort((a, b) => b.vif - a.vif);
+  }
+}
+
+export function formatAssociation(pair: PairAssociation): string {
+  const labels: Record<AssociationMethod, string> = {
+    pearson: "Pearson r",
+    spearman: "Spearman rho",
+    cramers_v: "Cramer's V",
+    correlation_ratio: "correlation ratio eta",
+  };
+  return `${pair.columns[0]} and ${pair.columns[1]} (${labels[pair.method]} = ${pair.value.toFixed(2)})`;
+}
+
+// Matrices as report tables; columns are numbered so wide matrices still fit a page
+export function correlationTables(matrix: CorrelationMatrix): ReportTable[] {
+  const format = (value: number | null) => (value === null ? "-" : value.toFixed(2));
+  const square = (title: string, names: string[], values: Array<Array<number | null>>): ReportTable => ({
+    title,
+    columns: ["Variable", ...names.map((_, i) => String(i + 1))],
+    rows: names.map((name, i) => [`${i + 1}. ${name}`, ...values[i].map(format)]),
+  });
+
+  const tables: ReportTable[] = [];
+  if (matrix.numericColumns.length > 1) {
+    tables.push(square("Pearson Correlation Matrix", matrix.numericColumns, matrix.pearson));
+    tables.push(square(`Spearman Rank Correlation Matrix${matrix.spearmanApproximate ? ` (sample of ${matrix.spearmanSampleRows.toLocaleString()} rows)` : ""}`, matrix.numericColumns, matrix.spearman));
+  }
+  if (matrix.categoricalColumns.length > 1) {
+    tables.push(square("Cramer's V (categorical pairs)", matrix.categoricalColumns, matrix.cramersV));
+  }
+  if (matrix.categoricalColumns.length > 0 && matrix.numericColumns.length > 0) {
+    tables.push({
+      title: "Correlation Ratio eta (categorical rows, numeric columns)",
+      columns: ["Variable", ...matrix.numericColumns.map((_, i) => String(i + 1))],
+      rows: matrix.categoricalColumns.map((name, c) => [name, ...matrix.correlationRatio[c].map(format)]),
+    });
+  }
+  return tables;
+}
+
+// Renders a report table as fixed-width text lines (for monospaced PDF output), splitting wide tables into column blocks
+export function formatTableLines(table: ReportTable, maxWidth: number = 100): string[] {
+  const labelWidth = Math.min(24, Math.max(...table.rows.map(r => r[0].length), table.columns[0].length));
+  const cellWidth = Math.max(6, ...table.columns.slice(1).map(c => c.length + 1), ...table.rows.flatMap(r => r.slice(1).map(c => c.length + 1)));
+  const perBlock = Math.max(1, Math.floor((maxWidth - labelWidth - 1) / cellWidth));
+  const pad = (text: string, width: number) => (text.length > width ? text.substring(0, width - 1) + "~" : text.padEnd(width));
+  const lines: string[] = [];
+
+  for (let start = 1; start < table.columns.length; start += perBlock) {
+    const end = Math.min(start + perBlock, table.columns.length);
+    const header = pad(table.columns[0], labelWidth) + " " + table.columns.slice(start, end).map(c => c.padStart(cellWidth)).join("");
+    lines.push(header);
+    lines.push("-".repeat(header.length));
+    for (const row of table.rows) {
+      lines.push(pad(row[0], labelWidth) + " " + row.slice(start, end).map(c => c.padStart(cellWidth)).join(""));
+    }
+    lines.push("");
+  }
+
+  return lines;
+}
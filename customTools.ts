@@ -1,11 +1,90 @@
-import { PDFProcessor } from "./pdfTool.ts";
-import { TableProcessor } from "./tableTool.ts";
+import { isSavedPDF, PDFProcessor } from "./pdfTool.ts";
+import { isTableData, TableProcessor, type TableData } from "./tableTool.ts";
 import { DataStorage } from "./storageTool.ts";
+import { describeDialect } from "./streamTool.ts";
+import { correlationTables } from "./correlationTool.ts";
+import { renderInsightText } from "./insightTool.ts";
+import { buildReportCharts } from "./chartTool.ts";
+import { NARRATIVE_SAMPLE_ROWS } from "./narrativeTool.ts";
+import { GRANULARITY_ADJECTIVES, type TimeGranularity } from "./timeSeriesTool.ts";
+import { documentIndex, type ChunkIndex } from "./retrievalTool.ts";
+import { describeOCR } from "./ocrTool.ts";
+import type { JoinType } from "./joinTool.ts";
+import { comparisonTables, renderComparisonText } from "./comparisonTool.ts";
+import { driftTables, renderDriftText } from "./driftTool.ts";
+import { describeStep, parseRecipe, RECIPE_FORMAT, type TransformRecipe } from "./transformTool.ts";
+import { CSV_ENCODINGS, EXPORT_DIR, EXPORT_FORMATS, exportFileName, validateExportOptions } from "./exportTool.ts";
 
 const pdfProcessor = new PDFProcessor();
 const tableProcessor = new TableProcessor();
 const storage = new DataStorage();
 
+// Shared helpers for tools that read saved table datasets
+const DEFAULT_ROW_LIMIT = 20;
+const MAX_ROW_LIMIT = 200;
+const DATASET_PROPERTY = {
+  type: "string",
+  description: "Dataset ID returned by process_table, extract_pdf (tables found in a PDF) or list_saved_data",
+};
+
+// IDs of the datasets, PDF document and recipes of one web conversation. Tools given one read nothing else, and add
+// the datasets and recipes they create to it; without one (the CLI) they read any saved data.
+export type DataScope = Set<string>;
+
+// The tools of an agent answering in one web conversation, limited to the conversation's data
+export function scopedTools(tools: Array<{ execute: (input: never, scope?: DataScope) => Promise<string> }>, scope: DataScope) {
+  return tools.map(tool => ({ ...tool, execute: (input: never) => tool.execute(input, scope) }));
+}
+
+async function loadTableDataset(dataset?: string, scope?: DataScope): Promise<{ dataset: string; data: TableData } | null> {
+  if (!dataset) return null;
+  const id = dataset.replace(/\.json$/, "");
+  if (scope && !scope.has(id)) return null;
+  const data = await storage.loadDataset(id, "table_data");
+  return isTableData(data) ? { dataset: id, data } : null;
+}
+
+function clampLimit(limit: number | undefined, fallback: number, max: number): number {
+  if (!limit || limit < 1) return fallback;
+  return Math.min(Math.floor(limit), max);
+}
+
+function toRecords(headers: string[], rows: string[][], columns?: string[]): Record<string, string>[] {
+  const indices = columns && columns.length > 0
+    ? columns.map(c => tableProcessor.findColumnIndex(headers, c)).filter(i => i !== -1)
+    : headers.map((_, i) => i);
+
+  return rows.map(row => Object.fromEntries(indices.map(i => [headers[i], row[i] ?? ""])));
+}
+
+function datasetNotFound(dataset?: string): string {
+  return JSON.stringify({
+    error: true,
+    message: dataset
+      ? `❌ Dataset not found: ${dataset}. Use list_saved_data to see available datasets.`
+      : "❌ No dataset given. Pass the dataset ID returned by process_table (or extract_pdf for PDF tables).",
+  });
+}
+
+function columnNotFound(column: string, headers: string[]): string {
+  return JSON.stringify({
+    error: true,
+    message: `❌ Column not found: ${column}. Available columns: ${headers.join(", ")}`,
+  });
+}
+
+function fileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+async function loadPDFDocument(document?: string, scope?: DataScope): Promise<{ document: string; filePath: string; numPages: number; index: ChunkIndex } | null> {
+  if (!document) return null;
+  const id = document.replace(/\.json$/, "");
+  if (scope && !scope.has(id)) return null;
+  const data = await storage.loadDataset(id, "pdf_data");
+  return isSavedPDF(data) ? { document: id, filePath: data.file_path, numPages: data.numPages, index: documentIndex(data) } : null;
+}
+
 // Tool 1: Check if file exists
 export const checkFileTool = {
   name: "check_file",
@@ -107,7 +186,7 @@ export const listFilesTool = {
 // Tool 3: Extract PDF Data - Enhanced to handle full text
 export const extractPDFTool = {
   name: "extract_pdf",
-  description: "Extract complete text and tables from a PDF file of any size. IMPORTANT: Use check_file tool first to verify the file exists.",
+  description: "Extract complete text and tables from a PDF file of any size. Each table found is saved as a dataset that the table tools (extract_insights, filter_rows, group_by, ...) accept. IMPORTANT: Use check_file tool first to verify the file exists.",
   input_schema: {
     type: "object",
     properties: {
@@ -130,27 +209,67 @@ export const extractPDFTool = {
       }
 
       const pdfData = await pdfProcessor.extractText(input.file_path);
-      const tables = pdfProcessor.extractTables(pdfData.text);
-      
+      // A scan that OCR could not read would otherwise "succeed" with no text to answer questions from
+      if (pdfData.fullText.replace(/\s+/g, "").length === 0) {
+        return JSON.stringify({
+          error: true,
+          ocr: pdfData.ocr,
+          message: `❌ No text could be extracted from PDF (${pdfData.numPages} pages). ${pdfData.ocr?.error ?? "The pages appear to be images that OCR could not read."}`,
+        });
+      }
+      const ocrNote = pdfData.ocr ? `. ${describeOCR(pdfData.ocr)}` : "";
+
+      const tables = pdfProcessor.extractTables(pdfData.pageItems);
+      // Questions are answered from the best-matching passages of this index rather than the whole text
+      const index = pdfProcessor.buildIndex(pdfData);
+
+      // Each table becomes a dataset of its own, so the insight and query tools work on it like on a CSV file
+      const datasets = [];
+      const perPage = new Map<number, number>();
+      for (const table of tables) {
+        const number = (perPage.get(table.page) ?? 0) + 1;
+        perPage.set(table.page, number);
+        const pages = table.pageEnd > table.page ? `Pages ${table.page}-${table.pageEnd}` : `Page ${table.page}`;
+        const tableData = await tableProcessor.processPDFTable(table, `${pages}, table ${number}`);
+        tableData.sourceFile = fileName(input.file_path);
+        datasets.push({
+          dataset: await storage.saveDataset("table_data", tableData),
+          sheet: tableData.sheetName,
+          page: table.page,
+          headers: tableData.headers,
+          rowCount: tableData.rowCount,
+          columnTypes: Object.fromEntries(tableProcessor.getSchema(tableData).columns.map(c => [c.name, c.type])),
+        });
+      }
+
       const result = {
         success: true,
         file_path: input.file_path,
         text: pdfData.fullText,
         numPages: pdfData.numPages,
-        tables: tables,
-        metadata: pdfData.metadata,
+        pages: pdfData.pages,
+        pageOffsets: pdfData.pageOffsets,
+        tables: datasets,
+        metadata: { ...pdfData.metadata, ocr: pdfData.ocr },
         textLength: pdfData.fullText.length,
+        index,
       };
 
-      await storage.saveExtractedData("pdf_data", result);
-      
+      const document = await storage.saveDataset("pdf_data", result);
+
       return JSON.stringify({
         success: true,
         file_path: input.file_path,
+        document,
         numPages: pdfData.numPages,
         tablesFound: tables.length,
+        datasets,
         textLength: pdfData.fullText.length,
-        message: `✅ Successfully extracted complete data from PDF (${pdfData.numPages} pages, ${tables.length} tables found, ${pdfData.fullText.length} characters)`,
+        passagesIndexed: index.chunks.length,
+        ocr: pdfData.ocr,
+        ocrSummary: pdfData.ocr ? describeOCR(pdfData.ocr) : undefined,
+        message: `✅ Successfully extracted complete data from PDF (${pdfData.numPages} pages, ${tables.length} tables found, ${pdfData.fullText.length} characters, ${index.chunks.length} passages indexed for search)` +
+          (datasets.length > 0 ? `. Tables saved as datasets: ${datasets.map(d => `${d.dataset} (${d.sheet}, ${d.rowCount} rows)`).join(", ")}` : "") + ocrNote,
       }, null, 2);
     } catch (error) {
       return JSON.stringify({
@@ -164,7 +283,7 @@ export const extractPDFTool = {
 // Tool 4: Process CSV/Excel - Processes complete files without limits
 export const processTableTool = {
   name: "process_table",
-  description: "Process CSV or Excel file and extract ALL structured data. No row limits - processes entire file regardless of size. IMPORTANT: Use check_file tool first to verify the file exists.",
+  description: "Process CSV or Excel file and extract ALL structured data. No row limits - processes entire file regardless of size. Each Excel sheet is saved as its own dataset. IMPORTANT: Use check_file tool first to verify the file exists.",
   input_schema: {
     type: "object",
     properties: {
@@ -177,10 +296,54 @@ export const processTableTool = {
         enum: ["csv", "excel"],
         description: "Type of file to process",
       },
+      sheets: {
+        type: "array",
+        items: { type: "string" },
+        description: "Excel only: names of the sheets to process, or [\"*\"] for every sheet (default: first sheet). Use list_sheets to see them.",
+      },
+      header_rows: {
+        type: "number",
+        description: "Excel only: number of header rows to combine into column names (default: detected from merged header cells)",
+      },
+      range: {
+        type: "string",
+        description: "Excel only: A1 range (e.g. \"Sheet2!B3:F40\") or workbook named range to read instead of a whole sheet",
+      },
+      delimiter: {
+        type: "string",
+        description: "CSV only: field delimiter, e.g. \",\", \";\", \"tab\" or \"|\" (default: detected)",
+      },
+      quote_char: {
+        type: "string",
+        description: "CSV only: quote character (default: detected, usually \")",
+      },
+      encoding: {
+        type: "string",
+        description: "CSV only: text encoding such as utf-8, utf-16le, utf-16be or windows-1252 (default: detected)",
+      },
+      has_header: {
+        type: "boolean",
+        description: "CSV only: whether the first table row holds column names (default: detected)",
+      },
+      skip_rows: {
+        type: "number",
+        description: "CSV only: number of preamble rows (titles, notes) to skip before the table starts (default: detected)",
+      },
     },
     required: ["file_path", "file_type"],
   },
-  execute: async (input: { file_path: string; file_type: string }) => {
+  execute: async (input: {
+    file_path: string;
+    file_type: string;
+    sheets?: string[];
+    header_rows?: number;
+    range?: string;
+    delimiter?: string;
+    quote_char?: string;
+    encoding?: string;
+    has_header?: boolean;
+    skip_rows?: number;
+  }) => {
     try {
       try {
         await Deno.stat(input.file_path);
@@ -191,22 +354,48 @@ export const processTableTool = {
         });
       }
 
-      let tableData;
+      let tables: TableData[];
       if (input.file_type === "csv") {
-        tableData = await tableProcessor.processCSV(input.file_path);
+        tables = [await tableProcessor.processCSV(input.file_path, {
+          delimiter: input.delimiter,
+          quoteChar: input.quote_char,
+          encoding: input.encoding,
+          hasHeader: input.has_header,
+          skipRows: input.skip_rows,
+        })];
+      } else if (input.range || !input.sheets || input.sheets.length === 0) {
+        tables = [await tableProcessor.processExcel(input.file_path, { range: input.range, headerRows: input.header_rows, sheet: input.sheets?.[0] })];
       } else {
-        tableData = await tableProcessor.processExcel(input.file_path);
+        tables = await tableProcessor.processExcelSheets(input.file_path, input.sheets, { headerRows: input.header_rows });
+      }
+      tables.forEach(tableData => tableData.sourceFile = fileName(input.file_path));
+
+      const datasets = [];
+      for (const tableData of tables) {
+        datasets.push({
+          dataset: await storage.saveDataset("table_data", tableData),
+          sheet: tableData.sheetName,
+          headers: tableData.headers,
+          rowCount: tableData.rowCount,
+          columnTypes: Object.fromEntries(tableProcessor.getSchema(tableData).columns.map(c => [c.name, c.type])),
+        });
       }
 
-      await storage.saveExtractedData("table_data", tableData);
+      const [first] = tables;
+      const sheetNote = datasets.length > 1
+        ? ` Processed ${datasets.length} sheets (${datasets.map(d => d.sheet).join(", ")}), each saved as its own dataset.`
+        : first.sheetName ? ` Sheet: ${first.sheetName}.` : "";
+      const dialectSummary = first.dialect ? describeDialect(first.dialect) : undefined;
 
       return JSON.stringify({
         success: true,
         file_path: input.file_path,
-        headers: tableData.headers,
-        rowCount: tableData.rowCount,
-        sample_rows: tableData.rows.slice(0, 5),
-        message: `✅ Successfully processed ${input.file_type.toUpperCase()} file: ${tableData.rowCount.toLocaleString()} rows, ${tableData.headers.length} columns. All data loaded for accurate querying.`,
+        ...datasets[0],
+        datasets,
+        dialect: first.dialect,
+        dialectSummary,
+        sample_rows: first.rows.slice(0, 5),
+        message: `✅ Successfully processed ${input.file_type.toUpperCase()} file: ${first.rowCount.toLocaleString()} rows, ${first.headers.length} columns.${sheetNote}${dialectSummary ? ` Detected format: ${dialectSummary}.` : ""} All rows stored for accurate querying.`,
       }, null, 2);
     } catch (error) {
       return JSON.stringify({
@@ -220,27 +409,42 @@ export const processTableTool = {
 // Tool 5: Extract Table Insights - Generates comprehensive data science analysis
 export const extractInsightsTool = {
   name: "extract_insights",
-  description: "Generate comprehensive data science analysis for table data (CSV/Excel). Analyzes ALL rows and columns with technical statistical insights, ML recommendations, and preprocessing guidance.",
+  description: "Generate comprehensive data science analysis for table data (CSV/Excel). Analyzes ALL rows and columns with technical statistical insights, ML recommendations, and preprocessing guidance. Returns the report text and a structured report with per-column statistics, findings with severity, and recommendations with rationale.",
   input_schema: {
     type: "object",
-    properties: {},
+    properties: {
+      dataset: DATASET_PROPERTY,
+      include_charts: {
+        type: "boolean",
+        description: "Also return SVG charts (histograms, top categories, missingness and correlation heatmaps, time series) for display; omit when only the analysis is needed",
+      },
+      include_sample_rows: {
+        type: "boolean",
+        description: `Also return the first ${NARRATIVE_SAMPLE_ROWS} rows, for writing a narrative that should know what the data looks like; only when the user allowed sharing rows`,
+      },
+    },
+    required: ["dataset"],
   },
-  execute: async (p0?: {}) => {
+  execute: async (input: { dataset?: string; include_charts?: boolean; include_sample_rows?: boolean } = {}, scope?: DataScope) => {
     try {
-      const tableData = await storage.getLatestFile("table_data");
-
-      if (!tableData) {
-        return JSON.stringify({
-          error: true,
-          message: "❌ No table data found. Please process a CSV or Excel file first.",
-        });
-      }
+      const loaded = await loadTableDataset(input.dataset, scope);
+      if (!loaded) return datasetNotFound(input.dataset);
 
-      const insights = tableProcessor.generateInsights(tableData);
+      const tableData = loaded.data;
+      const report = await tableProcessor.buildInsightReport(tableData);
+      const correlations = await tableProcessor.getCorrelations(tableData);
+      const charts = input.include_charts ? buildReportCharts(report, correlations, await tableProcessor.getDistributions(tableData)) : undefined;
 
       return JSON.stringify({
         success: true,
-        insights,
+        insights: renderInsightText(report),
+        report,
+        correlations,
+        correlationTables: correlationTables(correlations),
+        charts,
+        sampleRows: input.include_sample_rows ? { headers: tableData.headers, rows: tableData.rows.slice(0, NARRATIVE_SAMPLE_ROWS) } : undefined,
+        dataset: loaded.dataset,
+        sheet: tableData.sheetName,
         rowCount: tableData.rowCount,
         columnCount: tableData.headers.length,
         message: `✅ Successfully generated analysis for dataset with ${tableData.rowCount.toLocaleString()} rows and ${tableData.headers.length} columns.`,
@@ -257,19 +461,25 @@ export const extractInsightsTool = {
 // Tool 6: List Available Data
 export const listDataTool = {
   name: "list_saved_data",
-  description: "List all previously extracted and saved data files",
+  description: "List the IDs of the saved datasets you can use: tables (CSV/Excel sheets and tables found in PDFs), extracted PDF documents and cleaning recipes",
   input_schema: {
     type: "object",
     properties: {},
   },
-  execute: async () => {
+  execute: async (_input: unknown = {}, scope?: DataScope) => {
     try {
-      const files = await storage.listSavedData();
+      const visible = (id: string) => !scope || scope.has(id);
+      const tables = (await storage.listDatasets("table_data")).filter(visible);
+      const documents = (await storage.listDatasets("pdf_data")).filter(visible);
+      const recipes = (await storage.listDatasets("recipe")).filter(visible);
+      const count = tables.length + documents.length + recipes.length;
       return JSON.stringify({
-        saved_files: files,
-        count: files.length,
-        message: files.length > 0
-          ? `📁 Found ${files.length} previously processed file(s)`
+        tables,
+        documents,
+        recipes,
+        count,
+        message: count > 0
+          ? `📁 Found ${tables.length} table dataset(s), ${documents.length} PDF document(s) and ${recipes.length} recipe(s), most recent first`
           : "📁 No previously processed data found",
       }, null, 2);
     } catch (error) {
@@ -281,3 +491,1041 @@ export const listDataTool = {
   },
 };
 
+
+// Tool 7: Filter Rows - Runs a comparison filter over every row of a table dataset
+export const filterRowsTool = {
+  name: "filter_rows",
+  description: "Filter ALL rows of a CSV/Excel dataset by comparing a column against a value. Returns the total match count and a bounded page of matching rows as objects keyed by column name.",
+  input_schema: {
+    type: "object",
+    properties: {
+      dataset: DATASET_PROPERTY,
+      column: {
+        type: "string",
+        description: "Name of the column to filter on",
+      },
+      value: {
+        type: "string",
+        description: "Value to compare each cell against",
+      },
+      operator: {
+        type: "string",
+        enum: ["equals", "contains", "greater", "less", ">=", "<=", "not"],
+        description: "Comparison operator (default: equals). greater/less/>=/<= compare numerically.",
+      },
+      columns: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only return these columns for each matching row (default: all columns)",
+      },
+      limit: {
+        type: "number",
+        description: `Maximum number of rows to return (default: ${DEFAULT_ROW_LIMIT}, max: ${MAX_ROW_LIMIT})`,
+      },
+      offset: {
+        type: "number",
+        description: "Number of matching rows to skip, for paging (default: 0)",
+      },
+    },
+    required: ["dataset", "column", "value"],
+  },
+  execute: async (input: { dataset?: string; column: string; value: string; operator?: string; columns?: string[]; limit?: number; offset?: number }, scope?: DataScope) => {
+    try {
+      const loaded = await loadTableDataset(input.dataset, scope);
+      if (!loaded) return datasetNotFound(input.dataset);
+
+      const { data } = loaded;
+      const colIndex = tableProcessor.findColumnIndex(data.headers, input.column);
+      if (colIndex === -1) return columnNotFound(input.column, data.headers);
+
+      const operator = input.operator || "equals";
+      const limit = clampLimit(input.limit, DEFAULT_ROW_LIMIT, MAX_ROW_LIMIT);
+      const offset = Math.max(0, Math.floor(input.offset || 0));
+      const { matchCount, rows: page } = await tableProcessor.filterRowsAdvanced(data, input.column, input.value, operator, { offset, limit });
+
+      return JSON.stringify({
+        success: true,
+        dataset: loaded.dataset,
+        column: data.headers[colIndex],
+        operator,
+        value: input.value,
+        totalRows: data.rowCount,
+        matchCount,
+        offset,
+        returned: page.length,
+        truncated: offset + page.length < matchCount,
+        rows: toRecords(data.headers, page, input.columns),
+        message: `✅ ${matchCount.toLocaleString()} of ${data.rowCount.toLocaleString()} rows match ${data.headers[colIndex]} ${operator} "${input.value}"`,
+      }, null, 2);
+    } catch (error) {
+      return JSON.stringify({
+        error: true,
+        message: `❌ Error filtering rows: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  },
+};
+
+// Tool 8: Aggregate Column - Computes a statistic over every numeric value in a column
+export const aggregateColumnTool = {
+  name: "aggregate_column",
+  description: "Compute sum, average, count, min or max over ALL numeric values in a column of a CSV/Excel dataset. Non-numeric and empty cells are skipped and reported.",
+  input_schema: {
+    type: "object",
+    properties: {
+      dataset: DATASET_PROPERTY,
+      column: {
+        type: "string",
+        description: "Name of the numeric column to aggregate",
+      },
+      operation: {
+        type: "string",
+        enum: ["sum", "avg", "count", "min", "max"],
+        description: "Aggregation to compute",
+      },
+    },
+    required: ["dataset", "column", "operation"],
+  },
+  execute: async (input: { dataset?: string; column: string; operation: "sum" | "avg" | "count" | "min" | "max" }, scope?: DataScope) => {
+    try {
+      const loaded = await loadTableDataset(input.dataset, scope);
+      if (!loaded) return datasetNotFound(input.dataset);
+
+      const { data } = loaded;
+      const colIndex = tableProcessor.findColumnIndex(data.headers, input.column);
+      if (colIndex === -1) return columnNotFound(input.column, data.headers);
+
+      const result = tableProcessor.aggregateColumn(data, input.column, input.operation);
+      const numericCount = tableProcessor.aggregateColumn(data, input.column, "count") ?? 0;
+      if (result === null) {
+        return JSON.stringify({
+          error: true,
+          message: `❌ ${data.headers[colIndex]} has no numeric values to ${input.operation} (inferred type: ${tableProcessor.getSchema(data).columns[colIndex].type}). Use group_by with count, or unique_values, for non-numeric columns.`,
+        });
+      }
+
+      return JSON.stringify({
+        success: true,
+        dataset: loaded.dataset,
+        column: data.headers[colIndex],
+        columnType: tableProcessor.getSchema(data).columns[colIndex].type,
+        operation: input.operation,
+        result,
+        numericValues: numericCount,
+        skippedValues: data.rowCount - numericCount,
+        message: `✅ ${input.operation}(${data.headers[colIndex]}) = ${result.toLocaleString()} over ${numericCount.toLocaleString()} numeric values`,
+      }, null, 2);
+    } catch (error) {
+      return JSON.stringify({
+        error: true,
+        message: `❌ Error aggregating column: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  },
+};
+
+// Tool 9: Group By - Aggregates a value column per distinct value of a group column
+export const groupByTool = {
+  name: "group_by",
+  description: "Group ALL rows of a CSV/Excel dataset by one column and compute sum, average or count of another column for each group. Groups are returned sorted by result, largest first unless sort is \"asc\".",
+  input_schema: {
+    type: "object",
+    properties: {
+      dataset: DATASET_PROPERTY,
+      group_column: {
+        type: "string",
+        description: "Column whose distinct values define the groups",
+      },
+      value_column: {
+        type: "string",
+        description: "Column to aggregate within each group. Required for sum and avg; for count, its non-empty cells are counted, and without it the rows of each group",
+      },
+      operation: {
+        type: "string",
+        enum: ["sum", "avg", "count"],
+        description: "Aggregation to compute per group",
+      },
+      sort: {
+        type: "string",
+        enum: ["desc", "asc"],
+        description: "Order of groups by result (default: desc)",
+      },
+      limit: {
+        type: "number",
+        description: `Maximum number of groups to return (default: 50, max: ${MAX_ROW_LIMIT})`,
+      },
+    },
+    required: ["dataset", "group_column", "operation"],
+  },
+  execute: async (input: { dataset?: string; group_column: string; value_column?: string; operation: "sum" | "avg" | "count"; sort?: "asc" | "desc"; limit?: number }, scope?: DataScope) => {
+    try {
+      const loaded = await loadTableDataset(input.dataset, scope);
+      if (!loaded) return datasetNotFound(input.dataset);
+
+      const { data } = loaded;
+      const groupIndex = tableProcessor.findColumnIndex(data.headers, input.group_column);
+      if (groupIndex === -1) return columnNotFound(input.group_column, data.headers);
+      if (!input.value_column && input.operation !== "count") {
+        return JSON.stringify({ error: true, message: `❌ No value_column given. ${input.operation} needs a numeric column to aggregate.` });
+      }
+      const valueIndex = input.value_column ? tableProcessor.findColumnIndex(data.headers, input.value_column) : -1;
+      if (input.value_column && valueIndex === -1) return columnNotFound(input.value_column, data.headers);
+      if (input.operation !== "count" && !tableProcessor.aggregateColumn(data, data.headers[valueIndex], "count")) {
+        return JSON.stringify({
+          error: true,
+          message: `❌ ${data.headers[valueIndex]} has no numeric values to ${input.operation} (inferred type: ${tableProcessor.getSchema(data).columns[valueIndex].type}). Use count to count its non-empty cells.`,
+        });
+      }
+
+      const groups = await tableProcessor.groupBy(data, input.group_column, input.value_column, input.operation);
+      const direction = input.sort === "asc" ? 1 : -1;
+      const sorted = Object.entries(groups).sort((a, b) => direction * (a[1] - b[1]));
+      const limit = clampLimit(input.limit, 50, MAX_ROW_LIMIT);
+
+      return JSON.stringify({
+        success: true,
+        dataset: loaded.dataset,
+        group_column: data.headers[groupIndex],
+        value_column: valueIndex !== -1 ? data.headers[valueIndex] : null,
+        operation: input.operation,
+        groupCount: sorted.length,
+        returned: Math.min(limit, sorted.length),
+        truncated: sorted.length > limit,
+        groups: sorted.slice(0, limit).map(([group, value]) => ({ group, value })),
+        message: `✅ Computed ${input.operation}(${valueIndex !== -1 ? data.headers[valueIndex] : "rows"}) for ${sorted.length.toLocaleString()} groups of ${data.headers[groupIndex]}`,
+      }, null, 2);
+    } catch (error) {
+      return JSON.stringify({
+        error: true,
+        message: `❌ Error grouping rows: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  },
+};
+
+// Tool 10: Unique Values - Lists the distinct values of a column
+export const uniqueValuesTool = {
+  name: "unique_values",
+  description: "List the distinct non-empty values of a column in a CSV/Excel dataset, sorted alphabetically, along with the total number of distinct values.",
+  input_schema: {
+    type: "object",
+    properties: {
+      dataset: DATASET_PROPERTY,
+      column: {
+        type: "string",
+        description: "Name of the column",
+      },
+      limit: {
+        type: "number",
+        description: `Maximum number of values to return (default: 100, max: 500)`,
+      },
+    },
+    required: ["dataset", "column"],
+  },
+  execute: async (input: { dataset?: string; column: string; limit?: number }, scope?: DataScope) => {
+    try {
+      const loaded = await loadTableDataset(input.dataset, scope);
+      if (!loaded) return datasetNotFound(input.dataset);
+
+      const { data } = loaded;
+      const colIndex = tableProcessor.findColumnIndex(data.headers, input.column);
+      if (colIndex === -1) return columnNotFound(input.column, data.headers);
+
+      const { values, uniqueCount, complete } = await tableProcessor.getUniqueValues(data, input.column);
+      const limit = clampLimit(input.limit, 100, 500);
+
+      return JSON.stringify({
+        success: true,
+        dataset: loaded.dataset,
+        column: data.headers[colIndex],
+        uniqueCount,
+        uniqueCountApproximate: !complete,
+        returned: Math.min(limit, values.length),
+        truncated: uniqueCount > limit,
+        values: values.slice(0, limit),
+        message: `✅ Found ${complete ? "" : "approximately "}${uniqueCount.toLocaleString()} unique values in ${data.headers[colIndex]}`,
+      }, null, 2);
+    } catch (error) {
+      return JSON.stringify({
+        error: true,
+        message: `❌ Error listing unique values: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  },
+};
+
+// Tool 11: Search Table - Finds rows where any cell contains a search term
+export const searchTableTool = {
+  name: "search_table",
+  description: "Search ALL rows of a CSV/Excel dataset for a term appearing in any cell (case-insensitive). Returns the total match count and a bounded page of matching rows as objects keyed by column name.",
+  input_schema: {
+    type: "object",
+    properties: {
+      dataset: DATASET_PROPERTY,
+      term: {
+        type: "string",
+        description: "Text to search for",
+      },
+      columns: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only return these columns for each matching row (default: all columns)",
+      },
+      limit: {
+        type: "number",
+        description: `Maximum number of rows to return (default: ${DEFAULT_ROW_LIMIT}, max: ${MAX_ROW_LIMIT})`,
+      },
+      offset: {
+        type: "number",
+        description: "Number of matching rows to skip, for paging (default: 0)",
+      },
+    },
+    required: ["dataset", "term"],
+  },
+  execute: async (input: { dataset?: string; term: string; columns?: string[]; limit?: number; offset?: number }, scope?: DataScope) => {
+    try {
+      const loaded = await loadTableDataset(input.dataset, scope);
+      if (!loaded) return datasetNotFound(input.dataset);
+
+      const { data } = loaded;
+      const limit = clampLimit(input.limit, DEFAULT_ROW_LIMIT, MAX_ROW_LIMIT);
+      const offset = Math.max(0, Math.floor(input.offset || 0));
+      const { matchCount, rows: page } = await tableProcessor.searchInTable(data, input.term, { offset, limit });
+
+      return JSON.stringify({
+        success: true,
+        dataset: loaded.dataset,
+        term: input.term,
+        totalRows: data.rowCount,
+        matchCount,
+        offset,
+        returned: page.length,
+        truncated: offset + page.length < matchCount,
+        rows: toRecords(data.headers, page, input.columns),
+        message: `✅ ${matchCount.toLocaleString()} of ${data.rowCount.toLocaleString()} rows contain "${input.term}"`,
+      }, null, 2);
+    } catch (error) {
+      return JSON.stringify({
+        error: true,
+        message: `❌ Error searching table: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  },
+};
+
+// A question about a table dataset, for tableQuestionPrompt
+export interface TableQuestion {
+  question: string;
+  name: string; // How the dataset is named: its file, or how it was derived
+  dataset: string;
+  headers: string[];
+  rowCount: number;
+  sampleRows: string[][];
+  otherDatasets: Array<{ label: string; dataset: string; headers: string[]; rowCount: number }>;
+  history?: string; // Earlier turns of the conversation, from formatHistory
+  downloadLinks?: boolean; // Files written by export_data are offered for download
+}
+
+// The prompt of a table question, shared by the CLI and the web server. The agent computes the answer with the table
+// tools listed in it; the sample rows only show what the values look like.
+export function tableQuestionPrompt(options: TableQuestion): string {
+  const { question, name, dataset, headers, rowCount, sampleRows, otherDatasets, history, downloadLinks } = options;
+  let prompt = `You are analyzing a table dataset "${name}" with ${rowCount.toLocaleString()} rows and ${headers.length} columns.
+
+${history ? `${history}\n\n` : ""}User question: "${question}"
+
+Dataset reference: ${dataset}
+Columns: ${headers.join(", ")}
+
+Sample rows (for column format reference only - NOT the full data):
+`;
+
+  sampleRows.slice(0, 5).forEach((row, idx) => {
+    prompt += `Row ${idx + 1}: ${row.join(" | ")}\n`;
+  });
+
+  // Other sheets or PDF tables of the file, datasets of added files and joined or stacked tables
+  if (otherDatasets.length > 0) {
+    prompt += `\nOther datasets in this session, each a separate dataset:\n`;
+    otherDatasets.forEach(d => {
+      prompt += `- ${d.label} (dataset "${d.dataset}"): ${d.rowCount.toLocaleString()} rows, columns ${d.headers.join(", ")}\n`;
+    });
+  }
+
+  prompt += `\nAnswer the question by calling the table tools with dataset "${dataset}". They operate on ALL ${rowCount.toLocaleString()} rows:
+- filter_rows: rows where a column matches a value (equals, contains, greater, less, >=, <=, not)
+- aggregate_column: sum, avg, count, min or max of a numeric column
+- group_by: sum or avg of a numeric column, or a count of rows or non-empty cells, for each value of another column
+- unique_values: distinct values of a column
+- search_table: rows where any cell contains a term
+- time_series_summary: trend, seasonality, gaps and recent period-over-period change along a date column
+- join_datasets / union_datasets: combine this dataset with another one into a new dataset to query
+- compare_datasets: schema, row count and distribution differences between two datasets
+- detect_drift: distribution drift between two versions of the same dataset (PSI, KS and chi-square tests, new and vanished categories, missing values)
+- run_sql: a SQL SELECT over one or more datasets (JOIN, WHERE, GROUP BY, HAVING, ORDER BY, LIMIT); name tables by dataset ID in double quotes, e.g. FROM "${dataset}"
+- propose_transformations / transform_dataset: suggest cleaning steps (imputing, deduplicating, capping outliers, log transforms, encoding), then apply them to save a cleaned version as a new dataset
+- export_data: write a dataset to a CSV, XLSX, NDJSON or Parquet file, when asked to export, save or download the data${downloadLinks ? "; the user gets a download link" : ""}
+
+For questions that need several steps (filter then group, join then rank), prefer one run_sql query. When you use run_sql, show the query you ran in a \`\`\`sql code block. Only run transform_dataset when asked to clean or transform the data, and list the steps it applied and the new dataset ID.
+
+Never estimate or extrapolate from the sample rows above. Base every number in your answer on tool results, and briefly mention which computations you ran.`;
+  return prompt;
+}
+// Tool 12: List Excel Sheets - Shows the sheets and named ranges of a workbook
+export const listSheetsTool = {
+  name: "list_sheets",
+  description: "List the sheets (with dimensions) and named ranges of an Excel workbook, so you can choose which ones process_table should load.",
+  input_schema: {
+    type: "object",
+    properties: {
+      file_path: {
+        type: "string",
+        description: "Path to the Excel file",
+      },
+    },
+    required: ["file_path"],
+  },
+  execute: async (input: { file_path: string }) => {
+    try {
+      const workbook = await tableProcessor.listSheets(input.file_path);
+
+      return JSON.stringify({
+        success: true,
+        file_path: input.file_path,
+        ...workbook,
+        message: `✅ Workbook has ${workbook.sheets.length} sheet(s)${workbook.namedRanges.length > 0 ? ` and ${workbook.namedRanges.length} named range(s)` : ""}: ${workbook.sheets.map(s => s.name).join(", ")}`,
+      }, null, 2);
+    } catch (error) {
+      return JSON.stringify({
+        error: true,
+        message: `❌ Error listing sheets: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  },
+};
+
+// Tool 13: Time Series Summary - Analyzes a dataset along a date column
+export const timeSeriesSummaryTool = {
+  name: "time_series_summary",
+  description: "Analyze ALL rows of a CSV/Excel dataset along a date/datetime column: inferred granularity, gaps and irregular intervals, and per numeric column the trend, seasonality, latest period-over-period change and rolling statistics, plus per-period values for the most recent periods.",
+  input_schema: {
+    type: "object",
+    properties: {
+      dataset: DATASET_PROPERTY,
+      date_column: {
+        type: "string",
+        description: "Date or datetime column to use as the time axis (default: the detected time axis)",
+      },
+      granularity: {
+        type: "string",
+        enum: ["second", "minute", "hour", "day", "week", "month", "quarter", "year"],
+        description: "Period length to group rows by (default: inferred from the spacing of the timestamps)",
+      },
+      value_columns: {
+        type: "array",
+        items: { type: "string" },
+        description: "Numeric columns to analyze (default: every numeric column, up to 8)",
+      },
+      aggregation: {
+        type: "string",
+        enum: ["sum", "mean"],
+        description: "How values are combined per period (default: sum for columns named as totals, such as sales, amounts or quantities, and mean for the rest, such as prices, rates or ages). Pass sum when the question asks for a total",
+      },
+      periods: {
+        type: "number",
+        description: `Number of most recent periods to return values for (default: 24, max: ${MAX_ROW_LIMIT})`,
+      },
+    },
+    required: ["dataset"],
+  },
+  execute: async (input: { dataset?: string; date_column?: string; granularity?: TimeGranularity; value_columns?: string[]; aggregation?: "sum" | "mean"; periods?: number } = {}, scope?: DataScope) => {
+    try {
+      const loaded = await loadTableDataset(input.dataset, scope);
+      if (!loaded) return datasetNotFound(input.dataset);
+
+      const { data } = loaded;
+      if (input.date_column) {
+        const column = tableProcessor.getColumnSchema(data, input.date_column);
+        if (!column) return columnNotFound(input.date_column, data.headers);
+        if (column.type !== "date" && column.type !== "datetime") {
+          return JSON.stringify({
+            error: true,
+            message: `❌ Column ${column.name} is not a date column (inferred type: ${column.type}).`,
+          });
+        }
+      }
+      for (const valueColumn of input.value_columns ?? []) {
+        if (tableProcessor.findColumnIndex(data.headers, valueColumn) === -1) return columnNotFound(valueColumn, data.headers);
+      }
+
+      const summary = await tableProcessor.getTimeSeries(data, {
+        column: input.date_column,
+        granularity: input.granularity,
+        valueColumns: input.value_columns,
+        aggregation: input.aggregation,
+      });
+      if (!summary) {
+        return JSON.stringify({
+          error: true,
+          message: "❌ No date or datetime column with at least 3 distinct values was found in this dataset.",
+        });
+      }
+
+      // Full per-period series can be long; metrics are returned without them and recent periods as records
+      const limit = clampLimit(input.periods, 24, MAX_ROW_LIMIT);
+      const start = Math.max(0, summary.periods.length - limit);
+      const { periods, metrics, ...overview } = summary;
+
+      return JSON.stringify({
+        success: true,
+        dataset: loaded.dataset,
+        ...overview,
+        periodCount: periods.length,
+        metrics: metrics.map(({ values: _values, rolling: { mean: _mean, stdDev: _stdDev, ...rolling }, ...metric }) => ({ ...metric, rolling })),
+        recentPeriods: periods.slice(start).map((period, idx) => ({
+          period,
+          ...Object.fromEntries(metrics.map(m => [m.name, m.values[start + idx]])),
+        })),
+        message: `✅ Analyzed ${summary.rows.toLocaleString()} rows along ${summary.column}: ${periods.length.toLocaleString()} ${GRANULARITY_ADJECTIVES[summary.granularity]} periods from ${periods[0]} to ${periods[periods.length - 1]}${summary.missingPeriods > 0 ? `, ${summary.missingPeriods.toLocaleString()} without rows` : ""}`,
+      }, null, 2);
+    } catch (error) {
+      return JSON.stringify({
+        error: true,
+        message: `❌ Error analyzing time series: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  },
+};
+
+// Tool 14: Search PDF - Ranked passage search over an extracted PDF
+export const searchPDFTool = {
+  name: "search_pdf",
+  description: "Search an extracted PDF for the passages most relevant to a query, ranked by BM25 relevance. Each passage comes with its page number; cite it in answers as [p. N]. Use it to find more context than the passages included with the question.",
+  input_schema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Words or question to search for",
+      },
+      document: {
+        type: "string",
+        description: "Document ID of the PDF returned by extract_pdf or list_saved_data",
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of passages to return (default: 8, max: 20)",
+      },
+    },
+    required: ["query", "document"],
+  },
+  execute: async (input: { query: string; document?: string; limit?: number }, scope?: DataScope) => {
+    try {
+      const loaded = await loadPDFDocument(input.document, scope);
+      if (!loaded) {
+        return JSON.stringify({
+          error: true,
+          message: input.document
+            ? `❌ PDF extraction not found: ${input.document}. Use list_saved_data to see available extractions.`
+            : "❌ No document given. Pass the document ID returned by extract_pdf.",
+        });
+      }
+
+      const passages = pdfProcessor.searchInText(loaded.index, input.query, clampLimit(input.limit, 8, 20));
+
+      return JSON.stringify({
+        success: true,
+        document: loaded.document,
+        file_path: loaded.filePath,
+        query: input.query,
+        passages: passages.map(({ page, text, score, matchedTerms }) => ({ page, score: Math.round(score * 100) / 100, matchedTerms, text })),
+        message: passages.length > 0
+          ? `✅ Found ${passages.length} relevant passage(s) on page(s) ${[...new Set(passages.map(p => p.page))].join(", ")}`
+          : `❌ No passage matches "${input.query}". Try other words or synonyms.`,
+      }, null, 2);
+    } catch (error) {
+      return JSON.stringify({
+        error: true,
+        message: `❌ Error searching PDF: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  },
+};
+
+// Saves a joined or unioned table as a dataset and describes it like process_table does
+async function saveDerivedTable(tableData: TableData, scope?: DataScope) {
+  const dataset = await storage.saveDataset("table_data", tableData);
+  scope?.add(dataset);
+  return {
+    dataset,
+    sheet: tableData.sheetName,
+    derivedFrom: tableData.derivedFrom,
+    headers: tableData.headers,
+    rowCount: tableData.rowCount,
+    columnTypes: Object.fromEntries(tableProcessor.getSchema(tableData).columns.map(c => [c.name, c.type])),
+  };
+}
+
+// Tool 15: Join Datasets - Combines the rows of two datasets on key columns into a new dataset
+export const joinDatasetsTool = {
+  name: "join_datasets",
+  description: "Join two table datasets on one or more key columns (inner, left or full outer join) and save the result as a new dataset that every table tool accepts. Key values compare as numbers or dates when both key columns have that type. Pass the smaller table as the right dataset.",
+  input_schema: {
+    type: "object",
+    properties: {
+      left_dataset: DATASET_PROPERTY,
+      right_dataset: DATASET_PROPERTY,
+      on: {
+        type: "array",
+        items: { type: "string" },
+        description: "Key columns of the left dataset",
+      },
+      right_on: {
+        type: "array",
+        items: { type: "string" },
+        description: "Key columns of the right dataset, in the same order as `on` (default: the same names)",
+      },
+      how: {
+        type: "string",
+        enum: ["inner", "left", "full"],
+        description: "inner keeps matching rows only, left keeps every left row, full keeps every row of both (default: inner)",
+      },
+    },
+    required: ["left_dataset", "right_dataset", "on"],
+  },
+  execute: async (input: { left_dataset?: string; right_dataset?: string; on?: string[]; right_on?: string[]; how?: JoinType }, scope?: DataScope) => {
+    try {
+      const left = await loadTableDataset(input.left_dataset, scope);
+      if (!left) return datasetNotFound(input.left_dataset);
+      const right = await loadTableDataset(input.right_dataset, scope);
+      if (!right) return datasetNotFound(input.right_dataset);
+
+      const { table, stats } = await tableProcessor.joinTables(left.data, right.data, { on: input.on ?? [], rightOn: input.right_on, how: input.how });
+      const saved = await saveDerivedTable(table, scope);
+      const duplicateNote = stats.duplicateRightKeys > 0
+        ? ` ${stats.duplicateRightKeys.toLocaleString()} right rows repeat a key, so matching left rows appear more than once.`
+        : "";
+
+      return JSON.stringify({
+        success: true,
+        ...saved,
+        stats,
+        sample_rows: table.rows.slice(0, 5),
+        message: `✅ ${table.derivedFrom}: ${table.rowCount.toLocaleString()} rows, ${table.headers.length} columns. ${stats.matchedLeftRows.toLocaleString()} of ${stats.leftRows.toLocaleString()} left rows matched${stats.unmatchedRightRows > 0 ? `; ${stats.unmatchedRightRows.toLocaleString()} right rows had no match` : ""}.${duplicateNote} Saved as dataset ${saved.dataset}.`,
+      }, null, 2);
+    } catch (error) {
+      return JSON.stringify({
+        error: true,
+        message: `❌ Error joining datasets: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  },
+};
+
+// Tool 16: Union Datasets - Stacks the rows of several datasets into a new dataset
+export const unionDatasetsTool = {
+  name: "union_datasets",
+  description: "Stack the rows of two or more table datasets (e.g. monthly exports with the same layout) into a new dataset. Columns are matched by name; a column missing from a dataset is left empty in its rows.",
+  input_schema: {
+    type: "object",
+    properties: {
+      datasets: {
+        type: "array",
+        items: { type: "string" },
+        description: "Dataset IDs to stack, in order",
+      },
+      source_column: {
+        type: "string",
+        description: "Name of an added column holding each row's source file or sheet (default: none)",
+      },
+    },
+    required: ["datasets"],
+  },
+  execute: async (input: { datasets?: string[]; source_column?: string }, scope?: DataScope) => {
+    try {
+      const tables: TableData[] = [];
+      for (const dataset of input.datasets ?? []) {
+        const loaded = await loadTableDataset(dataset, scope);
+        if (!loaded) return datasetNotFound(dataset);
+        tables.push(loaded.data);
+      }
+
+      const { table, stats } = await tableProcessor.unionTables(tables, { sourceColumn: input.source_column });
+      const saved = await saveDerivedTable(table, scope);
+
+      return JSON.stringify({
+        success: true,
+        ...saved,
+        stats,
+        sample_rows: table.rows.slice(0, 5),
+        message: `✅ ${table.derivedFrom}: ${table.rowCount.toLocaleString()} rows (${stats.inputRows.map(count => count.toLocaleString()).join(" + ")}), ${table.headers.length} columns.${stats.columnsNotInAll.length > 0 ? ` Not in every dataset: ${stats.columnsNotInAll.join(", ")}.` : ""} Saved as dataset ${saved.dataset}.`,
+      }, null, 2);
+    } catch (error) {
+      return JSON.stringify({
+        error: true,
+        message: `❌ Error stacking datasets: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  },
+};
+
+// Tool 17: Compare Datasets - Schema, row count and distribution differences between two datasets
+export const compareDatasetsTool = {
+  name: "compare_datasets",
+  description: "Compare a current table dataset against a baseline (e.g. this month's export against last month's): added, removed and retyped columns, row count and duplicate changes, and per shared column the change in missing values, summary statistics and a distribution shift score (PSI). With key columns, rows are matched to count added, removed and changed rows.",
+  input_schema: {
+    type: "object",
+    properties: {
+      baseline_dataset: DATASET_PROPERTY,
+      current_dataset: DATASET_PROPERTY,
+      key_columns: {
+        type: "array",
+        items: { type: "string" },
+        description: "Columns identifying a row in both datasets, to match rows one to one (default: compare distributions only)",
+      },
+    },
+    required: ["baseline_dataset", "current_dataset"],
+  },
+  execute: async (input: { baseline_dataset?: string; current_dataset?: string; key_columns?: string[] }, scope?: DataScope) => {
+    try {
+      const baseline = await loadTableDataset(input.baseline_dataset, scope);
+      if (!baseline) return datasetNotFound(input.baseline_dataset);
+      const current = await loadTableDataset(input.current_dataset, scope);
+      if (!current) return datasetNotFound(input.current_dataset);
+
+      const comparison = await tableProcessor.compareTables(baseline.data, current.data, input.key_columns);
+      const shifted = comparison.columns.filter(column => column.shift === "major" || column.shift === "moderate");
+
+      return JSON.stringify({
+        success: true,
+        baseline: baseline.dataset,
+        current: current.dataset,
+        report: renderComparisonText(comparison),
+        comparison,
+        comparisonTables: comparisonTables(comparison),
+        message: `✅ Compared ${comparison.current.name} with ${comparison.baseline.name}: rows ${comparison.baseline.rowCount.toLocaleString()} to ${comparison.current.rowCount.toLocaleString()}, ${comparison.addedColumns.length} column(s) added, ${comparison.removedColumns.length} removed, ${comparison.typeChanges.length} retyped, ${shifted.length} shifted.`,
+      }, null, 2);
+    } catch (error) {
+      return JSON.stringify({
+        error: true,
+        message: `❌ Error comparing datasets: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  },
+};
+
+// Tool 18: Detect Drift - Distribution drift between two versions of the same dataset
+export const detectDriftTool = {
+  name: "detect_drift",
+  description: "Measure data drift between two versions of the same table dataset (e.g. two uploads of a monthly export). Requires a compatible schema: most baseline columns must appear in the current version. Reports added and removed columns, the row count change, and per shared column the distribution drift (PSI, a Kolmogorov-Smirnov test for numeric columns, a chi-square test for categorical ones), new and vanished categories and the change in missing values.",
+  input_schema: {
+    type: "object",
+    properties: {
+      baseline_dataset: DATASET_PROPERTY,
+      current_dataset: DATASET_PROPERTY,
+    },
+    required: ["baseline_dataset", "current_dataset"],
+  },
+  execute: async (input: { baseline_dataset?: string; current_dataset?: string }, scope?: DataScope) => {
+    try {
+      const baseline = await loadTableDataset(input.baseline_dataset, scope);
+      if (!baseline) return datasetNotFound(input.baseline_dataset);
+      const current = await loadTableDataset(input.current_dataset, scope);
+      if (!current) return datasetNotFound(input.current_dataset);
+
+      const drift = await tableProcessor.detectDrift(baseline.data, current.data);
+
+      return JSON.stringify({
+        success: true,
+        baseline: baseline.dataset,
+        current: current.dataset,
+        report: renderDriftText(drift),
+        drift,
+        driftTables: driftTables(drift),
+        message: `✅ Measured drift from ${drift.baseline.name} to ${drift.current.name}: ${drift.driftedColumns.length} of ${drift.columns.length} shared columns drifted, rows ${drift.baseline.rowCount.toLocaleString()} to ${drift.current.rowCount.toLocaleString()}, ${drift.addedColumns.length} column(s) added, ${drift.removedColumns.length} removed.`,
+      }, null, 2);
+    } catch (error) {
+      return JSON.stringify({
+        error: true,
+        message: `❌ Error measuring drift: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  },
+};
+
+// Tool 19: Run SQL - SELECT queries over table datasets, results saved as a new dataset and returned a page at a time
+export const runSqlTool = {
+  name: "run_sql",
+  description: "Run a SQL SELECT query over table datasets and save the result as a new dataset. Supports SELECT [DISTINCT], JOIN (inner, LEFT, FULL, CROSS) ... ON, WHERE, GROUP BY with COUNT/SUM/AVG/MIN/MAX, HAVING, ORDER BY, LIMIT/OFFSET, CASE, CAST, LIKE, IN, BETWEEN and scalar functions (LOWER, UPPER, TRIM, LENGTH, SUBSTR, REPLACE, ROUND, ABS, COALESCE, NULLIF, YEAR, MONTH, DAY, DATE). Name tables by dataset ID in double quotes and quote column names that contain spaces: SELECT \"Region\", SUM(\"Sales Amount\") FROM \"table_data_...\" GROUP BY \"Region\". Numeric columns compare as numbers and date columns as ISO dates ('2024-01-31'). Returns a page of result rows; pass result_dataset with an offset to read further pages without running the query again.",
+  input_schema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "SQL SELECT statement",
+      },
+      result_dataset: {
+        type: "string",
+        description: "Dataset ID of an earlier run_sql result, to page through it instead of running a query",
+      },
+      limit: {
+        type: "number",
+        description: `Maximum number of rows to return (default: ${DEFAULT_ROW_LIMIT}, max: ${MAX_ROW_LIMIT})`,
+      },
+      offset: {
+        type: "number",
+        description: "Number of result rows to skip, for paging (default: 0)",
+      },
+    },
+  },
+  execute: async (input: { query?: string; result_dataset?: string; limit?: number; offset?: number }, scope?: DataScope) => {
+    try {
+      let result: { dataset: string; data: TableData };
+      if (input.result_dataset) {
+        const loaded = await loadTableDataset(input.result_dataset, scope);
+        if (!loaded) return datasetNotFound(input.result_dataset);
+        result = loaded;
+      } else if (input.query?.trim()) {
+        const data = await tableProcessor.runSQL(input.query, async dataset => (await loadTableDataset(dataset, scope))?.data ?? null);
+        result = { dataset: (await saveDerivedTable(data, scope)).dataset, data };
+      } else {
+        return JSON.stringify({ error: true, message: "❌ No query given. Pass a SQL SELECT statement, or result_dataset to page through an earlier result." });
+      }
+
+      const { data } = result;
+      const limit = clampLimit(input.limit, DEFAULT_ROW_LIMIT, MAX_ROW_LIMIT);
+      const offset = Math.max(0, Math.floor(input.offset || 0));
+      const page = await tableProcessor.readRowPage(data, { offset, limit });
+      const query = data.derivedFrom?.replace(/^SQL: /, "") ?? input.query;
+
+      return JSON.stringify({
+        success: true,
+        query,
+        dataset: result.dataset,
+        headers: data.headers,
+        columnTypes: Object.fromEntries(tableProcessor.getSchema(data).columns.map(c => [c.name, c.type])),
+        rowCount: data.rowCount,
+        offset,
+        returned: page.length,
+        truncated: offset + page.length < data.rowCount,
+        rows: toRecords(data.headers, page),
+        message: `✅ Query returned ${data.rowCount.toLocaleString()} row(s), ${data.headers.length} column(s); showing ${page.length === 0 ? "none" : `rows ${offset + 1}-${offset + page.length}`}. ${input.result_dataset ? "Result" : "Saved as"} dataset ${result.dataset}.`,
+      }, null, 2);
+    } catch (error) {
+      return JSON.stringify({
+        error: true,
+        message: `❌ Error running SQL: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  },
+};
+
+// Shared by the transformation tools: the step format of recipes
+const TRANSFORM_STEPS_PROPERTY = {
+  type: "array",
+  description: `Steps run in order; each is an object with an "op" and its options:
+- {"op": "drop_columns", "columns": [...]}
+- {"op": "rename_column", "column", "to"}
+- {"op": "cast", "column", "to": "number" | "integer" | "date" | "datetime" | "boolean"} (unreadable values become empty)
+- {"op": "impute", "columns": [...], "method": "mean" | "median" | "mode" | "constant", "value" (constant only)}
+- {"op": "normalize_text", "columns" (default all), "case": "lower" | "upper" | "title" (optional), "collapse_whitespace" (default true)}: trims values
+- {"op": "deduplicate", "columns" (default whole rows)}: keeps the first row of each duplicate group
+- {"op": "cap_outliers", "columns": [...], "method": "iqr" (default, with "factor" 1.5) | "percentile" (with "lower" 1 and "upper" 99)}
+- {"op": "log", "column", "new_column"}: natural log, shifted when the column has values of 0 or less
+- {"op": "box_cox", "column", "lambda" (default fitted), "new_column"}
+- {"op": "bin", "column", "method": "equal_width" | "quantile", "bins" (default 5) or "edges": [...], "labels", "new_column"}
+- {"op": "encode", "column", "method": "one_hot" (with "max_categories" 20, "keep_original") | "ordinal" (with "order", "new_column")}
+log, box_cox, bin and ordinal encoding replace the column unless new_column is given; one-hot encoding replaces it with <column>_<value> indicator columns.`,
+  items: {
+    type: "object",
+    properties: {
+      op: {
+        type: "string",
+        enum: ["drop_columns", "rename_column", "cast", "impute", "normalize_text", "deduplicate", "cap_outliers", "log", "box_cox", "bin", "encode"],
+      },
+    },
+    required: ["op"],
+  },
+};
+
+// Tool 20: Propose Transformations - Cleaning steps suggested by a dataset's profile
+export const proposeTransformationsTool = {
+  name: "propose_transformations",
+  description: "Suggest cleaning and transformation steps for a table dataset from its profile: dropping mostly empty columns, casting numeric columns with unreadable values, normalizing inconsistent text, removing duplicate rows, imputing missing values, capping outliers, log-transforming skewed columns and one-hot encoding low-cardinality categories. Returns steps in the transform_dataset format with the reason for each; nothing is changed until transform_dataset runs them.",
+  input_schema: {
+    type: "object",
+    properties: {
+      dataset: DATASET_PROPERTY,
+    },
+    required: ["dataset"],
+  },
+  execute: async (input: { dataset?: string }, scope?: DataScope) => {
+    try {
+      const loaded = await loadTableDataset(input.dataset, scope);
+      if (!loaded) return datasetNotFound(input.dataset);
+
+      const proposals = tableProcessor.proposeTransformations(loaded.data);
+
+      return JSON.stringify({
+        success: true,
+        dataset: loaded.dataset,
+        proposals: proposals.map(proposal => ({ ...proposal, description: describeStep(proposal.step) })),
+        steps: proposals.map(proposal => proposal.step),
+        message: proposals.length > 0
+          ? `✅ ${proposals.length} suggested step(s) for ${tableProcessor.tableLabel(loaded.data)}: ${proposals.map(proposal => describeStep(proposal.step)).join("; ")}. Review them, then run the ones to keep with transform_dataset.`
+          : `✅ No cleaning steps suggested for ${tableProcessor.tableLabel(loaded.data)}: no mostly empty columns, duplicates, missing values, outliers or skewed columns were found.`,
+      }, null, 2);
+    } catch (error) {
+      return JSON.stringify({
+        error: true,
+        message: `❌ Error proposing transformations: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  },
+};
+
+// Tool 21: Transform Dataset - Runs cleaning steps or a saved recipe and saves the result as a new dataset version
+export const transformDatasetTool = {
+  name: "transform_dataset",
+  description: "Clean or transform a table dataset: drop, rename and cast columns, impute missing values, normalize text, remove duplicates, cap outliers, log or Box-Cox transform, bin and encode. The result is saved as a new version of the dataset (the original is kept) and the steps as a reusable recipe. Pass steps, or the ID of a saved recipe to replay it; statistics such as medians, bounds and categories are computed from the rows being transformed.",
+  input_schema: {
+    type: "object",
+    properties: {
+      dataset: DATASET_PROPERTY,
+      steps: TRANSFORM_STEPS_PROPERTY,
+      recipe: {
+        type: "string",
+        description: "ID of a saved recipe to replay instead of passing steps",
+      },
+      recipe_name: {
+        type: "string",
+        description: "Name to save the recipe under (default: none)",
+      },
+    },
+    required: ["dataset"],
+  },
+  execute: async (input: { dataset?: string; steps?: unknown; recipe?: string | TransformRecipe; recipe_name?: string }, scope?: DataScope) => {
+    try {
+      const loaded = await loadTableDataset(input.dataset, scope);
+      if (!loaded) return datasetNotFound(input.dataset);
+
+      // A saved recipe by ID, or a recipe object (an uploaded recipe file)
+      let recipeId: string | null = null;
+      let recipe: TransformRecipe;
+      if (typeof input.recipe === "string") {
+        const saved = scope && !scope.has(input.recipe.replace(/\.json$/, "")) ? null : await storage.loadDataset(input.recipe, "recipe");
+        if (!saved) return JSON.stringify({ error: true, message: `❌ Recipe not found: ${input.recipe}. Use list_saved_data to see saved recipes.` });
+        recipe = parseRecipe(saved);
+        recipeId = input.recipe.replace(/\.json$/, "");
+      } else if (input.recipe) {
+        recipe = parseRecipe(input.recipe);
+      } else {
+        recipe = parseRecipe(input.steps ?? []);
+      }
+
+      const { table, steps } = await tableProcessor.transformTable(loaded.data, recipe.steps, loaded.dataset);
+      if (!recipeId) {
+        recipe = {
+          format: RECIPE_FORMAT,
+          version: 1,
+          ...(input.recipe_name || recipe.name ? { name: input.recipe_name || recipe.name } : {}),
+          source: recipe.source ?? { dataset: loaded.dataset, name: tableProcessor.tableLabel(loaded.data), headers: loaded.data.headers },
+          steps: recipe.steps,
+          createdAt: new Date().toISOString(),
+        };
+        recipeId = await storage.saveDataset("recipe", recipe);
+        scope?.add(recipeId);
+      }
+      table.recipe = recipeId;
+      const saved = await saveDerivedTable(table, scope);
+      const removed = loaded.data.rowCount - table.rowCount;
+
+      return JSON.stringify({
+        success: true,
+        ...saved,
+        sourceDataset: loaded.dataset,
+        version: table.version,
+        recipe: recipeId,
+        recipeSteps: recipe.steps,
+        steps,
+        sample_rows: table.rows.slice(0, 5),
+        message: `✅ Saved ${table.sheetName} as dataset ${saved.dataset}: ${table.rowCount.toLocaleString()} rows${removed > 0 ? ` (${removed.toLocaleString()} removed)` : ""}, ${table.headers.length} columns, after ${steps.length} step(s). Recipe saved as ${recipeId}.\n${steps.map(step => `${step.step}. ${step.summary}`).join("\n")}`,
+      }, null, 2);
+    } catch (error) {
+      return JSON.stringify({
+        error: true,
+        message: `❌ Error transforming dataset: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  },
+};
+
+// Tool 22: Export Data - Writes a table dataset to a CSV, XLSX, NDJSON or Parquet file
+export const exportDataTool = {
+  name: "export_data",
+  description: `Write every row of a table dataset to a file in ${EXPORT_DIR}: CSV (with a chosen delimiter and encoding), XLSX (Excel, with typed number, date and boolean cells), NDJSON (one JSON object per line) or Parquet. Any dataset can be exported, including the results of run_sql, join_datasets, union_datasets and transform_dataset; to export filtered or grouped rows, create them with run_sql first.`,
+  input_schema: {
+    type: "object",
+    properties: {
+      dataset: DATASET_PROPERTY,
+      format: {
+        type: "string",
+        enum: EXPORT_FORMATS,
+        description: "File format (default: csv)",
+      },
+      delimiter: {
+        type: "string",
+        description: "CSV field delimiter, one character such as , ; | or a tab (default: ,)",
+      },
+      encoding: {
+        type: "string",
+        enum: CSV_ENCODINGS,
+        description: "CSV text encoding (default: utf-8)",
+      },
+      bom: {
+        type: "boolean",
+        description: "Start a CSV file with a byte order mark, which Excel needs to detect UTF-8 (default: only for UTF-16)",
+      },
+      file_name: {
+        type: "string",
+        description: "Base name of the file, without extension (default: the dataset's name); a timestamp is added",
+      },
+    },
+    required: ["dataset"],
+  },
+  execute: async (input: { dataset?: string; format?: string; delimiter?: string; encoding?: string; bom?: boolean; file_name?: string }, scope?: DataScope) => {
+    let filePath: string | undefined;
+    try {
+      const loaded = await loadTableDataset(input.dataset, scope);
+      if (!loaded) return datasetNotFound(input.dataset);
+
+      const options = { delimiter: input.delimiter, encoding: input.encoding, bom: input.bom };
+      const format = validateExportOptions(input.format || "csv", options);
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-").substring(0, 19);
+      const name = exportFileName(`${input.file_name || tableProcessor.tableLabel(loaded.data)}_${timestamp}`, format);
+      await Deno.mkdir(EXPORT_DIR, { recursive: true });
+      filePath = `${EXPORT_DIR}/${name}`;
+      await Deno.writeFile(filePath, ReadableStream.from(tableProcessor.exportTable(loaded.data, format, options)));
+      const { size } = await Deno.stat(filePath);
+
+      return JSON.stringify({
+        success: true,
+        dataset: loaded.dataset,
+        format,
+        file_path: filePath,
+        file_name: name,
+        size,
+        rowCount: loaded.data.rowCount,
+        columnCount: loaded.data.headers.length,
+        message: `✅ Exported ${loaded.data.rowCount.toLocaleString()} rows × ${loaded.data.headers.length} columns of ${tableProcessor.tableLabel(loaded.data)} to ${filePath} (${(size / 1024).toFixed(1)} KB)`,
+      }, null, 2);
+    } catch (error) {
+      // A partly written file is not left behind
+      if (filePath) await Deno.remove(filePath).catch(() => {});
+      return JSON.stringify({
+        error: true,
+        message: `❌ Error exporting data: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  },
+};
@@ -0,0 +1,434 @@
+import { SchemaInferrer, type ColumnType } from "./schemaTool.ts";
+import { ComparisonAnalyzer, type ComparedTable, type DatasetComparison, type ShiftLevel } from "./comparisonTool.ts";
+import type { ReportTable } from "./correlationTool.ts";
+import type { InsightLine } from "./insightTool.ts";
+
+// Data drift between two versions of the same table, e.g. two uploads of a monthly export. Builds on the dataset
+// comparison (schema changes, row counts, PSI, missing values) and adds a significance test per column: the
+// two-sample Kolmogorov-Smirnov test for numeric columns and a chi-square test for categorical ones, plus the
+// categories that appeared or vanished.
+
+// A column drifts when its PSI reaches the moderate band, or its test is significant at this level with an effect
+// that is not negligible. Large tables make tiny differences significant, so the p-value alone does not decide.
+const SIGNIFICANCE_LEVEL = 0.05;
+const MIN_KS_STATISTIC = 0.1;
+const MIN_CRAMERS_V = 0.1;
+// Numeric values sampled per side for the KS test
+const KS_SAMPLE_SIZE = 10_000;
+// Categories counted exactly per column and side; beyond this the test falls back to the frequent values
+const CATEGORY_LIMIT = 10_000;
+// Categories expected fewer times than this are pooled, as the chi-square approximation needs it
+const MIN_EXPECTED_COUNT = 5;
+// Versions of one table share most of their columns; fewer than this share of the baseline's is a different table
+const MIN_SHARED_COLUMNS = 0.5;
+
+export interface DriftTest {
+  test: "ks" | "chi-square";
+  statistic: number; // KS: largest gap between the two cumulative distributions; chi-square: the chi-square sum
+  pValue: number;
+  effectSize: number; // KS: the statistic itself; chi-square: Cramer's V
+  degreesOfFreedom?: number; // Chi-square only
+  sampleSizes: { baseline: number; current: number };
+  approximate: boolean; // Computed on samples or on the frequent values only
+}
+
+export interface ColumnDrift {
+  name: string;
+  baselineType: ColumnType;
+  currentType: ColumnType;
+  psi: number | null;
+  shift: ShiftLevel | null;
+  test: DriftTest | null; // Null for free text, identifiers, dates and columns whose type changed
+  missingPercent: { baseline: number; current: number };
+  missingChange: number; // Percentage points
+  newCategories?: string[]; // Categorical columns: values only the current table has
+  vanishedCategories?: string[]; // Values only the baseline has
+  categoriesApproximate?: boolean; // Too many distinct values to list them all; only frequent values are compared
+  drifted: boolean;
+}
+
+export interface DriftReport {
+  title: string;
+  subtitle: string;
+  generatedAt: string;
+  baseline: DatasetComparison["baseline"];
+  current: DatasetComparison["current"];
+  rowCountChange: number;
+  rowCountChangePercent: number | null;
+  addedColumns: string[];
+  removedColumns: string[];
+  typeChanges: DatasetComparison["typeChanges"];
+  columns: ColumnDrift[]; // Shared columns, in baseline order
+  driftedColumns: string[];
+  significanceLevel: number;
+}
+
+interface ColumnState {
+  name: string;
+  baselineIdx: number;
+  currentIdx: number;
+  kind: "numeric" | "categorical" | null;
+  samples: { baseline: number[]; current: number[] };
+  seen: { baseline: number; current: number };
+  counts: { baseline: Map<string, number> | null; current: Map<string, number> | null }; // Null once over the limit
+}
+
+// Feed every baseline row, then every current row; finish() builds the report. The constructor throws when the
+// two tables do not look like versions of one table.
+export class DriftAnalyzer {
+  private inferrer = new SchemaInferrer();
+  private comparison: ComparisonAnalyzer;
+  private columns: ColumnState[];
+
+  constructor(private baseline: ComparedTable, private current: ComparedTable) {
+    const currentPositions = new Map(current.headers.map((name, idx) => [name.trim().toLowerCase(), idx]));
+    const shared = baseline.headers.filter(name => currentPositions.has(name.trim().toLowerCase()));
+    if (shared.length === 0 || shared.length < baseline.headers.length * MIN_SHARED_COLUMNS) {
+      throw new Error(`The tables do not share a compatible schema: only ${shared.length} of the baseline's ${baseline.headers.length} columns appear in the current table. Drift is measured between versions of the same table; use compare_datasets for different tables.`);
+    }
+
+    this.comparison = new ComparisonAnalyzer(baseline, current);
+    this.columns = [];
+    baseline.headers.forEach((name, baselineIdx) => {
+      const currentIdx = currentPositions.get(name.trim().toLowerCase());
+      if (currentIdx === undefined) return;
+      const baselineType = baseline.schema.columns[baselineIdx].type;
+      const currentType = current.schema.columns[currentIdx].type;
+      const kind = this.inferrer.isNumeric(baselineType) && this.inferrer.isNumeric(currentType)
+        ? "numeric"
+        : baselineType === currentType && (baselineType === "categorical" || baselineType === "boolean")
+        ? "categorical"
+        : null;
+      this.columns.push({
+        name,
+        baselineIdx,
+        currentIdx,
+        kind,
+        samples: { baseline: [], current: [] },
+        seen: { baseline: 0, current: 0 },
+        counts: { baseline: new Map(), current: new Map() },
+      });
+    });
+  }
+
+  addBaselineRow(row: string[]): void {
+    this.comparison.addBaselineRow(row);
+    this.addRow(row, "baseline");
+  }
+
+  addCurrentRow(row: string[]): void {
+    this.comparison.addCurrentRow(row);
+    this.addRow(row, "current");
+  }
+
+  finish(): DriftReport {
+    const comparison = this.comparison.finish();
+    const columns = comparison.columns.map((compared, idx): ColumnDrift => {
+      const state = this.columns[idx];
+      const missingChange = compared.missingPercent.current - compared.missingPercent.baseline;
+      const drift: ColumnDrift = {
+        name: compared.name,
+        baselineType: compared.baselineType,
+        currentType: compared.currentType,
+        psi: compared.psi,
+        shift: compared.shift,
+        test: null,
+        missingPercent: compared.missingPercent,
+        missingChange,
+        drifted: false,
+      };
+
+      if (state.kind === "numeric") {
+        drift.test = this.numericTest(state);
+      } else if (state.kind === "categorical") {
+        const baselineCounts = state.counts.baseline ?? topCounts(this.baseline, state.baselineIdx);
+        const currentCounts = state.counts.current ?? topCounts(this.current, state.currentIdx);
+        const approximate = !state.counts.baseline || !state.counts.current;
+        drift.test = chiSquareTest(baselineCounts, currentCounts, approximate);
+        drift.newCategories = [...currentCounts.keys()].filter(value => !baselineCounts.has(value));
+        drift.vanishedCategories = [...baselineCounts.keys()].filter(value => !currentCounts.has(value));
+        drift.categoriesApproximate = approximate;
+      }
+
+      const significant = drift.test !== null && drift.test.pValue < SIGNIFICANCE_LEVEL &&
+        drift.test.effectSize >= (drift.test.test === "ks" ? MIN_KS_STATISTIC : MIN_CRAMERS_V);
+      drift.drifted = drift.shift === "moderate" || drift.shift === "major" || significant;
+      return drift;
+    });
+
+    return {
+      title: "DATA DRIFT REPORT",
+      subtitle: `${comparison.baseline.name} to ${comparison.current.name}`,
+      generatedAt: comparison.generatedAt,
+      baseline: comparison.baseline,
+      current: comparison.current,
+      rowCountChange: comparison.rowCountChange,
+      rowCountChangePercent: comparison.rowCountChangePercent,
+      addedColumns: comparison.addedColumns,
+      removedColumns: comparison.removedColumns,
+      typeChanges: comparison.typeChanges,
+      columns,
+      driftedColumns: columns.filter(column => column.drifted).map(column => column.name),
+      significanceLevel: SIGNIFICANCE_LEVEL,
+    };
+  }
+
+  private addRow(row: string[], side: "baseline" | "current"): void {
+    for (const state of this.columns) {
+      if (!state.kind) continue;
+      const value = (row[side === "baseline" ? state.baselineIdx : state.currentIdx] ?? "").trim();
+      if (!value) continue;
+
+      if (state.kind === "numeric") {
+        const parsed = this.inferrer.parseNumber(value);
+        if (parsed === null) continue;
+        // Uniform reservoir sample, as the profile keeps for quantiles
+        const seen = ++state.seen[side];
+        const sample = state.samples[side];
+        if (sample.length < KS_SAMPLE_SIZE) {
+          sample.push(parsed);
+        } else {
+          const slot = Math.floor(Math.random() * seen);
+          if (slot < KS_SAMPLE_SIZE) sample[slot] = parsed;
+        }
+        continue;
+      }
+
+      const counts = state.counts[side];
+      if (!counts) continue;
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+      if (counts.size > CATEGORY_LIMIT) state.counts[side] = null;
+    }
+  }
+
+  private numericTest(state: ColumnState): DriftTest | null {
+    const baseline = [...state.samples.baseline].sort((a, b) => a - b);
+    const current = [...state.samples.current].sort((a, b) => a - b);
+    if (baseline.length === 0 || current.length === 0) return null;
+
+    // Walk both sorted samples, stepping past ties together, and track the widest gap of the two step functions
+    let i = 0;
+    let j = 0;
+    let statistic = 0;
+    while (i < baseline.length && j < current.length) {
+      const value = Math.min(baseline[i], current[j]);
+      while (i < baseline.length && baseline[i] === value) i++;
+      while (j < current.length && current[j] === value) j++;
+      statistic = Math.max(statistic, Math.abs(i / baseline.length - j / current.length));
+    }
+
+    const effective = Math.sqrt((baseline.length * current.length) / (baseline.length + current.length));
+    return {
+      test: "ks",
+      statistic,
+      pValue: kolmogorovPValue((effective + 0.12 + 0.11 / effective) * statistic),
+      effectSize: statistic,
+      sampleSizes: { baseline: baseline.length, current: current.length },
+      approximate: baseline.length < state.seen.baseline || current.length < state.seen.current,
+    };
+  }
+}
+
+// Fallback counts when a column has too many categories to count them all: the profile's frequent values
+function topCounts(table: ComparedTable, idx: number): Map<string, number> {
+  return new Map(table.profile.columns[idx].topValues.map(top => [top.value, top.count]));
+}
+
+// 2 x k contingency test of the category counts. Rare categories are pooled into one cell first.
+function chiSquareTest(baseline: Map<string, number>, current: Map<string, number>, approximate: boolean): DriftTest | null {
+  const baselineTotal = [...baseline.values()].reduce((sum, count) => sum + count, 0);
+  const currentTotal = [...current.values()].reduce((sum, count) => sum + count, 0);
+  const total = baselineTotal + currentTotal;
+  if (baselineTotal === 0 || currentTotal === 0) return null;
+
+  const cells: Array<[number, number]> = [];
+  const pooled: [number, number] = [0, 0];
+  for (const value of new Set([...baseline.keys(), ...current.keys()])) {
+    const cell: [number, number] = [baseline.get(value) ?? 0, current.get(value) ?? 0];
+    const expected = ((cell[0] + cell[1]) * Math.min(baselineTotal, currentTotal)) / total;
+    if (expected < MIN_EXPECTED_COUNT) {
+      pooled[0] += cell[0];
+      pooled[1] += cell[1];
+    } else {
+      cells.push(cell);
+    }
+  }
+  if (pooled[0] + pooled[1] > 0) cells.push(pooled);
+  if (cells.length < 2) return null;
+
+  let statistic = 0;
+  for (const [before, after] of cells) {
+    const rowTotal = before + after;
+    const expectedBefore = (rowTotal * baselineTotal) / total;
+    const expectedAfter = (rowTotal * currentTotal) / total;
+    statistic += (before - expectedBefore) ** 2 / expectedBefore + (after - expectedAfter) ** 2 / expectedAfter;
+  }
+  const degreesOfFreedom = cells.length - 1;
+
+  return {
+    test: "chi-square",
+    statistic,
+    pValue: upperGammaRegularized(degreesOfFreedom / 2, statistic / 2),
+    effectSize: Math.sqrt(statistic / total), // Cramer's V; a 2 x k table has min(2, k) - 1 = 1
+    degreesOfFreedom,
+    sampleSizes: { baseline: baselineTotal, current: currentTotal },
+    approximate,
+  };
+}
+
+// Asymptotic Kolmogorov distribution: P(K > lambda)
+function kolmogorovPValue(lambda: number): number {
+  if (lambda < 0.2) return 1;
+  let sum = 0;
+  for (let j = 1; j <= 100; j++) {
+    const term = 2 * (j % 2 === 1 ? 1 : -1) * Math.exp(-2 * j * j * lambda * lambda);
+    sum += term;
+    if (Math.abs(term) < 1e-12) break;
+  }
+  return Math.min(1, Math.max(0, sum));
+}
+
+// Q(a, x) = Gamma(a, x) / Gamma(a): the chi-square survival function at 2x with 2a degrees of freedom.
+// Series below a + 1, continued fraction above (Numerical Recipes, 6.2).
+function upperGammaRegularized(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const logPrefix = -x + a * Math.log(x) - logGamma(a);
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-14) break;
+    }
+    return Math.max(0, 1 - sum * Math.exp(logPrefix));
+  }
+
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < 500; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return Math.min(1, Math.exp(logPrefix) * h);
+}
+
+// Lanczos approximation (g = 7, n = 9)
+function logGamma(x: number): number {
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+    12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  x -= 1;
+  let sum = coefficients[0];
+  for (let i = 1; i < coefficients.length; i++) sum += coefficients[i] / (x + i);
+  const t = x + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+const formatSigned = (value: number, digits = 1) => `${value > 0 ? "+" : ""}${value.toFixed(digits)}`;
+const formatPValue = (value: number) => (value < 0.001 ? "< 0.001" : value.toFixed(3));
+const listValues = (values: string[], limit = 10) => `${values.slice(0, limit).join(", ")}${values.length > limit ? ` and ${values.length - limit} more` : ""}`;
+
+function describeTest(test: DriftTest): string {
+  const name = test.test === "ks"
+    ? `Kolmogorov-Smirnov D = ${test.statistic.toFixed(3)}`
+    : `chi-square = ${test.statistic.toFixed(1)} (${test.degreesOfFreedom} df, Cramer's V ${test.effectSize.toFixed(3)})`;
+  return `${name}, p ${test.pValue < 0.001 ? "" : "= "}${formatPValue(test.pValue)}${test.approximate ? test.test === "ks" ? ", on samples" : ", on the frequent values" : ""}`;
+}
+
+// Lays the report out in the same tagged lines as the insight report, so the existing renderers can show it
+export function renderDriftLines(report: DriftReport): InsightLine[] {
+  const lines: InsightLine[] = [];
+  const blank = () => lines.push({ kind: "blank", text: "" });
+  const heading = (text: string) => {
+    blank();
+    lines.push({ kind: "heading", text });
+    blank();
+  };
+  const text = (value: string) => {
+    lines.push({ kind: "text", text: value });
+    blank();
+  };
+  const schemaChanges = report.addedColumns.length + report.removedColumns.length + report.typeChanges.length;
+
+  lines.push({ kind: "title", text: report.title });
+  lines.push({ kind: "subtitle", text: report.subtitle });
+  blank();
+
+  heading("SUMMARY");
+  text(`${report.driftedColumns.length === 0 ? "No shared column drifted" : `${report.driftedColumns.length} of ${report.columns.length} shared columns drifted: ${listValues(report.driftedColumns)}`}. Rows went from ${report.baseline.rowCount.toLocaleString()} to ${report.current.rowCount.toLocaleString()} (${formatSigned(report.rowCountChange, 0)}${report.rowCountChangePercent !== null ? `, ${formatSigned(report.rowCountChangePercent)}%` : ""}), and ${schemaChanges === 0 ? "the schema is unchanged" : `${report.addedColumns.length} column(s) were added, ${report.removedColumns.length} removed and ${report.typeChanges.length} changed type`}.`);
+  text(`A column drifts when its Population Stability Index (PSI) is 0.1 or more, or when its test is significant at ${report.significanceLevel} with an effect that is not negligible: a Kolmogorov-Smirnov statistic of at least ${MIN_KS_STATISTIC} for numeric columns, a Cramer's V of at least ${MIN_CRAMERS_V} for categorical ones.`);
+
+  heading("SCHEMA CHANGES");
+  if (report.addedColumns.length > 0) text(`Added columns: ${report.addedColumns.join(", ")}.`);
+  if (report.removedColumns.length > 0) text(`Removed columns: ${report.removedColumns.join(", ")}.`);
+  report.typeChanges.forEach(change => text(`${change.column} changed type from ${change.from} to ${change.to}.`));
+  if (schemaChanges === 0) text("Both versions have the same columns with the same inferred types.");
+
+  heading("DISTRIBUTION DRIFT");
+  for (const column of report.columns.filter(column => column.drifted)) {
+    lines.push({ kind: "subheading", text: `${column.name}${column.psi !== null ? ` - PSI ${column.psi.toFixed(3)} (${column.shift})` : ""}` });
+    text(column.test ? `${describeTest(column.test)}.` : "No significance test for this column type; drift is judged by the PSI alone.");
+  }
+  const tested = report.columns.filter(column => !column.drifted && column.test);
+  if (tested.length > 0) text(`No drift in: ${listValues(tested.map(column => column.name), 20)}.`);
+  const untested = report.columns.filter(column => !column.test && column.psi === null);
+  if (untested.length > 0) text(`Not tested (free text, identifiers or changed types): ${listValues(untested.map(column => column.name), 20)}.`);
+
+  heading("CATEGORY CHANGES");
+  let categoryChanges = 0;
+  for (const column of report.columns) {
+    const added = column.newCategories ?? [];
+    const vanished = column.vanishedCategories ?? [];
+    if (added.length + vanished.length === 0) continue;
+    categoryChanges++;
+    const parts: string[] = [];
+    if (added.length > 0) parts.push(`new: ${listValues(added)}`);
+    if (vanished.length > 0) parts.push(`vanished: ${listValues(vanished)}`);
+    text(`${column.name}${column.categoriesApproximate ? " (frequent values only)" : ""} - ${parts.join("; ")}.`);
+  }
+  if (categoryChanges === 0) text("No categorical column gained or lost a category.");
+
+  heading("MISSING VALUES");
+  const missing = report.columns.filter(column => Math.abs(column.missingChange) >= 0.1).sort((a, b) => Math.abs(b.missingChange) - Math.abs(a.missingChange));
+  missing.slice(0, 15).forEach(column => text(`${column.name}: ${column.missingPercent.baseline.toFixed(1)}% to ${column.missingPercent.current.toFixed(1)}% (${formatSigned(column.missingChange)} points).`));
+  if (missing.length === 0) text("The share of missing values is unchanged in every shared column.");
+
+  while (lines.length > 0 && lines[lines.length - 1].kind === "blank") lines.pop();
+  return lines;
+}
+
+export function renderDriftText(report: DriftReport): string {
+  return renderDriftLines(report).map(line => line.text).join("\n");
+}
+
+export function driftTables(report: DriftReport): ReportTable[] {
+  return [{
+    title: "Column Drift",
+    columns: ["Column", "Type", "PSI", "Test", "Statistic", "p-value", "Missing %", "Drift"],
+    rows: report.columns.map(column => [
+      column.name,
+      column.baselineType === column.currentType ? column.baselineType : `${column.baselineType} > ${column.currentType}`,
+      column.psi === null ? "-" : column.psi.toFixed(3),
+      column.test ? (column.test.test === "ks" ? "KS" : "Chi-square") : "-",
+      column.test ? column.test.statistic.toFixed(3) : "-",
+      column.test ? formatPValue(column.test.pValue) : "-",
+      `${column.missingPercent.baseline.toFixed(1)} > ${column.missingPercent.current.toFixed(1)}`,
+      column.drifted ? "yes" : "no",
+    ]),
+  }];
+}
@@ -0,0 +1,505 @@
+import * as XLSX from "xlsx";
+import { SchemaInferrer, type ColumnSchema, type TableSchema } from "./schemaTool.ts";
+
+// Writes table rows to downloadable files. CSV, NDJSON and Parquet stream: rows are read as the file is written, a
+// Parquet row group at a time. XLSX builds the workbook in memory. Numbers, dates and booleans are written typed
+// according to the column types; values a column's type cannot read stay text (XLSX, NDJSON) or make the whole
+// column text (Parquet).
+
+export type ExportFormat = "csv" | "xlsx" | "ndjson" | "parquet";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "xlsx", "ndjson", "parquet"];
+
+// Text encodings CSV files can be written in, as named by TextDecoder (the same ones CSV files are read in)
+export const CSV_ENCODINGS = ["utf-8", "utf-16le", "utf-16be", "windows-1252"];
+
+export interface ExportOptions {
+  delimiter?: string; // CSV field delimiter (default ",")
+  encoding?: string; // CSV text encoding (default utf-8)
+  bom?: boolean; // CSV: start with a byte order mark, which Excel needs to read UTF-8 (default: only for UTF-16)
+  sheetName?: string; // XLSX sheet name (default "Data")
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ndjson: "application/x-ndjson",
+  parquet: "application/vnd.apache.parquet",
+};
+
+// Directory the export_data tool writes files to
+export const EXPORT_DIR = "./exports";
+
+// Rows an Excel sheet holds below its header row
+const XLSX_MAX_ROWS = 1_048_575;
+
+// Rows per Parquet row group; each group is held in memory while it is encoded
+const PARQUET_ROW_GROUP_ROWS = 65_536;
+
+// Text is flushed in chunks of about this many characters
+const CHUNK_LENGTH = 1 << 16;
+
+export function exportContentType(format: ExportFormat, options: ExportOptions = {}): string {
+  return format === "csv" ? `${CONTENT_TYPES.csv}; charset=${options.encoding?.toLowerCase() || "utf-8"}` : CONTENT_TYPES[format];
+}
+
+// Rejects options the writers cannot honour, before anything is written
+export function validateExportOptions(format: string, options: ExportOptions = {}): ExportFormat {
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    throw new Error(`Unknown export format "${format}". Available: ${EXPORT_FORMATS.join(", ")}`);
+  }
+  const delimiter = options.delimiter ?? ",";
+  if (delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+    throw new Error("The CSV delimiter must be a single character other than a quote or a line break, such as , ; | or a tab");
+  }
+  if (options.encoding && !CSV_ENCODINGS.includes(options.encoding.toLowerCase())) {
+    throw new Error(`Unknown CSV encoding "${options.encoding}". Available: ${CSV_ENCODINGS.join(", ")}`);
+  }
+  return format as ExportFormat;
+}
+
+// The file in the given format, a chunk at a time
+export async function* exportChunks(
+  format: ExportFormat,
+  headers: string[],
+  rows: AsyncIterable<string[]>,
+  schema: TableSchema,
+  options: ExportOptions = {},
+): AsyncGenerator<Uint8Array> {
+  validateExportOptions(format, options);
+  if (format === "csv") yield* csvChunks(headers, rows, options);
+  else if (format === "ndjson") yield* ndjsonChunks(headers, rows, schema);
+  else if (format === "parquet") yield* parquetChunks(headers, rows, schema);
+  else yield await xlsxWorkbook(headers, rows, schema, options.sheetName);
+}
+
+// RFC 4180 records; fields holding the delimiter, a quote or a line break are quoted
+export async function* csvChunks(headers: string[], rows: AsyncIterable<string[]>, options: ExportOptions = {}): AsyncGenerator<Uint8Array> {
+  const delimiter = options.delimiter ?? ",";
+  const encoding = options.encoding?.toLowerCase() || "utf-8";
+  const encode = textEncoder(encoding);
+  const needsQuotes = new RegExp(`["\\r\\n${delimiter.replace(/[\\\]^-]/g, "\\$&")}]`);
+  const field = (value: string) => (needsQuotes.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value);
+  const record = (cells: string[]) => cells.map(cell => field(cell ?? "")).join(delimiter) + "\r\n";
+
+  // Text starts with U+FEFF, which each encoding writes as its byte order mark
+  let buffer = (options.bom ?? encoding.startsWith("utf-16")) && encoding !== "windows-1252" ? "\uFEFF" : "";
+  buffer += record(headers);
+  for await (const row of rows) {
+    buffer += record(row);
+    if (buffer.length >= CHUNK_LENGTH) {
+      yield encode(buffer);
+      buffer = "";
+    }
+  }
+  yield encode(buffer);
+}
+
+// One JSON object per line, keyed by column name; empty cells are null and dates ISO strings
+export async function* ndjsonChunks(headers: string[], rows: AsyncIterable<string[]>, schema: TableSchema): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  const convert = cellConverters(schema);
+  const dateOnly = schema.columns.map(column => column.type === "date");
+
+  let buffer = "";
+  for await (const row of rows) {
+    const record: Record<string, unknown> = {};
+    headers.forEach((header, idx) => {
+      const value = (row[idx] ?? "").trim();
+      const typed = value ? convert[idx]?.(value) ?? value : null;
+      record[header] = typed instanceof Date ? (dateOnly[idx] ? typed.toISOString().substring(0, 10) : typed.toISOString()) : typed;
+    });
+    buffer += JSON.stringify(record) + "\n";
+    if (buffer.length >= CHUNK_LENGTH) {
+      yield encoder.encode(buffer);
+      buffer = "";
+    }
+  }
+  yield encoder.encode(buffer);
+}
+
+export async function xlsxWorkbook(headers: string[], rows: AsyncIterable<string[]>, schema: TableSchema, sheetName = "Data"): Promise<Uint8Array> {
+  const convert = cellConverters(schema);
+
+  const matrix: unknown[][] = [headers];
+  for await (const row of rows) {
+    if (matrix.length > XLSX_MAX_ROWS) throw new Error(`The table has more than ${XLSX_MAX_ROWS.toLocaleString()} rows, the most an Excel sheet holds. Export it as CSV or Parquet instead.`);
+    matrix.push(headers.map((_, idx) => {
+      const value = (row[idx] ?? "").trim();
+      return value ? convert[idx]?.(value) ?? value : null;
+    }));
+  }
+
+  const worksheet = XLSX.utils.aoa_to_sheet(matrix, { cellDates: true });
+  const workbook = XLSX.utils.book_new();
+  // Sheet names are limited to 31 characters and cannot hold []:*?/\
+  XLSX.utils.book_append_sheet(workbook, worksheet, sheetName.replace(/[[\]:*?/\\]/g, " ").substring(0, 31) || "Data");
+  return new Uint8Array(XLSX.write(workbook, { type: "array", bookType: "xlsx", compression: true }));
+}
+
+// File name for a download: the table name without characters file systems reject
+export function exportFileName(name: string, format: ExportFormat): string {
+  const base = name.replace(/\.[^.]+$/, "").replace(/[^\w.-]+/g, "_").replace(/^_+|_+$/g, "").substring(0, 80) || "table";
+  return `${base}.${format}`;
+}
+
+// Per column, a function turning a non-empty cell into a number, Date or boolean by the column's type; values the
+// type cannot read are returned unchanged
+function cellConverters(schema: TableSchema): Array<(value: string) => unknown> {
+  const inferrer = new SchemaInferrer();
+  return schema.columns.map(column => {
+    if (inferrer.isNumeric(column.type)) return (value: string) => inferrer.parseNumber(value) ?? value;
+    if (inferrer.isTemporal(column.type)) {
+      return (value: string) => {
+        const timestamp = inferrer.parseDate(value, column.dayFirst);
+        return timestamp === null ? value : new Date(timestamp);
+      };
+    }
+    if (column.type === "boolean") return (value: string) => inferrer.parseBoolean(value) ?? value;
+    return (value: string) => value;
+  });
+}
+
+// TextEncoder only writes UTF-8; the other encodings are written code unit by code unit
+function textEncoder(encoding: string): (text: string) => Uint8Array {
+  if (encoding === "utf-16le" || encoding === "utf-16be") {
+    const littleEndian = encoding === "utf-16le";
+    return (text: string) => {
+      const bytes = new Uint8Array(text.length * 2);
+      const view = new DataView(bytes.buffer);
+      for (let i = 0; i < text.length; i++) view.setUint16(i * 2, text.charCodeAt(i), littleEndian);
+      return bytes;
+    };
+  }
+  if (encoding === "windows-1252") {
+    const table = windows1252Table();
+    return (text: string) => {
+      const bytes: number[] = [];
+      for (const char of text) bytes.push(table.get(char.codePointAt(0)!) ?? 0x3f); // "?" for characters it lacks
+      return new Uint8Array(bytes);
+    };
+  }
+  const encoder = new TextEncoder();
+  return (text: string) => encoder.encode(text);
+}
+
+// Code point to byte, read off the decoder so the 0x80-0x9F range (€, curly quotes, dashes) matches it
+let windows1252: Map<number, number> | null = null;
+function windows1252Table(): Map<number, number> {
+  if (!windows1252) {
+    const decoder = new TextDecoder("windows-1252");
+    windows1252 = new Map();
+    for (let byte = 0; byte < 256; byte++) windows1252.set(decoder.decode(new Uint8Array([byte])).codePointAt(0)!, byte);
+  }
+  return windows1252;
+}
+
+// ---------------------------------------------------------------------------------------------------------------
+// Parquet: every column is optional (empty cells are nulls), PLAIN encoded and uncompressed, with one data page per
+// column chunk. The file metadata is written with Thrift's compact protocol, as the format requires.
+
+type ParquetColumnKind = "double" | "boolean" | "date" | "timestamp" | "string";
+
+// Physical types, converted types and encodings from parquet.thrift
+const PARQUET_TYPE = { BOOLEAN: 0, INT32: 1, INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6 };
+const PARQUET_CONVERTED = { UTF8: 0, DATE: 6, TIMESTAMP_MILLIS: 9 };
+const PARQUET_PLAIN = 0;
+const PARQUET_RLE = 3;
+const PARQUET_OPTIONAL = 1;
+
+const PARQUET_COLUMNS: Record<ParquetColumnKind, { type: number; converted?: number }> = {
+  double: { type: PARQUET_TYPE.DOUBLE },
+  boolean: { type: PARQUET_TYPE.BOOLEAN },
+  date: { type: PARQUET_TYPE.INT32, converted: PARQUET_CONVERTED.DATE },
+  timestamp: { type: PARQUET_TYPE.INT64, converted: PARQUET_CONVERTED.TIMESTAMP_MILLIS },
+  string: { type: PARQUET_TYPE.BYTE_ARRAY, converted: PARQUET_CONVERTED.UTF8 },
+};
+
+// Columns whose values all parse as their type are written typed; the rest are written as text, so nothing is lost
+function parquetColumnKind(column: ColumnSchema, inferrer: SchemaInferrer): ParquetColumnKind {
+  if (column.parseFailures > 0) return "string";
+  if (inferrer.isNumeric(column.type)) return "double";
+  if (column.type === "boolean") return "boolean";
+  if (column.type === "date") return "date";
+  if (column.type === "datetime") return "timestamp";
+  return "string";
+}
+
+interface ParquetChunkMeta {
+  offset: number;
+  size: number;
+  values: number;
+}
+
+export async function* parquetChunks(headers: string[], rows: AsyncIterable<string[]>, schema: TableSchema): AsyncGenerator<Uint8Array> {
+  const inferrer = new SchemaInferrer();
+  const kinds = headers.map((_, idx) => (schema.columns[idx] ? parquetColumnKind(schema.columns[idx], inferrer) : "string"));
+  const rowGroups: Array<{ rows: number; size: number; chunks: ParquetChunkMeta[] }> = [];
+  const magic = new TextEncoder().encode("PAR1");
+  let offset = magic.length;
+  yield magic;
+
+  const flush = (group: string[][]): Uint8Array[] => {
+    const pages: Uint8Array[] = [];
+    const chunks: ParquetChunkMeta[] = [];
+    kinds.forEach((kind, idx) => {
+      const page = parquetPage(group, idx, kind, inferrer, schema.columns[idx]?.dayFirst);
+      pages.push(page);
+      chunks.push({ offset, size: page.length, values: group.length });
+      offset += page.length;
+    });
+    rowGroups.push({ rows: group.length, size: chunks.reduce((sum, chunk) => sum + chunk.size, 0), chunks });
+    return pages;
+  };
+
+  let group: string[][] = [];
+  for await (const row of rows) {
+    group.push(row);
+    if (group.length >= PARQUET_ROW_GROUP_ROWS) {
+      yield* flush(group);
+      group = [];
+    }
+  }
+  if (group.length > 0 || rowGroups.length === 0) yield* flush(group);
+
+  const metadata = new CompactWriter();
+  metadata.i32(1, 1); // version
+  metadata.list(2, THRIFT_STRUCT, [
+    () => {
+      metadata.binary(4, "schema");
+      metadata.i32(5, headers.length);
+    },
+    ...headers.map((header, idx) => () => {
+      const column = PARQUET_COLUMNS[kinds[idx]];
+      metadata.i32(1, column.type);
+      metadata.i32(3, PARQUET_OPTIONAL);
+      metadata.binary(4, header);
+      if (column.converted !== undefined) metadata.i32(6, column.converted);
+    }),
+  ]);
+  metadata.i64(3, rowGroups.reduce((sum, rowGroup) => sum + rowGroup.rows, 0));
+  metadata.list(4, THRIFT_STRUCT, rowGroups.map(rowGroup => () => {
+    metadata.list(1, THRIFT_STRUCT, rowGroup.chunks.map((chunk, idx) => () => {
+      metadata.i64(2, chunk.offset); // file_offset
+      metadata.struct(3, () => {
+        metadata.i32(1, PARQUET_COLUMNS[kinds[idx]].type);
+        metadata.list(2, THRIFT_I32, [PARQUET_PLAIN, PARQUET_RLE].map(encoding => () => metadata.varint(zigzag(encoding))));
+        metadata.list(3, THRIFT_BINARY, [() => metadata.bytes(headers[idx])]);
+        metadata.i32(4, 0); // codec: uncompressed
+        metadata.i64(5, chunk.values);
+        metadata.i64(6, chunk.size);
+        metadata.i64(7, chunk.size);
+        metadata.i64(9, chunk.offset); // data_page_offset
+      });
+    }));
+    metadata.i64(2, rowGroup.size);
+    metadata.i64(3, rowGroup.rows);
+  }));
+  metadata.binary(6, "InsightFlow");
+  metadata.stop();
+
+  const footer = metadata.result();
+  const length = new Uint8Array(4);
+  new DataView(length.buffer).setUint32(0, footer.length, true);
+  yield footer;
+  yield length;
+  yield magic;
+}
+
+// A data page (v1) of one column of a row group: the page header, then the definition levels (1 for a value, 0 for
+// null) and the PLAIN values of the non-null cells
+function parquetPage(group: string[][], columnIdx: number, kind: ParquetColumnKind, inferrer: SchemaInferrer, dayFirst?: boolean): Uint8Array {
+  const values = new ByteWriter();
+  const defined: boolean[] = [];
+  const flags: boolean[] = [];
+
+  for (const row of group) {
+    const value = (row[columnIdx] ?? "").trim();
+    let parsed: number | boolean | null = null;
+    if (value) {
+      if (kind === "string") parsed = 0;
+      else if (kind === "double") parsed = inferrer.parseNumber(value);
+      else if (kind === "boolean") parsed = inferrer.parseBoolean(value);
+      else parsed = inferrer.parseDate(value, dayFirst);
+    }
+    defined.push(parsed !== null);
+    if (parsed === null) continue;
+
+    if (kind === "string") {
+      const bytes = new TextEncoder().encode(row[columnIdx]);
+      values.uint32(bytes.length);
+      values.push(bytes);
+    } else if (kind === "double") values.float64(parsed as number);
+    else if (kind === "boolean") flags.push(parsed as boolean);
+    else if (kind === "date") values.uint32(Math.floor((parsed as number) / 86_400_000) >>> 0);
+    else values.int64(parsed as number);
+  }
+  if (kind === "boolean") values.push(bitPack(flags));
+
+  // Definition levels: one bit-packed run of the RLE/bit-packing hybrid, prefixed with its byte length
+  const levels = new ByteWriter();
+  levels.varint((Math.ceil(defined.length / 8) << 1) | 1);
+  levels.push(bitPack(defined));
+
+  const data = new ByteWriter();
+  data.uint32(levels.length);
+  data.push(levels.result());
+  data.push(values.result());
+  const body = data.result();
+
+  const header = new CompactWriter();
+  header.i32(1, 0); // DATA_PAGE
+  header.i32(2, body.length);
+  header.i32(3, body.length);
+  header.struct(5, () => {
+    header.i32(1, group.length);
+    header.i32(2, PARQUET_PLAIN);
+    header.i32(3, PARQUET_RLE);
+    header.i32(4, PARQUET_RLE);
+  });
+  header.stop();
+
+  const page = new ByteWriter();
+  page.push(header.result());
+  page.push(body);
+  return page.result();
+}
+
+// Booleans packed eight to a byte, least significant bit first
+function bitPack(bits: boolean[]): Uint8Array {
+  const bytes = new Uint8Array(Math.ceil(bits.length / 8));
+  bits.forEach((bit, idx) => {
+    if (bit) bytes[idx >> 3] |= 1 << (idx & 7);
+  });
+  return bytes;
+}
+
+function zigzag(n: number): number {
+  return n >= 0 ? n * 2 : -n * 2 - 1;
+}
+
+class ByteWriter {
+  private parts: Uint8Array[] = [];
+  length = 0;
+
+  push(bytes: Uint8Array): void {
+    this.parts.push(bytes);
+    this.length += bytes.length;
+  }
+
+  byte(value: number): void {
+    this.push(new Uint8Array([value]));
+  }
+
+  // Unsigned LEB128; numbers up to 2^53 without 32-bit operators
+  varint(value: number): void {
+    const bytes: number[] = [];
+    while (value >= 0x80) {
+      bytes.push((value % 0x80) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    bytes.push(value);
+    this.push(new Uint8Array(bytes));
+  }
+
+  uint32(value: number): void {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value, true);
+    this.push(bytes);
+  }
+
+  int64(value: number): void {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setBigInt64(0, BigInt(Math.trunc(value)), true);
+    this.push(bytes);
+  }
+
+  float64(value: number): void {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setFloat64(0, value, true);
+    this.push(bytes);
+  }
+
+  result(): Uint8Array {
+    const out = new Uint8Array(this.length);
+    let offset = 0;
+    for (const part of this.parts) {
+      out.set(part, offset);
+      offset += part.length;
+    }
+    return out;
+  }
+}
+
+// Thrift compact protocol type codes
+const THRIFT_I32 = 5;
+const THRIFT_I64 = 6;
+const THRIFT_BINARY = 8;
+const THRIFT_LIST = 9;
+const THRIFT_STRUCT = 12;
+
+// Thrift compact protocol: fields carry the delta from the previous field ID of their struct
+class CompactWriter extends ByteWriter {
+  private lastField: number[] = [0];
+
+  private field(id: number, type: number): void {
+    const delta = id - this.lastField[this.lastField.length - 1];
+    if (delta > 0 && delta <= 15) this.byte((delta << 4) | type);
+    else {
+      this.byte(type);
+      this.varint(zigzag(id));
+    }
+    this.lastField[this.lastField.length - 1] = id;
+  }
+
+  i32(id: number, value: number): void {
+    this.field(id, THRIFT_I32);
+    this.varint(zigzag(value));
+  }
+
+  i64(id: number, value: number): void {
+    this.field(id, THRIFT_I64);
+    this.varint(zigzag(value));
+  }
+
+  binary(id: number, value: string): void {
+    this.field(id, THRIFT_BINARY);
+    this.bytes(value);
+  }
+
+  bytes(value: string): void {
+    const encoded = new TextEncoder().encode(value);
+    this.varint(encoded.length);
+    this.push(encoded);
+  }
+
+  struct(id: number, writeFields: () => void): void {
+    this.field(id, THRIFT_STRUCT);
+    this.structBody(writeFields);
+  }
+
+  // A list of structs, binaries or integers; each element is written by its function
+  list(id: number, elementType: number, elements: Array<() => void>): void {
+    this.field(id, THRIFT_LIST);
+    if (elements.length < 15) this.byte((elements.length << 4) | elementType);
+    else {
+      this.byte(0xf0 | elementType);
+      this.varint(elements.length);
+    }
+    for (const write of elements) {
+      if (elementType === THRIFT_STRUCT) this.structBody(write);
+      else write();
+    }
+  }
+
+  stop(): void {
+    this.byte(0);
+  }
+
+  private structBody(writeFields: () => void): void {
+    this.lastField.push(0);
+    writeFields();
+    this.stop();
+    this.lastField.pop();
+  }
+}
@@ -0,0 +1,306 @@
+// TrueType fonts for PDF reports: reads the tables a PDF needs (metrics, character map, glyph outlines), measures
+// text, maps it to glyph IDs and writes a subset holding only the glyphs a document used. Glyph IDs are kept, so a
+// subset is embedded with an identity CID-to-glyph map; unused glyphs are just left without outlines.
+
+interface TableRecord {
+  offset: number;
+  length: number;
+}
+
+// Tables copied into subsets as they are; glyf and loca are rebuilt, head gets the new loca format
+const KEPT_TABLES = ["OS/2", "cvt ", "fpgm", "hhea", "hmtx", "maxp", "name", "prep"];
+
+// Composite glyph flags
+const ARG_1_AND_2_ARE_WORDS = 0x0001;
+const WE_HAVE_A_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+
+export class TrueTypeFont {
+  readonly unitsPerEm: number;
+  readonly ascent: number;
+  readonly descent: number;
+  readonly capHeight: number;
+  readonly bbox: [number, number, number, number];
+  readonly fixedPitch: boolean;
+  readonly weight: number; // 400 regular, 700 bold
+  readonly postScriptName: string;
+
+  private view: DataView;
+  private tables = new Map<string, TableRecord>();
+  private advances: number[] = [];
+  private glyphs = new Map<number, number>(); // Code point to glyph ID
+  private glyphOffsets: number[] = [];
+  private fallbackGlyph: number;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const tableCount = this.view.getUint16(4);
+    for (let i = 0; i < tableCount; i++) {
+      const record = 12 + i * 16;
+      const tag = String.fromCharCode(...bytes.subarray(record, record + 4));
+      this.tables.set(tag, { offset: this.view.getUint32(record + 8), length: this.view.getUint32(record + 12) });
+    }
+    for (const tag of ["head", "hhea", "hmtx", "maxp", "cmap", "loca", "glyf"]) {
+      if (!this.tables.has(tag)) throw new Error(`Not a TrueType font with outlines: the ${tag} table is missing`);
+    }
+
+    const head = this.table("head").offset;
+    this.unitsPerEm = this.view.getUint16(head + 18);
+    this.bbox = [this.view.getInt16(head + 36), this.view.getInt16(head + 38), this.view.getInt16(head + 40), this.view.getInt16(head + 42)];
+    const longOffsets = this.view.getInt16(head + 50) === 1;
+
+    const hhea = this.table("hhea").offset;
+    this.ascent = this.view.getInt16(hhea + 4);
+    this.descent = this.view.getInt16(hhea + 6);
+    const metricCount = this.view.getUint16(hhea + 34);
+    const glyphCount = this.view.getUint16(this.table("maxp").offset + 4);
+
+    const hmtx = this.table("hmtx").offset;
+    for (let gid = 0; gid < glyphCount; gid++) {
+      this.advances.push(this.view.getUint16(hmtx + Math.min(gid, metricCount - 1) * 4));
+    }
+
+    const loca = this.table("loca").offset;
+    for (let gid = 0; gid <= glyphCount; gid++) {
+      this.glyphOffsets.push(longOffsets ? this.view.getUint32(loca + gid * 4) : this.view.getUint16(loca + gid * 2) * 2);
+    }
+
+    const os2 = this.tables.get("OS/2");
+    this.weight = os2 ? this.view.getUint16(os2.offset + 4) : 400;
+    this.capHeight = os2 && this.view.getUint16(os2.offset) >= 2 ? this.view.getInt16(os2.offset + 88) : this.ascent;
+    const post = this.tables.get("post");
+    this.fixedPitch = post ? this.view.getUint32(post.offset + 12) !== 0 : false;
+    this.postScriptName = this.readName(6) ?? "Font";
+
+    this.readCharacterMap();
+    this.fallbackGlyph = this.glyphs.get(0x3f) ?? 0; // "?"
+  }
+
+  // Glyph IDs of the text; characters the font lacks are drawn as "?"
+  glyphIds(text: string): number[] {
+    const ids: number[] = [];
+    for (const char of text) ids.push(this.glyphs.get(char.codePointAt(0)!) ?? this.fallbackGlyph);
+    return ids;
+  }
+
+  hasGlyph(char: string): boolean {
+    return this.glyphs.has(char.codePointAt(0)!);
+  }
+
+  // Advance width of a glyph in thousandths of the font size, the unit of PDF glyph widths
+  glyphWidth(gid: number): number {
+    return ((this.advances[gid] ?? 0) * 1000) / this.unitsPerEm;
+  }
+
+  measure(text: string, size: number): number {
+    let width = 0;
+    for (const gid of this.glyphIds(text)) width += this.glyphWidth(gid);
+    return (width * size) / 1000;
+  }
+
+  // A font file with outlines only for the given glyphs (and the glyphs composite ones are built from)
+  subset(used: Iterable<number>): Uint8Array {
+    const keep = new Set<number>([0, ...used]);
+    const glyf = this.table("glyf").offset;
+    for (const gid of [...keep]) this.addComponents(gid, keep, glyf);
+
+    const glyphCount = this.glyphOffsets.length - 1;
+    const locaBytes = new Uint8Array((glyphCount + 1) * 4);
+    const loca = new DataView(locaBytes.buffer);
+    const parts: Uint8Array[] = [];
+    let offset = 0;
+    for (let gid = 0; gid < glyphCount; gid++) {
+      loca.setUint32(gid * 4, offset);
+      if (!keep.has(gid)) continue;
+      const data = this.bytes.subarray(glyf + this.glyphOffsets[gid], glyf + this.glyphOffsets[gid + 1]);
+      parts.push(data);
+      offset += data.length;
+      // Glyphs start on 4-byte boundaries
+      if (offset % 4 !== 0) {
+        parts.push(new Uint8Array(4 - (offset % 4)));
+        offset += 4 - (offset % 4);
+      }
+    }
+    loca.setUint32(glyphCount * 4, offset);
+    const glyfBytes = concatBytes(parts);
+
+    const headRecord = this.table("head");
+    const headBytes = this.bytes.slice(headRecord.offset, headRecord.offset + headRecord.length);
+    const head = new DataView(headBytes.buffer);
+    head.setUint32(8, 0); // checkSumAdjustment, set below
+    head.setInt16(50, 1); // long loca offsets
+
+    const tables = new Map<string, Uint8Array>([["glyf", glyfBytes], ["head", headBytes], ["loca", locaBytes]]);
+    for (const tag of KEPT_TABLES) {
+      const record = this.tables.get(tag);
+      if (record) tables.set(tag, this.bytes.subarray(record.offset, record.offset + record.length));
+    }
+    // A version 3 post table: the original metrics without glyph names
+    const postRecord = this.tables.get("post");
+    if (postRecord) {
+      const post = new Uint8Array(32);
+      post.set(this.bytes.subarray(postRecord.offset, postRecord.offset + 32));
+      new DataView(post.buffer).setUint32(0, 0x00030000);
+      tables.set("post", post);
+    }
+
+    const font = writeFontFile(tables);
+    new DataView(font.buffer).setUint32(tableOffset(font, "head") + 8, (0xb1b0afba - checksum(font)) >>> 0);
+    return font;
+  }
+
+  private table(tag: string): TableRecord {
+    return this.tables.get(tag) ?? { offset: 0, length: 0 };
+  }
+
+  private addComponents(gid: number, keep: Set<number>, glyf: number): void {
+    const start = glyf + this.glyphOffsets[gid];
+    if (this.glyphOffsets[gid + 1] === this.glyphOffsets[gid] || this.view.getInt16(start) >= 0) return;
+
+    let position = start + 10;
+    for (;;) {
+      const flags = this.view.getUint16(position);
+      const component = this.view.getUint16(position + 2);
+      if (!keep.has(component)) {
+        keep.add(component);
+        this.addComponents(component, keep, glyf);
+      }
+      position += 4 + (flags & ARG_1_AND_2_ARE_WORDS ? 4 : 2);
+      if (flags & WE_HAVE_A_SCALE) position += 2;
+      else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) position += 4;
+      else if (flags & WE_HAVE_A_TWO_BY_TWO) position += 8;
+      if (!(flags & MORE_COMPONENTS)) break;
+    }
+  }
+
+  // Unicode subtables of the cmap: format 12 (all planes) when the font has one, else format 4 (the BMP)
+  private readCharacterMap(): void {
+    const cmap = this.table("cmap").offset;
+    const count = this.view.getUint16(cmap + 2);
+    let format4 = -1;
+    let format12 = -1;
+    for (let i = 0; i < count; i++) {
+      const platform = this.view.getUint16(cmap + 4 + i * 8);
+      const encoding = this.view.getUint16(cmap + 6 + i * 8);
+      const subtable = cmap + this.view.getUint32(cmap + 8 + i * 8);
+      const format = this.view.getUint16(subtable);
+      const unicode = platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10));
+      if (unicode && format === 12) format12 = subtable;
+      if (unicode && format === 4 && format4 === -1) format4 = subtable;
+    }
+
+    if (format12 !== -1) {
+      const groups = this.view.getUint32(format12 + 12);
+      for (let i = 0; i < groups; i++) {
+        const group = format12 + 16 + i * 12;
+        const first = this.view.getUint32(group);
+        const last = this.view.getUint32(group + 4);
+        const firstGlyph = this.view.getUint32(group + 8);
+        for (let code = first; code <= last; code++) this.glyphs.set(code, firstGlyph + code - first);
+      }
+      return;
+    }
+    if (format4 === -1) throw new Error("The font has no Unicode character map");
+
+    const segments = this.view.getUint16(format4 + 6) / 2;
+    const endCodes = format4 + 14;
+    const startCodes = endCodes + segments * 2 + 2;
+    const deltas = startCodes + segments * 2;
+    const rangeOffsets = deltas + segments * 2;
+    for (let i = 0; i < segments; i++) {
+      const start = this.view.getUint16(startCodes + i * 2);
+      const end = this.view.getUint16(endCodes + i * 2);
+      const delta = this.view.getInt16(deltas + i * 2);
+      const rangeOffset = this.view.getUint16(rangeOffsets + i * 2);
+      for (let code = start; code <= end && code !== 0xffff; code++) {
+        let gid: number;
+        if (rangeOffset === 0) {
+          gid = (code + delta) & 0xffff;
+        } else {
+          const glyphIndex = this.view.getUint16(rangeOffsets + i * 2 + rangeOffset + (code - start) * 2);
+          gid = glyphIndex === 0 ? 0 : (glyphIndex + delta) & 0xffff;
+        }
+        if (gid !== 0) this.glyphs.set(code, gid);
+      }
+    }
+  }
+
+  // A name record (6 is the PostScript name), from the Windows or Macintosh entries
+  private readName(nameId: number): string | null {
+    const name = this.tables.get("name");
+    if (!name) return null;
+    const count = this.view.getUint16(name.offset + 2);
+    const strings = name.offset + this.view.getUint16(name.offset + 4);
+    for (let i = 0; i < count; i++) {
+      const record = name.offset + 6 + i * 12;
+      if (this.view.getUint16(record + 6) !== nameId) continue;
+      const platform = this.view.getUint16(record);
+      const length = this.view.getUint16(record + 8);
+      const start = strings + this.view.getUint16(record + 10);
+      const raw = this.bytes.subarray(start, start + length);
+      const text = platform === 3 ? new TextDecoder("utf-16be").decode(raw) : String.fromCharCode(...raw);
+      return text.replace(/[^\x21-\x7e]/g, "");
+    }
+    return null;
+  }
+}
+
+// An sfnt file: the table directory, then the tables in tag order, each padded to 4 bytes
+function writeFontFile(tables: Map<string, Uint8Array>): Uint8Array {
+  const tags = [...tables.keys()].sort();
+  const headerLength = 12 + tags.length * 16;
+  const padded = (length: number) => (length + 3) & ~3;
+  const total = headerLength + tags.reduce((sum, tag) => sum + padded(tables.get(tag)!.length), 0);
+  const font = new Uint8Array(total);
+  const view = new DataView(font.buffer);
+
+  const searchPower = 2 ** Math.floor(Math.log2(tags.length));
+  view.setUint32(0, 0x00010000);
+  view.setUint16(4, tags.length);
+  view.setUint16(6, searchPower * 16);
+  view.setUint16(8, Math.log2(searchPower));
+  view.setUint16(10, tags.length * 16 - searchPower * 16);
+
+  let offset = headerLength;
+  tags.forEach((tag, idx) => {
+    const data = tables.get(tag)!;
+    font.set(data, offset);
+    const record = 12 + idx * 16;
+    for (let i = 0; i < 4; i++) view.setUint8(record + i, tag.charCodeAt(i));
+    view.setUint32(record + 4, checksum(font.subarray(offset, offset + padded(data.length))));
+    view.setUint32(record + 8, offset);
+    view.setUint32(record + 12, data.length);
+    offset += padded(data.length);
+  });
+  return font;
+}
+
+function tableOffset(font: Uint8Array, tag: string): number {
+  const view = new DataView(font.buffer, font.byteOffset, font.byteLength);
+  for (let i = 0; i < view.getUint16(4); i++) {
+    const record = 12 + i * 16;
+    if (String.fromCharCode(...font.subarray(record, record + 4)) === tag) return view.getUint32(record + 8);
+  }
+  return -1;
+}
+
+// Sum of the big-endian 32-bit words, the checksum sfnt tables and files use
+function checksum(bytes: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < bytes.length; i += 4) {
+    sum = (sum + ((bytes[i] << 24) | ((bytes[i + 1] ?? 0) << 16) | ((bytes[i + 2] ?? 0) << 8) | (bytes[i + 3] ?? 0))) >>> 0;
+  }
+  return sum;
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
@@ -0,0 +1,199 @@
+import type { ColumnType } from "./schemaTool.ts";
+import type { TimeSeriesSummary } from "./timeSeriesTool.ts";
+
+export type FindingSeverity = "info" | "warning" | "critical";
+
+export type FindingCategory =
+  | "completeness"
+  | "missing_values"
+  | "empty_column"
+  | "type_mismatch"
+  | "outliers"
+  | "skewness"
+  | "identifier"
+  | "high_cardinality"
+  | "class_imbalance"
+  | "duplicates"
+  | "strong_association"
+  | "non_linear"
+  | "multicollinearity"
+  | "time_gaps"
+  | "irregular_intervals"
+  | "partial_period"
+  | "trend"
+  | "seasonality";
+
+export interface InsightFinding {
+  id: string;
+  category: FindingCategory;
+  severity: FindingSeverity;
+  columns: string[]; // Empty for dataset-wide findings
+  message: string;
+  value?: number; // The measurement behind the finding (a percentage, count or coefficient)
+}
+
+export type RecommendationCategory = "preprocessing" | "algorithm" | "practice";
+
+export interface InsightRecommendation {
+  id: string;
+  category: RecommendationCategory;
+  text: string;
+  rationale: string; // The characteristic of this dataset that triggered the recommendation
+  columns: string[];
+}
+
+export interface NumericInsight {
+  mean: number;
+  median: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  range: number;
+  q1: number;
+  q3: number;
+  iqr: number;
+  lowerFence: number; // Q1 - 1.5 * IQR
+  upperFence: number; // Q3 + 1.5 * IQR
+  outliers: number;
+  outlierPercent: number;
+  outliersApproximate: boolean;
+  quantilesApproximate: boolean;
+  skew: "symmetric" | "right" | "left";
+  variability: "high" | "moderate" | "low";
+}
+
+export interface CategoricalInsight {
+  topValues: Array<{ value: string; count: number; percent: number }>;
+  topValuesApproximate: boolean;
+  cardinalityRatio: number;
+  allUnique: boolean;
+}
+
+export interface TemporalInsight {
+  earliest: string; // ISO 8601
+  latest: string;
+  spanDays: number;
+}
+
+export interface ColumnInsight {
+  name: string;
+  type: ColumnType;
+  typeLabel: string;
+  confidence: number;
+  parseFailures: number;
+  currencySymbol?: string;
+  count: number;
+  missing: number;
+  missingPercent: number;
+  distinct: number;
+  distinctApproximate: boolean;
+  numeric?: NumericInsight;
+  categorical?: CategoricalInsight;
+  temporal?: TemporalInsight;
+}
+
+export interface InsightParagraph {
+  label?: string; // Rendered as "Label: text"
+  text: string;
+}
+
+export type InsightBlock =
+  | { type: "paragraph"; paragraph: InsightParagraph }
+  | { type: "column"; column: string; heading: string; paragraphs: InsightParagraph[] }
+  | { type: "recommendations"; title?: string; recommendationIds: string[] };
+
+export type InsightSectionId =
+  | "summary"
+  | "structure"
+  | "variables"
+  | "associations"
+  | "temporal"
+  | "quality"
+  | "modeling"
+  | "additional"
+  | "conclusion";
+
+export interface InsightSection {
+  id: InsightSectionId;
+  title: string;
+  blocks: InsightBlock[];
+}
+
+export interface InsightReport {
+  title: string;
+  subtitle: string;
+  generatedAt: string;
+  overview: {
+    rowCount: number;
+    columnCount: number;
+    totalCells: number;
+    populatedCells: number;
+    completeness: number; // Percent of populated cells
+    typeCounts: Partial<Record<ColumnType, number>>;
+    numericColumns: string[];
+    categoricalColumns: string[];
+    duplicateRows: number;
+    duplicateScanRows: number;
+  };
+  columns: ColumnInsight[];
+  timeSeries: TimeSeriesSummary | null;
+  findings: InsightFinding[];
+  recommendations: InsightRecommendation[];
+  sections: InsightSection[];
+}
+
+export type InsightLineKind = "title" | "subtitle" | "heading" | "subheading" | "text" | "item" | "blank";
+
+export interface InsightLine {
+  kind: InsightLineKind;
+  text: string;
+  label?: string; // Lead-in of a text line, already included in text as "Label: ..."
+}
+
+// Lays the report out as lines tagged with their role, so renderers style headings without guessing from the text
+export function renderInsightLines(report: InsightReport): InsightLine[] {
+  const lines: InsightLine[] = [];
+  const blank = () => lines.push({ kind: "blank", text: "" });
+  const text = (paragraph: InsightParagraph) => {
+    lines.push({ kind: "text", text: paragraph.label ? `${paragraph.label}: ${paragraph.text}` : paragraph.text, label: paragraph.label });
+    blank();
+  };
+  const recommendations = new Map(report.recommendations.map(rec => [rec.id, rec]));
+
+  lines.push({ kind: "title", text: report.title });
+  lines.push({ kind: "subtitle", text: report.subtitle });
+  blank();
+
+  for (const section of report.sections) {
+    blank();
+    lines.push({ kind: "heading", text: section.title });
+    blank();
+
+    section.blocks.forEach((block, blockIndex) => {
+      if (block.type === "paragraph") {
+        text(block.paragraph);
+      } else if (block.type === "column") {
+        lines.push({ kind: "subheading", text: block.heading });
+        block.paragraphs.forEach(paragraph => text(paragraph));
+      } else {
+        if (blockIndex > 0) blank();
+        if (block.title) {
+          lines.push({ kind: "subheading", text: block.title });
+          blank();
+        }
+        block.recommendationIds.forEach((id, idx) => {
+          lines.push({ kind: "item", text: `${idx + 1}. ${recommendations.get(id)?.text ?? ""}` });
+          blank();
+        });
+      }
+    });
+  }
+
+  // The report ends on its last paragraph rather than a trailing blank line
+  while (lines.length > 0 && lines[lines.length - 1].kind === "blank") lines.pop();
+  return lines;
+}
+
+export function renderInsightText(report: InsightReport): string {
+  return renderInsightLines(report).map(line => line.text).join("\n");
+}
@@ -0,0 +1,190 @@
+import { SchemaInferrer, type ColumnType, type TableSchema } from "./schemaTool.ts";
+
+// Row-level join and union of table datasets. TableProcessor streams the rows through these and stores the
+// result as a new dataset, so the derived table gets the same profile, insights and tools as an uploaded file.
+
+export type JoinType = "inner" | "left" | "full";
+
+export interface JoinStats {
+  leftRows: number;
+  rightRows: number;
+  matchedLeftRows: number; // Left rows with at least one matching right row
+  unmatchedLeftRows: number;
+  unmatchedRightRows: number;
+  duplicateRightKeys: number; // Right rows whose key was already taken, each multiplying the matching left rows
+  outputRows: number;
+}
+
+export interface UnionStats {
+  inputRows: number[]; // Rows taken from each table, in order
+  columnsNotInAll: string[]; // Output columns some tables do not have; their rows are empty there
+}
+
+// Joins that explode on many-to-many keys are stopped rather than filling the disk
+export const MAX_JOIN_ROWS = 10_000_000;
+
+// Rows of both tables with equal key values are combined. The right table is held in memory, keyed by its key
+// columns; the left table is streamed past it. Keys compare as numbers or dates when both key columns have that
+// type ("42" matches "42.0", "2024-01-05" matches "01/05/2024"), otherwise as trimmed text; empty keys match nothing.
+// Values of a numeric key that do not parse compare as text.
+export class HashJoin {
+  readonly headers: string[];
+  readonly stats: JoinStats;
+  private inferrer = new SchemaInferrer();
+  private rightKeep: number[]; // Right columns copied to the output: all but the key columns
+  private rightRows: string[][] = [];
+  private rightIndex = new Map<string, number[]>();
+  private rightMatched: Uint8Array | null = null;
+  private normalizers: Array<(value: string, side: "left" | "right") => string>; // Dates follow each side's day order
+
+  constructor(
+    leftHeaders: string[],
+    rightHeaders: string[],
+    leftSchema: TableSchema,
+    rightSchema: TableSchema,
+    private leftKeys: number[],
+    private rightKeys: number[],
+    private how: JoinType,
+    rightLabel: string,
+  ) {
+    const keySet = new Set(rightKeys);
+    this.rightKeep = rightHeaders.map((_, idx) => idx).filter(idx => !keySet.has(idx));
+
+    // Right columns named like a left column get the right table's label, e.g. "Name (customers)"
+    const taken = new Set(leftHeaders.map(name => name.toLowerCase()));
+    this.headers = [...leftHeaders];
+    for (const idx of this.rightKeep) {
+      let name = rightHeaders[idx];
+      if (taken.has(name.toLowerCase())) {
+        name = `${name} (${rightLabel})`;
+        for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${rightHeaders[idx]} (${rightLabel} ${n})`;
+      }
+      taken.add(name.toLowerCase());
+      this.headers.push(name);
+    }
+
+    this.normalizers = leftKeys.map((leftIdx, k) => {
+      const leftType = leftSchema.columns[leftIdx].type;
+      const rightType = rightSchema.columns[rightKeys[k]].type;
+      // Numeric IDs are often typed as identifiers by their header ("Customer ID"); they still match "42.0" on a numeric side
+      const numericLike = (type: ColumnType) => this.inferrer.isNumeric(type) || type === "identifier";
+      const numeric = (this.inferrer.isNumeric(leftType) || this.inferrer.isNumeric(rightType)) && numericLike(leftType) && numericLike(rightType);
+      if (numeric) {
+        return (value: string) => {
+          const parsed = this.inferrer.parseNumber(value);
+          return parsed === null ? value.trim() : String(parsed);
+        };
+      }
+      if (this.inferrer.isTemporal(leftType) && this.inferrer.isTemporal(rightType)) {
+        const dayFirst = { left: leftSchema.columns[leftIdx].dayFirst, right: rightSchema.columns[rightKeys[k]].dayFirst };
+        return (value: string, side: "left" | "right") => {
+          const parsed = this.inferrer.parseDate(value, dayFirst[side]);
+          return parsed === null ? value.trim() : String(parsed);
+        };
+      }
+      return (value: string) => value.trim();
+    });
+
+    this.stats = { leftRows: 0, rightRows: 0, matchedLeftRows: 0, unmatchedLeftRows: 0, unmatchedRightRows: 0, duplicateRightKeys: 0, outputRows: 0 };
+  }
+
+  addRightRow(row: string[]): void {
+    const index = this.rightRows.length;
+    this.rightRows.push(row);
+    this.stats.rightRows++;
+
+    const key = this.keyOf(row, this.rightKeys, "right");
+    if (key === null) return;
+    const matches = this.rightIndex.get(key);
+    if (matches) {
+      matches.push(index);
+      this.stats.duplicateRightKeys++;
+    } else {
+      this.rightIndex.set(key, [index]);
+    }
+  }
+
+  // The output rows for one left row: one per matching right row, or the left row alone for left and full joins
+  *probe(row: string[]): Generator<string[]> {
+    if (this.how === "full") this.rightMatched ??= new Uint8Array(this.rightRows.length);
+    this.stats.leftRows++;
+
+    const key = this.keyOf(row, this.leftKeys, "left");
+    const matches = key === null ? undefined : this.rightIndex.get(key);
+    if (matches) {
+      this.stats.matchedLeftRows++;
+      for (const rightIdx of matches) {
+        if (this.rightMatched) this.rightMatched[rightIdx] = 1;
+        yield this.emit([...row, ...this.rightKeep.map(idx => this.rightRows[rightIdx][idx] ?? "")]);
+      }
+      return;
+    }
+
+    this.stats.unmatchedLeftRows++;
+    if (this.how !== "inner") yield this.emit([...row, ...this.rightKeep.map(() => "")]);
+  }
+
+  // Full joins end with the right rows no left row matched; their key values fill the left key columns
+  *unmatchedRight(leftWidth: number): Generator<string[]> {
+    if (this.how !== "full") return;
+    for (let rightIdx = 0; rightIdx < this.rightRows.length; rightIdx++) {
+      if (this.rightMatched?.[rightIdx]) continue;
+      this.stats.unmatchedRightRows++;
+      const rightRow = this.rightRows[rightIdx];
+      const left = new Array<string>(leftWidth).fill("");
+      this.leftKeys.forEach((leftIdx, k) => {
+        left[leftIdx] = rightRow[this.rightKeys[k]] ?? "";
+      });
+      yield this.emit([...left, ...this.rightKeep.map(idx => rightRow[idx] ?? "")]);
+    }
+  }
+
+  private emit(row: string[]): string[] {
+    if (++this.stats.outputRows > MAX_JOIN_ROWS) {
+      throw new Error(`The join produces more than ${MAX_JOIN_ROWS.toLocaleString()} rows. The key columns repeat on both sides; join on more columns or deduplicate first.`);
+    }
+    return row;
+  }
+
+  private keyOf(row: string[], keys: number[], side: "left" | "right"): string | null {
+    const parts: string[] = [];
+    for (let k = 0; k < keys.length; k++) {
+      const value = row[keys[k]] ?? "";
+      if (!value.trim()) return null;
+      parts.push(this.normalizers[k](value, side));
+    }
+    return parts.join("\u0000");
+  }
+}
+
+// Stacks tables by column name (case-insensitive); columns missing from a table are left empty in its rows.
+// The output keeps the first table's column order, followed by columns that only later tables have.
+export function planUnion(headerLists: string[][], sourceColumn?: string): { headers: string[]; columnMaps: number[][]; columnsNotInAll: string[] } {
+  const headers: string[] = [];
+  const positions = new Map<string, number>();
+  for (const list of headerLists) {
+    for (const name of list) {
+      const key = name.trim().toLowerCase();
+      if (positions.has(key)) continue;
+      positions.set(key, headers.length);
+      headers.push(name);
+    }
+  }
+
+  const columnMaps = headerLists.map(list => {
+    const map = new Array<number>(headers.length).fill(-1);
+    list.forEach((name, idx) => {
+      const position = positions.get(name.trim().toLowerCase())!;
+      if (map[position] === -1) map[position] = idx;
+    });
+    return map;
+  });
+  const columnsNotInAll = headers.filter((_, position) => columnMaps.some(map => map[position] === -1));
+
+  if (sourceColumn) {
+    let name = sourceColumn;
+    for (let n = 2; positions.has(name.trim().toLowerCase()); n++) name = `${sourceColumn} (${n})`;
+    headers.push(name);
+  }
+  return { headers, columnMaps, columnsNotInAll };
+}
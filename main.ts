@@ -8,7 +8,33 @@ import {
   listDataTool,
   listFilesTool,
   checkFileTool,
+  filterRowsTool,
+  aggregateColumnTool,
+  groupByTool,
+  uniqueValuesTool,
+  searchTableTool,
+  tableQuestionPrompt,
+  listSheetsTool,
+  timeSeriesSummaryTool,
+  searchPDFTool,
+  joinDatasetsTool,
+  unionDatasetsTool,
+  compareDatasetsTool,
+  detectDriftTool,
+  runSqlTool,
+  proposeTransformationsTool,
+  transformDatasetTool,
+  exportDataTool,
 } from "./customTools.ts";
+import { formatTableLines, type ReportTable } from "./correlationTool.ts";
+import { renderInsightLines, type InsightReport } from "./insightTool.ts";
+import { NARRATIVE_SAMPLE_ROWS, renderNarrativeLines, withNarrative, writeNarrative, type Narrative, type NarrativeSample } from "./narrativeTool.ts";
+import { renderDriftLines } from "./driftTool.ts";
+import { REPORT_FORMATS, renderReport, reportDocument, type ReportDocument, type ReportFormat } from "./reportTool.ts";
+import { CITATION_INSTRUCTIONS, citeAnswer, documentIndex, formatPassages, retrievePassages } from "./retrievalTool.ts";
+import { isSavedPDF } from "./pdfTool.ts";
+import { DataStorage } from "./storageTool.ts";
+import { CSV_ENCODINGS, EXPORT_FORMATS } from "./exportTool.ts";
 
 // Load environment variables
 const env = await load();
@@ -57,6 +83,22 @@ const agent = new ZypherAgent(
   processTableTool,
   extractInsightsTool,
   listDataTool,
+  filterRowsTool,
+  aggregateColumnTool,
+  groupByTool,
+  uniqueValuesTool,
+  searchTableTool,
+  listSheetsTool,
+  timeSeriesSummaryTool,
+  searchPDFTool,
+  joinDatasetsTool,
+  unionDatasetsTool,
+  compareDatasetsTool,
+  detectDriftTool,
+  runSqlTool,
+  proposeTransformationsTool,
+  transformDatasetTool,
+  exportDataTool,
 ];
 
 console.log("\n" + "=".repeat(70));
@@ -69,6 +111,28 @@ let fileType = "";
 let isFileProcessed = false;
 let tableData: any = null;
 let pdfData: any = null;
+const storage = new DataStorage();
+
+// Every table dataset loaded since the last 'new file': sheets, CSV files, PDF tables and joined or unioned tables
+interface LoadedDataset {
+  dataset: string;
+  file: string;
+  sheet?: string;
+  derivedFrom?: string;
+  headers: string[];
+  rowCount: number;
+}
+let loadedDatasets: LoadedDataset[] = [];
+
+function rememberDatasets(file: string, datasets: Array<Omit<LoadedDataset, "file">>) {
+  for (const d of datasets) {
+    loadedDatasets.push({ dataset: d.dataset, file, sheet: d.sheet, derivedFrom: d.derivedFrom, headers: d.headers, rowCount: d.rowCount });
+  }
+}
+
+function describeDataset(d: LoadedDataset): string {
+  return d.derivedFrom ?? (d.sheet ? `${d.file} / ${d.sheet}` : d.file);
+}
 
 // Step 1: List available files
 async function listAvailableFiles() {
@@ -135,13 +199,14 @@ async function processFile(filename: string) {
   }
 }
 
-async function displayTableInsights() {
+async function displayTableInsights(dataset: string, sheet?: string) {
   try {
     console.log("\n" + "=".repeat(70));
-    console.log("📊 GENERATING DATA SCIENCE ANALYSIS REPORT");
+    console.log(`📊 GENERATING DATA SCIENCE ANALYSIS REPORT${sheet ? ` - SHEET: ${sheet}` : ""}`);
     console.log("=".repeat(70) + "\n");
 
-    const result = await extractInsightsTool.execute({});
+    // Sample rows are only passed on to the model when the user allows it below
+    const result = await extractInsightsTool.execute({ dataset, include_charts: true, include_sample_rows: true });
     const data = JSON.parse(result);
 
     if (data.error) {
@@ -154,179 +219,86 @@ async function displayTableInsights() {
     console.log(`✅ Analysis completed for ${data.rowCount.toLocaleString()} rows, ${data.columnCount} columns`);
     console.log("=".repeat(70) + "\n");
 
-    // Offer PDF download
-    console.log("💾 Would you like to save this report as PDF? (yes/no):");
-    const savePDF = prompt("") || "";
+    const narrative = await offerNarrative(data);
+
+    // Offer a download of the report
+    console.log("💾 Save this report? Choose a format - pdf, html or md (Markdown) - or press Enter to skip:");
+    const answer = (prompt("") || "").toLowerCase().trim();
+    const format = answer === 'yes' || answer === 'y' ? "pdf" : REPORT_FORMATS.find(f => f === answer || (f === "md" && answer === "markdown"));
 
-    if (savePDF.toLowerCase().trim() === 'yes' || savePDF.toLowerCase().trim() === 'y') {
-      await savePDFReport(data.insights);
+    if (format) {
+      const doc = reportDocument(withNarrative(renderInsightLines(data.report), narrative), { title: `Data Science Analysis Report - ${currentFile}`, tables: data.correlationTables, tablesHeading: "CORRELATION MATRICES", charts: data.charts });
+      await saveReport(doc, "Data_Science_Analysis", format);
+    } else if (answer && answer !== 'no' && answer !== 'n') {
+      console.log(`❌ Unknown format "${answer}". Use pdf, html or md.\n`);
     }
   } catch (error) {
     console.log(`❌ Error generating insights: ${error}\n`);
   }
 }
 
-async function savePDFReport(insights: string) {
+// An executive narrative the model writes from the computed statistics, printed and added to the saved report
+async function offerNarrative(data: { report: InsightReport; sampleRows?: NarrativeSample }): Promise<Narrative | null> {
+  console.log("✨ Write an AI narrative (executive summary, key findings, next questions) from these statistics? (yes/no)");
+  const answer = (prompt("") || "").toLowerCase().trim();
+  if (answer !== 'yes' && answer !== 'y') return null;
+
+  console.log(`   Let the model see the first ${NARRATIVE_SAMPLE_ROWS} rows too? Without them it only sees statistics and column names. (yes/no)`);
+  const sampleAnswer = (prompt("") || "").toLowerCase().trim();
+  const sample = sampleAnswer === 'yes' || sampleAnswer === 'y' ? data.sampleRows : undefined;
+
+  try {
+    console.log("\n⏳ Writing the narrative...\n");
+    const narrative = await writeNarrative(data.report, async (narrativePrompt) => {
+      let text = "";
+      for await (const event of eachValueFrom(agent.runTask(narrativePrompt, "claude-sonnet-4-20250514"))) {
+        if (event.type === "text") text += String((event as { content?: unknown }).content ?? "");
+      }
+      return text;
+    }, sample);
+
+    console.log("=".repeat(70));
+    console.log(renderNarrativeLines(narrative).map(line => line.text).join("\n"));
+    console.log("=".repeat(70) + "\n");
+    return narrative;
+  } catch (error) {
+    console.log(`❌ Error writing the narrative: ${error instanceof Error ? error.message : String(error)}\n`);
+    return null;
+  }
+}
+
+async function saveReport(doc: ReportDocument, filePrefix: string, format: ReportFormat = "pdf") {
   try {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').substring(0, 19);
-    const filename = `Data_Science_Analysis_${timestamp}.pdf`;
+    const filename = `${filePrefix}_${timestamp}.${format}`;
     const filepath = `./${filename}`;
 
-    const pdfContent = generatePDFFromText(insights, currentFile);
-    await Deno.writeFile(filepath, pdfContent);
+    await Deno.writeFile(filepath, await renderReport(doc, format));
 
-    console.log(`\n✅ PDF report saved successfully!`);
+    console.log(`\n✅ ${format === "md" ? "Markdown" : format.toUpperCase()} report saved successfully!`);
     console.log(`   Location: ${filepath}`);
     console.log(`   File: ${filename}\n`);
   } catch (error) {
-    console.log(`❌ Error saving PDF: ${error}\n`);
-  }
-}
-
-function generatePDFFromText(content: string, filename: string): Uint8Array {
-  const lines = content.split('\n');
-  const pdfLines: string[] = [];
-
-  pdfLines.push('%PDF-1.4');
-  pdfLines.push('1 0 obj');
-  pdfLines.push('<< /Type /Catalog /Pages 2 0 R >>');
-  pdfLines.push('endobj');
-
-  const pageObjects: number[] = [];
-  const contentObjects: number[] = [];
-  let currentObj = 3;
-  const linesPerPage = 55;
-  const totalPages = Math.ceil(lines.length / linesPerPage);
-
-  for (let pageNum = 0; pageNum < totalPages; pageNum++) {
-    pageObjects.push(currentObj);
-    currentObj++;
-    contentObjects.push(currentObj);
-    currentObj++;
-  }
-
-  pdfLines.push('2 0 obj');
-  pdfLines.push(`<< /Type /Pages /Kids [${pageObjects.map(o => `${o} 0 R`).join(' ')}] /Count ${totalPages} >>`);
-  pdfLines.push('endobj');
-
-  const resourcesObj = currentObj++;
-  pdfLines.push(`${resourcesObj} 0 obj`);
-  pdfLines.push('<< /Font << /F1 << /Type /Font /Subtype /Type1 /BaseFont /Courier >> /F2 << /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold >> >> >>');
-  pdfLines.push('endobj');
-
-  for (let pageNum = 0; pageNum < totalPages; pageNum++) {
-    const pageObj = pageObjects[pageNum];
-    const contentObj = contentObjects[pageNum];
-
-    pdfLines.push(`${pageObj} 0 obj`);
-    pdfLines.push(`<< /Type /Page /Parent 2 0 R /Resources ${resourcesObj} 0 R /MediaBox [0 0 612 792] /Contents ${contentObj} 0 R >>`);
-    pdfLines.push('endobj');
-
-    const contentLines: string[] = [];
-    contentLines.push('BT');
-    contentLines.push('/F1 10 Tf');
-    contentLines.push('50 750 Td');
-
-    if (pageNum === 0) {
-      contentLines.push('/F2 14 Tf');
-      contentLines.push('(DATA SCIENCE ANALYSIS REPORT) Tj');
-      contentLines.push('0 -18 Td');
-      contentLines.push('/F1 9 Tf');
-      contentLines.push(`(Dataset: ${filename.replace(/[()\\]/g, '').substring(0, 60)}) Tj`);
-      contentLines.push('0 -12 Td');
-      contentLines.push(`(Generated: ${new Date().toLocaleString()}) Tj`);
-      contentLines.push('0 -20 Td');
-    }
-
-    const startLine = pageNum === 0 ? 0 : pageNum * linesPerPage;
-    const endLine = Math.min(startLine + (pageNum === 0 ? linesPerPage - 5 : linesPerPage), lines.length);
-
-    for (let i = startLine; i < endLine; i++) {
-      const line = lines[i];
-
-      if (line.trim().length === 0) {
-        contentLines.push('0 -8 Td');
-      } else if (line === line.toUpperCase() && line.trim().length > 0 && line.trim().length < 60 && !line.includes(':')) {
-        contentLines.push('/F2 11 Tf');
-        const cleanLine = line.trim().substring(0, 75).replace(/[()\\]/g, '');
-        contentLines.push(`(${cleanLine}) Tj`);
-        contentLines.push('0 -14 Td');
-        contentLines.push('/F1 10 Tf');
-      } else {
-        const words = line.split(' ');
-        let currentLine = '';
-
-        for (const word of words) {
-          const testLine = currentLine + (currentLine ? ' ' : '') + word;
-          if (testLine.length <= 80) {
-            currentLine = testLine;
-          } else {
-            if (currentLine) {
-              contentLines.push(`(${currentLine.replace(/[()\\]/g, '')}) Tj`);
-              contentLines.push('0 -11 Td');
-            }
-            currentLine = word;
-          }
-        }
-
-        if (currentLine) {
-          contentLines.push(`(${currentLine.replace(/[()\\]/g, '')}) Tj`);
-          contentLines.push('0 -11 Td');
-        }
-      }
-    }
-
-    contentLines.push('0 -15 Td');
-    contentLines.push('/F1 8 Tf');
-    contentLines.push(`(Page ${pageNum + 1} of ${totalPages}) Tj`);
-    contentLines.push('ET');
-
-    const streamContent = contentLines.join('\n');
-
-    pdfLines.push(`${contentObj} 0 obj`);
-    pdfLines.push(`<< /Length ${streamContent.length} >>`);
-    pdfLines.push('stream');
-    pdfLines.push(streamContent);
-    pdfLines.push('endstream');
-    pdfLines.push('endobj');
-  }
-
-  const pdfContent = pdfLines.join('\n');
-  const xrefEntries: string[] = ['0000000000 65535 f '];
-
-  let position = pdfContent.indexOf('1 0 obj');
-  for (let i = 1; i < currentObj; i++) {
-    const objString = `${i} 0 obj`;
-    position = pdfContent.indexOf(objString);
-    if (position !== -1) {
-      xrefEntries.push(String(position).padStart(10, '0') + ' 00000 n ');
-    }
+    console.log(`❌ Error saving report: ${error}\n`);
   }
-
-  pdfLines.push('xref');
-  pdfLines.push(`0 ${currentObj}`);
-  xrefEntries.forEach(entry => pdfLines.push(entry));
-  pdfLines.push('trailer');
-  pdfLines.push(`<< /Size ${currentObj} /Root 1 0 R >>`);
-  pdfLines.push('startxref');
-  pdfLines.push(String(pdfLines.join('\n').length - 200));
-  pdfLines.push('%%EOF');
-
-  const pdfString = pdfLines.join('\n');
-  return new TextEncoder().encode(pdfString);
 }
 
-async function promptNextFile() {
+async function promptNextFile(): Promise<"ask" | "next"> {
   console.log("\n" + "=".repeat(70));
   console.log("📁 ANALYZE ANOTHER FILE");
   console.log("=".repeat(70));
   console.log("\nWhat would you like to do next?");
   console.log("   1. Select another file from uploads folder");
   console.log("   2. Upload a new file to analyze");
-  console.log("   3. Exit");
+  console.log("   3. Ask questions about this dataset");
+  console.log("   4. Exit");
   console.log("");
 
-  const choice = prompt("Enter your choice (1-3): ") || "";
+  const choice = prompt("Enter your choice (1-4): ") || "";
+
+  if (choice === "3") {
+    return "ask";
+  }
 
   if (choice === "1") {
     const newFiles = await listAvailableFiles();
@@ -357,7 +329,8 @@ async function promptNextFile() {
           const success = await processFile(filename);
 
           if (success && (fileType === 'csv' || fileType === 'excel')) {
-            await promptNextFile();
+            currentFile = filename;
+            return await promptNextFile();
           }
         } else {
           console.log(`\n❌ Path is not a file. Please provide a valid file path.\n`);
@@ -367,16 +340,22 @@ async function promptNextFile() {
         console.log(`   Please check the file path and try again.\n`);
       }
     }
-  } else if (choice === "3" || choice.toLowerCase() === "exit") {
+  } else if (choice === "4" || choice.toLowerCase() === "exit") {
     console.log("\n👋 Thank you for using InsightFlow!\n");
     await cleanupExtractedData();
     Deno.exit(0);
   } else {
     console.log("\n⚠️  Invalid choice. Returning to file selection.\n");
   }
+
+  return "next";
 }
 
 
+function fileName(filePath: string): string {
+  return filePath.split(/[/\\]/).pop() || filePath;
+}
+
 async function processCSV(filePath: string) {
   try {
     const result = await processTableTool.execute({
@@ -396,14 +375,16 @@ async function processCSV(filePath: string) {
     console.log(`   Columns: ${parsed.headers.join(", ")}\n`);
 
     tableData = {
+      dataset: parsed.dataset,
       headers: parsed.headers,
       rowCount: parsed.rowCount,
       rows: parsed.sample_rows
     };
     pdfData = null;
+    rememberDatasets(fileName(filePath), parsed.datasets);
 
     // Automatically generate and display insights
-    await displayTableInsights();
+    await displayTableInsights(parsed.dataset);
 
     return true;
   } catch (error) {
@@ -412,11 +393,38 @@ async function processCSV(filePath: string) {
   }
 }
 
+// Lets the user pick sheets when a workbook has more than one
+async function promptForSheets(filePath: string): Promise<string[] | undefined> {
+  const parsed = JSON.parse(await listSheetsTool.execute({ file_path: filePath }));
+  if (parsed.error || parsed.sheets.length <= 1) return undefined;
+
+  console.log(`📑 This workbook has ${parsed.sheets.length} sheets:`);
+  parsed.sheets.forEach((sheet: { name: string; rowCount: number; columnCount: number; hidden: boolean }, idx: number) => {
+    console.log(`   ${idx + 1}. ${sheet.name} (${sheet.rowCount.toLocaleString()} rows × ${sheet.columnCount} columns)${sheet.hidden ? " [hidden]" : ""}`);
+  });
+  if (parsed.namedRanges.length > 0) {
+    console.log(`   Named ranges: ${parsed.namedRanges.map((r: { name: string }) => r.name).join(", ")}`);
+  }
+  console.log("");
+
+  const choice = (prompt("Sheets to analyze (numbers separated by commas, 'all', or Enter for the first): ") || "").trim();
+  if (!choice) return undefined;
+  if (choice.toLowerCase() === "all") return ["*"];
+
+  const selected = choice.split(",")
+    .map(part => parsed.sheets[parseInt(part.trim()) - 1]?.name)
+    .filter((name: string | undefined): name is string => Boolean(name));
+
+  return selected.length > 0 ? selected : undefined;
+}
+
 async function processExcel(filePath: string) {
   try {
+    const sheets = await promptForSheets(filePath);
     const result = await processTableTool.execute({
       file_path: filePath,
-      file_type: 'excel'
+      file_type: 'excel',
+      sheets
     });
 
     const parsed = JSON.parse(result);
@@ -427,18 +435,27 @@ async function processExcel(filePath: string) {
     }
 
     console.log(`✅ Successfully processed Excel file!`);
-    console.log(`   Rows: ${parsed.rowCount.toLocaleString()}`);
-    console.log(`   Columns: ${parsed.headers.join(", ")}\n`);
+    for (const sheet of parsed.datasets) {
+      console.log(`   Sheet: ${sheet.sheet}`);
+      console.log(`      Rows: ${sheet.rowCount.toLocaleString()}`);
+      console.log(`      Columns: ${sheet.headers.join(", ")}`);
+    }
+    console.log("");
 
     tableData = {
+      dataset: parsed.dataset,
       headers: parsed.headers,
       rowCount: parsed.rowCount,
-      rows: parsed.sample_rows
+      rows: parsed.sample_rows,
+      datasets: parsed.datasets
     };
     pdfData = null;
+    rememberDatasets(fileName(filePath), parsed.datasets);
 
-    // Automatically generate and display insights
-    await displayTableInsights();
+    // Automatically generate and display insights for every processed sheet
+    for (const sheet of parsed.datasets) {
+      await displayTableInsights(sheet.dataset, sheet.sheet);
+    }
 
     return true;
   } catch (error) {
@@ -463,35 +480,53 @@ async function processPDF(filePath: string) {
     console.log(`✅ Successfully processed PDF file!`);
     console.log(`   Pages: ${parsed.numPages}`);
     console.log(`   Tables found: ${parsed.tablesFound || 0}`);
-    console.log(`   Text length: ${(parsed.textLength / 1000).toFixed(1)}K characters\n`);
+    for (const table of parsed.datasets || []) {
+      console.log(`      ${table.sheet}: ${table.rowCount.toLocaleString()} rows, columns ${table.headers.join(", ")}`);
+    }
+    console.log(`   Text length: ${(parsed.textLength / 1000).toFixed(1)}K characters`);
+    if (parsed.ocr) {
+      console.log(`   OCR: ${parsed.ocrSummary}`);
+      for (const page of parsed.ocr.pages) {
+        console.log(`      Page ${page.page}: ${page.confidence}% confidence, ${page.characters.toLocaleString()} characters`);
+      }
+    }
+    console.log("");
     
-    // Load the full PDF data from storage
+    // Load the full PDF data saved under the document ID returned by extraction
     try {
-      const files = [];
-      for await (const entry of Deno.readDir("./extracted_data")) {
-        if (entry.name.startsWith("pdf_data")) {
-          files.push(entry.name);
-        }
-      }
-      files.sort((a, b) => b.localeCompare(a));
-      
-      if (files.length > 0) {
-        const fs = await Deno.readTextFile(`./extracted_data/${files[0]}`);
-        const fullData = JSON.parse(fs);
-        
+      const fullData = await storage.loadDataset(parsed.document, "pdf_data");
+      if (isSavedPDF(fullData)) {
         pdfData = {
+          document: parsed.document,
           text: fullData.text,
           numPages: fullData.numPages,
-          tables: fullData.tables || [],
+          pages: fullData.pages,
+          pageOffsets: fullData.pageOffsets,
+          index: fullData.index,
+          datasets: parsed.datasets || [],
           metadata: fullData.metadata,
           textLength: fullData.textLength
         };
+      } else {
+        console.log(`⚠️  Could not load full PDF data: ${parsed.document} not found`);
       }
     } catch (error) {
       console.log(`⚠️  Could not load full PDF data: ${error}`);
     }
     
     tableData = null;
+    rememberDatasets(fileName(filePath), parsed.datasets || []);
+
+    // Tables pulled out of the PDF are datasets like any CSV, so they get the same analysis report
+    if (parsed.datasets?.length > 0) {
+      console.log(`📊 Generate analysis reports for the ${parsed.datasets.length} table(s) found? (yes/no):`);
+      const answer = (prompt("") || "").toLowerCase().trim();
+      if (answer === 'yes' || answer === 'y') {
+        for (const table of parsed.datasets) {
+          await displayTableInsights(table.dataset, table.sheet);
+        }
+      }
+    }
     
     return true;
   } catch (error) {
@@ -505,47 +540,66 @@ async function writeToStdout(text: string) {
   await Deno.stdout.write(encoder.encode(text));
 }
 
-// Step 3: Answer questions using AI agent for PDF files only
+// Step 3: Answer questions using AI agent for PDF and table files
 async function answerQuestion(question: string) {
   // Handle PDF questions with AI
   if (pdfData && !tableData) {
     console.log("\n🤔 Analyzing PDF content with AI...\n");
 
     try {
-      // Chunk the text for better processing
-      const chunks = chunkText(pdfData.text, 15000);
+      // Only the best-matching passages go into the prompt; the agent can search for more with search_pdf
+      const passages = retrievePassages(documentIndex(pdfData), question, 8);
 
       let prompt = `You are analyzing a PDF document with ${pdfData.numPages} pages and ${pdfData.textLength} characters.
 
 User question: "${question}"
 
-PDF Content (complete text in chunks):
+Document reference: ${pdfData.document}
+
+Most relevant passages from the document (ranked by relevance, with page numbers):
 
+${formatPassages(passages)}
 `;
 
-      // Add all chunks
-      chunks.forEach((chunk, idx) => {
-        prompt += `\n--- Chunk ${idx + 1}/${chunks.length} ---\n${chunk}\n`;
-      });
+      if (pdfData.datasets.length > 0) {
+        prompt += `\n\nTables extracted from the PDF, each saved as a dataset for the table tools (filter_rows, aggregate_column, group_by, unique_values, search_table):\n`;
+        for (const d of pdfData.datasets) {
+          prompt += `- ${d.sheet} (dataset "${d.dataset}"): ${d.rowCount.toLocaleString()} rows, columns ${d.headers.join(", ")}\n`;
+        }
+        prompt += `Compute answers about table contents with these tools rather than reading numbers from the passages.\n`;
+      }
 
-      if (pdfData.tables.length > 0) {
-        prompt += `\n\nTables found in PDF (first 5):\n`;
-        pdfData.tables.slice(0, 5).forEach((t: string[], i: number) => {
-          prompt += `\nTable ${i + 1}:\n${t.join('\n')}\n`;
-        });
+      const pdfTables = new Set((pdfData.datasets as LoadedDataset[]).map(d => d.dataset));
+      const otherDatasets = loadedDatasets.filter(d => !pdfTables.has(d.dataset));
+      if (otherDatasets.length > 0) {
+        prompt += `\nOther datasets loaded in this session, for the same table tools:\n`;
+        for (const d of otherDatasets) {
+          prompt += `- ${describeDataset(d)} (dataset "${d.dataset}"): ${d.rowCount.toLocaleString()} rows, columns ${d.headers.join(", ")}\n`;
+        }
       }
 
-      prompt += `\n\nPlease answer the user's question based on the complete PDF content above. Be accurate, specific, and cite relevant information from the document. If you need to quote something, use the exact text from the PDF.`;
+      prompt += `\n\nPlease answer the user's question based on the passages above. If they do not contain the answer, use the search_pdf tool (with this document reference) and other words before concluding that the document does not cover it. Be accurate and specific. ${CITATION_INSTRUCTIONS} If you need to quote something, use the exact text from the PDF.`;
 
       const event$ = agent.runTask(prompt, "claude-sonnet-4-20250514");
+      let answer = "";
 
       for await (const event of eachValueFrom(event$)) {
         if (event.type === "text") {
           const text = (event as any).content || "";
+          answer += text;
           await writeToStdout(text);
         }
       }
 
+      // List the page and supporting sentence behind each citation marker in the answer
+      const citations = pdfData.pages ? citeAnswer(answer, passages, pdfData.pages, pdfData.pageOffsets) : [];
+      if (citations.length > 0) {
+        console.log("\n\n📄 Sources:");
+        for (const citation of citations) {
+          console.log(`   ${citation.label} Page ${citation.page}: "${citation.quote.replace(/\s+/g, " ")}"`);
+        }
+      }
+
       console.log("\n");
       return;
     } catch (error) {
@@ -554,31 +608,43 @@ PDF Content (complete text in chunks):
     }
   }
 
-  // No PDF loaded
-  console.log("❌ No PDF loaded. Please process a PDF file to ask questions.\n");
-}
+  // Handle table questions - the agent computes answers with the table tools
+  if (tableData && !pdfData) {
+    console.log("\n🤔 Analyzing table data with AI...\n");
 
-function chunkText(text: string, maxChunkSize: number): string[] {
-  const chunks: string[] = [];
-  const paragraphs = text.split(/\n\n+/);
-  let currentChunk = "";
+    try {
+      const prompt = tableQuestionPrompt({
+        question,
+        name: currentFile,
+        dataset: tableData.dataset,
+        headers: tableData.headers,
+        rowCount: tableData.rowCount,
+        sampleRows: tableData.rows || [],
+        otherDatasets: loadedDatasets.filter(d => d.dataset !== tableData.dataset).map(d => ({ ...d, label: describeDataset(d) })),
+      });
 
-  for (const paragraph of paragraphs) {
-    if ((currentChunk + paragraph).length > maxChunkSize && currentChunk.length > 0) {
-      chunks.push(currentChunk.trim());
-      currentChunk = paragraph;
-    } else {
-      currentChunk += (currentChunk ? "\n\n" : "") + paragraph;
-    }
-  }
+      const event$ = agent.runTask(prompt, "claude-sonnet-4-20250514");
+
+      for await (const event of eachValueFrom(event$)) {
+        if (event.type === "text") {
+          const text = (event as any).content || "";
+          await writeToStdout(text);
+        }
+      }
 
-  if (currentChunk.trim()) {
-    chunks.push(currentChunk.trim());
+      console.log("\n");
+      return;
+    } catch (error) {
+      console.log(`❌ Error: ${error instanceof Error ? error.message : String(error)}\n`);
+      return;
+    }
   }
 
-  return chunks;
+  // No file loaded
+  console.log("❌ No file loaded. Please process a PDF, CSV or Excel file to ask questions.\n");
 }
 
+
 // Cleanup function to clear extracted data
 async function cleanupExtractedData() {
   try {
@@ -596,6 +662,271 @@ async function cleanupExtractedData() {
   }
 }
 
+function printDatasets() {
+  if (loadedDatasets.length === 0) {
+    console.log("\n⚠️  No table datasets loaded.\n");
+    return;
+  }
+  console.log("\n📚 Datasets loaded in this session:");
+  loadedDatasets.forEach((d, idx) => {
+    console.log(`   ${idx + 1}. ${describeDataset(d)} - ${d.rowCount.toLocaleString()} rows, columns ${d.headers.join(", ")}`);
+  });
+  console.log("");
+}
+
+// Reads a dataset number from the list printed by printDatasets
+function promptDataset(label: string): LoadedDataset | null {
+  const choice = parseInt((prompt(`${label} (number): `) || "").trim());
+  const selected = loadedDatasets[choice - 1];
+  if (!selected) console.log("\n⚠️  No dataset with that number.\n");
+  return selected ?? null;
+}
+
+function promptColumns(label: string): string[] {
+  return (prompt(label) || "").split(",").map(name => name.trim()).filter(Boolean);
+}
+
+// Processes another file while questions keep going to the current one
+async function addFile() {
+  const files = await listAvailableFiles();
+  if (files.length === 0) return;
+
+  const input = (prompt("File to add (number or filename): ") || "").trim();
+  if (!input) return;
+  const num = parseInt(input);
+  const selectedFile = !isNaN(num) && num > 0 && num <= files.length
+    ? files[num - 1]
+    : files.find(f => f.toLowerCase() === input.toLowerCase()) || input;
+
+  const previous = { fileType, tableData, pdfData };
+  const success = await processFile(selectedFile);
+  ({ fileType, tableData, pdfData } = previous);
+  if (success) printDatasets();
+}
+
+async function joinDatasets() {
+  printDatasets();
+  if (loadedDatasets.length < 2) return;
+  const left = promptDataset("Left dataset");
+  const right = left && promptDataset("Right dataset");
+  if (!left || !right) return;
+
+  const on = promptColumns("Key columns of the left dataset (comma-separated): ");
+  const rightOn = promptColumns("Key columns of the right dataset (Enter for the same names): ");
+  const how = (prompt("Join type - inner, left or full (Enter for inner): ") || "inner").trim().toLowerCase();
+  if (how !== "inner" && how !== "left" && how !== "full") {
+    console.log("\n⚠️  Join type must be inner, left or full.\n");
+    return;
+  }
+
+  console.log("\n🔗 Joining datasets...\n");
+  const parsed = JSON.parse(await joinDatasetsTool.execute({ left_dataset: left.dataset, right_dataset: right.dataset, on, right_on: rightOn, how }));
+  console.log(`${parsed.message}\n`);
+  if (!parsed.error) {
+    rememberDatasets("", [parsed]);
+    console.log(`   Columns: ${parsed.headers.join(", ")}\n`);
+  }
+}
+
+async function unionDatasets() {
+  printDatasets();
+  if (loadedDatasets.length < 2) return;
+  const selected = (prompt("Datasets to stack (numbers separated by commas): ") || "")
+    .split(",")
+    .map(part => loadedDatasets[parseInt(part.trim()) - 1])
+    .filter((d): d is LoadedDataset => Boolean(d));
+  if (selected.length < 2) {
+    console.log("\n⚠️  Select at least two datasets.\n");
+    return;
+  }
+  const sourceColumn = (prompt("Name of a column recording each row's source (Enter for none): ") || "").trim();
+
+  console.log("\n📚 Stacking datasets...\n");
+  const parsed = JSON.parse(await unionDatasetsTool.execute({ datasets: selected.map(d => d.dataset), source_column: sourceColumn || undefined }));
+  console.log(`${parsed.message}\n`);
+  if (!parsed.error) rememberDatasets("", [parsed]);
+}
+
+async function compareDatasets() {
+  printDatasets();
+  if (loadedDatasets.length < 2) return;
+  const baseline = promptDataset("Baseline dataset");
+  const current = baseline && promptDataset("Current dataset");
+  if (!baseline || !current) return;
+  const keyColumns = promptColumns("Key columns to match rows by (comma-separated, Enter to compare distributions only): ");
+
+  console.log("\n" + "=".repeat(70));
+  console.log("📊 DATASET COMPARISON");
+  console.log("=".repeat(70) + "\n");
+  const parsed = JSON.parse(await compareDatasetsTool.execute({ baseline_dataset: baseline.dataset, current_dataset: current.dataset, key_columns: keyColumns }));
+  if (parsed.error) {
+    console.log(`❌ Error: ${parsed.message}\n`);
+    return;
+  }
+
+  console.log(parsed.report);
+  for (const table of parsed.comparisonTables as ReportTable[]) {
+    console.log(`\n${table.title}\n`);
+    formatTableLines(table, 100).forEach(line => console.log(line));
+  }
+  console.log("\n" + "=".repeat(70) + "\n");
+}
+
+async function detectDrift() {
+  printDatasets();
+  if (loadedDatasets.length < 2) return;
+  const baseline = promptDataset("Baseline version");
+  const current = baseline && promptDataset("Current version");
+  if (!baseline || !current) return;
+
+  console.log("\n" + "=".repeat(70));
+  console.log("📉 DATA DRIFT");
+  console.log("=".repeat(70) + "\n");
+  const parsed = JSON.parse(await detectDriftTool.execute({ baseline_dataset: baseline.dataset, current_dataset: current.dataset }));
+  if (parsed.error) {
+    console.log(`❌ Error: ${parsed.message}\n`);
+    return;
+  }
+
+  console.log(parsed.report);
+  for (const table of parsed.driftTables as ReportTable[]) {
+    console.log(`\n${table.title}\n`);
+    formatTableLines(table, 100).forEach(line => console.log(line));
+  }
+  console.log("\n" + "=".repeat(70) + "\n");
+
+  console.log("💾 Would you like to save this report as PDF? (yes/no):");
+  const savePDF = (prompt("") || "").toLowerCase().trim();
+  if (savePDF === 'yes' || savePDF === 'y') {
+    await saveReport(reportDocument(renderDriftLines(parsed.drift), { title: `Data Drift Report - ${parsed.drift.current.name}`, tables: parsed.driftTables, tablesHeading: "DRIFT BY COLUMN" }), "Data_Drift");
+  }
+}
+
+const SQL_PAGE_ROWS = 20;
+
+// Runs a SQL query over the loaded datasets and pages through the result
+async function runSQL() {
+  if (loadedDatasets.length === 0) {
+    printDatasets();
+    return;
+  }
+  console.log("\n📚 Tables for SQL (name them by dataset ID in double quotes):");
+  loadedDatasets.forEach(d => console.log(`   "${d.dataset}" - ${describeDataset(d)}: ${d.headers.join(", ")}`));
+  const query = (prompt("\nSQL query (one line): ") || "").trim();
+  if (!query) return;
+
+  let parsed = JSON.parse(await runSqlTool.execute({ query, limit: SQL_PAGE_ROWS }));
+  if (parsed.error) {
+    console.log(`\n${parsed.message}\n`);
+    return;
+  }
+  rememberDatasets("", [{ ...parsed, derivedFrom: `SQL: ${parsed.query}` }]);
+
+  for (;;) {
+    console.log("");
+    const table: ReportTable = {
+      title: "SQL result",
+      columns: ["#", ...parsed.headers],
+      rows: parsed.rows.map((record: Record<string, string>, idx: number) => [String(parsed.offset + idx + 1), ...parsed.headers.map((h: string) => record[h])]),
+    };
+    formatTableLines(table, 100).forEach(line => console.log(line));
+    console.log(`${parsed.message}\n`);
+    if (!parsed.truncated) return;
+
+    const more = (prompt("Press Enter for the next rows, or type 'q' to stop: ") || "").trim().toLowerCase();
+    if (more) return;
+    parsed = JSON.parse(await runSqlTool.execute({ result_dataset: parsed.dataset, offset: parsed.offset + parsed.returned, limit: SQL_PAGE_ROWS }));
+    if (parsed.error) {
+      console.log(`\n${parsed.message}\n`);
+      return;
+    }
+  }
+}
+
+// Cleans a loaded dataset with the suggested steps (all or some of them) or a saved recipe, and saves the cleaned
+// version as a new dataset, optionally exported to a file
+async function cleanDataset() {
+  printDatasets();
+  if (loadedDatasets.length === 0) return;
+  const source = promptDataset("Dataset to clean");
+  if (!source) return;
+
+  const proposed = JSON.parse(await proposeTransformationsTool.execute({ dataset: source.dataset }));
+  if (proposed.error) {
+    console.log(`\n${proposed.message}\n`);
+    return;
+  }
+  if (proposed.proposals.length > 0) {
+    console.log("\n🧹 Suggested steps:");
+    proposed.proposals.forEach((p: { description: string; reason: string }, idx: number) => {
+      console.log(`   ${idx + 1}. ${p.description}\n      ${p.reason}`);
+    });
+  } else {
+    console.log("\n✅ No cleaning steps suggested for this dataset.");
+  }
+
+  const choice = (prompt("\nSteps to apply ('all', numbers separated by commas, or a saved recipe ID; Enter to cancel): ") || "").trim();
+  if (!choice) return;
+  const input: { dataset: string; steps?: unknown[]; recipe?: string } = { dataset: source.dataset };
+  if (choice.startsWith("recipe_")) {
+    input.recipe = choice;
+  } else if (choice.toLowerCase() === "all") {
+    input.steps = proposed.steps;
+  } else {
+    input.steps = choice.split(",").map(part => proposed.steps[parseInt(part.trim()) - 1]).filter(Boolean);
+    if (input.steps.length === 0) {
+      console.log("\n⚠️  No suggested step with those numbers.\n");
+      return;
+    }
+  }
+
+  console.log("\n🧹 Cleaning dataset...\n");
+  const parsed = JSON.parse(await transformDatasetTool.execute(input));
+  console.log(`${parsed.message}\n`);
+  if (parsed.error) return;
+  rememberDatasets("", [parsed]);
+
+  const format = (prompt(`Export the cleaned table to a file? (${EXPORT_FORMATS.join("/")}, Enter to skip): `) || "").trim().toLowerCase();
+  if (format) console.log(`\n${JSON.parse(await exportDataTool.execute({ dataset: parsed.dataset, format })).message}\n`);
+}
+
+// Writes a loaded dataset, such as a SQL result or a cleaned version, to a file in the exports directory
+async function exportDataset() {
+  printDatasets();
+  if (loadedDatasets.length === 0) return;
+  const selected = promptDataset("Dataset to export");
+  if (!selected) return;
+
+  const format = (prompt(`Format - ${EXPORT_FORMATS.join(", ")} (Enter for csv): `) || "csv").trim().toLowerCase();
+  const input: { dataset: string; format: string; delimiter?: string; encoding?: string } = { dataset: selected.dataset, format };
+  if (format === "csv") {
+    const delimiter = (prompt("Delimiter - a character, or 'tab' (Enter for ,): ") || "").trim();
+    input.delimiter = delimiter.toLowerCase() === "tab" ? "\t" : delimiter || undefined;
+    input.encoding = (prompt(`Encoding - ${CSV_ENCODINGS.join(", ")} (Enter for utf-8): `) || "").trim() || undefined;
+  }
+
+  console.log("\n💾 Exporting dataset...\n");
+  const parsed = JSON.parse(await exportDataTool.execute(input));
+  console.log(`${parsed.message}\n`);
+}
+
+function printDatasetCommands() {
+  console.log("   Type 'add file' to load another file alongside this one, 'datasets' to list loaded datasets,");
+  console.log("   'join', 'union' and 'compare' to combine or compare them, 'drift' to measure drift between two versions,");
+  console.log("   'sql' to run a SQL query over them, 'clean' to clean one into a new version, or 'export' to save one as a file.");
+}
+
+function printTableQuestionHelp() {
+  console.log(`\n✅ ${currentFile} loaded! You can now ask questions about the data.`);
+  console.log("   Examples:");
+  console.log("   - Which region had the highest average revenue?");
+  console.log("   - How many orders were placed by each customer segment?");
+  console.log("   - Show me the rows where status is cancelled");
+  console.log("");
+  printDatasetCommands();
+  console.log("   Type 'new file' to analyze a different file, or 'exit' to quit.\n");
+}
+
 // Main interactive loop
 async function main() {
   const files = await listAvailableFiles();
@@ -650,10 +981,16 @@ async function main() {
           console.log("   - What are the main topics?");
           console.log("   - Extract key findings");
           console.log("   - What does it say about [specific topic]?");
-          console.log("\n   Type 'new file' to analyze a different file, or 'exit' to quit.\n");
+          console.log("");
+          printDatasetCommands();
+          console.log("   Type 'new file' to analyze a different file, or 'exit' to quit.\n");
         } else {
-          // For table files, automatically prompt for next file
-          await promptNextFile();
+          // For table files, offer Q&A on this dataset or move on to the next file
+          const next = await promptNextFile();
+          if (next === "ask") {
+            printTableQuestionHelp();
+            continue;
+          }
           isFileProcessed = false;
           currentFile = "";
           tableData = null;
@@ -668,6 +1005,7 @@ async function main() {
       currentFile = "";
       tableData = null;
       pdfData = null;
+      loadedDatasets = [];
       console.log("\n📂 Available files:");
       files.forEach((file, idx) => {
         console.log(`   ${idx + 1}. ${file}`);
@@ -676,6 +1014,44 @@ async function main() {
       continue;
     }
     
+    const command = input.toLowerCase();
+    if (command === "add file") {
+      await addFile();
+      continue;
+    }
+    if (command === "datasets") {
+      printDatasets();
+      continue;
+    }
+    if (command === "join") {
+      await joinDatasets();
+      continue;
+    }
+    if (command === "union") {
+      await unionDatasets();
+      continue;
+    }
+    if (command === "compare") {
+      await compareDatasets();
+      continue;
+    }
+    if (command === "drift") {
+      await detectDrift();
+      continue;
+    }
+    if (command === "sql") {
+      await runSQL();
+      continue;
+    }
+    if (command === "clean") {
+      await cleanDataset();
+      continue;
+    }
+    if (command === "export") {
+      await exportDataset();
+      continue;
+    }
+
     await answerQuestion(input);
   }
 }
@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import type { ColumnInsight, InsightReport } from "./insightTool.ts";
+import { narrativeStats, unsupportedNumbers, writeNarrative } from "./narrativeTool.ts";
+
+function column(name: string, fields: Partial<ColumnInsight>): ColumnInsight {
+  return {
+    name,
+    type: "categorical",
+    typeLabel: "Categorical",
+    confidence: 1,
+    parseFailures: 0,
+    count: 200,
+    missing: 0,
+    missingPercent: 0,
+    distinct: 4,
+    distinctApproximate: false,
+    ...fields,
+  };
+}
+
+// 200 orders: revenue per order, the region they came from and when they were placed
+const report: InsightReport = {
+  title: "orders.csv",
+  subtitle: "200 rows, 3 columns",
+  generatedAt: "2024-06-30T00:00:00.000Z",
+  overview: {
+    rowCount: 200,
+    columnCount: 3,
+    totalCells: 600,
+    populatedCells: 586,
+    completeness: 97.67,
+    typeCounts: { currency: 1, categorical: 1, date: 1 },
+    numericColumns: ["unit_revenue"],
+    categoricalColumns: ["region"],
+    duplicateRows: 0,
+    duplicateScanRows: 200,
+  },
+  columns: [
+    column("unit_revenue", {
+      type: "currency",
+      typeLabel: "Currency",
+      missing: 14,
+      missingPercent: 7,
+      distinct: 181,
+      numeric: {
+        mean: 1394.36,
+        median: 1210,
+        stdDev: 402.5,
+        min: 120,
+        max: 4980,
+        range: 4860,
+        q1: 950,
+        q3: 1720,
+        iqr: 770,
+        lowerFence: -205,
+        upperFence: 2875,
+        outliers: 6,
+        outlierPercent: 3.23,
+        outliersApproximate: false,
+        quantilesApproximate: false,
+        skew: "right",
+        variability: "moderate",
+      },
+    }),
+    column("region", {
+      categorical: {
+        topValues: [
+          { value: "North", count: 82, percent: 41 },
+          { value: "South", count: 64, percent: 32 },
+        ],
+        topValuesApproximate: false,
+        cardinalityRatio: 0.02,
+        allUnique: false,
+      },
+    }),
+    column("placed_at", {
+      type: "date",
+      typeLabel: "Date",
+      distinct: 152,
+      temporal: { earliest: "2024-01-01T00:00:00.000Z", latest: "2024-06-30T00:00:00.000Z", spanDays: 181 },
+    }),
+  ],
+  timeSeries: null,
+  findings: [
+    { id: "missing", category: "missing_values", severity: "warning", columns: ["unit_revenue"], message: "unit_revenue is missing in 14 rows (7%) since 2024", value: 7 },
+  ],
+  recommendations: [],
+  sections: [],
+};
+
+const stats = narrativeStats(report);
+
+Deno.test("accepts a statistic in a sentence that names its column", () => {
+  assert.deepEqual(unsupportedNumbers("Unit revenue averages 1,394.36 per order, with a median of 1210.", stats), []);
+  assert.deepEqual(unsupportedNumbers("North accounts for 41% of region values.", stats), []);
+});
+
+Deno.test("accepts a statistic rounded to fewer decimals", () => {
+  assert.deepEqual(unsupportedNumbers("Unit revenue averages 1394.4, or about 1394.", stats), []);
+});
+
+Deno.test("accepts dataset-wide statistics without a column name", () => {
+  assert.deepEqual(unsupportedNumbers("The dataset has 200 rows and is 97.67% complete.", stats), []);
+});
+
+Deno.test("rejects a fabricated figure", () => {
+  assert.deepEqual(unsupportedNumbers("Unit revenue grew 38% year over year.", stats), ["38"]);
+  assert.deepEqual(unsupportedNumbers("Region has 12345 customers.", stats), ["12345"]);
+});
+
+Deno.test("rejects a figure that belongs to a different column", () => {
+  // 1394.36 is the mean of unit_revenue, not of region
+  assert.deepEqual(unsupportedNumbers("Region averages 1394.36.", stats), ["1394.36"]);
+  // 41 is the share of North in region, and no sentence before this one carries the column over
+  assert.deepEqual(unsupportedNumbers("Unit revenue is missing in 14 rows. 41% of orders come from the North.", stats), ["41"]);
+});
+
+Deno.test("rejects a figure only near a statistic", () => {
+  assert.deepEqual(unsupportedNumbers("Unit revenue averages about 1390.", stats), ["1390"]);
+});
+
+Deno.test("rejects the negated value of a statistic", () => {
+  assert.deepEqual(unsupportedNumbers("Unit revenue bottoms out at -120.", stats), ["-120"]);
+});
+
+Deno.test("rejects numbers derived from the statistics rather than held in them", () => {
+  // The complement of completenessPercent (100 - 97.67)
+  assert.deepEqual(unsupportedNumbers("2.33% of cells are empty.", stats), ["2.33"]);
+  // The number of columns listed as categorical, and digits inside a finding message and a timestamp
+  assert.deepEqual(unsupportedNumbers("Unit revenue has 1 categorical companion and gaps since 2024.", stats), ["1", "2024"]);
+});
+
+Deno.test("does not read digits in a column name as a claim", () => {
+  const renamed = narrativeStats({ ...report, columns: [column("2023 sales", { missing: 5 })] });
+  assert.deepEqual(unsupportedNumbers("2023 sales is missing in 5 rows.", renamed), []);
+});
+
+Deno.test("leaves out statements with an unsupported number", async () => {
+  const narrative = await writeNarrative(report, () =>
+    Promise.resolve(JSON.stringify({
+      summary: "The dataset has 200 orders. Unit revenue averages 1394.36. Unit revenue grew 38% last quarter.",
+      findings: ["Region is led by North at 41%.", "Half of 12345 customers churned."],
+      questions: ["Why does unit_revenue have 6 outliers?"],
+    })));
+  assert.equal(narrative.summary, "The dataset has 200 orders. Unit revenue averages 1394.36.");
+  assert.deepEqual(narrative.findings, ["Region is led by North at 41%."]);
+  assert.deepEqual(narrative.questions, ["Why does unit_revenue have 6 outliers?"]);
+  assert.equal(narrative.omitted, 2);
+});
@@ -0,0 +1,330 @@
+import type { FindingSeverity, InsightLine, InsightReport, NumericInsight, TemporalInsight } from "./insightTool.ts";
+import type { MetricSeries, TimeSeriesSummary } from "./timeSeriesTool.ts";
+
+// An executive narrative written by the language model on top of the computed insight report. The model only sees
+// the statistics (and, when allowed, a few sample rows), and every number it writes is checked against the
+// statistics of the dataset and of the column or metric named in the same sentence: statements with a number that
+// matches none of them are left out.
+
+export interface Narrative {
+  summary: string;
+  findings: string[];
+  questions: string[];
+  omitted: number; // Statements left out because a number in them matched no statistic of what their sentence names
+  sampleRows: number; // Rows the model saw besides the statistics; 0 when it only saw statistics
+  createdAt: string;
+}
+
+export interface NarrativeSample {
+  headers: string[];
+  rows: string[][];
+}
+
+// First rows sent to the model when sample rows are allowed
+export const NARRATIVE_SAMPLE_ROWS = 5;
+
+const MAX_FINDINGS = 6;
+const MAX_QUESTIONS = 5;
+
+export interface NarrativeStats {
+  dataset: {
+    rows: number;
+    columns: number;
+    completenessPercent: number;
+    duplicateRows: number;
+    duplicateRowsScanned: number;
+    numericColumns: string[];
+    categoricalColumns: string[];
+  };
+  columns: Array<{
+    name: string;
+    type: string;
+    missing: number;
+    missingPercent: number;
+    distinct: number;
+    numeric?: Pick<NumericInsight, "mean" | "median" | "stdDev" | "min" | "max" | "q1" | "q3" | "outliers" | "outlierPercent" | "skew">;
+    topValues?: Array<{ value: string; count: number; percent: number }>;
+    temporal?: TemporalInsight;
+  }>;
+  timeSeries?: Pick<TimeSeriesSummary, "column" | "granularity" | "start" | "end" | "observedPeriods" | "expectedPeriods" | "missingPeriods" | "largestGap"> & {
+    metrics: Array<Pick<MetricSeries, "name" | "aggregation" | "trend" | "seasonality" | "change">>;
+  };
+  findings: Array<{ severity: FindingSeverity; columns: string[]; message: string; value?: number }>;
+}
+
+// The numbers a sentence may contain: dataset-wide statistics anywhere, the others only where the sentence names
+// their column or metric
+interface ClaimScope {
+  names: string[]; // Empty for dataset-wide statistics
+  numbers: number[];
+}
+
+// Runs a prompt through the agent and resolves to the text of its answer
+export type NarrativeRunner = (prompt: string) => Promise<string>;
+
+export async function writeNarrative(report: InsightReport, run: NarrativeRunner, sample?: NarrativeSample): Promise<Narrative> {
+  const stats = narrativeStats(report);
+  const response = await run(narrativePrompt(report, stats, sample));
+  return checkNarrative(parseNarrative(response), stats, sample ? Math.min(sample.rows.length, NARRATIVE_SAMPLE_ROWS) : 0);
+}
+
+// The statistics the model writes from: dataset overview, per-column statistics, the time axis and the findings.
+// Numbers are rounded to what a reader would quote, and these rounded values are what claims are checked against.
+export function narrativeStats(report: InsightReport): NarrativeStats {
+  const { overview, timeSeries } = report;
+  return {
+    dataset: {
+      rows: overview.rowCount,
+      columns: overview.columnCount,
+      completenessPercent: round(overview.completeness),
+      duplicateRows: overview.duplicateRows,
+      duplicateRowsScanned: overview.duplicateScanRows,
+      numericColumns: overview.numericColumns,
+      categoricalColumns: overview.categoricalColumns,
+    },
+    columns: report.columns.map(column => ({
+      name: column.name,
+      type: column.typeLabel,
+      missing: column.missing,
+      missingPercent: round(column.missingPercent),
+      distinct: column.distinct,
+      ...(column.numeric && {
+        numeric: {
+          mean: round(column.numeric.mean),
+          median: round(column.numeric.median),
+          stdDev: round(column.numeric.stdDev),
+          min: round(column.numeric.min),
+          max: round(column.numeric.max),
+          q1: round(column.numeric.q1),
+          q3: round(column.numeric.q3),
+          outliers: column.numeric.outliers,
+          outlierPercent: round(column.numeric.outlierPercent),
+          skew: column.numeric.skew,
+        },
+      }),
+      ...(column.categorical && {
+        topValues: column.categorical.topValues.slice(0, 5).map(value => ({ value: value.value, count: value.count, percent: round(value.percent) })),
+      }),
+      ...(column.temporal && { temporal: column.temporal }),
+    })),
+    ...(timeSeries && {
+      timeSeries: {
+        column: timeSeries.column,
+        granularity: timeSeries.granularity,
+        start: timeSeries.start,
+        end: timeSeries.end,
+        observedPeriods: timeSeries.observedPeriods,
+        expectedPeriods: timeSeries.expectedPeriods,
+        missingPeriods: timeSeries.missingPeriods,
+        largestGap: timeSeries.largestGap,
+        metrics: timeSeries.metrics.map(metric => ({
+          name: metric.name,
+          aggregation: metric.aggregation,
+          trend: roundAll(metric.trend),
+          seasonality: roundAll(metric.seasonality),
+          change: roundAll(metric.change),
+        })),
+      },
+    }),
+    findings: report.findings.map(finding => ({
+      severity: finding.severity,
+      columns: finding.columns,
+      message: finding.message,
+      ...(finding.value !== undefined && { value: round(finding.value) }),
+    })),
+  };
+}
+
+function narrativePrompt(report: InsightReport, stats: NarrativeStats, sample?: NarrativeSample): string {
+  let prompt = `You are writing the executive narrative of a data analysis report: ${report.title} - ${report.subtitle}.
+
+The statistics below were computed over every row of the dataset:
+
+${JSON.stringify(stats, null, 2)}
+`;
+
+  if (sample && sample.rows.length > 0) {
+    prompt += `\nThe first ${Math.min(sample.rows.length, NARRATIVE_SAMPLE_ROWS)} rows, only to show what the data describes (do not quote numbers from them):\n`;
+    prompt += `${sample.headers.join(" | ")}\n`;
+    for (const row of sample.rows.slice(0, NARRATIVE_SAMPLE_ROWS)) prompt += `${row.join(" | ")}\n`;
+  }
+
+  prompt += `
+Work out what the data is about from its column names and values, and write for a business reader in that domain:
+- summary: an executive summary of 3 to 5 sentences
+- findings: up to ${MAX_FINDINGS} key findings, one or two sentences each, most important first
+- questions: up to ${MAX_QUESTIONS} questions worth asking of this data next
+
+Every number you write must appear in the statistics above, as given or rounded to fewer decimals, and keep its sign. Name the column or metric a number belongs to in the same sentence; dataset totals need no name. Do not compute new numbers (sums, differences, complements, ratios, shares), do not write dates or years, and do not write numbers for things the statistics do not measure. Write numbers as digits. Do not call any tools.
+
+Reply with only a JSON object, with no text before or after it:
+{"summary": "...", "findings": ["..."], "questions": ["..."]}`;
+  return prompt;
+}
+
+function parseNarrative(response: string): { summary: string; findings: string[]; questions: string[] } {
+  const start = response.indexOf("{");
+  const end = response.lastIndexOf("}");
+  let parsed: unknown;
+  try {
+    parsed = start !== -1 && end > start ? JSON.parse(response.substring(start, end + 1)) : null;
+  } catch {
+    parsed = null;
+  }
+  const value = parsed as { summary?: unknown; findings?: unknown; questions?: unknown } | null;
+  const strings = (list: unknown) => (Array.isArray(list) ? list.filter((item): item is string => typeof item === "string" && item.trim() !== "") : []);
+  if (!value || typeof value.summary !== "string" || !Array.isArray(value.findings)) {
+    throw new Error("The model did not return a narrative in the expected format");
+  }
+  return {
+    summary: value.summary,
+    findings: strings(value.findings).slice(0, MAX_FINDINGS),
+    questions: strings(value.questions).slice(0, MAX_QUESTIONS),
+  };
+}
+
+// Keeps the sentences of the summary, and the findings and questions, whose numbers all match a statistic
+function checkNarrative(draft: { summary: string; findings: string[]; questions: string[] }, stats: NarrativeStats, sampleRows: number): Narrative {
+  let omitted = 0;
+  const keep = (text: string) => {
+    const supported = unsupportedNumbers(text, stats).length === 0;
+    if (!supported) omitted++;
+    return supported;
+  };
+
+  const summary = sentences(draft.summary).filter(keep).join(" ");
+  const findings = draft.findings.map(text => text.trim()).filter(keep);
+  const questions = draft.questions.map(text => text.trim()).filter(keep);
+  if (!summary && findings.length === 0) {
+    throw new Error("None of the narrative's statements could be matched to the computed statistics");
+  }
+  return { summary, findings, questions, omitted, sampleRows, createdAt: new Date().toISOString() };
+}
+
+// Numbers written in the text that match no statistic of the dataset, or of a column or metric named in the same
+// sentence, once the statistic is rounded to the decimals written
+export function unsupportedNumbers(text: string, stats: NarrativeStats): string[] {
+  const scopes = claimScopes(stats);
+  // Longest first, so "unit price" is not also read as a mention of "price"
+  const names = [...new Set(scopes.flatMap(scope => scope.names))].filter(name => name.trim() !== "").sort((a, b) => b.length - a.length);
+  const unsupported: string[] = [];
+  for (const sentence of sentences(text)) {
+    // Mentions are taken out before reading numbers, so digits in a name ("2023 revenue") are not claims
+    let rest = normalizeName(sentence);
+    const named = new Set<string>();
+    for (const name of names) {
+      const without = rest.replace(mentionPattern(name), " ");
+      if (without !== rest) named.add(name);
+      rest = without;
+    }
+    const known = scopes.filter(scope => scope.names.length === 0 || scope.names.some(name => named.has(name))).flatMap(scope => scope.numbers);
+    for (const match of rest.matchAll(/(?<![\w.])[-−]?\d[\d,]*(?:\.\d+)?(?![\w])/g)) {
+      const written = match[0].replace(/,/g, "").replace("−", "-");
+      const value = Number(written);
+      if (!Number.isFinite(value)) continue;
+      const decimals = written.includes(".") ? written.length - written.indexOf(".") - 1 : 0;
+      if (!known.some(stat => Number(stat.toFixed(decimals)) === value)) unsupported.push(match[0]);
+    }
+  }
+  return unsupported;
+}
+
+// The numeric statistics, grouped by the column or metric they describe. Only numbers the statistics hold as numbers
+// count: digits inside text (timestamps, finding messages) and values derived from them are not claims they support.
+function claimScopes(stats: NarrativeStats): ClaimScope[] {
+  const { dataset, timeSeries } = stats;
+  const scopes: ClaimScope[] = [
+    { names: [], numbers: [dataset.rows, dataset.columns, dataset.completenessPercent, dataset.duplicateRows, dataset.duplicateRowsScanned] },
+  ];
+  for (const column of stats.columns) {
+    const { numeric, topValues, temporal } = column;
+    scopes.push({
+      names: [column.name],
+      numbers: [
+        column.missing,
+        column.missingPercent,
+        column.distinct,
+        ...(numeric ? [numeric.mean, numeric.median, numeric.stdDev, numeric.min, numeric.max, numeric.q1, numeric.q3, numeric.outliers, numeric.outlierPercent] : []),
+        ...(topValues ?? []).flatMap(value => [value.count, value.percent]),
+        ...(temporal ? [temporal.spanDays] : []),
+      ],
+    });
+  }
+  if (timeSeries) {
+    scopes.push({
+      names: [timeSeries.column],
+      numbers: [timeSeries.observedPeriods, timeSeries.expectedPeriods, timeSeries.missingPeriods, ...(timeSeries.largestGap ? [timeSeries.largestGap.periods] : [])],
+    });
+    for (const { name, trend, seasonality, change } of timeSeries.metrics) {
+      const numbers = [trend?.slopePerPeriod, trend?.percentPerPeriod, trend?.rSquared, seasonality?.lag, seasonality?.autocorrelation, change?.changePercent, change?.seasonalChangePercent];
+      scopes.push({ names: [name], numbers: numbers.filter((value): value is number => typeof value === "number") });
+    }
+  }
+  for (const finding of stats.findings) {
+    if (finding.value !== undefined) scopes.push({ names: finding.columns, numbers: [finding.value] });
+  }
+  return scopes;
+}
+
+function sentences(text: string): string[] {
+  return text.trim().split(/(?<=[.!?])\s+(?=[A-Z0-9"'(])/).filter(sentence => sentence !== "");
+}
+
+// Column names are matched case-insensitively, with underscores read as spaces ("unit_price" is "unit price")
+function normalizeName(text: string): string {
+  return text.toLowerCase().replace(/_/g, " ");
+}
+
+function mentionPattern(name: string): RegExp {
+  const escaped = normalizeName(name).trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+");
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, "gu");
+}
+
+// The narrative as report lines, set apart from the computed sections that follow it
+export function renderNarrativeLines(narrative: Narrative): InsightLine[] {
+  const lines: InsightLine[] = [];
+  const blank = () => lines.push({ kind: "blank", text: "" });
+
+  lines.push({ kind: "heading", text: "AI-WRITTEN NARRATIVE" });
+  blank();
+  lines.push({
+    kind: "text",
+    text: `Written by a language model from the computed statistics${narrative.sampleRows > 0 ? ` and the first ${narrative.sampleRows} rows` : " only (no rows of the data)"}. Every number in it was checked against the statistics of the dataset and of the column or metric named in the same sentence${narrative.omitted > 0 ? `; ${narrative.omitted} statement(s) with a number that did not match were left out` : ""}. The sections after this one are computed directly from the data.`,
+  });
+  blank();
+  if (narrative.summary) {
+    lines.push({ kind: "subheading", text: "Executive Summary" });
+    lines.push({ kind: "text", text: narrative.summary });
+    blank();
+  }
+  if (narrative.findings.length > 0) {
+    lines.push({ kind: "subheading", text: "Key Findings" });
+    narrative.findings.forEach(finding => lines.push({ kind: "item", text: `- ${finding}` }));
+    blank();
+  }
+  if (narrative.questions.length > 0) {
+    lines.push({ kind: "subheading", text: "Suggested Next Questions" });
+    narrative.questions.forEach(question => lines.push({ kind: "item", text: `- ${question}` }));
+    blank();
+  }
+  return lines;
+}
+
+// Report lines with the narrative placed before the first computed section
+export function withNarrative(lines: InsightLine[], narrative?: Narrative | null): InsightLine[] {
+  if (!narrative) return lines;
+  const firstSection = lines.findIndex(line => line.kind === "heading");
+  const at = firstSection === -1 ? lines.length : firstSection;
+  return [...lines.slice(0, at), ...renderNarrativeLines(narrative), { kind: "blank", text: "" }, ...lines.slice(at)];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundAll<T>(value: T): T {
+  if (typeof value === "number") return round(value) as T;
+  if (Array.isArray(value)) return value.map(roundAll) as T;
+  if (value && typeof value === "object") return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, roundAll(child)])) as T;
+  return value;
+}
@@ -0,0 +1,151 @@
+import PDFJS from "pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js";
+import { createWorker } from "tesseract.js";
+import eng from "@tesseract.js-data/eng";
+
+// OCR of scanned PDF pages: the page images are decoded with the pdf.js build bundled in pdf-parse and read
+// by tesseract (WebAssembly) with the English model shipped as an npm package, so nothing is downloaded at run time.
+
+export interface PageOCR {
+  page: number; // 1-based page number
+  confidence: number; // Mean word confidence reported by the engine, 0-100
+  characters: number; // Characters recognized on the page
+  images: number; // Page images that were read
+}
+
+export interface OCRSummary {
+  engine: string;
+  language: string;
+  pages: PageOCR[];
+  averageConfidence: number | null; // Weighted by recognized characters
+  lowConfidencePages: number[]; // Pages below LOW_OCR_CONFIDENCE
+  error?: string; // Set when the engine could not run; the pages then keep their (missing) text
+}
+
+export const OCR_LANGUAGE = "eng";
+export const LOW_OCR_CONFIDENCE = 70;
+const MIN_PAGE_CHARACTERS = 50; // Pages with less extracted text than this are treated as scans
+const MIN_IMAGE_SIZE = 100; // Smaller images (logos, icons) are not worth reading
+
+// pdf.js image formats (ImageKind)
+const GRAYSCALE_1BPP = 1;
+const RGB_24BPP = 2;
+
+interface DecodedImage {
+  width: number;
+  height: number;
+  kind: number;
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+// A page whose text layer is (almost) empty, as for scans or pages printed to an image
+export function needsOCR(pageText: string): boolean {
+  return pageText.replace(/\s+/g, "").length < MIN_PAGE_CHARACTERS;
+}
+
+// Binary greyscale (PGM) image, a format tesseract reads without any image library
+function toPGM(image: DecodedImage): Uint8Array {
+  const { width, height, kind, data } = image;
+  const header = new TextEncoder().encode(`P5\n${width} ${height}\n255\n`);
+  const pixels = new Uint8Array(header.length + width * height);
+  pixels.set(header);
+
+  let out = header.length;
+  if (kind === GRAYSCALE_1BPP) {
+    // One bit per pixel, rows padded to whole bytes; a set bit is white
+    const rowBytes = (width + 7) >> 3;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        pixels[out++] = data[y * rowBytes + (x >> 3)] & (128 >> (x & 7)) ? 255 : 0;
+      }
+    }
+  } else {
+    const channels = kind === RGB_24BPP ? 3 : 4;
+    for (let idx = 0; idx < width * height; idx++) {
+      const src = idx * channels;
+      pixels[out++] = (data[src] * 299 + data[src + 1] * 587 + data[src + 2] * 114) / 1000;
+    }
+  }
+  return pixels;
+}
+
+// The images painted on a page, in drawing order
+async function pageImages(page: { objs: { get(id: string): DecodedImage }; getOperatorList(): Promise<{ fnArray: number[]; argsArray: unknown[][] }> }): Promise<DecodedImage[]> {
+  const operators = await page.getOperatorList();
+  const images: DecodedImage[] = [];
+  operators.fnArray.forEach((fn, idx) => {
+    let image: DecodedImage | null = null;
+    if (fn === PDFJS.OPS.paintImageXObject) image = page.objs.get(operators.argsArray[idx][0] as string);
+    else if (fn === PDFJS.OPS.paintInlineImageXObject) image = operators.argsArray[idx][0] as DecodedImage;
+    if (image?.data && image.width >= MIN_IMAGE_SIZE && image.height >= MIN_IMAGE_SIZE) images.push(image);
+  });
+  return images;
+}
+
+// Reads the images of the given pages; pages without images are left out of the result
+export async function recognizePages(fileData: Uint8Array, pageNumbers: number[]): Promise<Map<number, { text: string; ocr: PageOCR }>> {
+  const results = new Map<number, { text: string; ocr: PageOCR }>();
+  if (pageNumbers.length === 0) return results;
+
+  PDFJS.disableWorker = true;
+  // Images are decoded by pdf.js itself: JPEG decoding is otherwise left to the browser, which does not exist here
+  const document = await PDFJS.getDocument({ data: fileData, nativeImageDecoderSupport: "none" });
+  // The engine is only started once a page turns out to hold images, since blank pages are common
+  let worker: Awaited<ReturnType<typeof createWorker>> | null = null;
+
+  try {
+    for (const pageNumber of pageNumbers) {
+      const images = await pageImages(await document.getPage(pageNumber));
+      if (images.length === 0) continue;
+      worker ??= await createWorker(OCR_LANGUAGE, 1, { langPath: eng.langPath, gzip: eng.gzip, cacheMethod: "none" });
+
+      const texts: string[] = [];
+      let weightedConfidence = 0;
+      for (const image of images) {
+        const { data } = await worker.recognize(toPGM(image));
+        const text = data.text.trim();
+        if (!text) continue;
+        texts.push(text);
+        weightedConfidence += data.confidence * text.length;
+      }
+
+      const text = texts.join("\n");
+      results.set(pageNumber, {
+        text,
+        ocr: {
+          page: pageNumber,
+          confidence: text.length > 0 ? Math.round(weightedConfidence / text.length) : 0,
+          characters: text.length,
+          images: images.length,
+        },
+      });
+    }
+  } finally {
+    await worker?.terminate();
+    document.destroy();
+  }
+  return results;
+}
+
+export function summarizeOCR(pages: PageOCR[], error?: string): OCRSummary {
+  const characters = pages.reduce((sum, page) => sum + page.characters, 0);
+  return {
+    engine: "tesseract",
+    language: OCR_LANGUAGE,
+    pages,
+    averageConfidence: characters > 0 ? Math.round(pages.reduce((sum, page) => sum + page.confidence * page.characters, 0) / characters) : null,
+    lowConfidencePages: pages.filter(page => page.confidence < LOW_OCR_CONFIDENCE).map(page => page.page),
+    ...(error ? { error } : {}),
+  };
+}
+
+// One-line account of the OCR pass for process results, e.g. "OCR read 2 scanned pages (2, 3) with 91% mean confidence"
+export function describeOCR(summary: OCRSummary): string {
+  if (summary.error) return summary.error;
+  const count = summary.pages.length;
+  let description = `OCR read ${count} scanned page${count === 1 ? "" : "s"} (${summary.pages.map(page => page.page).join(", ")})`;
+  if (summary.averageConfidence !== null) description += ` with ${summary.averageConfidence}% mean confidence`;
+  if (summary.lowConfidencePages.length > 0) {
+    description += `; low confidence on page${summary.lowConfidencePages.length === 1 ? "" : "s"} ${summary.lowConfidencePages.join(", ")}, so text from ${summary.lowConfidencePages.length === 1 ? "it" : "them"} may contain recognition errors`;
+  }
+  return description;
+}
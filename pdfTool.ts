@@ -1,101 +1,389 @@
 import PDFParser from "pdf-parse";
+import { buildChunkIndex, searchChunks, type ChunkIndex, type RankedPassage } from "./retrievalTool.ts";
+import { needsOCR, recognizePages, summarizeOCR, type OCRSummary } from "./ocrTool.ts";
 
 export interface PDFData {
   text: string;
   numPages: number;
   metadata: Record<string, unknown>;
   fullText: string; // Store complete text without truncation
+  pages: string[]; // Text of each page, in page order
+  pageOffsets: number[]; // Where each page starts in `text`
+  pageItems: PDFTextItem[][]; // Positioned text of each page, for table extraction
+  ocr: OCRSummary | null; // Pages read by OCR because they had (almost) no text; null when none needed it
 }
 
-export class PDFProcessor {
-  async extractText(filePath: string): Promise<PDFData> {
-    try {
-      const fileData = await Deno.readFile(filePath);
-      const data = await PDFParser(fileData);
-      
-      return {
-        text: data.text,
-        fullText: data.text, // Store complete text
-        numPages: data.numpages,
-        metadata: data.metadata || {},
-      };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to process PDF: ${message}`);
+// An extracted PDF as extract_pdf saves it; extractions saved before pages were kept have only the text
+export interface SavedPDF {
+  file_path: string;
+  text: string;
+  numPages: number;
+  textLength: number;
+  pages?: string[];
+  pageOffsets?: number[];
+  index?: ChunkIndex;
+  tables?: unknown[];
+  metadata?: Record<string, unknown>;
+}
+
+// Whether data loaded from storage is a saved PDF extraction
+export function isSavedPDF(value: unknown): value is SavedPDF {
+  const pdf = value as Partial<SavedPDF> | null;
+  return typeof pdf === "object" && pdf !== null && typeof pdf.text === "string" && typeof pdf.numPages === "number";
+}
+
+// A run of text on a page, positioned in PDF user space (origin bottom-left, y is the baseline)
+export interface PDFTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number; // Font size
+}
+
+export interface PDFTable {
+  page: number; // 1-based page the table starts on
+  pageEnd: number; // Last page, for tables continued under a repeated header
+  headerRows: string[][]; // Empty when the table has no header
+  rows: string[][];
+  columns: Array<{ left: number; right: number }>; // Column extents on the page
+}
+
+interface TextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+// Same text layout as pdf-parse's default page renderer (a new line whenever the baseline moves),
+// but also collects each page separately, with the position of every text item, so passages can be
+// traced back to their page and tables can be read from the layout
+function pageRenderer(pages: string[], pageItems: PDFTextItem[][]) {
+  return async (pageData: { pageIndex: number; getTextContent(options: Record<string, boolean>): Promise<{ items: TextItem[] }> }) => {
+    const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+    let lastY: number | undefined;
+    let text = "";
+    const items: PDFTextItem[] = [];
+    for (const item of content.items) {
+      text += lastY === item.transform[5] || !lastY ? item.str : "\n" + item.str;
+      lastY = item.transform[5];
+      if (item.str.trim()) {
+        const height = item.height || Math.hypot(item.transform[2], item.transform[3]) || 10;
+        items.push({ text: item.str, x: item.transform[4], y: item.transform[5], width: item.width || item.str.length * height * 0.5, height });
+      }
+    }
+    pages[pageData.pageIndex] = text;
+    pageItems[pageData.pageIndex] = items;
+    return text;
+  };
+}
+
+interface LayoutSegment {
+  text: string;
+  left: number;
+  right: number;
+}
+
+interface LayoutLine {
+  y: number;
+  height: number;
+  segments: LayoutSegment[];
+}
+
+const NUMERIC_CELL = /^[-+(]?\s*[$€£¥]?\s*\d[\d,.'\s]*%?\)?$/;
+
+// Groups text items into lines by baseline, then into segments separated by more than a word space.
+// Runs of two or more spaces inside an item also separate segments, since some PDFs lay out columns with spaces.
+function layoutLines(items: PDFTextItem[]): LayoutLine[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: Array<{ y: number; height: number; items: PDFTextItem[] }> = [];
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - item.y) <= 0.4 * Math.max(line.height, item.height)) {
+      line.items.push(item);
+      line.height = Math.max(line.height, item.height);
+    } else {
+      lines.push({ y: item.y, height: item.height, items: [item] });
     }
   }
 
-  extractTables(text: string): string[][] {
-    const lines = text.split("\n");
-    const tables: string[][] = [];
-    let currentTable: string[] = [];
-
-    for (const line of lines) {
-      // Detect table rows (lines with multiple spaces or tabs)
-      if (line.includes("  ") || line.includes("\t")) {
-        const row = line.split(/\s{2,}|\t/).filter((cell) => cell.trim());
-        if (row.length > 1) {
-          currentTable.push(row.join("|"));
-        }
-      } else if (currentTable.length > 0) {
-        tables.push(currentTable);
-        currentTable = [];
+  return lines.map(line => {
+    const pieces: LayoutSegment[] = [];
+    for (const item of line.items) {
+      const charWidth = item.width / Math.max(1, item.text.length);
+      for (const match of item.text.matchAll(/\S+(?: \S+)*/g)) {
+        const left = item.x + match.index! * charWidth;
+        pieces.push({ text: match[0], left, right: left + match[0].length * charWidth });
       }
     }
+    pieces.sort((a, b) => a.left - b.left);
 
-    if (currentTable.length > 0) {
-      tables.push(currentTable);
+    const segments: LayoutSegment[] = [];
+    for (const piece of pieces) {
+      const last = segments[segments.length - 1];
+      const gap = last ? piece.left - last.right : Infinity;
+      if (last && gap <= 0.3 * line.height) {
+        last.text += gap > 0.08 * line.height ? ` ${piece.text}` : piece.text;
+        last.right = Math.max(last.right, piece.right);
+      } else {
+        segments.push({ ...piece });
+      }
     }
+    return { y: line.y, height: line.height, segments };
+  });
+}
 
-    return tables;
+// Column extents from the x-coverage of the segments: a gutter is a stretch that (almost) no line covers,
+// so a header spanning two columns does not merge them
+function findColumns(lines: LayoutLine[]): Array<{ left: number; right: number }> {
+  const candidates = lines.filter(line => line.segments.length >= 2);
+  const tolerance = Math.floor(candidates.length * 0.1);
+  const events: Array<[number, number]> = [];
+  for (const line of candidates) {
+    for (const segment of line.segments) {
+      events.push([segment.left, 1], [segment.right, -1]);
+    }
   }
+  events.sort((a, b) => a[0] - b[0] || b[1] - a[1]);
 
-  // New method to chunk text for processing
-  chunkText(text: string, maxChunkSize: number = 10000): string[] {
-    const chunks: string[] = [];
-    const paragraphs = text.split(/\n\n+/);
-    let currentChunk = "";
-
-    for (const paragraph of paragraphs) {
-      if ((currentChunk + paragraph).length > maxChunkSize && currentChunk.length > 0) {
-        chunks.push(currentChunk.trim());
-        currentChunk = paragraph;
+  const columns: Array<{ left: number; right: number }> = [];
+  let coverage = 0;
+  let start: number | null = null;
+  const minGutter = Math.min(...candidates.map(line => line.height)) * 0.3;
+  for (const [x, delta] of events) {
+    const before = coverage;
+    coverage += delta;
+    if (before <= tolerance && coverage > tolerance) {
+      const last = columns[columns.length - 1];
+      if (last && x - last.right < minGutter) {
+        start = last.left;
+        columns.pop();
       } else {
-        currentChunk += (currentChunk ? "\n\n" : "") + paragraph;
+        start = x;
       }
+    } else if (before > tolerance && coverage <= tolerance && start !== null) {
+      columns.push({ left: start, right: x });
+      start = null;
     }
+  }
+  return columns;
+}
 
-    if (currentChunk.trim()) {
-      chunks.push(currentChunk.trim());
+function toCells(line: LayoutLine, columns: Array<{ left: number; right: number }>): string[] {
+  const cells = columns.map(() => "");
+  for (const segment of line.segments) {
+    let best = 0;
+    let bestOverlap = -Infinity;
+    columns.forEach((column, idx) => {
+      const overlap = Math.min(segment.right, column.right) - Math.max(segment.left, column.left);
+      if (overlap > bestOverlap) {
+        best = idx;
+        bestOverlap = overlap;
+      }
+    });
+    cells[best] = cells[best] ? `${cells[best]} ${segment.text}` : segment.text;
+  }
+  return cells;
+}
+
+// Reads one table out of a run of lines, or returns null when the lines do not form a table
+function readTable(lines: LayoutLine[], page: number): PDFTable | null {
+  const columns = findColumns(lines);
+  if (columns.length < 2) return null;
+
+  // A line filling at most half the columns with text, and either leaving the first column empty or sitting
+  // closer to the previous line than rows usually are, continues the cells of the previous row (wrapped text)
+  const pitches = lines.slice(1).map((line, idx) => lines[idx].y - line.y).sort((a, b) => a - b);
+  const rowPitch = pitches[Math.floor(pitches.length / 2)] ?? 0;
+  const rows: string[][] = [];
+  const rowLines: LayoutLine[] = []; // First line of each row
+  lines.forEach((line, idx) => {
+    const cells = toCells(line, columns);
+    const filled = cells.filter(Boolean);
+    const previous = rows[rows.length - 1];
+    const continuation = previous && filled.length <= columns.length / 2 && filled.every(cell => !NUMERIC_CELL.test(cell)) &&
+      (cells[0] === "" || lines[idx - 1].y - line.y < 0.85 * rowPitch);
+    if (continuation) {
+      cells.forEach((cell, col) => {
+        if (cell) previous[col] = previous[col] ? `${previous[col]} ${cell}` : cell;
+      });
+    } else {
+      rows.push(cells);
+      rowLines.push(line);
     }
+  });
+
+  // A leading line with a single cell at the left edge is a caption or heading above the table
+  while (rows.length > 0 && rows[0][0] && rows[0].filter(Boolean).length === 1) {
+    rows.shift();
+    rowLines.shift();
+  }
+
+  // A leading row without numbers (years aside) is the header when the rows below hold numbers; in text-only
+  // tables it must also fill every column with capitalized labels. A second header row (the column names under
+  // group labels) is kept when it fills at least half the columns.
+  const numeric = (row: string[]) => row.some(cell => NUMERIC_CELL.test(cell));
+  const heading = (row: string[]) => row.every(cell => !NUMERIC_CELL.test(cell) || /^(?:19|20)\d\d$/.test(cell));
+  const labels = (row: string[]) => row.every(cell => /^\p{Lu}/u.test(cell));
+  let headerCount = 0;
+  if (rows.length > 1 && heading(rows[0]) && (rows.slice(1).some(numeric) || labels(rows[0]))) {
+    headerCount = 1;
+    if (rows.length > 3 && heading(rows[1]) && rows.slice(2).some(numeric) && rows[1].filter(Boolean).length >= columns.length / 2) {
+      headerCount = 2;
+    }
+  }
+
+  const body = rows.slice(headerCount);
+  const filled = body.flat().filter(Boolean);
+  const multiCell = body.filter(row => row.filter(Boolean).length >= 2).length;
+  if (multiCell < 2 || multiCell < body.length / 2 || filled.length < body.length * columns.length * 0.5) return null;
+
+  // Justified lines and tables of contents (dot leaders) line up as well, without being data
+  if (body.filter(row => row.some(cell => /\.{4,}|(?:\. ){3,}/.test(cell))).length > body.length / 2) return null;
 
-    return chunks;
+  // Text set in two columns also lines up, but its "cells" are runs of words and no column holds numbers
+  const numericColumn = columns.some((_, col) => {
+    const values = body.map(row => row[col]).filter(Boolean);
+    return values.filter(value => NUMERIC_CELL.test(value)).length > values.length / 2;
+  });
+  const wordsPerCell = filled.reduce((sum, cell) => sum + cell.split(/\s+/).length, 0) / filled.length;
+  if (!numericColumn && (wordsPerCell > 5 || body.length < 3)) return null;
+
+  // An upper header line whose labels each sit over a single column is a wrapped column name ("Unit" over "Price"),
+  // so its words join the name below. Group labels span several columns and are repeated over each of them.
+  let headerRows = rows.slice(0, headerCount);
+  const spanned = (segment: LayoutSegment) => columns.flatMap((column, col) => segment.left < column.right && segment.right > column.left ? [col] : []);
+  if (headerCount === 2 && rowLines[0].segments.every(segment => spanned(segment).length <= 1)) {
+    headerRows = [headerRows[1].map((name, col) => [headerRows[0][col], name].filter(Boolean).join(" "))];
+  } else if (headerCount === 2) {
+    const groups = columns.map(() => "");
+    for (const segment of rowLines[0].segments) {
+      for (const col of spanned(segment)) groups[col] = groups[col] ? `${groups[col]} ${segment.text}` : segment.text;
+    }
+    headerRows = [groups, headerRows[1]];
   }
+  return { page, pageEnd: page, headerRows, rows: body, columns };
+}
 
-  // Search for relevant sections in PDF
-  searchInText(text: string, query: string): string[] {
-    const lowerQuery = query.toLowerCase();
-    const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-    const relevantSections: string[] = [];
-
-    for (let i = 0; i < sentences.length; i++) {
-      const sentence = sentences[i].toLowerCase();
-      if (sentence.includes(lowerQuery) || this.containsKeywords(sentence, lowerQuery)) {
-        // Include context: previous and next sentence
-        const context = [
-          sentences[i - 1] || "",
-          sentences[i],
-          sentences[i + 1] || ""
-        ].filter(s => s.trim()).join(". ");
-        relevantSections.push(context);
+// Splits the lines of a page into runs that could be tables: consecutive lines with two or more segments,
+// allowing single-segment lines (wrapped cells) in between, and broken by larger vertical gaps. A single-segment
+// line set tightly above a run, clear of its first column and within its width, is kept too, as it may label
+// groups of columns.
+function tableRuns(lines: LayoutLine[]): LayoutLine[][] {
+  const runs: LayoutLine[][] = [];
+  let current: LayoutLine[] = [];
+  let pending: LayoutLine[] = [];
+  const close = () => {
+    if (current.length >= 3) runs.push(current);
+    current = [];
+    pending = [];
+  };
+
+  lines.forEach((line, idx) => {
+    const last = pending[pending.length - 1] ?? current[current.length - 1];
+    if (last && last.y - line.y > 2.5 * Math.max(last.height, line.height)) close();
+    if (line.segments.length >= 2) {
+      const above = lines[idx - 1];
+      const label = above?.segments.length === 1 && above.y - line.y <= 1.5 * Math.max(above.height, line.height) &&
+        above.segments[0].left > line.segments[0].right && above.segments[0].right <= line.segments[line.segments.length - 1].right + line.height;
+      if (current.length === 0 && label) {
+        current.push(above);
       }
+      current.push(...pending, line);
+      pending = [];
+    } else if (current.length > 0 && pending.length < 2) {
+      pending.push(line);
+    } else {
+      close();
     }
+  });
+  close();
+  return runs;
+}
 
-    return relevantSections;
+export class PDFProcessor {
+  async extractText(filePath: string): Promise<PDFData> {
+    try {
+      const fileData = await Deno.readFile(filePath);
+      const pages: string[] = [];
+      const pageItems: PDFTextItem[][] = [];
+      const data = await PDFParser(fileData, { pagerender: pageRenderer(pages, pageItems) });
+      // Pages that failed to render stay empty
+      const pageTexts = Array.from({ length: data.numpages }, (_, idx) => pages[idx] ?? "");
+
+      // Scanned pages have no text layer: their images are read by OCR and the text is merged into the page
+      let ocr: OCRSummary | null = null;
+      let text = data.text;
+      const scanned = pageTexts.flatMap((page, idx) => needsOCR(page) ? [idx + 1] : []);
+      if (scanned.length > 0) {
+        try {
+          const recognized = await recognizePages(fileData, scanned);
+          for (const [page, result] of recognized) {
+            pageTexts[page - 1] = [pageTexts[page - 1].trim(), result.text].filter(Boolean).join("\n");
+          }
+          ocr = recognized.size > 0 ? summarizeOCR([...recognized.values()].map(result => result.ocr)) : null;
+          if (recognized.size > 0) text = pageTexts.map(page => `\n\n${page}`).join("");
+        } catch (error) {
+          ocr = summarizeOCR([], `OCR failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      // pdf-parse puts a blank line before every page
+      const pageOffsets: number[] = [];
+      let offset = 0;
+      for (const page of pageTexts) {
+        pageOffsets.push(offset + 2);
+        offset += 2 + page.length;
+      }
+
+      return {
+        text,
+        fullText: text, // Store complete text
+        numPages: data.numpages,
+        metadata: data.metadata || {},
+        pages: pageTexts,
+        pageOffsets,
+        pageItems: Array.from({ length: data.numpages }, (_, idx) => pageItems[idx] ?? []),
+        ocr,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to process PDF: ${message}`);
+    }
+  }
+
+  // Finds tables from the positions of the text items: rows are lines, columns are separated by vertical gutters.
+  // A table continuing on the next page under the same header is returned as one table.
+  extractTables(pageItems: PDFTextItem[][]): PDFTable[] {
+    const tables: PDFTable[] = [];
+    pageItems.forEach((items, pageIdx) => {
+      for (const run of tableRuns(layoutLines(items))) {
+        const table = readTable(run, pageIdx + 1);
+        if (!table) continue;
+
+        const previous = tables[tables.length - 1];
+        if (
+          previous && previous.pageEnd === pageIdx && table.headerRows.length > 0 &&
+          JSON.stringify(previous.headerRows) === JSON.stringify(table.headerRows)
+        ) {
+          previous.rows.push(...table.rows);
+          previous.pageEnd = pageIdx + 1;
+        } else {
+          tables.push(table);
+        }
+      }
+    });
+    return tables;
   }
 
-  private containsKeywords(text: string, query: string): boolean {
-    const keywords = query.split(/\s+/).filter(w => w.length > 3);
-    return keywords.some(keyword => text.includes(keyword));
+  // Builds the BM25 passage index that questions are answered from
+  buildIndex(data: Pick<PDFData, "pages">): ChunkIndex {
+    return buildChunkIndex(data.pages);
   }
-}
\ No newline at end of file
+
+  // Ranked search for the passages most relevant to a query, best first
+  searchInText(index: ChunkIndex, query: string, limit = 8): RankedPassage[] {
+    return searchChunks(index, query, limit);
+  }
+}
@@ -0,0 +1,838 @@
+import sansRegular from "dejavu-fonts-ttf/ttf/DejaVuSans.ttf" with { type: "bytes" };
+import sansBold from "dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf" with { type: "bytes" };
+import { concatBytes, TrueTypeFont } from "./fontTool.ts";
+import { renderPDFOperators, type PDFFont, type ReportChart } from "./chartTool.ts";
+import type { ReportTable } from "./correlationTool.ts";
+import type { InsightLine } from "./insightTool.ts";
+
+// Report documents and their renderings, shared by the CLI and the web server. PDF: DejaVu Sans embedded as
+// Unicode fonts, wrapped headings, paragraphs, lists and grid tables, a table of contents with links and
+// bookmarks, a running header and footer on every page and a cross-reference table with exact byte offsets.
+// HTML: a single file with its styles and SVG charts inline. Markdown: text and tables, for wikis and email.
+
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+}
+
+export type ReportBlock =
+  | { type: "heading"; level: 1 | 2; text: string }
+  | { type: "paragraph"; runs: TextRun[] }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "table"; table: ReportTable }
+  | { type: "chart"; chart: ReportChart };
+
+export interface ReportDocument {
+  title: string;
+  subtitle?: string;
+  generatedAt: Date;
+  blocks: ReportBlock[];
+}
+
+export type ReportFormat = "pdf" | "html" | "md";
+
+export const REPORT_FORMATS: ReportFormat[] = ["pdf", "html", "md"];
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  pdf: "application/pdf",
+  html: "text/html; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+};
+
+export interface ReportDocumentOptions {
+  title?: string; // Replaces the title line of the report
+  tables?: ReportTable[];
+  tablesHeading?: string;
+  charts?: ReportChart[];
+}
+
+// Builds a document from report lines (insights, drift), followed by its tables and charts in sections of their own
+export function reportDocument(lines: InsightLine[], options: ReportDocumentOptions = {}): ReportDocument {
+  const blocks: ReportBlock[] = [];
+  let title = options.title;
+  let subtitle: string | undefined;
+  let list: { type: "list"; ordered: boolean; items: string[] } | null = null;
+
+  for (const line of lines) {
+    // Blank lines separate list items without ending the list
+    if (line.kind !== "item" && line.kind !== "blank") list = null;
+    switch (line.kind) {
+      case "title":
+        title ??= line.text;
+        break;
+      case "subtitle":
+        subtitle ??= line.text;
+        break;
+      case "heading":
+      case "subheading":
+        blocks.push({ type: "heading", level: line.kind === "heading" ? 1 : 2, text: line.text });
+        break;
+      case "text":
+        if (line.label && line.text.startsWith(`${line.label}:`)) {
+          blocks.push({ type: "paragraph", runs: [{ text: `${line.label}:`, bold: true }, { text: line.text.substring(line.label.length + 1) }] });
+        } else {
+          blocks.push({ type: "paragraph", runs: [{ text: line.text }] });
+        }
+        break;
+      case "item":
+        if (!list) {
+          list = { type: "list", ordered: /^\d+\.\s/.test(line.text), items: [] };
+          blocks.push(list);
+        }
+        list.items.push(line.text.replace(/^(\d+\.|[-•*])\s+/, ""));
+        break;
+    }
+  }
+
+  if (options.tables && options.tables.length > 0) {
+    blocks.push({ type: "heading", level: 1, text: options.tablesHeading ?? "TABLES" });
+    for (const table of options.tables) blocks.push({ type: "table", table });
+  }
+  if (options.charts && options.charts.length > 0) {
+    blocks.push({ type: "heading", level: 1, text: "CHARTS" });
+    for (const chart of options.charts) blocks.push({ type: "chart", chart });
+  }
+
+  return { title: title ?? "Report", subtitle, generatedAt: new Date(), blocks };
+}
+
+export async function renderReport(doc: ReportDocument, format: ReportFormat): Promise<Uint8Array> {
+  if (format === "pdf") return await renderReportPDF(doc);
+  return new TextEncoder().encode(format === "html" ? renderReportHTML(doc) : renderReportMarkdown(doc));
+}
+
+export async function renderReportPDF(doc: ReportDocument): Promise<Uint8Array> {
+  return await new ReportRenderer(doc).render();
+}
+
+// Styles of the HTML report; charts keep their own colors, and wide tables scroll instead of stretching the page
+const HTML_STYLES = `
+body { margin: 0 auto; max-width: 860px; padding: 32px 24px; font-family: "DejaVu Sans", "Segoe UI", Helvetica, Arial, sans-serif; font-size: 15px; line-height: 1.55; color: #222933; }
+h1 { margin: 0; font-size: 28px; color: #1f3a5f; }
+h2 { margin: 32px 0 10px; padding-bottom: 4px; border-bottom: 1px solid #ccd3db; font-size: 20px; color: #1f3a5f; }
+h3 { margin: 20px 0 6px; font-size: 16px; }
+p { margin: 0 0 10px; }
+li { margin-bottom: 6px; }
+a { color: #1f3a5f; }
+.subtitle { margin: 6px 0 0; color: #6b7280; font-size: 16px; }
+.generated { margin: 4px 0 0; color: #6b7280; font-size: 13px; }
+nav { margin-top: 24px; padding: 12px 20px; background: #f6f8fa; border: 1px solid #ccd3db; }
+nav h2 { margin-top: 0; border: none; }
+figure { margin: 16px 0 24px; overflow-x: auto; }
+figcaption { margin-bottom: 6px; font-weight: bold; font-size: 14px; }
+table { border-collapse: collapse; font-size: 13px; }
+th, td { padding: 4px 8px; border: 1px solid #ccd3db; text-align: left; white-space: nowrap; }
+th { background: #e8edf3; }
+tbody tr:nth-child(even) td { background: #f6f8fa; }
+.num { text-align: right; font-variant-numeric: tabular-nums; }
+.chart svg { max-width: 100%; height: auto; }
+`;
+
+export function renderReportHTML(doc: ReportDocument): string {
+  const sections = doc.blocks.flatMap(block => (block.type === "heading" && block.level === 1 ? [block] : []));
+  const anchors = new Map<ReportBlock, string>(sections.map((section, idx) => [section, `section-${idx + 1}`]));
+  const body = doc.blocks.map(block => {
+    switch (block.type) {
+      case "heading":
+        return block.level === 1 ? `<h2 id="${anchors.get(block)}">${escapeHtml(block.text)}</h2>` : `<h3>${escapeHtml(block.text)}</h3>`;
+      case "paragraph":
+        return `<p>${block.runs.map(run => (run.bold ? `<strong>${escapeHtml(run.text)}</strong>` : escapeHtml(run.text))).join("")}</p>`;
+      case "list": {
+        const tag = block.ordered ? "ol" : "ul";
+        return `<${tag}>${block.items.map(item => `<li>${escapeHtml(item)}</li>`).join("")}</${tag}>`;
+      }
+      case "table": {
+        const { table } = block;
+        const numeric = numericColumns(table);
+        const cells = (row: string[], tag: string) => table.columns.map((_, column) => `<${tag}${numeric[column] ? ' class="num"' : ""}>${escapeHtml(tableCell(row, column))}</${tag}>`).join("");
+        return `<figure class="table"><figcaption>${escapeHtml(table.title)}</figcaption><table><thead><tr>${cells(table.columns, "th")}</tr></thead><tbody>${table.rows.map(row => `<tr>${cells(row, "td")}</tr>`).join("")}</tbody></table></figure>`;
+      }
+      case "chart":
+        // Chart SVGs are rendered from the computed statistics, with their text escaped
+        return `<figure class="chart"><figcaption>${escapeHtml(block.chart.title)}</figcaption>${block.chart.svg}</figure>`;
+    }
+  });
+  const contents = sections.length > 0
+    ? `<nav><h2>Contents</h2><ol>${sections.map(section => `<li><a href="#${anchors.get(section)}">${escapeHtml(section.text)}</a></li>`).join("")}</ol></nav>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(doc.title)}</title>
+<style>${HTML_STYLES.trim()}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(doc.title)}</h1>
+${doc.subtitle ? `<p class="subtitle">${escapeHtml(doc.subtitle)}</p>\n` : ""}<p class="generated">Generated ${escapeHtml(doc.generatedAt.toLocaleString())}</p>
+</header>
+${contents}
+<main>
+${body.join("\n")}
+</main>
+</body>
+</html>
+`;
+}
+
+// Charts are left out: Markdown has no portable way to embed them, and sections left empty go with them
+export function renderReportMarkdown(doc: ReportDocument): string {
+  const blocks = doc.blocks.filter(block => block.type !== "chart");
+  const parts = [`# ${escapeMarkdown(doc.title)}`];
+  if (doc.subtitle) parts.push(`_${escapeMarkdown(doc.subtitle)}_`);
+  parts.push(`Generated ${doc.generatedAt.toLocaleString()}`);
+
+  blocks.forEach((block, idx) => {
+    switch (block.type) {
+      case "heading": {
+        const next = blocks[idx + 1];
+        if (!next || (next.type === "heading" && next.level <= block.level)) return;
+        parts.push(`${block.level === 1 ? "##" : "###"} ${escapeMarkdown(block.text)}`);
+        break;
+      }
+      case "paragraph":
+        parts.push(block.runs.map(run => (run.bold ? `**${escapeMarkdown(run.text)}**` : escapeMarkdown(run.text))).join(""));
+        break;
+      case "list":
+        parts.push(block.items.map((item, itemIdx) => `${block.ordered ? `${itemIdx + 1}.` : "-"} ${escapeMarkdown(item)}`).join("\n"));
+        break;
+      case "table": {
+        const { table } = block;
+        const numeric = numericColumns(table);
+        const row = (cells: string[]) => `| ${table.columns.map((_, column) => escapeMarkdown(tableCell(cells, column)) || " ").join(" | ")} |`;
+        parts.push([
+          `**${escapeMarkdown(table.title)}**`,
+          "",
+          row(table.columns),
+          `| ${numeric.map(isNumeric => (isNumeric ? "---:" : "---")).join(" | ")} |`,
+          ...table.rows.map(row),
+        ].join("\n"));
+        break;
+      }
+    }
+  });
+  return `${parts.join("\n\n")}\n`;
+}
+
+// US Letter, in points; vertical positions are measured from the top of the page while laying out
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const CONTENT_TOP = 76;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 64;
+
+const BODY_SIZE = 10;
+const BODY_LEADING = 14;
+const TABLE_SIZES = [8, 7.5, 7, 6.5]; // Tables shrink to these font sizes before being split by columns
+const CELL_PADDING = 4;
+const MAX_CELL_WIDTH = 180;
+
+const TEXT_COLOR = "0.133 0.161 0.196";
+const MUTED_COLOR = "0.420 0.447 0.502";
+const ACCENT_COLOR = "0.122 0.227 0.373";
+const RULE_COLOR = "0.800 0.827 0.859";
+const HEADER_FILL = "0.910 0.929 0.953";
+const STRIPE_FILL = "0.965 0.973 0.980";
+
+const NUMERIC_CELL = /^([<>≤≥] ?)?[-+−]?(\d[\d,]*)?(\.\d+)?(e[-+]?\d+)?%?$|^[–—]$|^n\/a$/i;
+
+let typefaces: { regular: TrueTypeFont; bold: TrueTypeFont } | null = null;
+
+// Parsed once per process; each document tracks its own glyphs for subsetting
+function loadTypefaces(): { regular: TrueTypeFont; bold: TrueTypeFont } {
+  typefaces ??= { regular: new TrueTypeFont(sansRegular), bold: new TrueTypeFont(sansBold) };
+  return typefaces;
+}
+
+// A font resource of the document: text is written as 2-byte glyph IDs (Identity-H), and every glyph used is
+// remembered with the text it stands for, for the subset and the ToUnicode map that makes the text extractable
+class EmbeddedFont implements PDFFont {
+  readonly used = new Map<number, string>();
+
+  constructor(readonly name: string, readonly font: TrueTypeFont) {}
+
+  encode(text: string): string {
+    const chars = [...text];
+    const ids = this.font.glyphIds(text);
+    ids.forEach((gid, idx) => {
+      if (!this.used.has(gid)) this.used.set(gid, this.font.hasGlyph(chars[idx]) ? chars[idx] : "?");
+    });
+    return `<${ids.map(gid => gid.toString(16).padStart(4, "0")).join("")}>`;
+  }
+
+  measure(text: string, size: number): number {
+    return this.font.measure(text, size);
+  }
+
+  fit(text: string, size: number, width: number): string {
+    if (this.measure(text, size) <= width) return text;
+    const chars = [...text];
+    while (chars.length > 0 && this.measure(`${chars.join("").trimEnd()}…`, size) > width) chars.pop();
+    return `${chars.join("").trimEnd()}…`;
+  }
+}
+
+interface Page {
+  ops: string[];
+  links: Array<{ rect: [number, number, number, number]; target: HeadingMark }>;
+}
+
+interface HeadingMark {
+  level: 1 | 2;
+  text: string;
+  page: Page;
+  top: number; // Top of the heading in PDF coordinates, where links and bookmarks jump to
+}
+
+interface Segment {
+  font: EmbeddedFont;
+  text: string;
+  width: number;
+}
+
+class ReportRenderer {
+  private regular: EmbeddedFont;
+  private bold: EmbeddedFont;
+  private pages: Page[] = [];
+  private page!: Page;
+  private y = CONTENT_TOP;
+  private headings: HeadingMark[] = [];
+
+  constructor(private doc: ReportDocument) {
+    const { regular, bold } = loadTypefaces();
+    this.regular = new EmbeddedFont("F1", regular);
+    this.bold = new EmbeddedFont("F2", bold);
+  }
+
+  async render(): Promise<Uint8Array> {
+    this.newPage();
+    this.doc.blocks.forEach((block, idx) => {
+      switch (block.type) {
+        case "heading":
+          this.heading(block.level, block.text, this.startHeight(this.doc.blocks[idx + 1]));
+          break;
+        case "paragraph":
+          this.paragraph(block.runs);
+          break;
+        case "list":
+          this.list(block.ordered, block.items);
+          break;
+        case "table":
+          this.table(block.table);
+          break;
+        case "chart":
+          this.chart(block.chart);
+          break;
+      }
+    });
+    const body = this.pages;
+
+    // The title page and contents go in front, once the body has placed the headings
+    this.pages = [];
+    this.newPage();
+    const entries = this.contents();
+    this.pages.push(...body);
+
+    for (const entry of entries) {
+      const pageNumber = String(this.pages.indexOf(entry.heading.page) + 1);
+      const numberX = MARGIN + CONTENT_WIDTH - this.regular.measure(pageNumber, 10.5);
+      const dotWidth = this.regular.measure(". ", 10.5);
+      const dots = Math.floor((numberX - entry.textEnd - 10) / dotWidth);
+      this.page = entry.page;
+      if (dots > 0) this.text(this.regular, 10.5, numberX - 4 - dots * dotWidth, entry.y, ". ".repeat(dots), RULE_COLOR);
+      this.text(this.regular, 10.5, numberX, entry.y, pageNumber);
+      entry.page.links.push({ rect: [MARGIN, PAGE_HEIGHT - entry.y - 5, MARGIN + CONTENT_WIDTH, PAGE_HEIGHT - entry.y + 13], target: entry.heading });
+    }
+
+    this.pages.forEach((page, idx) => this.decorate(page, idx));
+    return await this.write();
+  }
+
+  private newPage(): void {
+    this.page = { ops: [], links: [] };
+    this.pages.push(this.page);
+    this.y = CONTENT_TOP;
+  }
+
+  // Starts a new page unless `height` more points fit on this one (a fresh page takes whatever comes)
+  private ensure(height: number): void {
+    if (this.y + height > CONTENT_BOTTOM && this.y > CONTENT_TOP) this.newPage();
+  }
+
+  private text(font: EmbeddedFont, size: number, x: number, baseline: number, text: string, color = TEXT_COLOR): void {
+    this.page.ops.push(`${color} rg BT /${font.name} ${size} Tf ${x.toFixed(2)} ${(PAGE_HEIGHT - baseline).toFixed(2)} Td ${font.encode(text)} Tj ET`);
+  }
+
+  private rule(y: number, color = RULE_COLOR, x1 = MARGIN, x2 = MARGIN + CONTENT_WIDTH): void {
+    this.page.ops.push(`${color} RG 0.5 w [] 0 d ${x1.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} m ${x2.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} l S`);
+  }
+
+  // Breaks runs into lines no wider than `width`; words longer than a line are split between characters
+  private wrap(runs: TextRun[], size: number, width: number): Segment[][] {
+    const lines: Segment[][] = [];
+    let line: Segment[] = [];
+    let lineWidth = 0;
+
+    const add = (font: EmbeddedFont, word: string) => {
+      let text = line.length > 0 ? ` ${word}` : word;
+      let wordWidth = font.measure(text, size);
+      if (line.length > 0 && lineWidth + wordWidth > width) {
+        lines.push(line);
+        line = [];
+        lineWidth = 0;
+        text = word;
+        wordWidth = font.measure(text, size);
+      }
+      const last = line[line.length - 1];
+      if (last && last.font === font) {
+        last.text += text;
+        last.width += wordWidth;
+      } else {
+        line.push({ font, text, width: wordWidth });
+      }
+      lineWidth += wordWidth;
+    };
+
+    for (const run of runs) {
+      const font = run.bold ? this.bold : this.regular;
+      for (const word of run.text.split(/\s+/)) {
+        if (!word) continue;
+        let rest = [...word];
+        while (font.measure(rest.join(""), size) > width) {
+          let count = rest.length - 1;
+          while (count > 1 && font.measure(rest.slice(0, count).join(""), size) > width) count--;
+          add(font, rest.slice(0, count).join(""));
+          rest = rest.slice(count);
+        }
+        add(font, rest.join(""));
+      }
+    }
+    if (line.length > 0) lines.push(line);
+    return lines;
+  }
+
+  private drawLine(segments: Segment[], size: number, x: number, baseline: number, color = TEXT_COLOR): void {
+    for (const segment of segments) {
+      this.text(segment.font, size, x, baseline, segment.text, color);
+      x += segment.width;
+    }
+  }
+
+  // Height a block needs at the top of its page: a few lines of text, a table's title and first rows, a whole chart
+  private startHeight(block?: ReportBlock): number {
+    if (block?.type === "table") return 20 + Math.round(TABLE_SIZES[0] * 2.1) * Math.min(4, block.table.rows.length + 1);
+    if (block?.type === "chart") return 22 + block.chart.scene.height * this.chartScale(block.chart);
+    return 3 * BODY_LEADING;
+  }
+
+  // Headings are kept with the start of the block that follows them
+  private heading(level: 1 | 2, text: string, following: number): void {
+    const size = level === 1 ? 14 : 11;
+    const leading = level === 1 ? 18 : 14;
+    const lines = this.wrap([{ text, bold: true }], size, CONTENT_WIDTH);
+    this.ensure(lines.length * leading + following + (level === 1 ? 18 : 10));
+    if (this.y > CONTENT_TOP) this.y += level === 1 ? 12 : 6;
+
+    this.headings.push({ level, text, page: this.page, top: PAGE_HEIGHT - this.y + 4 });
+    for (const line of lines) {
+      this.y += leading;
+      this.drawLine(line, size, MARGIN, this.y - (leading - size) / 2, level === 1 ? ACCENT_COLOR : TEXT_COLOR);
+    }
+    if (level === 1) {
+      this.y += 4;
+      this.rule(this.y);
+      this.y += 8;
+    } else {
+      this.y += 3;
+    }
+  }
+
+  private paragraph(runs: TextRun[], x = MARGIN, width = CONTENT_WIDTH, marker?: string): void {
+    const lines = this.wrap(runs, BODY_SIZE, width);
+    lines.forEach((line, idx) => {
+      // Avoids leaving a single line of a paragraph at the bottom of a page
+      this.ensure(idx === 0 && lines.length > 1 ? 2 * BODY_LEADING : BODY_LEADING);
+      this.y += BODY_LEADING;
+      const baseline = this.y - (BODY_LEADING - BODY_SIZE) / 2 - 1;
+      if (idx === 0 && marker) this.text(this.regular, BODY_SIZE, x - 6 - this.regular.measure(marker, BODY_SIZE), baseline, marker);
+      this.drawLine(line, BODY_SIZE, x, baseline);
+    });
+    this.y += 6;
+  }
+
+  private list(ordered: boolean, items: string[]): void {
+    const markers = items.map((_, idx) => (ordered ? `${idx + 1}.` : "•"));
+    const indent = 12 + Math.max(...markers.map(marker => this.regular.measure(marker, BODY_SIZE)));
+    items.forEach((item, idx) => {
+      this.paragraph([{ text: item }], MARGIN + indent, CONTENT_WIDTH - indent, markers[idx]);
+      this.y -= 3;
+    });
+    this.y += 3;
+  }
+
+  private table(table: ReportTable): void {
+    const count = table.columns.length;
+    if (count === 0) return;
+    const numeric = numericColumns(table);
+    const widthsAt = (size: number) =>
+      table.columns.map((name, column) => {
+        let width = this.bold.measure(name, size);
+        for (const row of table.rows) width = Math.max(width, this.regular.measure(tableCell(row, column), size));
+        return Math.min(MAX_CELL_WIDTH, width + 2 * CELL_PADDING);
+      });
+    const total = (widths: number[], columns: number[]) => columns.reduce((sum, column) => sum + widths[column], 0);
+    const all = table.columns.map((_, column) => column);
+
+    for (const size of TABLE_SIZES) {
+      const widths = widthsAt(size);
+      if (total(widths, all) <= CONTENT_WIDTH) {
+        this.tablePart(table.title, table, all, widths, size, numeric);
+        return;
+      }
+    }
+
+    // Too wide even at the smallest size: split by columns, repeating the first one in every part
+    const size = TABLE_SIZES[TABLE_SIZES.length - 1];
+    const widths = widthsAt(size);
+    const parts: number[][] = [];
+    let part = [0];
+    for (let column = 1; column < count; column++) {
+      if (part.length > 1 && total(widths, part) + widths[column] > CONTENT_WIDTH) {
+        parts.push(part);
+        part = [0];
+      }
+      part.push(column);
+    }
+    parts.push(part);
+    parts.forEach((columns, idx) => {
+      this.tablePart(`${table.title} (${idx + 1} of ${parts.length})`, table, columns, widths, size, numeric);
+    });
+  }
+
+  private tablePart(title: string, table: ReportTable, columns: number[], widths: number[], size: number, numeric: boolean[]): void {
+    const rowHeight = Math.round(size * 2.1);
+    const tableWidth = columns.reduce((sum, column) => sum + widths[column], 0);
+
+    const row = (cells: string[], font: EmbeddedFont, fill: string | null) => {
+      const top = this.y;
+      if (fill) this.page.ops.push(`${fill} rg ${MARGIN} ${(PAGE_HEIGHT - top - rowHeight).toFixed(2)} ${tableWidth.toFixed(2)} ${rowHeight} re f`);
+      let x = MARGIN;
+      const borders: string[] = [`${MARGIN} ${(PAGE_HEIGHT - top - rowHeight).toFixed(2)} ${tableWidth.toFixed(2)} ${rowHeight} re`];
+      columns.forEach((column, idx) => {
+        const width = widths[column];
+        const text = font.fit(tableCell(cells, column), size, width - 2 * CELL_PADDING);
+        const textX = numeric[column] ? x + width - CELL_PADDING - font.measure(text, size) : x + CELL_PADDING;
+        if (text) this.text(font, size, textX, top + rowHeight / 2 + size * 0.36, text);
+        x += width;
+        if (idx < columns.length - 1) borders.push(`${x.toFixed(2)} ${(PAGE_HEIGHT - top).toFixed(2)} m ${x.toFixed(2)} ${(PAGE_HEIGHT - top - rowHeight).toFixed(2)} l`);
+      });
+      this.page.ops.push(`${RULE_COLOR} RG 0.5 w [] 0 d ${borders.join(" ")} S`);
+      this.y += rowHeight;
+    };
+
+    // The title stays with the header and the first rows
+    this.ensure(20 + rowHeight * Math.min(4, table.rows.length + 1));
+    if (this.y > CONTENT_TOP) this.y += 4;
+    const titleLines = this.wrap([{ text: title, bold: true }], 9.5, CONTENT_WIDTH);
+    for (const line of titleLines) {
+      this.y += 13;
+      this.drawLine(line, 9.5, MARGIN, this.y - 2);
+    }
+    this.y += 5;
+
+    row(table.columns, this.bold, HEADER_FILL);
+    table.rows.forEach((cells, idx) => {
+      if (this.y + rowHeight > CONTENT_BOTTOM) {
+        this.newPage();
+        row(table.columns, this.bold, HEADER_FILL); // The header repeats on every page of the table
+      }
+      row(cells, this.regular, idx % 2 === 1 ? STRIPE_FILL : null);
+    });
+    this.y += 12;
+  }
+
+  // Charts are never enlarged, and shrink to fit the width and height of a page
+  private chartScale(chart: ReportChart): number {
+    return Math.min(1, CONTENT_WIDTH / chart.scene.width, (CONTENT_BOTTOM - CONTENT_TOP - 40) / chart.scene.height);
+  }
+
+  private chart(chart: ReportChart): void {
+    const { scene } = chart;
+    const scale = this.chartScale(chart);
+    const height = scene.height * scale;
+    this.ensure(22 + height);
+    if (this.y > CONTENT_TOP) this.y += 6;
+    this.y += 14;
+    this.text(this.bold, 10, MARGIN, this.y - 2, this.bold.fit(chart.title, 10, CONTENT_WIDTH));
+    this.y += 6;
+    const x = MARGIN + (CONTENT_WIDTH - scene.width * scale) / 2;
+    this.page.ops.push(renderPDFOperators(scene, x, PAGE_HEIGHT - this.y, scale, { regular: this.regular, bold: this.bold }));
+    this.y += height + 14;
+  }
+
+  // Title block and the table of contents; entries get their page numbers and links once all pages exist
+  private contents(): Array<{ heading: HeadingMark; page: Page; y: number; textEnd: number }> {
+    this.y = CONTENT_TOP + 20;
+    for (const line of this.wrap([{ text: this.doc.title, bold: true }], 22, CONTENT_WIDTH)) {
+      this.y += 28;
+      this.drawLine(line, 22, MARGIN, this.y - 4, ACCENT_COLOR);
+    }
+    if (this.doc.subtitle) {
+      this.y += 4;
+      for (const line of this.wrap([{ text: this.doc.subtitle }], 11, CONTENT_WIDTH)) {
+        this.y += 15;
+        this.drawLine(line, 11, MARGIN, this.y - 2, MUTED_COLOR);
+      }
+    }
+    this.y += 16;
+    this.text(this.regular, 9, MARGIN, this.y, `Generated ${this.doc.generatedAt.toLocaleString()}`, MUTED_COLOR);
+    this.y += 14;
+    this.rule(this.y, ACCENT_COLOR);
+
+    const entries: Array<{ heading: HeadingMark; page: Page; y: number; textEnd: number }> = [];
+    const sections = this.headings.filter(heading => heading.level === 1);
+    if (sections.length === 0) return entries;
+
+    this.y += 36;
+    this.text(this.bold, 14, MARGIN, this.y, "Contents", ACCENT_COLOR);
+    this.y += 10;
+    for (const heading of sections) {
+      if (this.y + 20 > CONTENT_BOTTOM) this.newPage();
+      this.y += 20;
+      const text = this.regular.fit(heading.text, 10.5, CONTENT_WIDTH - 60);
+      this.text(this.regular, 10.5, MARGIN, this.y, text);
+      entries.push({ heading, page: this.page, y: this.y, textEnd: MARGIN + this.regular.measure(text, 10.5) });
+    }
+    return entries;
+  }
+
+  // Running header (title and date) on every page after the first, and a page-numbered footer on all of them
+  private decorate(page: Page, idx: number): void {
+    this.page = page;
+    if (idx > 0) {
+      const date = this.doc.generatedAt.toLocaleDateString();
+      const dateWidth = this.regular.measure(date, 8);
+      this.text(this.regular, 8, MARGIN, 44, this.regular.fit(this.doc.title, 8, CONTENT_WIDTH - dateWidth - 24), MUTED_COLOR);
+      this.text(this.regular, 8, MARGIN + CONTENT_WIDTH - dateWidth, 44, date, MUTED_COLOR);
+      this.rule(52);
+    }
+    const footer = `Page ${idx + 1} of ${this.pages.length}`;
+    this.rule(PAGE_HEIGHT - 46);
+    this.text(this.regular, 8, (PAGE_WIDTH - this.regular.measure(footer, 8)) / 2, PAGE_HEIGHT - 32, footer, MUTED_COLOR);
+  }
+
+  private async write(): Promise<Uint8Array> {
+    const pdf = new PDFWriter();
+    const catalog = pdf.reserve();
+    const pageTree = pdf.reserve();
+    const pageRefs = new Map(this.pages.map(page => [page, pdf.reserve()]));
+    const destination = (heading: HeadingMark) => `[${pageRefs.get(heading.page)} 0 R /XYZ null ${heading.top.toFixed(2)} null]`;
+
+    const fonts = [];
+    for (const font of [this.regular, this.bold]) fonts.push(`/${font.name} ${await writeFont(pdf, font)} 0 R`);
+    const resources = `<< /Font << ${fonts.join(" ")} >> >>`;
+
+    for (const [page, ref] of pageRefs) {
+      const contents = pdf.reserve();
+      pdf.setStream(contents, "/Filter /FlateDecode", await deflate(new TextEncoder().encode(page.ops.join("\n"))));
+      const annotations = page.links.map(link => {
+        const annotation = pdf.reserve();
+        pdf.set(annotation, `<< /Type /Annot /Subtype /Link /Rect [${link.rect.map(value => value.toFixed(2)).join(" ")}] /Border [0 0 0] /Dest ${destination(link.target)} >>`);
+        return `${annotation} 0 R`;
+      });
+      pdf.set(ref, `<< /Type /Page /Parent ${pageTree} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources ${resources} /Contents ${contents} 0 R${annotations.length > 0 ? ` /Annots [${annotations.join(" ")}]` : ""} >>`);
+    }
+    pdf.set(pageTree, `<< /Type /Pages /Kids [${[...pageRefs.values()].map(ref => `${ref} 0 R`).join(" ")}] /Count ${pageRefs.size} >>`);
+
+    // Bookmarks: sections, each with its subsections collapsed underneath
+    const outline = this.outline(pdf, destination);
+    pdf.set(catalog, `<< /Type /Catalog /Pages ${pageTree} 0 R${outline ? ` /Outlines ${outline} 0 R` : ""} >>`);
+
+    const info = pdf.reserve();
+    pdf.set(info, `<< /Title ${pdfTextString(this.doc.title)}${this.doc.subtitle ? ` /Subject ${pdfTextString(this.doc.subtitle)}` : ""} /CreationDate ${pdfTextString(pdfDate(this.doc.generatedAt))} >>`);
+    return pdf.output(catalog, info);
+  }
+
+  private outline(pdf: PDFWriter, destination: (heading: HeadingMark) => string): number | null {
+    const sections: Array<{ heading: HeadingMark; children: HeadingMark[] }> = [];
+    for (const heading of this.headings) {
+      if (heading.level === 1 || sections.length === 0) sections.push({ heading, children: [] });
+      else sections[sections.length - 1].children.push(heading);
+    }
+    if (sections.length === 0) return null;
+
+    const root = pdf.reserve();
+    const items = (parent: number, headings: HeadingMark[], children: (idx: number) => HeadingMark[]) => {
+      const refs = headings.map(() => pdf.reserve());
+      refs.forEach((ref, idx) => {
+        const nested = children(idx);
+        const links = [
+          `/Parent ${parent} 0 R`,
+          idx > 0 ? `/Prev ${refs[idx - 1]} 0 R` : "",
+          idx < refs.length - 1 ? `/Next ${refs[idx + 1]} 0 R` : "",
+        ];
+        if (nested.length > 0) {
+          const [first, last] = items(ref, nested, () => []);
+          links.push(`/First ${first} 0 R /Last ${last} 0 R /Count -${nested.length}`);
+        }
+        pdf.set(ref, `<< /Title ${pdfTextString(headings[idx].text)} ${links.filter(Boolean).join(" ")} /Dest ${destination(headings[idx])} >>`);
+      });
+      return [refs[0], refs[refs.length - 1]];
+    };
+    const [first, last] = items(root, sections.map(section => section.heading), idx => sections[idx].children);
+    pdf.set(root, `<< /Type /Outlines /First ${first} 0 R /Last ${last} 0 R /Count ${sections.length} >>`);
+    return root;
+  }
+}
+
+// Objects are kept as bytes, so the cross-reference table gets their exact offsets
+class PDFWriter {
+  private objects: Array<Uint8Array | null> = [];
+  private encoder = new TextEncoder();
+
+  reserve(): number {
+    this.objects.push(null);
+    return this.objects.length;
+  }
+
+  set(ref: number, value: string): void {
+    this.objects[ref - 1] = this.encoder.encode(`${ref} 0 obj\n${value}\nendobj\n`);
+  }
+
+  setStream(ref: number, entries: string, data: Uint8Array): void {
+    this.objects[ref - 1] = concatBytes([
+      this.encoder.encode(`${ref} 0 obj\n<< ${entries} /Length ${data.length} >>\nstream\n`),
+      data,
+      this.encoder.encode("\nendstream\nendobj\n"),
+    ]);
+  }
+
+  output(root: number, info: number): Uint8Array {
+    // The comment of high bytes marks the file as binary for transfer tools
+    const parts = [concatBytes([this.encoder.encode("%PDF-1.7\n%"), new Uint8Array([0xe2, 0xe3, 0xcf, 0xd3]), this.encoder.encode("\n")])];
+    let offset = parts[0].length;
+    const offsets: number[] = [];
+    this.objects.forEach((object, idx) => {
+      if (!object) throw new Error(`PDF object ${idx + 1} was reserved but never written`);
+      offsets.push(offset);
+      parts.push(object);
+      offset += object.length;
+    });
+
+    const xref = [`xref\n0 ${this.objects.length + 1}\n`, "0000000000 65535 f \n"];
+    for (const objectOffset of offsets) xref.push(`${String(objectOffset).padStart(10, "0")} 00000 n \n`);
+    xref.push(`trailer\n<< /Size ${this.objects.length + 1} /Root ${root} 0 R /Info ${info} 0 R >>\nstartxref\n${offset}\n%%EOF\n`);
+    parts.push(this.encoder.encode(xref.join("")));
+    return concatBytes(parts);
+  }
+}
+
+// A composite font: the Type0 font, its CID font with glyph widths, the descriptor, the subset font file and
+// the ToUnicode map; returns the Type0 font's object number
+async function writeFont(pdf: PDFWriter, font: EmbeddedFont): Promise<number> {
+  const { font: typeface } = font;
+  const gids = [...font.used.keys()].sort((a, b) => a - b);
+  const scale = (value: number) => Math.round((value * 1000) / typeface.unitsPerEm);
+  // Subset fonts are named with a tag of six capital letters derived from their glyphs
+  let hash = 0;
+  for (const gid of gids) hash = (hash * 31 + gid) >>> 0;
+  const tag = Array.from({ length: 6 }, (_, idx) => String.fromCharCode(65 + (Math.floor(hash / 26 ** idx) % 26))).join("");
+  const baseFont = `${tag}+${typeface.postScriptName}`;
+
+  const widths: string[] = [];
+  for (let idx = 0; idx < gids.length;) {
+    const run = [gids[idx]];
+    while (idx + run.length < gids.length && gids[idx + run.length] === gids[idx] + run.length) run.push(gids[idx + run.length]);
+    widths.push(`${run[0]} [${run.map(gid => Math.round(typeface.glyphWidth(gid))).join(" ")}]`);
+    idx += run.length;
+  }
+
+  const fontFile = pdf.reserve();
+  const subset = typeface.subset(gids);
+  pdf.setStream(fontFile, `/Filter /FlateDecode /Length1 ${subset.length}`, await deflate(subset));
+
+  const descriptor = pdf.reserve();
+  const bbox = typeface.bbox.map(scale).join(" ");
+  pdf.set(descriptor, `<< /Type /FontDescriptor /FontName /${baseFont} /Flags ${typeface.fixedPitch ? 33 : 32} /FontBBox [${bbox}] /ItalicAngle 0 /Ascent ${scale(typeface.ascent)} /Descent ${scale(typeface.descent)} /CapHeight ${scale(typeface.capHeight)} /StemV ${typeface.weight >= 600 ? 120 : 80} /FontFile2 ${fontFile} 0 R >>`);
+
+  const cidFont = pdf.reserve();
+  pdf.set(cidFont, `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${baseFont} /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /FontDescriptor ${descriptor} 0 R /DW 1000 /W [${widths.join(" ")}] /CIDToGIDMap /Identity >>`);
+
+  const toUnicode = pdf.reserve();
+  pdf.setStream(toUnicode, "/Filter /FlateDecode", await deflate(new TextEncoder().encode(toUnicodeCMap(font.used))));
+
+  const type0 = pdf.reserve();
+  pdf.set(type0, `<< /Type /Font /Subtype /Type0 /BaseFont /${baseFont} /Encoding /Identity-H /DescendantFonts [${cidFont} 0 R] /ToUnicode ${toUnicode} 0 R >>`);
+  return type0;
+}
+
+function toUnicodeCMap(used: Map<number, string>): string {
+  const hex = (value: number) => value.toString(16).padStart(4, "0");
+  const entries = [...used].sort(([a], [b]) => a - b).map(([gid, text]) => {
+    const units = Array.from({ length: text.length }, (_, idx) => hex(text.charCodeAt(idx))).join("");
+    return `<${hex(gid)}> <${units}>`;
+  });
+  const chunks: string[] = [];
+  // At most 100 mappings per bfchar block
+  for (let idx = 0; idx < entries.length; idx += 100) {
+    const chunk = entries.slice(idx, idx + 100);
+    chunks.push(`${chunk.length} beginbfchar\n${chunk.join("\n")}\nendbfchar`);
+  }
+  return [
+    "/CIDInit /ProcSet findresource begin",
+    "12 dict begin",
+    "begincmap",
+    "/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def",
+    "/CMapName /Adobe-Identity-UCS def",
+    "/CMapType 2 def",
+    "1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange",
+    ...chunks,
+    "endcmap",
+    "CMapName currentdict /CMap defineresource pop",
+    "end",
+    "end",
+  ].join("\n");
+}
+
+function tableCell(row: string[], column: number): string {
+  return (row[column] ?? "").replace(/\s+/g, " ").trim();
+}
+
+// Columns whose values all read as numbers are aligned right
+function numericColumns(table: ReportTable): boolean[] {
+  return table.columns.map((_, column) => {
+    const values = table.rows.map(row => tableCell(row, column)).filter(value => value !== "");
+    return values.length > 0 && values.every(value => NUMERIC_CELL.test(value));
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// Escapes the characters Markdown would read as formatting, and a line start that would read as a list or heading
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/\s+/g, " ")
+    .replace(/[\\`*_[\]<>|]/g, "\\$&")
+    .replace(/^(\d+)\. /, "$1\\. ")
+    .replace(/^([#+-]) /, "\\$1 ");
+}
+
+// Text strings outside content streams (document info, bookmarks) as UTF-16BE with a byte order mark
+function pdfTextString(text: string): string {
+  return `<FEFF${Array.from({ length: text.length }, (_, idx) => text.charCodeAt(idx).toString(16).padStart(4, "0")).join("").toUpperCase()}>`;
+}
+
+function pdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, "").substring(0, 14)}Z`;
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
@@ -0,0 +1,270 @@
+// Local BM25 retrieval over PDF text. Chunks never cross a page boundary, so every passage carries the page it came from.
+
+export interface IndexedChunk {
+  id: number;
+  page: number; // 1-based page number
+  offset: number; // Start of the chunk in the page text
+  text: string;
+  length: number; // Indexed terms in the chunk
+  terms: Record<string, number>; // Term frequencies
+}
+
+export interface ChunkIndex {
+  version: 1;
+  chunks: IndexedChunk[];
+  documentFrequency: Record<string, number>; // Chunks containing each term
+  averageLength: number;
+  pageCount: number;
+}
+
+export interface RankedPassage {
+  chunkId: number;
+  page: number;
+  offset: number; // Start of the passage in the page text
+  text: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+export interface Citation {
+  label: string; // The marker as written in the answer: "[2]" or "[p. 12]"
+  page: number;
+  quote: string; // The sentence of the page that supports the cited statement
+  start: number; // Offsets of the quote in the page text
+  end: number;
+  documentStart: number | null; // Offset of the quote in the full extracted text, when page offsets are known
+}
+
+export interface ChunkOptions {
+  chunkSize?: number; // Target characters per chunk
+}
+
+const DEFAULT_CHUNK_SIZE = 1200;
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(
+  ("a an and are as at be been but by can could did do does for from had has have how i if in into is it its " +
+    "may me might my no not of on or our shall should so than that the their them then there these they this " +
+    "those to was we were what when where which who whom why will with would you your about also any all each " +
+    "there's tell show give find list please document pdf").split(" "),
+);
+
+// Lowercase word tokens with stop words removed and common English suffixes stripped, so "reports" matches "report"
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.toLowerCase().normalize("NFKD").replace(/[\u0300-\u036f]/g, "").matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = match[0];
+    if (STOPWORDS.has(word) || (word.length < 2 && !/\d/.test(word))) continue;
+    tokens.push(stem(word));
+  }
+  return tokens;
+}
+
+function stem(word: string): string {
+  if (word.length <= 4 || /\d/.test(word)) return word;
+  let base = word;
+  if (word.endsWith("ies") && word.length > 5) base = word.slice(0, -3) + "y";
+  else if (word.endsWith("ing") && word.length > 6) base = word.slice(0, -3);
+  else if (word.endsWith("ed") && word.length > 5) base = word.slice(0, -2);
+  else if (/(ss|x|ch|sh)es$/.test(word)) base = word.slice(0, -2);
+  else if (word.endsWith("s") && !/(ss|us|is)$/.test(word)) base = word.slice(0, -1);
+  // "encode", "encoded" and "encoding" all reduce to "encod"
+  return base.length > 4 && base.endsWith("e") ? base.slice(0, -1) : base;
+}
+
+// Splits a page into paragraphs and packs them into chunks of about `size` characters; oversized paragraphs are split at sentences.
+// Every piece is a trimmed substring of the page, so a chunk's offset is where its first piece occurs.
+function chunkPage(text: string, size: number): Array<{ text: string; offset: number }> {
+  const pieces: string[] = [];
+  for (const paragraph of text.split(/\n\s*\n+/).map(p => p.trim()).filter(Boolean)) {
+    if (paragraph.length <= size) {
+      pieces.push(paragraph);
+      continue;
+    }
+    let current = "";
+    // Sentences keep their trailing whitespace so that consecutive ones join back into the original text
+    for (const sentence of (paragraph.match(/[^.!?\n]*(?:[.!?]+\s*|\n|$)/g) ?? [paragraph]).filter(Boolean)) {
+      if (current && (current + sentence).length > size) {
+        pieces.push(current.trim());
+        current = "";
+      }
+      // A single run-on "sentence" longer than a chunk is cut at the size limit
+      for (let start = 0; start < sentence.length; start += size) {
+        const part = sentence.substring(start, start + size);
+        if (current && (current + part).length > size) {
+          pieces.push(current.trim());
+          current = "";
+        }
+        current += part;
+      }
+    }
+    if (current.trim()) pieces.push(current.trim());
+  }
+
+  const chunks: Array<{ text: string; offset: number }> = [];
+  let current = "";
+  let cursor = 0;
+  let offset = 0;
+  for (const piece of pieces) {
+    const found = text.indexOf(piece, cursor);
+    if (found !== -1) cursor = found + piece.length;
+    if (current && (current + piece).length > size) {
+      chunks.push({ text: current, offset });
+      current = piece;
+      offset = found === -1 ? offset : found;
+    } else {
+      if (!current) offset = found === -1 ? offset : found;
+      current += (current ? "\n\n" : "") + piece;
+    }
+  }
+  if (current) chunks.push({ text: current, offset });
+  return chunks;
+}
+
+export function buildChunkIndex(pages: string[], options: ChunkOptions = {}): ChunkIndex {
+  const size = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const chunks: IndexedChunk[] = [];
+  // Maps rather than plain objects while counting, since terms such as "constructor" would hit Object.prototype
+  const documentFrequency = new Map<string, number>();
+  let totalLength = 0;
+
+  pages.forEach((pageText, pageIdx) => {
+    for (const { text, offset } of chunkPage(pageText, size)) {
+      const tokens = tokenize(text);
+      const terms = new Map<string, number>();
+      for (const token of tokens) terms.set(token, (terms.get(token) ?? 0) + 1);
+      for (const term of terms.keys()) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+      chunks.push({ id: chunks.length, page: pageIdx + 1, offset, text, length: tokens.length, terms: Object.fromEntries(terms) });
+      totalLength += tokens.length;
+    }
+  });
+
+  return {
+    version: 1,
+    chunks,
+    documentFrequency: Object.fromEntries(documentFrequency),
+    averageLength: chunks.length > 0 ? totalLength / chunks.length : 0,
+    pageCount: pages.length,
+  };
+}
+
+// Ranks chunks by BM25 score against the query; chunks sharing no term with the query are left out
+export function searchChunks(index: ChunkIndex, query: string, limit = 8): RankedPassage[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || index.chunks.length === 0) return [];
+
+  const total = index.chunks.length;
+  const idf = new Map(queryTerms.map(term => {
+    const df = Object.hasOwn(index.documentFrequency, term) ? index.documentFrequency[term] : 0;
+    return [term, Math.log(1 + (total - df + 0.5) / (df + 0.5))];
+  }));
+
+  const ranked: RankedPassage[] = [];
+  for (const chunk of index.chunks) {
+    let score = 0;
+    const matchedTerms: string[] = [];
+    for (const term of queryTerms) {
+      const frequency = Object.hasOwn(chunk.terms, term) ? chunk.terms[term] : 0;
+      if (frequency === 0) continue;
+      matchedTerms.push(term);
+      const normalization = K1 * (1 - B + (B * chunk.length) / (index.averageLength || 1));
+      score += idf.get(term)! * (frequency * (K1 + 1)) / (frequency + normalization);
+    }
+    if (score > 0) ranked.push({ chunkId: chunk.id, page: chunk.page, offset: chunk.offset ?? 0, text: chunk.text, score, matchedTerms });
+  }
+
+  return ranked.sort((a, b) => b.score - a.score || a.chunkId - b.chunkId).slice(0, Math.max(1, limit));
+}
+
+// Passages from the start of the document, for questions with no searchable terms ("summarize this")
+export function leadingPassages(index: ChunkIndex, limit = 8): RankedPassage[] {
+  return index.chunks.slice(0, limit).map(chunk => ({ chunkId: chunk.id, page: chunk.page, offset: chunk.offset ?? 0, text: chunk.text, score: 0, matchedTerms: [] }));
+}
+
+// Top-ranked passages for a question, falling back to the opening passages when nothing matches
+export function retrievePassages(index: ChunkIndex, question: string, limit = 8): RankedPassage[] {
+  const ranked = searchChunks(index, question, limit);
+  return ranked.length > 0 ? ranked : leadingPassages(index, limit);
+}
+
+// The saved index of an extracted PDF. Extractions saved before indexing have no page list; pdf-parse separates
+// pages with a blank line, which recovers them when the count matches, otherwise the text is indexed as one page.
+export function documentIndex(data: { index?: ChunkIndex; pages?: string[]; text: string; numPages?: number }): ChunkIndex {
+  if (data.index?.version === 1 && data.index.chunks.every(chunk => chunk.offset !== undefined)) return data.index;
+  if (data.pages) return buildChunkIndex(data.pages);
+  const parts = data.text.split("\n\n").slice(1);
+  return buildChunkIndex(parts.length === data.numPages ? parts : [data.text]);
+}
+
+export function formatPassages(passages: RankedPassage[]): string {
+  return passages.map((passage, idx) => `--- [${idx + 1}] page ${passage.page} ---\n${passage.text}`).join("\n\n");
+}
+
+export const CITATION_INSTRUCTIONS = "Cite every statement taken from the document with the number of its passage in square brackets, for example [2]. When you use a passage found with search_pdf, cite its page instead, for example [p. 12].";
+
+// Sentences of a text with their offsets; line breaks inside a sentence are kept
+function sentences(text: string): Array<{ text: string; start: number }> {
+  const result: Array<{ text: string; start: number }> = [];
+  for (const match of text.matchAll(/[^.!?\n]+(?:[.!?]+|\n|$)/g)) {
+    const raw = match[0];
+    const trimmed = raw.trim();
+    if (trimmed.length >= 12) result.push({ text: trimmed, start: match.index! + raw.indexOf(trimmed) });
+  }
+  return result;
+}
+
+// The sentence of `text` sharing most terms with the cited statement
+function supportingSentence(text: string, statement: string[]): { text: string; start: number } | null {
+  let best: { text: string; start: number } | null = null;
+  let bestScore = -1;
+  for (const sentence of sentences(text)) {
+    const terms = new Set(tokenize(sentence.text));
+    const score = statement.filter(term => terms.has(term)).length;
+    if (score > bestScore) {
+      best = sentence;
+      bestScore = score;
+    }
+  }
+  if (!best) return null;
+  return best.text.length > 300 ? { text: `${best.text.substring(0, 297)}...`, start: best.start } : best;
+}
+
+// Resolves the [n] and [p. N] markers of an answer to pages and the sentences that support each cited statement.
+// `pages` and `pageOffsets` are the per-page text and page start offsets saved at extraction.
+export function citeAnswer(answer: string, passages: RankedPassage[], pages: string[], pageOffsets?: number[]): Citation[] {
+  const citations = new Map<string, Citation>();
+  for (const match of answer.matchAll(/\[(?:(p(?:age|\.)?\s*)(\d+)|(\d+(?:\s*,\s*\d+)*))\]/gi)) {
+    // The statement is the answer text between the previous sentence end and the marker
+    const before = answer.substring(0, match.index);
+    const statement = tokenize(before.substring(Math.max(before.search(/[^.!?\n]*$/), 0)));
+    const targets = match[3]
+      ? match[3].split(",").map(n => Number(n.trim())).filter(n => n >= 1 && n <= passages.length).map(n => ({ label: `[${n}]`, passage: passages[n - 1] }))
+      : [{ label: match[0], page: Number(match[2]) }];
+
+    for (const target of targets) {
+      if (citations.has(target.label)) continue;
+      const page = "passage" in target ? target.passage.page : target.page;
+      const pageText = pages[page - 1];
+      if (pageText === undefined) continue;
+
+      const source = "passage" in target ? target.passage.text : pageText;
+      const sentence = supportingSentence(source, statement);
+      let start = "passage" in target ? target.passage.offset : 0;
+      if (sentence) {
+        const found = pageText.indexOf(sentence.text.replace(/\.\.\.$/, ""), "passage" in target ? target.passage.offset : 0);
+        start = found !== -1 ? found : start + sentence.start;
+      }
+      const quote = sentence?.text ?? source.substring(0, 200);
+      citations.set(target.label, {
+        label: target.label,
+        page,
+        quote,
+        start,
+        end: start + quote.replace(/\.\.\.$/, "").length,
+        documentStart: pageOffsets?.[page - 1] !== undefined ? pageOffsets[page - 1] + start : null,
+      });
+    }
+  }
+  return [...citations.values()];
+}
@@ -0,0 +1,337 @@
+export type ColumnType =
+  | "integer"
+  | "float"
+  | "boolean"
+  | "date"
+  | "datetime"
+  | "currency"
+  | "percentage"
+  | "categorical"
+  | "text"
+  | "identifier"
+  | "empty";
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  confidence: number; // Share of non-empty values that parse as `type` (0-1)
+  parseFailures: number; // Non-empty values that do not parse as `type`
+  nonEmptyCount: number;
+  missingCount: number;
+  uniqueCount: number;
+  currencySymbol?: string;
+  dayFirst?: boolean; // Date columns: numeric dates read as 31/01/2024 rather than 01/31/2024
+}
+
+// Running per-type match counts, so a schema can be inferred in one streaming pass
+export interface TypeTally {
+  nonEmpty: number;
+  missing: number;
+  integers: number;
+  floats: number;
+  currencies: number;
+  percentages: number;
+  booleans: number;
+  dates: number;
+  datetimes: number;
+  symbols: Record<string, number>;
+  totalLength: number;
+  withSpaces: number;
+  dayFirstDates: number; // Numeric dates whose first number can only be a day, as in 31/01/2024
+}
+
+export type ValueKind = "integer" | "float" | "percentage" | "currency" | "datetime" | "date" | "other";
+
+export interface TableSchema {
+  columns: ColumnSchema[];
+  inferredAt: string;
+}
+
+const NUMERIC_TYPES: ColumnType[] = ["integer", "float", "currency", "percentage"];
+const TEMPORAL_TYPES: ColumnType[] = ["date", "datetime"];
+
+// A column is assigned a parsed type when at least this share of its values parse
+const TYPE_THRESHOLD = 0.9;
+
+const BOOLEAN_VALUES = new Set(["true", "false", "yes", "no", "y", "n", "t", "f"]);
+const CURRENCY_SYMBOLS = "$€£¥₹₩₽";
+const INTEGER_PATTERN = /^[+-]?(\d{1,3}(,\d{3})+|\d+)$/;
+const FLOAT_PATTERN = /^[+-]?(\d{1,3}(,\d{3})+|\d+)?\.\d+([eE][+-]?\d+)?$|^[+-]?\d+(\.\d+)?[eE][+-]?\d+$/;
+const CURRENCY_PATTERN = new RegExp(
+  `^\\(?[+-]?\\s*([${CURRENCY_SYMBOLS}])\\s*[+-]?(\\d{1,3}(,\\d{3})+|\\d+)(\\.\\d+)?\\)?$|^\\(?[+-]?(\\d{1,3}(,\\d{3})+|\\d+)(\\.\\d+)?\\s*([${CURRENCY_SYMBOLS}])\\)?$`,
+);
+const PERCENTAGE_PATTERN = /^[+-]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?\s*%$/;
+const DATE_PATTERNS = [
+  /^\d{4}-\d{1,2}-\d{1,2}$/, // 2024-01-31
+  /^\d{4}\/\d{1,2}\/\d{1,2}$/, // 2024/01/31
+  /^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}$/, // 01/31/2024, 31.01.2024
+  /^\d{1,2}[\s-][A-Za-z]{3,9}[\s-]\d{2,4}$/, // 31 Jan 2024
+  /^[A-Za-z]{3,9}\.?\s+\d{1,2},?\s+\d{4}$/, // Jan 31, 2024
+];
+// Numeric dates with an optional time, in either day order: 31/01/2024, 01/31/2024 10:30 PM
+const NUMERIC_DATE_PATTERN = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?)?$/;
+// Year-first dates with an optional time and no zone: 2024-01-31, 2024/01/31, 2024-01-31T10:30:00.5
+const YEAR_FIRST_PATTERN = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T\s](\d{1,2}):(\d{2})(?::(\d{2})(\.\d+)?)?)?$/;
+// A time zone in the text, which Date.parse honours; without one it would read the value in local time
+const EXPLICIT_ZONE = /\d:\d{2}(:\d{2}(\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})$|\b(UTC|GMT)\b/i;
+const DATETIME_PATTERN = /^\d{4}-\d{1,2}-\d{1,2}[T\s]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?$|^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}\s+\d{1,2}:\d{2}(:\d{2})?\s*([AaPp][Mm])?$/;
+const IDENTIFIER_HEADER = /(^|[\s_-])(id|uuid|guid|key|code|sku)$|^id[\s_-]/i;
+
+export class SchemaInferrer {
+  inferSchema(data: { headers: string[]; rows: string[][] }): TableSchema {
+    return {
+      columns: data.headers.map((header, colIndex) =>
+        this.inferColumn(header, data.rows.map(row => row[colIndex] ?? ""))
+      ),
+      inferredAt: new Date().toISOString(),
+    };
+  }
+
+  inferColumn(name: string, rawValues: string[]): ColumnSchema {
+    const tally = this.createTally();
+    const unique = new Set<string>();
+
+    for (const raw of rawValues) {
+      if (this.tallyValue(tally, raw) !== null) unique.add(raw.trim());
+    }
+
+    return this.resolveColumn(name, tally, unique.size);
+  }
+
+  createTally(): TypeTally {
+    return {
+      nonEmpty: 0,
+      missing: 0,
+      integers: 0,
+      floats: 0,
+      currencies: 0,
+      percentages: 0,
+      booleans: 0,
+      dates: 0,
+      datetimes: 0,
+      symbols: {},
+      totalLength: 0,
+      withSpaces: 0,
+      dayFirstDates: 0,
+    };
+  }
+
+  // Counts one value towards every type it could belong to; returns its kind, or null when empty
+  tallyValue(tally: TypeTally, raw: string): ValueKind | null {
+    const value = (raw ?? "").trim();
+    if (value === "") {
+      tally.missing++;
+      return null;
+    }
+
+    tally.nonEmpty++;
+    tally.totalLength += value.length;
+    if (/\s/.test(value)) tally.withSpaces++;
+    if (BOOLEAN_VALUES.has(value.toLowerCase())) tally.booleans++;
+
+    if (INTEGER_PATTERN.test(value)) {
+      tally.integers++;
+      return "integer";
+    }
+    if (FLOAT_PATTERN.test(value)) {
+      tally.floats++;
+      return "float";
+    }
+    if (PERCENTAGE_PATTERN.test(value) && /\d/.test(value)) {
+      tally.percentages++;
+      return "percentage";
+    }
+
+    const currency = value.match(CURRENCY_PATTERN);
+    if (currency) {
+      tally.currencies++;
+      const symbol = currency[1] || currency[8];
+      tally.symbols[symbol] = (tally.symbols[symbol] || 0) + 1;
+      return "currency";
+    }
+    if (DATETIME_PATTERN.test(value) && this.parseDate(value) !== null) {
+      tally.datetimes++;
+      this.tallyDayOrder(tally, value);
+      return "datetime";
+    }
+    if (DATE_PATTERNS.some(p => p.test(value)) && this.parseDate(value) !== null) {
+      tally.dates++;
+      this.tallyDayOrder(tally, value);
+      return "date";
+    }
+    return "other";
+  }
+
+  private tallyDayOrder(tally: TypeTally, value: string): void {
+    if (this.isDayFirstDate(value)) tally.dayFirstDates++;
+  }
+
+  // A numeric date whose first number can only be a day (31/01/2024), which makes its column day-first
+  isDayFirstDate(value: string): boolean {
+    const numeric = value.trim().match(NUMERIC_DATE_PATTERN);
+    return numeric !== null && Number(numeric[1]) > 12;
+  }
+
+  resolveColumn(name: string, tally: TypeTally, uniqueCount: number): ColumnSchema {
+    const nonEmptyCount = tally.nonEmpty;
+    const base = { name, nonEmptyCount, missingCount: tally.missing, uniqueCount };
+
+    if (nonEmptyCount === 0) {
+      return { ...base, type: "empty", confidence: 0, parseFailures: 0 };
+    }
+
+    const { integers, floats, currencies, percentages, booleans, dates, datetimes } = tally;
+    const candidates: Array<{ type: ColumnType; matches: number }> = [];
+    const plainNumbers = integers + floats;
+
+    if (booleans / nonEmptyCount >= TYPE_THRESHOLD) {
+      candidates.push({ type: "boolean", matches: booleans });
+    }
+    if (percentages > 0 && (percentages + plainNumbers) / nonEmptyCount >= TYPE_THRESHOLD && percentages >= plainNumbers) {
+      candidates.push({ type: "percentage", matches: percentages + plainNumbers });
+    }
+    if (currencies > 0 && (currencies + plainNumbers) / nonEmptyCount >= TYPE_THRESHOLD && currencies >= plainNumbers) {
+      candidates.push({ type: "currency", matches: currencies + plainNumbers });
+    }
+    if (plainNumbers / nonEmptyCount >= TYPE_THRESHOLD) {
+      candidates.push({ type: floats === 0 ? "integer" : "float", matches: plainNumbers });
+    }
+    if (datetimes > 0 && (datetimes + dates) / nonEmptyCount >= TYPE_THRESHOLD) {
+      candidates.push({ type: "datetime", matches: datetimes + dates });
+    }
+    if (dates / nonEmptyCount >= TYPE_THRESHOLD) {
+      candidates.push({ type: "date", matches: dates });
+    }
+
+    const uniqueRatio = uniqueCount / nonEmptyCount;
+
+    if (candidates.length > 0) {
+      const best = candidates[0];
+
+      // Unique integer keys such as customer_id are identifiers, not measurements
+      if (best.type === "integer" && IDENTIFIER_HEADER.test(name.trim()) && uniqueRatio >= 0.95) {
+        return { ...base, type: "identifier", confidence: best.matches / nonEmptyCount, parseFailures: nonEmptyCount - best.matches };
+      }
+
+      const schema: ColumnSchema = {
+        ...base,
+        type: best.type,
+        confidence: best.matches / nonEmptyCount,
+        parseFailures: nonEmptyCount - best.matches,
+      };
+      if (best.type === "currency") {
+        schema.currencySymbol = Object.entries(tally.symbols).sort((a, b) => b[1] - a[1])[0]?.[0];
+      }
+      // One day order for the whole column: day-first as soon as any numeric date cannot be month-first
+      if (this.isTemporal(best.type)) {
+        schema.dayFirst = tally.dayFirstDates > 0;
+      }
+      return schema;
+    }
+
+    // Strings are split into identifiers, free text and categories by cardinality and shape. Every value is a valid
+    // string, so these types have full confidence
+    const avgLength = tally.totalLength / nonEmptyCount;
+    const withSpaces = tally.withSpaces / nonEmptyCount;
+
+    if (nonEmptyCount > 1 && uniqueRatio >= 0.95 && avgLength <= 40 && (IDENTIFIER_HEADER.test(name.trim()) || (withSpaces < 0.05 && nonEmptyCount >= 20))) {
+      return { ...base, type: "identifier", confidence: 1, parseFailures: 0 };
+    }
+
+    if (avgLength > 30 || (withSpaces > 0.5 && uniqueRatio > 0.5)) {
+      return { ...base, type: "text", confidence: 1, parseFailures: 0 };
+    }
+
+    return { ...base, type: "categorical", confidence: 1, parseFailures: 0 };
+  }
+
+  isNumeric(type: ColumnType): boolean {
+    return NUMERIC_TYPES.includes(type);
+  }
+
+  isTemporal(type: ColumnType): boolean {
+    return TEMPORAL_TYPES.includes(type);
+  }
+
+  // Parses plain numbers, currency ("$1,234.50", "(€12)"), and percentages ("12%" -> 12)
+  parseNumber(value: string): number | null {
+    let text = (value ?? "").trim();
+    if (!text) return null;
+
+    let negative = false;
+    if (text.startsWith("(") && text.endsWith(")")) {
+      negative = true;
+      text = text.slice(1, -1).trim();
+    }
+
+    text = text.replace(new RegExp(`[${CURRENCY_SYMBOLS}%\\s]`, "g"), "");
+    if (text.startsWith("-")) {
+      negative = !negative;
+      text = text.slice(1);
+    } else if (text.startsWith("+")) {
+      text = text.slice(1);
+    }
+
+    if (!/^(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][+-]?\d+)?$/.test(text) || !/\d/.test(text)) {
+      return null;
+    }
+
+    const parsed = Number(text.replace(/,/g, ""));
+    if (!Number.isFinite(parsed)) return null;
+    return negative ? -parsed : parsed;
+  }
+
+  parseBoolean(value: string): boolean | null {
+    const lower = (value ?? "").trim().toLowerCase();
+    if (["true", "yes", "y", "t", "1"].includes(lower)) return true;
+    if (["false", "no", "n", "f", "0"].includes(lower)) return false;
+    return null;
+  }
+
+  // Returns a UTC timestamp in milliseconds, or null when the value is not a recognizable date. Values without a time
+  // zone are read as UTC. Numeric dates are read day-first when `dayFirst` is set (a column's `dayFirst`); otherwise
+  // month-first, unless the first number can only be a day
+  parseDate(value: string, dayFirst = false): number | null {
+    const text = (value ?? "").trim();
+    if (!text || /^[+-]?\d+(\.\d+)?$/.test(text)) return null;
+
+    // Day-first and month-first numeric dates: 31/01/2024 or 01/31/2024
+    const numeric = text.match(NUMERIC_DATE_PATTERN);
+    if (numeric) {
+      let [first, second, year] = [Number(numeric[1]), Number(numeric[2]), Number(numeric[3])];
+      if (year < 100) year += year < 70 ? 2000 : 1900;
+      const swap = dayFirst || (first > 12 && second <= 12);
+      const month = swap ? second : first;
+      const day = swap ? first : second;
+      if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+      let hours = numeric[4] ? Number(numeric[4]) : 0;
+      if (numeric[7] && numeric[7].toLowerCase() === "pm" && hours < 12) hours += 12;
+      if (numeric[7] && numeric[7].toLowerCase() === "am" && hours === 12) hours = 0;
+      return calendarDate(year, month, day, hours, numeric[5] ? Number(numeric[5]) : 0, numeric[6] ? Number(numeric[6]) : 0);
+    }
+
+    // Year-first dates: 2024-01-31, 2024/01/31 and ISO timestamps without a zone
+    const yearFirst = text.match(YEAR_FIRST_PATTERN);
+    if (yearFirst) {
+      const [year, month, day] = [Number(yearFirst[1]), Number(yearFirst[2]), Number(yearFirst[3])];
+      if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+      const seconds = yearFirst[6] ? Number(yearFirst[6]) : 0;
+      const millis = yearFirst[7] ? Math.round(Number(yearFirst[7]) * 1000) : 0;
+      return calendarDate(year, month, day, yearFirst[4] ? Number(yearFirst[4]) : 0, yearFirst[5] ? Number(yearFirst[5]) : 0, seconds, millis);
+    }
+
+    // Other forms ("Jan 31, 2024", "31 Jan 2024") through Date.parse, moved from local time to UTC unless they name a zone
+    const timestamp = Date.parse(text);
+    if (isNaN(timestamp)) return null;
+    if (EXPLICIT_ZONE.test(text)) return timestamp;
+    const local = new Date(timestamp);
+    return Date.UTC(local.getFullYear(), local.getMonth(), local.getDate(), local.getHours(), local.getMinutes(), local.getSeconds(), local.getMilliseconds());
+  }
+}
+
+// A UTC timestamp, or null for days the month does not have (2024-02-30) instead of rolling over into the next month
+function calendarDate(year: number, month: number, day: number, hours = 0, minutes = 0, seconds = 0, millis = 0): number | null {
+  const timestamp = Date.UTC(year, month - 1, day, hours, minutes, seconds, millis);
+  return new Date(timestamp).getUTCDate() === day ? timestamp : null;
+}
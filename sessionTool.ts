@@ -0,0 +1,172 @@
+import type { Citation } from "./retrievalTool.ts";
+import type { Narrative } from "./narrativeTool.ts";
+
+// Web conversations saved to disk: the processed file, the dataset IDs it produced, the Q&A turns and the reports
+// generated along the way. One JSON file per conversation, so a restart or a closed tab does not lose them.
+
+export interface ConversationTurn {
+  question: string;
+  answer: string;
+  dataset: string; // Dataset or document ID the question was asked about
+  citations: Citation[];
+  exports?: string[]; // Files the agent wrote to the export directory with export_data while answering
+  askedAt: string;
+}
+
+export interface ConversationReport {
+  kind: "insights" | "narrative" | "pdf" | "html" | "md" | "comparison" | "drift" | "drift_pdf" | "sql" | "transform"; // Insights shown in the browser, an AI narrative written for them, a downloaded PDF, HTML or Markdown insights report, a dataset comparison, a drift report or its PDF, a SQL query or a cleaning run
+  dataset: string; // SQL queries and cleaning runs: the result dataset
+  baseline?: string; // Comparisons, drift reports and their PDFs: the dataset `dataset` was compared against; cleaning runs: the dataset cleaned
+  query?: string; // SQL queries: the statement that was run
+  recipe?: string; // Cleaning runs: the ID of the recipe that was applied
+  narrative?: Narrative; // Narratives: included in the insights reports downloaded for the dataset afterwards
+  sheet?: string;
+  rowCount?: number;
+  columnCount?: number;
+  createdAt: string;
+}
+
+// A table dataset of the conversation: a sheet, a CSV file or a table found in a PDF, from the conversation's file or a
+// file added to it, or a table joined or stacked from other datasets
+export interface ConversationDataset {
+  dataset: string;
+  file?: string; // Uploaded file the dataset was read from; joined and stacked tables have none
+  derivedFrom?: string;
+  sheet?: string;
+  headers: string[];
+  rowCount: number;
+  [key: string]: unknown;
+}
+
+export interface StoredConversation {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  currentFile: string;
+  fileType: string;
+  document: string | null; // ID of the PDF extraction, for PDF files
+  tableData: { dataset: string; headers: string[]; rowCount: number; rows: string[][]; sheet?: string } | null;
+  datasets: ConversationDataset[];
+  turns: ConversationTurn[];
+  reports: ConversationReport[];
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  currentFile: string;
+  fileType: string;
+  createdAt: string;
+  updatedAt: string;
+  turnCount: number;
+  reportCount: number;
+  lastQuestion: string | null;
+}
+
+// Client session IDs, e.g. "session_1714557630000_k3j9x2a1b"
+const CONVERSATION_ID = /^session_[\w-]+$/;
+
+// Turns passed back to the agent with each question, and the length each earlier answer is cut to
+export const HISTORY_TURNS = 6;
+const HISTORY_ANSWER_LENGTH = 1000;
+
+export class SessionStore {
+  constructor(private directory: string) {}
+
+  async ensureDir(): Promise<void> {
+    try {
+      await Deno.mkdir(this.directory, { recursive: true });
+    } catch {
+      // Directory already exists
+    }
+  }
+
+  async save(conversation: StoredConversation): Promise<void> {
+    if (!CONVERSATION_ID.test(conversation.id)) throw new Error(`Invalid session ID: ${conversation.id}`);
+    await this.ensureDir();
+    // Written to a temporary file first, so a crash mid-write never leaves a truncated conversation behind
+    const path = `${this.directory}/${conversation.id}.json`;
+    await Deno.writeTextFile(`${path}.tmp`, JSON.stringify(conversation, null, 2));
+    await Deno.rename(`${path}.tmp`, path);
+  }
+
+  // The saved conversation with this ID, or null when there is none; IDs come from clients, so anything else is unknown
+  async load(id: string): Promise<StoredConversation | null> {
+    if (typeof id !== "string" || !CONVERSATION_ID.test(id)) return null;
+    try {
+      return JSON.parse(await Deno.readTextFile(`${this.directory}/${id}.json`));
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (typeof id !== "string" || !CONVERSATION_ID.test(id)) return false;
+    try {
+      await Deno.remove(`${this.directory}/${id}.json`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // All saved conversations, most recently active first
+  async list(): Promise<StoredConversation[]> {
+    await this.ensureDir();
+    const conversations: StoredConversation[] = [];
+    for await (const entry of Deno.readDir(this.directory)) {
+      if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+      const conversation = await this.load(entry.name.replace(/\.json$/, ""));
+      if (conversation) conversations.push(conversation);
+    }
+    return conversations.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+}
+
+export function summarizeConversation(conversation: StoredConversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    currentFile: conversation.currentFile,
+    fileType: conversation.fileType,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    turnCount: conversation.turns.length,
+    reportCount: conversation.reports.length,
+    lastQuestion: conversation.turns.at(-1)?.question ?? null,
+  };
+}
+
+// Uploaded files a conversation still refers to: its own file and the files added to it
+export function conversationFiles(conversation: StoredConversation): string[] {
+  const files = new Set([conversation.currentFile]);
+  conversation.datasets.forEach(d => d.file && files.add(d.file));
+  return [...files];
+}
+
+// Exported files a conversation still links to from its answers
+export function conversationExports(conversation: StoredConversation): string[] {
+  return [...new Set(conversation.turns.flatMap(turn => turn.exports ?? []))];
+}
+
+// Dataset and document IDs a conversation still refers to
+export function conversationDatasets(conversation: StoredConversation): string[] {
+  const ids = new Set(conversation.datasets.map(d => d.dataset));
+  if (conversation.tableData) ids.add(conversation.tableData.dataset);
+  if (conversation.document) ids.add(conversation.document);
+  conversation.reports.forEach(r => r.recipe && ids.add(r.recipe));
+  return [...ids];
+}
+
+// The latest turns as a prompt section, so follow-up questions ("and for 2023?", "what about that column?") keep their context
+export function formatHistory(turns: ConversationTurn[], limit = HISTORY_TURNS): string {
+  if (turns.length === 0) return "";
+  const recent = turns.slice(-limit);
+  const lines = recent.map(turn => {
+    const answer = turn.answer.length > HISTORY_ANSWER_LENGTH ? `${turn.answer.substring(0, HISTORY_ANSWER_LENGTH)}...` : turn.answer;
+    return `User: ${turn.question}\nAssistant: ${answer}`;
+  });
+  const omitted = turns.length - recent.length;
+  return `Conversation so far${omitted > 0 ? ` (last ${recent.length} of ${turns.length} exchanges)` : ""}, oldest first:\n\n${lines.join("\n\n")}\n\nThe question below may refer back to this conversation; read it in that light.`;
+}
@@ -0,0 +1,1309 @@
+import { SchemaInferrer, type TableSchema } from "./schemaTool.ts";
+
+// A small SQL engine over table datasets: SELECT with JOIN, WHERE, GROUP BY, HAVING, ORDER BY and LIMIT. Tables are
+// named by their dataset ID in double quotes; the first table is streamed, joined tables are held in memory.
+// TableProcessor feeds the rows and stores the result as a table dataset, so results page like any other table.
+//
+// Values follow the column types: numeric columns hold numbers, date columns ISO 8601 text ("2024-01-31",
+// "2024-01-31 09:30:00"), empty cells NULL and everything else text.
+
+export type SQLValue = number | string | boolean | null;
+
+// Rows held in memory for joined tables, grouping and sorting
+export const MAX_SQL_MEMORY_ROWS = 1_000_000;
+
+const KEYWORDS = new Set([
+  "SELECT", "DISTINCT", "FROM", "WHERE", "GROUP", "BY", "HAVING", "ORDER", "ASC", "DESC", "LIMIT", "OFFSET", "JOIN",
+  "INNER", "LEFT", "RIGHT", "FULL", "OUTER", "CROSS", "ON", "AS", "AND", "OR", "NOT", "IS", "NULL", "IN", "BETWEEN",
+  "LIKE", "CASE", "WHEN", "THEN", "ELSE", "END", "TRUE", "FALSE", "CAST", "UNION", "WITH",
+]);
+const AGGREGATES = new Set(["COUNT", "SUM", "AVG", "MIN", "MAX"]);
+
+interface Token {
+  kind: "keyword" | "identifier" | "quoted" | "string" | "number" | "symbol" | "end";
+  value: string;
+  position: number;
+}
+
+export type SQLExpression =
+  | { type: "literal"; value: SQLValue }
+  | { type: "column"; table?: string; name: string }
+  | { type: "unary"; op: "-" | "NOT"; operand: SQLExpression }
+  | { type: "binary"; op: string; left: SQLExpression; right: SQLExpression }
+  | { type: "isNull"; operand: SQLExpression; negated: boolean }
+  | { type: "in"; operand: SQLExpression; values: SQLExpression[]; negated: boolean }
+  | { type: "between"; operand: SQLExpression; low: SQLExpression; high: SQLExpression; negated: boolean }
+  | { type: "like"; operand: SQLExpression; pattern: SQLExpression; negated: boolean }
+  | { type: "case"; operand?: SQLExpression; branches: Array<{ when: SQLExpression; then: SQLExpression }>; otherwise?: SQLExpression }
+  | { type: "cast"; operand: SQLExpression; to: string }
+  | { type: "call"; name: string; args: SQLExpression[]; distinct: boolean; star: boolean };
+
+export interface SQLTableRef {
+  name: string; // Dataset ID
+  alias: string;
+}
+
+export interface SelectStatement {
+  distinct: boolean;
+  columns: Array<{ star: true; table?: string } | { star: false; expr: SQLExpression; alias?: string; text: string }>;
+  from: SQLTableRef;
+  joins: Array<{ how: "inner" | "left" | "full" | "cross"; table: SQLTableRef; on: SQLExpression | null }>;
+  where: SQLExpression | null;
+  groupBy: SQLExpression[];
+  having: SQLExpression | null;
+  orderBy: Array<{ expr: SQLExpression; descending: boolean }>;
+  limit: number | null;
+  offset: number;
+}
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  const fail = (message: string): never => {
+    throw new Error(`${message} at position ${i + 1}`);
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (sql.startsWith("--", i)) {
+      while (i < sql.length && sql[i] !== "\n") i++;
+    } else if (sql.startsWith("/*", i)) {
+      const end = sql.indexOf("*/", i + 2);
+      if (end === -1) fail("Unterminated comment");
+      i = end + 2;
+    } else if (ch === "'") {
+      const start = i;
+      let value = "";
+      i++;
+      for (;;) {
+        if (i >= sql.length) fail("Unterminated string");
+        if (sql[i] === "'") {
+          if (sql[i + 1] === "'") {
+            value += "'";
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += sql[i++];
+      }
+      tokens.push({ kind: "string", value, position: start });
+    } else if (ch === '"' || ch === "`" || ch === "[") {
+      const start = i;
+      const close = ch === "[" ? "]" : ch;
+      let value = "";
+      i++;
+      for (;;) {
+        if (i >= sql.length) fail("Unterminated quoted name");
+        if (sql[i] === close) {
+          if (close !== "]" && sql[i + 1] === close) {
+            value += close;
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += sql[i++];
+      }
+      tokens.push({ kind: "quoted", value, position: start });
+    } else if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(sql[i + 1] ?? ""))) {
+      const match = sql.slice(i).match(/^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/)!;
+      tokens.push({ kind: "number", value: match[0], position: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = sql.slice(i).match(/^[A-Za-z_][A-Za-z0-9_$]*/)!;
+      const upper = match[0].toUpperCase();
+      tokens.push(KEYWORDS.has(upper) ? { kind: "keyword", value: upper, position: i } : { kind: "identifier", value: match[0], position: i });
+      i += match[0].length;
+    } else {
+      const symbol = ["<=", ">=", "<>", "!=", "||"].find(op => sql.startsWith(op, i)) ?? ch;
+      if (!"<=>!|+-*/%(),.;".includes(symbol[0]) || symbol === "!" || symbol === "|") fail(`Unexpected character "${ch}"`);
+      tokens.push({ kind: "symbol", value: symbol, position: i });
+      i += symbol.length;
+    }
+  }
+  tokens.push({ kind: "end", value: "", position: sql.length });
+  return tokens;
+}
+
+class Parser {
+  private tokens: Token[];
+  private pos = 0;
+
+  constructor(private sql: string) {
+    this.tokens = tokenize(sql);
+  }
+
+  parse(): SelectStatement {
+    if (this.isKeyword("WITH")) this.fail("WITH clauses are not supported");
+    const statement = this.parseSelect();
+    this.acceptSymbol(";");
+    if (this.isKeyword("UNION")) this.fail("UNION is not supported; use the union_datasets tool to stack tables");
+    if (this.peek().kind !== "end") this.fail(`Unexpected "${this.peek().value}"`);
+    return statement;
+  }
+
+  private parseSelect(): SelectStatement {
+    this.expectKeyword("SELECT");
+    const distinct = this.acceptKeyword("DISTINCT");
+
+    const columns: SelectStatement["columns"] = [];
+    do {
+      const start = this.peek().position;
+      if (this.acceptSymbol("*")) {
+        columns.push({ star: true });
+        continue;
+      }
+      // alias.*
+      if ((this.peek().kind === "identifier" || this.peek().kind === "quoted") && this.peekAt(1).value === "." && this.peekAt(2).value === "*") {
+        const table = this.next().value;
+        this.next();
+        this.next();
+        columns.push({ star: true, table });
+        continue;
+      }
+      const expr = this.parseExpression();
+      const text = this.sql.substring(start, this.peek().position).trim();
+      let alias: string | undefined;
+      if (this.acceptKeyword("AS")) {
+        alias = this.parseName("column alias");
+      } else if (this.peek().kind === "identifier" || this.peek().kind === "quoted") {
+        alias = this.next().value;
+      }
+      columns.push({ star: false, expr, alias, text });
+    } while (this.acceptSymbol(","));
+
+    this.expectKeyword("FROM");
+    const from = this.parseTableRef();
+    if (this.peek().value === ",") this.fail("List tables with JOIN ... ON instead of commas");
+
+    const joins: SelectStatement["joins"] = [];
+    for (;;) {
+      let how: SelectStatement["joins"][number]["how"] | null = null;
+      if (this.acceptKeyword("JOIN")) how = "inner";
+      else if (this.acceptKeyword("INNER")) how = "inner";
+      else if (this.acceptKeyword("LEFT")) how = "left";
+      else if (this.acceptKeyword("FULL")) how = "full";
+      else if (this.acceptKeyword("CROSS")) how = "cross";
+      else if (this.isKeyword("RIGHT")) this.fail("RIGHT JOIN is not supported; swap the tables and use LEFT JOIN");
+      if (!how) break;
+      if (how !== "inner" || this.tokens[this.pos - 1].value !== "JOIN") {
+        if (how === "left" || how === "full") this.acceptKeyword("OUTER");
+        this.expectKeyword("JOIN");
+      }
+      const table = this.parseTableRef();
+      let on: SQLExpression | null = null;
+      if (how !== "cross") {
+        this.expectKeyword("ON");
+        on = this.parseExpression();
+      }
+      joins.push({ how, table, on });
+    }
+
+    const where = this.acceptKeyword("WHERE") ? this.parseExpression() : null;
+
+    const groupBy: SQLExpression[] = [];
+    if (this.acceptKeyword("GROUP")) {
+      this.expectKeyword("BY");
+      do groupBy.push(this.parseExpression()); while (this.acceptSymbol(","));
+    }
+    const having = this.acceptKeyword("HAVING") ? this.parseExpression() : null;
+
+    const orderBy: SelectStatement["orderBy"] = [];
+    if (this.acceptKeyword("ORDER")) {
+      this.expectKeyword("BY");
+      do {
+        const expr = this.parseExpression();
+        const descending = this.acceptKeyword("DESC");
+        if (!descending) this.acceptKeyword("ASC");
+        orderBy.push({ expr, descending });
+      } while (this.acceptSymbol(","));
+    }
+
+    let limit: number | null = null;
+    let offset = 0;
+    if (this.acceptKeyword("LIMIT")) {
+      limit = this.parseCount("LIMIT");
+      if (this.acceptSymbol(",")) {
+        // LIMIT offset, count
+        offset = limit;
+        limit = this.parseCount("LIMIT");
+      }
+    }
+    if (this.acceptKeyword("OFFSET")) offset = this.parseCount("OFFSET");
+
+    return { distinct, columns, from, joins, where, groupBy, having, orderBy, limit, offset };
+  }
+
+  private parseTableRef(): SQLTableRef {
+    if (this.peek().value === "(") this.fail("Subqueries are not supported");
+    const name = this.parseName("table");
+    let alias = name;
+    if (this.acceptKeyword("AS")) alias = this.parseName("table alias");
+    else if (this.peek().kind === "identifier" || this.peek().kind === "quoted") alias = this.next().value;
+    return { name, alias };
+  }
+
+  private parseCount(clause: string): number {
+    const token = this.next();
+    if (token.kind !== "number" || !/^\d+$/.test(token.value)) this.fail(`${clause} needs a whole number`, token);
+    return Number(token.value);
+  }
+
+  private parseName(what: string): string {
+    const token = this.next();
+    if (token.kind !== "identifier" && token.kind !== "quoted") this.fail(`Expected a ${what} name`, token);
+    return token.value;
+  }
+
+  // Precedence, loosest first: OR, AND, NOT, comparisons, + - ||, * / %, unary minus
+  parseExpression(): SQLExpression {
+    let left = this.parseAnd();
+    while (this.acceptKeyword("OR")) left = { type: "binary", op: "OR", left, right: this.parseAnd() };
+    return left;
+  }
+
+  private parseAnd(): SQLExpression {
+    let left = this.parseNot();
+    while (this.acceptKeyword("AND")) left = { type: "binary", op: "AND", left, right: this.parseNot() };
+    return left;
+  }
+
+  private parseNot(): SQLExpression {
+    if (this.acceptKeyword("NOT")) return { type: "unary", op: "NOT", operand: this.parseNot() };
+    return this.parseComparison();
+  }
+
+  private parseComparison(): SQLExpression {
+    const left = this.parseAdditive();
+    const token = this.peek();
+    if (token.kind === "symbol" && ["=", "<>", "!=", "<", "<=", ">", ">="].includes(token.value)) {
+      this.next();
+      return { type: "binary", op: token.value === "<>" ? "!=" : token.value, left, right: this.parseAdditive() };
+    }
+    if (this.acceptKeyword("IS")) {
+      const negated = this.acceptKeyword("NOT");
+      this.expectKeyword("NULL");
+      return { type: "isNull", operand: left, negated };
+    }
+
+    const negated = this.isKeyword("NOT") && ["IN", "BETWEEN", "LIKE"].includes(this.peekAt(1).value) && this.acceptKeyword("NOT");
+    if (this.acceptKeyword("IN")) {
+      this.expectSymbol("(");
+      if (this.isKeyword("SELECT")) this.fail("Subqueries are not supported");
+      const values: SQLExpression[] = [];
+      do values.push(this.parseExpression()); while (this.acceptSymbol(","));
+      this.expectSymbol(")");
+      return { type: "in", operand: left, values, negated };
+    }
+    if (this.acceptKeyword("BETWEEN")) {
+      const low = this.parseAdditive();
+      this.expectKeyword("AND");
+      return { type: "between", operand: left, low, high: this.parseAdditive(), negated };
+    }
+    if (this.acceptKeyword("LIKE")) return { type: "like", operand: left, pattern: this.parseAdditive(), negated };
+    return left;
+  }
+
+  private parseAdditive(): SQLExpression {
+    let left = this.parseMultiplicative();
+    for (;;) {
+      const op = this.peek().value;
+      if (this.peek().kind !== "symbol" || !["+", "-", "||"].includes(op)) return left;
+      this.next();
+      left = { type: "binary", op, left, right: this.parseMultiplicative() };
+    }
+  }
+
+  private parseMultiplicative(): SQLExpression {
+    let left = this.parseUnary();
+    for (;;) {
+      const op = this.peek().value;
+      if (this.peek().kind !== "symbol" || !["*", "/", "%"].includes(op)) return left;
+      this.next();
+      left = { type: "binary", op, left, right: this.parseUnary() };
+    }
+  }
+
+  private parseUnary(): SQLExpression {
+    if (this.acceptSymbol("-")) return { type: "unary", op: "-", operand: this.parseUnary() };
+    if (this.acceptSymbol("+")) return this.parseUnary();
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): SQLExpression {
+    const token = this.next();
+    switch (token.kind) {
+      case "number":
+        return { type: "literal", value: Number(token.value) };
+      case "string":
+        return { type: "literal", value: token.value };
+      case "symbol":
+        if (token.value === "(") {
+          if (this.isKeyword("SELECT")) this.fail("Subqueries are not supported");
+          const expr = this.parseExpression();
+          this.expectSymbol(")");
+          return expr;
+        }
+        break;
+      case "keyword":
+        if (token.value === "NULL") return { type: "literal", value: null };
+        if (token.value === "TRUE" || token.value === "FALSE") return { type: "literal", value: token.value === "TRUE" };
+        if (token.value === "CASE") return this.parseCase();
+        if (token.value === "CAST") {
+          this.expectSymbol("(");
+          const operand = this.parseExpression();
+          this.expectKeyword("AS");
+          const to = this.parseName("type").toUpperCase();
+          this.expectSymbol(")");
+          return { type: "cast", operand, to };
+        }
+        // Some keywords double as function names, e.g. LEFT(text, n)
+        if (token.value === "LEFT" || token.value === "RIGHT") {
+          if (this.peek().value === "(") return this.parseCall(token.value);
+        }
+        break;
+      case "identifier":
+      case "quoted":
+        if (token.kind === "identifier" && this.peek().value === "(") return this.parseCall(token.value.toUpperCase());
+        if (this.acceptSymbol(".")) return { type: "column", table: token.value, name: this.parseName("column") };
+        return { type: "column", name: token.value };
+    }
+    return this.fail(token.kind === "end" ? "Unexpected end of query" : `Unexpected "${token.value}"`, token);
+  }
+
+  private parseCall(name: string): SQLExpression {
+    this.expectSymbol("(");
+    if (this.acceptSymbol("*")) {
+      this.expectSymbol(")");
+      if (name !== "COUNT") this.fail(`${name}(*) is not valid; only COUNT(*) is`);
+      return { type: "call", name, args: [], distinct: false, star: true };
+    }
+    const distinct = this.acceptKeyword("DISTINCT");
+    const args: SQLExpression[] = [];
+    if (!this.acceptSymbol(")")) {
+      do args.push(this.parseExpression()); while (this.acceptSymbol(","));
+      this.expectSymbol(")");
+    }
+    return { type: "call", name, args, distinct, star: false };
+  }
+
+  private parseCase(): SQLExpression {
+    const operand = this.isKeyword("WHEN") ? undefined : this.parseExpression();
+    const branches: Array<{ when: SQLExpression; then: SQLExpression }> = [];
+    while (this.acceptKeyword("WHEN")) {
+      const when = this.parseExpression();
+      this.expectKeyword("THEN");
+      branches.push({ when, then: this.parseExpression() });
+    }
+    if (branches.length === 0) this.fail("CASE needs at least one WHEN");
+    const otherwise = this.acceptKeyword("ELSE") ? this.parseExpression() : undefined;
+    this.expectKeyword("END");
+    return { type: "case", operand, branches, otherwise };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private peekAt(offset: number): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos];
+    if (token.kind !== "end") this.pos++;
+    return token;
+  }
+
+  private isKeyword(value: string): boolean {
+    return this.peek().kind === "keyword" && this.peek().value === value;
+  }
+
+  private acceptKeyword(value: string): boolean {
+    if (!this.isKeyword(value)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expectKeyword(value: string): void {
+    if (!this.acceptKeyword(value)) this.fail(`Expected ${value}`);
+  }
+
+  private acceptSymbol(value: string): boolean {
+    if (this.peek().kind !== "symbol" || this.peek().value !== value) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expectSymbol(value: string): void {
+    if (!this.acceptSymbol(value)) this.fail(`Expected "${value}"`);
+  }
+
+  private fail(message: string, token: Token = this.peek()): never {
+    throw new Error(`${message} at position ${token.position + 1}`);
+  }
+}
+
+export function parseSQL(sql: string): SelectStatement {
+  return new Parser(sql).parse();
+}
+
+// Dataset IDs a query reads, so callers can check access before running it
+export function sqlTables(sql: string): string[] {
+  const statement = parseSQL(sql);
+  return [...new Set([statement.from.name, ...statement.joins.map(join => join.table.name)])];
+}
+
+export interface SQLTable {
+  ref: SQLTableRef;
+  headers: string[];
+  schema: TableSchema;
+}
+
+type Evaluate = (row: SQLValue[], aggregates: SQLValue[]) => SQLValue;
+
+interface AggregateSpec {
+  name: string;
+  argument: Evaluate | null; // Null for COUNT(*)
+  distinct: boolean;
+}
+
+interface AggregateState {
+  count: number;
+  sum: number;
+  best: SQLValue; // MIN or MAX so far
+  seen: Set<string> | null; // DISTINCT values
+}
+
+interface OutputRecord {
+  values: SQLValue[];
+  keys: SQLValue[];
+}
+
+// A parsed query bound to its tables. Add the rows of every joined table with addJoinRow, then run execute over
+// the rows of the first table.
+export class SQLQuery {
+  readonly headers: string[];
+  private inferrer = new SchemaInferrer();
+  private offsets: number[]; // Position of each table's first column in a combined row
+  private converters: Array<Array<(value: string) => SQLValue>>;
+  private joinRows: SQLValue[][][];
+  private joinPlans: Array<{ leftKeys: Evaluate[]; rightKeys: Evaluate[]; residual: Evaluate | null; index: Map<string, number[]> | null }>;
+  private where: Evaluate | null;
+  private aggregated: boolean;
+  private aggregates: AggregateSpec[] = [];
+  private groupBy: Evaluate[];
+  private having: Evaluate | null;
+  private outputs: Evaluate[];
+  private orderKeys: Array<{ outputIdx: number | null; evaluate: Evaluate | null; descending: boolean }>;
+
+  constructor(private statement: SelectStatement, private tables: SQLTable[]) {
+    const aliases = new Set<string>();
+    for (const table of tables) {
+      const alias = table.ref.alias.toLowerCase();
+      if (aliases.has(alias)) throw new Error(`Table name "${table.ref.alias}" is used twice; give each table its own alias`);
+      aliases.add(alias);
+    }
+
+    this.offsets = [];
+    let width = 0;
+    for (const table of tables) {
+      this.offsets.push(width);
+      width += table.headers.length;
+    }
+    this.converters = tables.map(table => table.schema.columns.map(column => this.converter(column)));
+    this.joinRows = tables.map(() => []);
+
+    // Each join's ON clause sees the tables up to and including the joined one
+    this.joinPlans = statement.joins.map((join, joinIdx) => this.planJoin(join.on, joinIdx + 1));
+
+    const scope = tables.length;
+    this.where = statement.where ? this.compile(statement.where, scope, false) : null;
+    this.aggregated = statement.groupBy.length > 0 || statement.having !== null ||
+      statement.columns.some(column => !column.star && containsAggregate(column.expr));
+    this.groupBy = statement.groupBy.map(expr => this.compile(expr, scope, false));
+    this.having = statement.having ? this.compile(statement.having, scope, true) : null;
+
+    const headers: string[] = [];
+    this.outputs = [];
+    for (const column of statement.columns) {
+      if (column.star) {
+        const selected = column.table ? [this.findTable(column.table)] : tables.map((_, idx) => idx);
+        for (const tableIdx of selected) {
+          tables[tableIdx].headers.forEach((name, colIdx) => {
+            const position = this.offsets[tableIdx] + colIdx;
+            headers.push(uniqueName(headers, name, tables[tableIdx].ref.alias));
+            this.outputs.push(row => row[position]);
+          });
+        }
+        continue;
+      }
+      const name = column.alias ?? (column.expr.type === "column" ? this.resolveColumn(column.expr).name : column.text);
+      headers.push(uniqueName(headers, name, column.expr.type === "column" ? column.expr.table ?? "" : ""));
+      this.outputs.push(this.compile(column.expr, scope, this.aggregated));
+    }
+    this.headers = headers;
+
+    // ORDER BY takes output positions (ORDER BY 2), output names and aliases, or any expression over the tables
+    this.orderKeys = statement.orderBy.map(({ expr, descending }) => {
+      if (expr.type === "literal" && typeof expr.value === "number") {
+        if (!Number.isInteger(expr.value) || expr.value < 1 || expr.value > headers.length) {
+          throw new Error(`ORDER BY ${expr.value} is out of range; the query has ${headers.length} output columns`);
+        }
+        return { outputIdx: expr.value - 1, evaluate: null, descending };
+      }
+      if (expr.type === "column" && !expr.table) {
+        const named = statement.columns.findIndex(column => !column.star && column.alias?.toLowerCase() === expr.name.toLowerCase());
+        if (named !== -1) return { outputIdx: this.outputIndexOf(named), evaluate: null, descending };
+      }
+      return { outputIdx: null, evaluate: this.compile(expr, scope, this.aggregated), descending };
+    });
+  }
+
+  addJoinRow(tableIdx: number, row: string[]): void {
+    const rows = this.joinRows[tableIdx];
+    if (rows.length >= MAX_SQL_MEMORY_ROWS) {
+      throw new Error(`Joined table "${this.tables[tableIdx].ref.alias}" has more than ${MAX_SQL_MEMORY_ROWS.toLocaleString()} rows. Put the largest table first, in FROM; it is the only one that is streamed.`);
+    }
+    const values = this.convertRow(tableIdx, row);
+    rows.push(values);
+
+    const plan = this.joinPlans[tableIdx - 1];
+    if (plan.index) {
+      // Right key expressions only read the joined table, so a row padded to its offset evaluates them
+      const padded = new Array<SQLValue>(this.offsets[tableIdx]).fill(null).concat(values);
+      const key = joinKey(plan.rightKeys.map(evaluate => evaluate(padded, [])));
+      if (key === null) return;
+      const matches = plan.index.get(key);
+      if (matches) matches.push(rows.length - 1);
+      else plan.index.set(key, [rows.length - 1]);
+    }
+  }
+
+  async *execute(source: AsyncIterable<string[]>): AsyncGenerator<string[]> {
+    const { statement } = this;
+    const records = this.records(source);
+    const distinct = statement.distinct ? new Set<string>() : null;
+    const unique = async function* (input: AsyncGenerator<OutputRecord>) {
+      for await (const record of input) {
+        if (distinct) {
+          const key = JSON.stringify(record.values);
+          if (distinct.has(key)) continue;
+          distinct.add(key);
+        }
+        yield record;
+      }
+    };
+
+    const end = statement.limit === null ? Infinity : statement.offset + statement.limit;
+    if (this.orderKeys.length === 0) {
+      let position = 0;
+      for await (const record of unique(records)) {
+        if (position >= end) return;
+        if (position++ >= statement.offset) yield record.values.map(formatValue);
+      }
+      return;
+    }
+
+    const sorted: OutputRecord[] = [];
+    for await (const record of unique(records)) {
+      sorted.push(record);
+      if (sorted.length > MAX_SQL_MEMORY_ROWS) {
+        throw new Error(`ORDER BY sorts in memory and the result has more than ${MAX_SQL_MEMORY_ROWS.toLocaleString()} rows. Filter or aggregate the rows first.`);
+      }
+    }
+    sorted.sort((a, b) => {
+      for (let k = 0; k < this.orderKeys.length; k++) {
+        const order = compareForSort(a.keys[k], b.keys[k]);
+        if (order !== 0) return this.orderKeys[k].descending ? -order : order;
+      }
+      return 0;
+    });
+    for (let idx = statement.offset; idx < Math.min(end, sorted.length); idx++) yield sorted[idx].values.map(formatValue);
+  }
+
+  // Output values with their sort keys, per row or per group
+  private async *records(source: AsyncIterable<string[]>): AsyncGenerator<OutputRecord> {
+    const record = (row: SQLValue[], aggregates: SQLValue[]): OutputRecord => {
+      const values = this.outputs.map(evaluate => evaluate(row, aggregates));
+      return {
+        values,
+        keys: this.orderKeys.map(key => (key.outputIdx !== null ? values[key.outputIdx] : key.evaluate!(row, aggregates))),
+      };
+    };
+
+    if (!this.aggregated) {
+      for await (const row of this.filteredRows(source)) yield record(row, []);
+      return;
+    }
+
+    const groups = new Map<string, { first: SQLValue[]; states: AggregateState[] }>();
+    for await (const row of this.filteredRows(source)) {
+      const key = JSON.stringify(this.groupBy.map(evaluate => evaluate(row, [])));
+      let group = groups.get(key);
+      if (!group) {
+        if (groups.size >= MAX_SQL_MEMORY_ROWS) {
+          throw new Error(`GROUP BY produces more than ${MAX_SQL_MEMORY_ROWS.toLocaleString()} groups. Group on fewer or coarser columns.`);
+        }
+        group = { first: row, states: this.aggregates.map(spec => ({ count: 0, sum: 0, best: null, seen: spec.distinct ? new Set() : null })) };
+        groups.set(key, group);
+      }
+      this.aggregates.forEach((spec, idx) => accumulate(spec, group!.states[idx], row));
+    }
+
+    // Aggregates without GROUP BY describe the whole table, even an empty one
+    if (groups.size === 0 && this.groupBy.length === 0) {
+      const width = this.offsets[this.offsets.length - 1] + this.tables[this.tables.length - 1].headers.length;
+      groups.set("", { first: new Array(width).fill(null), states: this.aggregates.map(spec => ({ count: 0, sum: 0, best: null, seen: spec.distinct ? new Set() : null })) });
+    }
+
+    for (const group of groups.values()) {
+      const values = this.aggregates.map((spec, idx) => finishAggregate(spec, group.states[idx]));
+      if (this.having && !isTrue(this.having(group.first, values))) continue;
+      yield record(group.first, values);
+    }
+  }
+
+  // Rows of the first table joined with the others, then filtered by WHERE
+  private async *filteredRows(source: AsyncIterable<string[]>): AsyncGenerator<SQLValue[]> {
+    const matched = this.statement.joins.map((join, joinIdx) => (join.how === "full" ? new Uint8Array(this.joinRows[joinIdx + 1].length) : null));
+    const widths = this.tables.map(table => table.headers.length);
+
+    const joinFrom = function* (this: SQLQuery, row: SQLValue[], joinIdx: number): Generator<SQLValue[]> {
+      if (joinIdx === this.statement.joins.length) {
+        yield row;
+        return;
+      }
+      const tableIdx = joinIdx + 1;
+      const join = this.statement.joins[joinIdx];
+      const plan = this.joinPlans[joinIdx];
+      const rightRows = this.joinRows[tableIdx];
+
+      let candidates: Iterable<number>;
+      if (plan.index) {
+        const key = joinKey(plan.leftKeys.map(evaluate => evaluate(row, [])));
+        candidates = key === null ? [] : plan.index.get(key) ?? [];
+      } else {
+        candidates = rightRows.keys();
+      }
+
+      let found = false;
+      for (const rightIdx of candidates) {
+        const combined = row.concat(rightRows[rightIdx]);
+        if (plan.residual && !isTrue(plan.residual(combined, []))) continue;
+        found = true;
+        if (matched[joinIdx]) matched[joinIdx]![rightIdx] = 1;
+        yield* joinFrom.call(this, combined, joinIdx + 1);
+      }
+      if (!found && (join.how === "left" || join.how === "full")) {
+        yield* joinFrom.call(this, row.concat(new Array(widths[tableIdx]).fill(null)), joinIdx + 1);
+      }
+    };
+
+    const filter = (row: SQLValue[]) => !this.where || isTrue(this.where(row, []));
+
+    for await (const raw of source) {
+      for (const row of joinFrom.call(this, this.convertRow(0, raw), 0)) {
+        if (filter(row)) yield row;
+      }
+    }
+
+    // Full joins end with the joined rows nothing matched, the columns before them empty
+    for (let joinIdx = 0; joinIdx < matched.length; joinIdx++) {
+      const flags = matched[joinIdx];
+      if (!flags) continue;
+      const tableIdx = joinIdx + 1;
+      for (let rightIdx = 0; rightIdx < flags.length; rightIdx++) {
+        if (flags[rightIdx]) continue;
+        const row = new Array<SQLValue>(this.offsets[tableIdx]).fill(null).concat(this.joinRows[tableIdx][rightIdx]);
+        for (const joined of joinFrom.call(this, row, joinIdx + 1)) {
+          if (filter(joined)) yield joined;
+        }
+      }
+    }
+  }
+
+  // Equality conditions between the joined table and the tables before it become hash keys; the rest is checked per pair
+  private planJoin(on: SQLExpression | null, tableIdx: number): SQLQuery["joinPlans"][number] {
+    if (!on) return { leftKeys: [], rightKeys: [], residual: null, index: null };
+
+    const conditions: SQLExpression[] = [];
+    const split = (expr: SQLExpression) => {
+      if (expr.type === "binary" && expr.op === "AND") {
+        split(expr.left);
+        split(expr.right);
+      } else {
+        conditions.push(expr);
+      }
+    };
+    split(on);
+
+    const leftKeys: Evaluate[] = [];
+    const rightKeys: Evaluate[] = [];
+    const residual: SQLExpression[] = [];
+    for (const condition of conditions) {
+      if (condition.type === "binary" && condition.op === "=") {
+        const leftSide = this.tablesOf(condition.left, tableIdx + 1);
+        const rightSide = this.tablesOf(condition.right, tableIdx + 1);
+        const before = (tablesUsed: Set<number>) => tablesUsed.size > 0 && [...tablesUsed].every(idx => idx < tableIdx);
+        const joined = (tablesUsed: Set<number>) => tablesUsed.size === 1 && tablesUsed.has(tableIdx);
+        if (before(leftSide) && joined(rightSide)) {
+          leftKeys.push(this.compile(condition.left, tableIdx + 1, false));
+          rightKeys.push(this.compile(condition.right, tableIdx + 1, false));
+          continue;
+        }
+        if (joined(leftSide) && before(rightSide)) {
+          leftKeys.push(this.compile(condition.right, tableIdx + 1, false));
+          rightKeys.push(this.compile(condition.left, tableIdx + 1, false));
+          continue;
+        }
+      }
+      residual.push(condition);
+    }
+
+    const combined = residual.reduce<SQLExpression | null>((all, condition) => (all ? { type: "binary", op: "AND", left: all, right: condition } : condition), null);
+    return {
+      leftKeys,
+      rightKeys,
+      residual: combined ? this.compile(combined, tableIdx + 1, false) : null,
+      index: leftKeys.length > 0 ? new Map() : null,
+    };
+  }
+
+  // Tables an expression reads
+  private tablesOf(expr: SQLExpression, scope: number): Set<number> {
+    const used = new Set<number>();
+    walk(expr, node => {
+      if (node.type === "column") used.add(this.resolveColumn(node, scope).tableIdx);
+    });
+    return used;
+  }
+
+  private compile(expr: SQLExpression, scope: number, aggregated: boolean): Evaluate {
+    const compile = (node: SQLExpression) => this.compile(node, scope, aggregated);
+
+    switch (expr.type) {
+      case "literal": {
+        const value = expr.value;
+        return () => value;
+      }
+      case "column": {
+        const { position } = this.resolveColumn(expr, scope);
+        return row => row[position];
+      }
+      case "unary": {
+        const operand = compile(expr.operand);
+        if (expr.op === "NOT") {
+          return (row, aggregates) => {
+            const value = truth(operand(row, aggregates));
+            return value === null ? null : !value;
+          };
+        }
+        return (row, aggregates) => {
+          const value = this.toNumber(operand(row, aggregates));
+          return value === null ? null : -value;
+        };
+      }
+      case "binary":
+        return this.compileBinary(expr.op, compile(expr.left), compile(expr.right));
+      case "isNull": {
+        const operand = compile(expr.operand);
+        return (row, aggregates) => (operand(row, aggregates) === null) !== expr.negated;
+      }
+      case "in": {
+        const operand = compile(expr.operand);
+        const values = expr.values.map(compile);
+        return (row, aggregates) => {
+          const value = operand(row, aggregates);
+          if (value === null) return null;
+          let sawNull = false;
+          for (const candidate of values) {
+            const other = candidate(row, aggregates);
+            if (other === null) sawNull = true;
+            else if (this.compareValues(value, other) === 0) return !expr.negated;
+          }
+          return sawNull ? null : expr.negated;
+        };
+      }
+      case "between": {
+        const operand = compile(expr.operand);
+        const low = compile(expr.low);
+        const high = compile(expr.high);
+        return (row, aggregates) => {
+          const value = operand(row, aggregates);
+          const lowValue = low(row, aggregates);
+          const highValue = high(row, aggregates);
+          if (value === null || lowValue === null || highValue === null) return null;
+          const inside = this.compareValues(value, lowValue) >= 0 && this.compareValues(value, highValue) <= 0;
+          return inside !== expr.negated;
+        };
+      }
+      case "like": {
+        const operand = compile(expr.operand);
+        const pattern = compile(expr.pattern);
+        const cache = new Map<string, RegExp>();
+        return (row, aggregates) => {
+          const value = operand(row, aggregates);
+          const patternValue = pattern(row, aggregates);
+          if (value === null || patternValue === null) return null;
+          const text = String(patternValue);
+          let regex = cache.get(text);
+          if (!regex) {
+            regex = likePattern(text);
+            cache.set(text, regex);
+          }
+          return regex.test(formatValue(value)) !== expr.negated;
+        };
+      }
+      case "case": {
+        const operand = expr.operand ? compile(expr.operand) : null;
+        const branches = expr.branches.map(branch => ({ when: compile(branch.when), then: compile(branch.then) }));
+        const otherwise = expr.otherwise ? compile(expr.otherwise) : null;
+        return (row, aggregates) => {
+          const subject = operand ? operand(row, aggregates) : null;
+          for (const branch of branches) {
+            const condition = branch.when(row, aggregates);
+            const hit = operand ? subject !== null && condition !== null && this.compareValues(subject, condition) === 0 : isTrue(condition);
+            if (hit) return branch.then(row, aggregates);
+          }
+          return otherwise ? otherwise(row, aggregates) : null;
+        };
+      }
+      case "cast": {
+        const operand = compile(expr.operand);
+        if (["INTEGER", "INT", "BIGINT"].includes(expr.to)) {
+          return (row, aggregates) => {
+            const value = this.toNumber(operand(row, aggregates));
+            return value === null ? null : Math.trunc(value);
+          };
+        }
+        if (["REAL", "FLOAT", "DOUBLE", "NUMERIC", "DECIMAL", "NUMBER"].includes(expr.to)) {
+          return (row, aggregates) => this.toNumber(operand(row, aggregates));
+        }
+        if (["TEXT", "VARCHAR", "CHAR", "STRING"].includes(expr.to)) {
+          return (row, aggregates) => {
+            const value = operand(row, aggregates);
+            return value === null ? null : formatValue(value);
+          };
+        }
+        if (expr.to === "DATE") {
+          return (row, aggregates) => this.toDate(operand(row, aggregates), false);
+        }
+        throw new Error(`Unknown type in CAST: ${expr.to}`);
+      }
+      case "call":
+        if (AGGREGATES.has(expr.name)) {
+          if (!aggregated) throw new Error(`${expr.name}() is not allowed in WHERE, JOIN ... ON or GROUP BY`);
+          if (!expr.star && expr.args.length !== 1) throw new Error(`${expr.name}() takes one argument`);
+          const idx = this.aggregates.length;
+          this.aggregates.push({
+            name: expr.name,
+            argument: expr.star ? null : this.compile(expr.args[0], scope, false),
+            distinct: expr.distinct,
+          });
+          return (_row, aggregates) => aggregates[idx];
+        }
+        return this.compileFunction(expr.name, expr.args.map(compile));
+    }
+  }
+
+  private compileBinary(op: string, left: Evaluate, right: Evaluate): Evaluate {
+    if (op === "AND" || op === "OR") {
+      return (row, aggregates) => {
+        const a = truth(left(row, aggregates));
+        if (op === "AND" && a === false) return false;
+        if (op === "OR" && a === true) return true;
+        const b = truth(right(row, aggregates));
+        if (op === "AND") return a === null || b === null ? (b === false ? false : null) : a && b;
+        return a === null || b === null ? (b === true ? true : null) : a || b;
+      };
+    }
+    if (op === "||") {
+      return (row, aggregates) => {
+        const a = left(row, aggregates);
+        const b = right(row, aggregates);
+        return a === null || b === null ? null : formatValue(a) + formatValue(b);
+      };
+    }
+    if (["+", "-", "*", "/", "%"].includes(op)) {
+      return (row, aggregates) => {
+        const a = this.toNumber(left(row, aggregates));
+        const b = this.toNumber(right(row, aggregates));
+        if (a === null || b === null) return null;
+        switch (op) {
+          case "+": return a + b;
+          case "-": return a - b;
+          case "*": return a * b;
+          case "/": return b === 0 ? null : a / b;
+          default: return b === 0 ? null : a % b;
+        }
+      };
+    }
+    return (row, aggregates) => {
+      const a = left(row, aggregates);
+      const b = right(row, aggregates);
+      if (a === null || b === null) return null;
+      const order = this.compareValues(a, b);
+      switch (op) {
+        case "=": return order === 0;
+        case "!=": return order !== 0;
+        case "<": return order < 0;
+        case "<=": return order <= 0;
+        case ">": return order > 0;
+        default: return order >= 0;
+      }
+    };
+  }
+
+  private compileFunction(name: string, args: Evaluate[]): Evaluate {
+    const arity = (min: number, max = min) => {
+      if (args.length < min || args.length > max) {
+        throw new Error(`${name}() takes ${min === max ? min : `${min} to ${max}`} argument${max === 1 ? "" : "s"}`);
+      }
+    };
+    const text = (fn: (value: string, row: SQLValue[], aggregates: SQLValue[]) => SQLValue): Evaluate => (row, aggregates) => {
+      const value = args[0](row, aggregates);
+      return value === null ? null : fn(formatValue(value), row, aggregates);
+    };
+    const datePart = (part: (date: Date) => number): Evaluate => (row, aggregates) => {
+      const iso = this.toDate(args[0](row, aggregates), true);
+      return iso === null ? null : part(new Date(`${iso.replace(" ", "T")}Z`));
+    };
+
+    switch (name) {
+      case "LOWER":
+        arity(1);
+        return text(value => value.toLowerCase());
+      case "UPPER":
+        arity(1);
+        return text(value => value.toUpperCase());
+      case "TRIM":
+        arity(1);
+        return text(value => value.trim());
+      case "LENGTH":
+        arity(1);
+        return text(value => value.length);
+      case "SUBSTR":
+      case "SUBSTRING":
+        arity(2, 3);
+        return text((value, row, aggregates) => {
+          const start = this.toNumber(args[1](row, aggregates));
+          const length = args[2] ? this.toNumber(args[2](row, aggregates)) : null;
+          if (start === null) return null;
+          // SQL positions start at 1
+          const from = Math.max(0, Math.trunc(start) - 1);
+          return length === null ? value.substring(from) : value.substring(from, from + Math.max(0, Math.trunc(length)));
+        });
+      case "LEFT":
+        arity(2);
+        return text((value, row, aggregates) => value.substring(0, Math.max(0, this.toNumber(args[1](row, aggregates)) ?? 0)));
+      case "RIGHT":
+        arity(2);
+        return text((value, row, aggregates) => {
+          const count = Math.max(0, this.toNumber(args[1](row, aggregates)) ?? 0);
+          return count === 0 ? "" : value.slice(-count);
+        });
+      case "REPLACE":
+        arity(3);
+        return text((value, row, aggregates) => {
+          const search = args[1](row, aggregates);
+          const replacement = args[2](row, aggregates);
+          if (search === null || replacement === null) return null;
+          return formatValue(search) === "" ? value : value.split(formatValue(search)).join(formatValue(replacement));
+        });
+      case "ABS":
+        arity(1);
+        return (row, aggregates) => {
+          const value = this.toNumber(args[0](row, aggregates));
+          return value === null ? null : Math.abs(value);
+        };
+      case "ROUND":
+        arity(1, 2);
+        return (row, aggregates) => {
+          const value = this.toNumber(args[0](row, aggregates));
+          const digits = args[1] ? this.toNumber(args[1](row, aggregates)) ?? 0 : 0;
+          if (value === null) return null;
+          const factor = 10 ** Math.trunc(digits);
+          return Math.round(value * factor) / factor;
+        };
+      case "COALESCE":
+      case "IFNULL":
+        if (args.length < 1) throw new Error(`${name}() needs at least one argument`);
+        return (row, aggregates) => {
+          for (const arg of args) {
+            const value = arg(row, aggregates);
+            if (value !== null) return value;
+          }
+          return null;
+        };
+      case "NULLIF":
+        arity(2);
+        return (row, aggregates) => {
+          const a = args[0](row, aggregates);
+          const b = args[1](row, aggregates);
+          return a !== null && b !== null && this.compareValues(a, b) === 0 ? null : a;
+        };
+      case "YEAR":
+        arity(1);
+        return datePart(date => date.getUTCFullYear());
+      case "MONTH":
+        arity(1);
+        return datePart(date => date.getUTCMonth() + 1);
+      case "DAY":
+        arity(1);
+        return datePart(date => date.getUTCDate());
+      case "DATE":
+        arity(1);
+        return (row, aggregates) => this.toDate(args[0](row, aggregates), false);
+      default:
+        throw new Error(`Unknown function ${name}(). Available: COUNT, SUM, AVG, MIN, MAX, LOWER, UPPER, TRIM, LENGTH, SUBSTR, LEFT, RIGHT, REPLACE, ABS, ROUND, COALESCE, NULLIF, YEAR, MONTH, DAY, DATE`);
+    }
+  }
+
+  private resolveColumn(expr: { table?: string; name: string }, scope = this.tables.length): { tableIdx: number; position: number; name: string } {
+    const wanted = expr.name.trim().toLowerCase();
+    const candidates = expr.table ? [this.findTable(expr.table)] : this.tables.map((_, idx) => idx);
+    const matches: Array<{ tableIdx: number; colIdx: number }> = [];
+    for (const tableIdx of candidates) {
+      if (tableIdx >= scope) {
+        if (expr.table) throw new Error(`Table "${expr.table}" is joined after this condition; an ON clause can only use tables joined before it`);
+        continue;
+      }
+      const colIdx = this.tables[tableIdx].headers.findIndex(header => header.trim().toLowerCase() === wanted);
+      if (colIdx !== -1) matches.push({ tableIdx, colIdx });
+    }
+
+    if (matches.length === 0) {
+      const available = candidates.filter(idx => idx < scope).flatMap(idx => this.tables[idx].headers.map(header => (this.tables.length > 1 ? `${this.tables[idx].ref.alias}."${header}"` : `"${header}"`)));
+      throw new Error(`Column "${expr.name}" not found. Available columns: ${available.join(", ")}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Column "${expr.name}" is in more than one table (${matches.map(match => this.tables[match.tableIdx].ref.alias).join(", ")}); prefix it with the table alias`);
+    }
+    const { tableIdx, colIdx } = matches[0];
+    return { tableIdx, position: this.offsets[tableIdx] + colIdx, name: this.tables[tableIdx].headers[colIdx] };
+  }
+
+  private findTable(name: string): number {
+    const idx = this.tables.findIndex(table => table.ref.alias.toLowerCase() === name.toLowerCase());
+    if (idx === -1) throw new Error(`Unknown table "${name}". Tables in this query: ${this.tables.map(table => table.ref.alias).join(", ")}`);
+    return idx;
+  }
+
+  private outputIndexOf(columnIdx: number): number {
+    // Star columns expand to several outputs, so count the outputs before this select item
+    let position = 0;
+    for (let idx = 0; idx < columnIdx; idx++) {
+      const column = this.statement.columns[idx];
+      if (!column.star) position++;
+      else position += column.table ? this.tables[this.findTable(column.table)].headers.length : this.tables.reduce((sum, table) => sum + table.headers.length, 0);
+    }
+    return position;
+  }
+
+  private converter({ type, dayFirst }: TableSchema["columns"][number]): (value: string) => SQLValue {
+    if (this.inferrer.isNumeric(type)) {
+      return value => {
+        const text = value.trim();
+        return text ? this.inferrer.parseNumber(text) ?? text : null;
+      };
+    }
+    if (this.inferrer.isTemporal(type)) {
+      const dateOnly = type === "date";
+      return value => {
+        const text = value.trim();
+        if (!text) return null;
+        const timestamp = this.inferrer.parseDate(text, dayFirst);
+        return timestamp === null ? text : isoDate(timestamp, dateOnly);
+      };
+    }
+    return value => {
+      const text = value.trim();
+      return text ? text : null;
+    };
+  }
+
+  private convertRow(tableIdx: number, row: string[]): SQLValue[] {
+    return this.converters[tableIdx].map((convert, idx) => convert(row[idx] ?? ""));
+  }
+
+  private toNumber(value: SQLValue): number | null {
+    if (value === null) return null;
+    if (typeof value === "number") return value;
+    if (typeof value === "boolean") return value ? 1 : 0;
+    return this.inferrer.parseNumber(value);
+  }
+
+  // ISO date text, or null when the value is not a date
+  private toDate(value: SQLValue, withTime: boolean): string | null {
+    if (value === null || typeof value !== "string") return null;
+    const timestamp = this.inferrer.parseDate(value);
+    return timestamp === null ? null : isoDate(timestamp, !withTime);
+  }
+
+  // Numbers compare numerically, also against text holding a number ("38" = 38); other values compare as text
+  private compareValues(a: SQLValue, b: SQLValue): number {
+    if (typeof a === "number" || typeof b === "number") {
+      const x = this.toNumber(a);
+      const y = this.toNumber(b);
+      if (x !== null && y !== null) return x - y;
+    }
+    const x = formatValue(a);
+    const y = formatValue(b);
+    return x < y ? -1 : x > y ? 1 : 0;
+  }
+}
+
+function containsAggregate(expr: SQLExpression): boolean {
+  let found = false;
+  walk(expr, node => {
+    if (node.type === "call" && AGGREGATES.has(node.name)) found = true;
+  });
+  return found;
+}
+
+function walk(expr: SQLExpression, visit: (node: SQLExpression) => void): void {
+  visit(expr);
+  switch (expr.type) {
+    case "unary":
+    case "isNull":
+    case "cast":
+      walk(expr.operand, visit);
+      break;
+    case "binary":
+      walk(expr.left, visit);
+      walk(expr.right, visit);
+      break;
+    case "in":
+      walk(expr.operand, visit);
+      expr.values.forEach(value => walk(value, visit));
+      break;
+    case "between":
+      walk(expr.operand, visit);
+      walk(expr.low, visit);
+      walk(expr.high, visit);
+      break;
+    case "like":
+      walk(expr.operand, visit);
+      walk(expr.pattern, visit);
+      break;
+    case "case":
+      if (expr.operand) walk(expr.operand, visit);
+      expr.branches.forEach(branch => {
+        walk(branch.when, visit);
+        walk(branch.then, visit);
+      });
+      if (expr.otherwise) walk(expr.otherwise, visit);
+      break;
+    case "call":
+      expr.args.forEach(arg => walk(arg, visit));
+      break;
+  }
+}
+
+function accumulate(spec: AggregateSpec, state: AggregateState, row: SQLValue[]): void {
+  if (!spec.argument) {
+    state.count++;
+    return;
+  }
+  const value = spec.argument(row, []);
+  if (value === null) return;
+  if (state.seen) {
+    const key = JSON.stringify(value);
+    if (state.seen.has(key)) return;
+    state.seen.add(key);
+  }
+  state.count++;
+  if (spec.name === "SUM" || spec.name === "AVG") {
+    state.sum += typeof value === "number" ? value : Number(value) || 0;
+  } else if (spec.name === "MIN" || spec.name === "MAX") {
+    if (state.best === null) {
+      state.best = value;
+    } else {
+      const order = compareForSort(value, state.best);
+      if (spec.name === "MIN" ? order < 0 : order > 0) state.best = value;
+    }
+  }
+}
+
+function finishAggregate(spec: AggregateSpec, state: AggregateState): SQLValue {
+  switch (spec.name) {
+    case "COUNT":
+      return state.count;
+    case "SUM":
+      return state.count > 0 ? state.sum : null;
+    case "AVG":
+      return state.count > 0 ? state.sum / state.count : null;
+    default:
+      return state.best;
+  }
+}
+
+// Rows the WHERE clause keeps: NULL conditions count as false
+function isTrue(value: SQLValue): boolean {
+  return truth(value) === true;
+}
+
+function truth(value: SQLValue): boolean | null {
+  if (value === null) return null;
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  return value.length > 0;
+}
+
+// NULLs sort first; numbers before text
+function compareForSort(a: SQLValue, b: SQLValue): number {
+  if (a === b) return 0;
+  if (a === null) return -1;
+  if (b === null) return 1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "number") return -1;
+  if (typeof b === "number") return 1;
+  const x = formatValue(a);
+  const y = formatValue(b);
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+// Join keys: numbers by value, text as is; null keys match nothing
+function joinKey(values: SQLValue[]): string | null {
+  if (values.some(value => value === null)) return null;
+  return JSON.stringify(values.map(value => (typeof value === "string" && /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(value.trim()) ? Number(value) : value)));
+}
+
+// LIKE is case-insensitive: % matches any run of characters, _ a single one
+function likePattern(pattern: string): RegExp {
+  let source = "";
+  for (const ch of pattern) {
+    if (ch === "%") source += "[\\s\\S]*";
+    else if (ch === "_") source += "[\\s\\S]";
+    else source += ch.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+function isoDate(timestamp: number, dateOnly: boolean): string {
+  const iso = new Date(timestamp).toISOString();
+  return dateOnly ? iso.substring(0, 10) : iso.substring(0, 19).replace("T", " ");
+}
+
+// Cells of the result table; floating-point noise is rounded away (0.1 + 0.2 shows as 0.3)
+function formatValue(value: SQLValue): string {
+  if (value === null) return "";
+  if (typeof value === "number") return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(12)));
+  if (typeof value === "boolean") return value ? "true" : "false";
+  return value;
+}
+
+function uniqueName(taken: string[], name: string, qualifier: string): string {
+  const lower = new Set(taken.map(existing => existing.toLowerCase()));
+  if (!lower.has(name.toLowerCase())) return name;
+  if (qualifier && !lower.has(`${name} (${qualifier})`.toLowerCase())) return `${name} (${qualifier})`;
+  let n = 2;
+  while (lower.has(`${name} (${n})`.toLowerCase())) n++;
+  return `${name} (${n})`;
+}
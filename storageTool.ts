@@ -1,3 +1,46 @@
+import { readLines } from "./streamTool.ts";
+
+// Appends table rows to an NDJSON file (one JSON array per line), buffering writes
+export class RowWriter {
+  private encoder = new TextEncoder();
+  private buffer: string[] = [];
+  private bufferedLength = 0;
+
+  constructor(private file: Deno.FsFile, readonly fileName: string) {}
+
+  async write(row: string[]): Promise<void> {
+    const line = JSON.stringify(row) + "\n";
+    this.buffer.push(line);
+    this.bufferedLength += line.length;
+    if (this.bufferedLength >= 1 << 20) await this.flush();
+  }
+
+  async flush(): Promise<void> {
+    if (this.buffer.length === 0) return;
+    const bytes = this.encoder.encode(this.buffer.join(""));
+    this.buffer = [];
+    this.bufferedLength = 0;
+
+    let written = 0;
+    while (written < bytes.length) {
+      written += await this.file.write(bytes.subarray(written));
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+    this.file.close();
+  }
+}
+
+// Prefixes of the saved dataset kinds; a dataset ID starts with its kind's prefix
+export type DatasetPrefix = "table_data" | "pdf_data" | "recipe";
+
+const DATASET_ID = /^(table_data|pdf_data|recipe)_[\w-]+$/;
+
+// Every processed file (and every table found in a PDF) is saved under its own ID, e.g.
+// "table_data_2024-05-01T10-20-30-000Z_1a2b3c4d". Callers keep the IDs they were given and pass them back
+// explicitly, so concurrent sessions never pick up each other's data.
 export class DataStorage {
   private storagePath = "./extracted_data";
 
@@ -9,13 +52,51 @@ export class DataStorage {
     }
   }
 
-  async saveExtractedData(fileName: string, data: any): Promise<string> {
+  // Saves a dataset and returns its ID; the random suffix keeps IDs unique when several files are saved at once
+  async saveDataset(prefix: DatasetPrefix, data: unknown): Promise<string> {
     await this.ensureStorageDir();
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const savePath = `${this.storagePath}/${fileName}_${timestamp}.json`;
-    
-    await Deno.writeTextFile(savePath, JSON.stringify(data, null, 2));
-    return savePath;
+    const id = `${prefix}_${timestamp}_${crypto.randomUUID().substring(0, 8)}`;
+
+    await Deno.writeTextFile(`${this.storagePath}/${id}.json`, JSON.stringify(data, null, 2));
+    return id;
+  }
+
+  // The saved dataset with this ID, or null when there is none. IDs come from clients, so anything that is not
+  // an ID (a path, another file) is treated as unknown. The ".json" file name listed by earlier versions is accepted too.
+  // The content is whatever was saved; callers check its shape (isTableData, isSavedPDF, parseRecipe) before use.
+  async loadDataset(id: string, prefix?: DatasetPrefix): Promise<unknown> {
+    const name = id.replace(/\.json$/, "");
+    if (!DATASET_ID.test(name) || (prefix && datasetPrefix(name) !== prefix)) return null;
+
+    try {
+      return await this.loadSavedData(`${name}.json`);
+    } catch {
+      return null;
+    }
+  }
+
+  // Opens a row store for a table; the file name goes into the table's metadata as `rowsFile`
+  async createRowWriter(fileName: string): Promise<RowWriter> {
+    await this.ensureStorageDir();
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const name = `${fileName}_${timestamp}_${crypto.randomUUID().substring(0, 8)}.ndjson`;
+    const file = await Deno.open(`${this.storagePath}/${name}`, { write: true, create: true, truncate: true });
+    return new RowWriter(file, name);
+  }
+
+  async *readRows(rowsFile: string): AsyncGenerator<string[]> {
+    for await (const line of readLines(`${this.storagePath}/${rowsFile}`)) {
+      if (line) yield JSON.parse(line);
+    }
+  }
+
+  async removeRows(rowsFile: string): Promise<void> {
+    try {
+      await Deno.remove(`${this.storagePath}/${rowsFile}`);
+    } catch {
+      // Already removed
+    }
   }
 
   async listSavedData(): Promise<string[]> {
@@ -41,13 +122,10 @@ export class DataStorage {
     return JSON.parse(content);
   }
 
-  async getLatestFile(prefix: string): Promise<any | null> {
+  // IDs of the saved datasets, most recent first
+  async listDatasets(prefix?: DatasetPrefix): Promise<string[]> {
     const files = await this.listSavedData();
-    const matchingFile = files.find(f => f.startsWith(prefix));
-    
-    if (!matchingFile) return null;
-    
-    return await this.loadSavedData(matchingFile);
+    return files.map(f => f.replace(/\.json$/, "")).filter(id => DATASET_ID.test(id) && (!prefix || datasetPrefix(id) === prefix));
   }
 
   async clearOldData(keepRecent: number = 5): Promise<void> {
@@ -57,6 +135,13 @@ export class DataStorage {
       const filesToDelete = files.slice(keepRecent);
       
       for (const file of filesToDelete) {
+        try {
+          const data = await this.loadSavedData(file);
+          if (data?.rowsFile) await this.removeRows(data.rowsFile);
+        } catch {
+          // Not a JSON object or unreadable; remove the file anyway
+        }
+
         try {
           await Deno.remove(`${this.storagePath}/${file}`);
         } catch {
@@ -65,4 +150,9 @@ export class DataStorage {
       }
     }
   }
-}
\ No newline at end of file
+}
+
+export function datasetPrefix(id: string): DatasetPrefix | null {
+  const match = id.match(DATASET_ID);
+  return match ? match[1] as DatasetPrefix : null;
+}
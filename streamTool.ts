@@ -0,0 +1,598 @@
+import { SchemaInferrer, type TableSchema, type TypeTally } from "./schemaTool.ts";
+
+export interface NumericProfile {
+  count: number;
+  sum: number;
+  mean: number;
+  variance: number; // Population variance
+  stdDev: number;
+  min: number;
+  max: number;
+  q1: number;
+  median: number;
+  q3: number;
+  quantilesApproximate: boolean; // Quantiles come from a uniform sample rather than every value
+  outliers: number; // Values outside 1.5 IQR of the quartiles
+  outliersApproximate: boolean;
+}
+
+export interface ColumnProfile {
+  name: string;
+  count: number; // Non-empty values
+  missing: number;
+  distinct: number;
+  distinctApproximate: boolean;
+  topValues: Array<{ value: string; count: number }>;
+  topValuesApproximate: boolean;
+  numeric: NumericProfile | null;
+  temporal: { count: number; min: number; max: number } | null; // Timestamps in milliseconds
+}
+
+export interface TableProfile {
+  rowCount: number;
+  columns: ColumnProfile[];
+  duplicateRows: number;
+  duplicateScanRows: number; // Rows checked for duplicates (all rows unless the table is very large)
+  profiledAt: string;
+}
+
+export interface CSVParseOptions {
+  delimiter?: string;
+  quoteChar?: string;
+}
+
+export interface CSVDialect {
+  encoding: string; // TextDecoder label: utf-8, utf-16le, utf-16be or windows-1252
+  bom: boolean;
+  delimiter: string;
+  quoteChar: string;
+  hasHeader: boolean;
+  skipRows: number; // Preamble records (titles, notes, blank lines) before the header or first data row
+}
+
+export type CSVDialectOverrides = Partial<CSVDialect>;
+
+const CHUNK_SIZE = 1 << 20;
+const SNIFF_SAMPLE_BYTES = 64 * 1024;
+const SNIFF_SAMPLE_RECORDS = 100;
+const DELIMITER_CANDIDATES = [",", ";", "\t", "|"];
+const DELIMITER_NAMES: Record<string, string> = { ",": "comma", ";": "semicolon", "\t": "tab", "|": "pipe", " ": "space" };
+const QUANTILE_SAMPLE_SIZE = 10_000;
+const EXACT_DISTINCT_LIMIT = 10_000;
+const DISTINCT_SKETCH_SIZE = 4096;
+const TOP_VALUES_CAPACITY = 1000;
+const TOP_VALUES_RETURNED = 20;
+const DUPLICATE_SCAN_LIMIT = 1_000_000;
+
+// Incremental RFC 4180 parser: text can be pushed in arbitrary chunks, complete records come back as they end
+export class CSVStreamParser {
+  private delimiter: string;
+  private quoteChar: string;
+  private field = "";
+  private record: string[] = [];
+  private inQuotes = false;
+  private quotePending = false; // Saw a quote inside a quoted field; the next character decides if it was escaped
+  private skipLineFeed = false;
+
+  constructor(options: CSVParseOptions = {}) {
+    this.delimiter = options.delimiter || ",";
+    this.quoteChar = options.quoteChar || "\"";
+  }
+
+  push(text: string): string[][] {
+    const records: string[][] = [];
+    let start = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === "\n") {
+          start = i + 1;
+          continue;
+        }
+      }
+
+      if (this.quotePending) {
+        this.quotePending = false;
+        if (char === this.quoteChar) {
+          this.field += char;
+          start = i + 1;
+          continue;
+        }
+        this.inQuotes = false;
+      }
+
+      if (this.inQuotes) {
+        if (char === this.quoteChar) {
+          this.field += text.substring(start, i);
+          this.quotePending = true;
+          start = i + 1;
+        }
+        continue;
+      }
+
+      if (char === this.quoteChar && this.field === "" && i === start) {
+        this.inQuotes = true;
+        start = i + 1;
+      } else if (char === this.delimiter) {
+        this.record.push(this.field + text.substring(start, i));
+        this.field = "";
+        start = i + 1;
+      } else if (char === "\n" || char === "\r") {
+        this.record.push(this.field + text.substring(start, i));
+        this.field = "";
+        records.push(this.record);
+        this.record = [];
+        this.skipLineFeed = char === "\r";
+        start = i + 1;
+      }
+    }
+
+    this.field += text.substring(start);
+    return records;
+  }
+
+  // Returns the last record when the input does not end with a line break
+  flush(): string[][] {
+    if (this.field === "" && this.record.length === 0) return [];
+    this.record.push(this.field);
+    const record = this.record;
+    this.field = "";
+    this.record = [];
+    this.inQuotes = false;
+    this.quotePending = false;
+    return [record];
+  }
+}
+
+export async function* readTextChunks(filePath: string, encoding: string = "utf-8"): AsyncGenerator<string> {
+  const file = await Deno.open(filePath, { read: true });
+  const reader = file.readable.pipeThrough(new TextDecoderStream(encoding)).getReader();
+  let pending = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending += value;
+      if (pending.length >= CHUNK_SIZE) {
+        yield pending;
+        pending = "";
+      }
+    }
+    if (pending) yield pending;
+  } finally {
+    reader.releaseLock();
+    try {
+      file.close();
+    } catch {
+      // Already closed by the finished stream
+    }
+  }
+}
+
+export async function* readCSVRecords(filePath: string, options: CSVParseOptions & { encoding?: string } = {}): AsyncGenerator<string[]> {
+  const parser = new CSVStreamParser(options);
+  for await (const chunk of readTextChunks(filePath, options.encoding)) {
+    yield* parser.push(chunk);
+  }
+  yield* parser.flush();
+}
+
+export async function* readLines(filePath: string): AsyncGenerator<string> {
+  let remainder = "";
+  for await (const chunk of readTextChunks(filePath)) {
+    const lines = (remainder + chunk).split("\n");
+    remainder = lines.pop() ?? "";
+    for (const line of lines) yield line;
+  }
+  if (remainder) yield remainder;
+}
+
+// Detects encoding, delimiter, quote character, preamble rows and header presence from the start of a file.
+// Any field given in `overrides` is used as-is and the remaining fields are detected around it.
+export async function sniffCSVDialect(filePath: string, overrides: CSVDialectOverrides = {}): Promise<CSVDialect> {
+  const { bytes, complete } = await readSample(filePath);
+  const detected = detectEncoding(bytes);
+  const encoding = overrides.encoding?.toLowerCase() || detected.encoding;
+  const bom = detected.bom;
+
+  let text = new TextDecoder(encoding).decode(bytes, { stream: !complete }); // Strips a matching BOM
+  if (!complete) {
+    // Drop the partial last line so the sample only holds whole records
+    const lastBreak = text.lastIndexOf("\n");
+    if (lastBreak > 0) text = text.substring(0, lastBreak + 1);
+  }
+
+  const delimiter = overrides.delimiter ? normalizeDelimiter(overrides.delimiter) : detectDelimiter(text, overrides.quoteChar || "\"");
+  const quoteChar = overrides.quoteChar || detectQuoteChar(text, delimiter);
+  const records = sampleRecords(text, delimiter, quoteChar);
+  const skipRows = overrides.skipRows ?? detectPreamble(records);
+  const hasHeader = overrides.hasHeader ?? detectHeader(records.slice(skipRows));
+
+  return { encoding, bom, delimiter, quoteChar, hasHeader, skipRows };
+}
+
+export function describeDialect(dialect: CSVDialect): string {
+  const delimiter = DELIMITER_NAMES[dialect.delimiter] || `"${dialect.delimiter}"`;
+  const parts = [
+    `${delimiter}-delimited`,
+    `${dialect.encoding}${dialect.bom ? " with BOM" : ""}`,
+    dialect.hasHeader ? "header row" : "no header row",
+  ];
+  if (dialect.quoteChar !== "\"") parts.push(`quote character ${dialect.quoteChar}`);
+  if (dialect.skipRows > 0) parts.push(`${dialect.skipRows} preamble row${dialect.skipRows > 1 ? "s" : ""} skipped`);
+  return parts.join(", ");
+}
+
+// Accepts the delimiter itself or a name such as "tab" or "semicolon"
+function normalizeDelimiter(delimiter: string): string {
+  const lower = delimiter.toLowerCase();
+  if (lower === "\\t" || lower === "tab") return "\t";
+  const named = Object.entries(DELIMITER_NAMES).find(([, name]) => name === lower);
+  return named ? named[0] : delimiter;
+}
+
+async function readSample(filePath: string): Promise<{ bytes: Uint8Array; complete: boolean }> {
+  const file = await Deno.open(filePath, { read: true });
+  try {
+    const buffer = new Uint8Array(SNIFF_SAMPLE_BYTES);
+    let length = 0;
+    while (length < buffer.length) {
+      const read = await file.read(buffer.subarray(length));
+      if (read === null) return { bytes: buffer.subarray(0, length), complete: true };
+      length += read;
+    }
+    return { bytes: buffer, complete: false };
+  } finally {
+    file.close();
+  }
+}
+
+function detectEncoding(bytes: Uint8Array): { encoding: string; bom: boolean } {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: "utf-8", bom: true };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: "utf-16le", bom: true };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: "utf-16be", bom: true };
+
+  // UTF-16 without a BOM: mostly-ASCII text has a zero byte in every other position
+  const pairs = Math.min(bytes.length >> 1, 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < pairs; i++) {
+    if (bytes[2 * i] === 0) evenZeros++;
+    if (bytes[2 * i + 1] === 0) oddZeros++;
+  }
+  if (pairs > 0 && oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return { encoding: "utf-16le", bom: false };
+  if (pairs > 0 && evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return { encoding: "utf-16be", bom: false };
+
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true });
+    return { encoding: "utf-8", bom: false };
+  } catch {
+    // Not valid UTF-8: single-byte exports from Excel on Windows are almost always Windows-1252
+    return { encoding: "windows-1252", bom: false };
+  }
+}
+
+function sampleRecords(text: string, delimiter: string, quoteChar: string): string[][] {
+  const parser = new CSVStreamParser({ delimiter, quoteChar });
+  return [...parser.push(text), ...parser.flush()].slice(0, SNIFF_SAMPLE_RECORDS);
+}
+
+function modeOf(values: number[]): { value: number; frequency: number } {
+  const counts = new Map<number, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  let best = { value: 0, frequency: 0 };
+  for (const [value, frequency] of counts) {
+    if (frequency > best.frequency || (frequency === best.frequency && value > best.value)) best = { value, frequency };
+  }
+  return best;
+}
+
+// The delimiter that splits the most records into the same number (greater than one) of fields
+function detectDelimiter(text: string, quoteChar: string): string {
+  let best = { delimiter: ",", score: 0 };
+
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const widths = sampleRecords(text, delimiter, quoteChar)
+      .filter(record => !(record.length === 1 && record[0].trim() === ""))
+      .map(record => record.length);
+    const mode = modeOf(widths);
+    const score = mode.value > 1 ? mode.frequency / widths.length : 0;
+    if (score > best.score) best = { delimiter, score };
+  }
+
+  return best.delimiter;
+}
+
+function detectQuoteChar(text: string, delimiter: string): string {
+  const escaped = delimiter.replace(/[|\\^$*+?.()[\]{}]/g, "\\$&");
+  const quotedWith = (quote: string) =>
+    (text.match(new RegExp(`(^|${escaped}|\\n)${quote}[^${quote}\\n]*${quote}(?=${escaped}|\\r?\\n|$)`, "g")) || []).length;
+  return quotedWith("'") > quotedWith("\"") ? "'" : "\"";
+}
+
+// Title lines, notes and blank lines above the table have a different width than the table itself
+function detectPreamble(records: string[][]): number {
+  const width = modeOf(records.map(record => record.length)).value;
+  const first = records.findIndex(record => record.length === width && record.some(cell => cell.trim() !== ""));
+  return first === -1 ? 0 : first;
+}
+
+// Votes per column, in the spirit of Python's csv.Sniffer: a first-row cell that does not look like
+// the values below it (text above numbers or dates, or a different length in fixed-length columns) suggests a header
+function detectHeader(records: string[][]): boolean {
+  const [first, ...rest] = records;
+  if (!first || rest.length === 0) return true;
+
+  const inferrer = new SchemaInferrer();
+  const typeOf = (value: string) =>
+    inferrer.parseNumber(value) !== null ? "number" : inferrer.parseDate(value) !== null ? "date" : "text";
+  let votes = 0;
+
+  first.forEach((cell, colIndex) => {
+    const values = rest.map(record => (record[colIndex] ?? "").trim()).filter(v => v !== "");
+    if (values.length === 0) return;
+
+    const types = new Set(values.map(typeOf));
+    const headerCell = cell.trim();
+    if (types.size === 1) {
+      const [type] = types;
+      if (type !== "text") {
+        votes += typeOf(headerCell) === type ? -1 : 1;
+        return;
+      }
+      const lengths = new Set(values.map(v => v.length));
+      if (lengths.size === 1) {
+        votes += headerCell.length === values[0].length ? -1 : 1;
+        return;
+      }
+    }
+    // Mixed or free-form columns: a header usually does not repeat one of the column's values
+    if (headerCell && values.includes(headerCell)) votes--;
+  });
+
+  return votes >= 0;
+}
+
+// 53-bit string hash (cyrb53), used for distinct-count sketches and duplicate detection
+export function hashString(text: string, seed = 0): number {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+// Counts distinct values exactly up to a limit, then estimates them from the k smallest hashes (KMV sketch)
+class DistinctCounter {
+  private exact: Set<string> | null = new Set();
+  private smallest: number[] = [];
+  private members = new Set<number>();
+  private largest = -1;
+
+  add(value: string): void {
+    if (this.exact) {
+      this.exact.add(value);
+      if (this.exact.size > EXACT_DISTINCT_LIMIT) this.exact = null;
+    }
+
+    const hash = hashString(value) / 2 ** 53;
+    if (this.members.has(hash)) return;
+    if (this.smallest.length < DISTINCT_SKETCH_SIZE) {
+      this.smallest.push(hash);
+      this.members.add(hash);
+      this.largest = Math.max(this.largest, hash);
+    } else if (hash < this.largest) {
+      const index = this.smallest.indexOf(this.largest);
+      this.members.delete(this.largest);
+      this.smallest[index] = hash;
+      this.members.add(hash);
+      this.largest = this.smallest.reduce((a, b) => Math.max(a, b), -1);
+    }
+  }
+
+  get approximate(): boolean {
+    return this.exact === null;
+  }
+
+  estimate(): number {
+    if (this.exact) return this.exact.size;
+    return Math.round((DISTINCT_SKETCH_SIZE - 1) / this.largest);
+  }
+}
+
+// Frequent values with periodic pruning: exact while the column has few distinct values, approximate beyond
+class TopValues {
+  private counts = new Map<string, number>();
+  private pruned = false;
+
+  add(value: string): void {
+    this.counts.set(value, (this.counts.get(value) || 0) + 1);
+    if (this.counts.size > TOP_VALUES_CAPACITY * 2) {
+      this.counts = new Map(this.sorted().slice(0, TOP_VALUES_CAPACITY));
+      this.pruned = true;
+    }
+  }
+
+  get approximate(): boolean {
+    return this.pruned;
+  }
+
+  top(limit: number): Array<{ value: string; count: number }> {
+    return this.sorted().slice(0, limit).map(([value, count]) => ({ value, count }));
+  }
+
+  private sorted(): Array<[string, number]> {
+    return Array.from(this.counts.entries()).sort((a, b) => b[1] - a[1]);
+  }
+}
+
+// Running count/mean/variance (Welford) plus a uniform reservoir sample for quantiles
+class NumericAccumulator {
+  count = 0;
+  sum = 0;
+  private mean = 0;
+  private m2 = 0;
+  min = Infinity;
+  max = -Infinity;
+  private sample: number[] = [];
+
+  add(value: number): void {
+    this.count++;
+    this.sum += value;
+    const delta = value - this.mean;
+    this.mean += delta / this.count;
+    this.m2 += delta * (value - this.mean);
+    if (value < this.min) this.min = value;
+    if (value > this.max) this.max = value;
+
+    if (this.sample.length < QUANTILE_SAMPLE_SIZE) {
+      this.sample.push(value);
+    } else {
+      const slot = Math.floor(Math.random() * this.count);
+      if (slot < QUANTILE_SAMPLE_SIZE) this.sample[slot] = value;
+    }
+  }
+
+  finish(): NumericProfile | null {
+    if (this.count === 0) return null;
+
+    const sorted = [...this.sample].sort((a, b) => a - b);
+    const n = sorted.length;
+    const median = n % 2 === 0 ? (sorted[n / 2 - 1] + sorted[n / 2]) / 2 : sorted[Math.floor(n / 2)];
+    const q1 = sorted[Math.floor(n * 0.25)];
+    const q3 = sorted[Math.floor(n * 0.75)];
+    const iqr = q3 - q1;
+    const sampledOutliers = sorted.filter(v => v < q1 - 1.5 * iqr || v > q3 + 1.5 * iqr).length;
+    const approximate = n < this.count;
+    const variance = this.m2 / this.count;
+
+    return {
+      count: this.count,
+      sum: this.sum,
+      mean: this.sum / this.count,
+      variance,
+      stdDev: Math.sqrt(variance),
+      min: this.min,
+      max: this.max,
+      q1,
+      median,
+      q3,
+      quantilesApproximate: approximate,
+      outliers: approximate ? Math.round((sampledOutliers / n) * this.count) : sampledOutliers,
+      outliersApproximate: approximate,
+    };
+  }
+}
+
+function addTimestamp(range: { count: number; min: number; max: number }, timestamp: number | null): void {
+  if (timestamp === null) return;
+  range.count++;
+  range.min = Math.min(range.min, timestamp);
+  range.max = Math.max(range.max, timestamp);
+}
+
+interface ColumnState {
+  tally: TypeTally;
+  distinct: DistinctCounter;
+  topValues: TopValues;
+  numeric: NumericAccumulator;
+  // Date ranges in both day orders; the schema decides which one the column uses once every value has been seen
+  temporal: { count: number; min: number; max: number };
+  temporalDayFirst: { count: number; min: number; max: number };
+}
+
+// Builds the schema and column statistics of a table in one pass, holding only bounded state per column
+export class TableProfiler {
+  private columns: ColumnState[];
+  private rowCount = 0;
+  private rowHashes = new Set<number>();
+  private duplicateRows = 0;
+
+  constructor(private headers: string[], private inferrer = new SchemaInferrer()) {
+    this.columns = headers.map(() => ({
+      tally: this.inferrer.createTally(),
+      distinct: new DistinctCounter(),
+      topValues: new TopValues(),
+      numeric: new NumericAccumulator(),
+      temporal: { count: 0, min: Infinity, max: -Infinity },
+      temporalDayFirst: { count: 0, min: Infinity, max: -Infinity },
+    }));
+  }
+
+  addRow(row: string[]): void {
+    this.rowCount++;
+
+    for (let colIndex = 0; colIndex < this.columns.length; colIndex++) {
+      const state = this.columns[colIndex];
+      const raw = row[colIndex] ?? "";
+      const kind = this.inferrer.tallyValue(state.tally, raw);
+      if (kind === null) continue;
+
+      const value = raw.trim();
+      state.distinct.add(value);
+      state.topValues.add(value);
+
+      if (kind === "date" || kind === "datetime") {
+        addTimestamp(state.temporal, this.inferrer.parseDate(value));
+        addTimestamp(state.temporalDayFirst, this.inferrer.parseDate(value, true));
+      } else {
+        const parsed = this.inferrer.parseNumber(value);
+        if (parsed !== null) state.numeric.add(parsed);
+      }
+    }
+
+    if (this.rowCount <= DUPLICATE_SCAN_LIMIT) {
+      const hash = hashString(row.join("\u001f"));
+      if (this.rowHashes.has(hash)) {
+        this.duplicateRows++;
+      } else {
+        this.rowHashes.add(hash);
+      }
+    }
+  }
+
+  finish(): { profile: TableProfile; schema: TableSchema } {
+    const schema: TableSchema = {
+      columns: this.headers.map((header, colIndex) => {
+        const state = this.columns[colIndex];
+        return this.inferrer.resolveColumn(header, state.tally, Math.min(state.distinct.estimate(), state.tally.nonEmpty));
+      }),
+      inferredAt: new Date().toISOString(),
+    };
+
+    const profile: TableProfile = {
+      rowCount: this.rowCount,
+      columns: this.headers.map((header, colIndex) => {
+        const state = this.columns[colIndex];
+        return {
+          name: header,
+          count: state.tally.nonEmpty,
+          missing: state.tally.missing,
+          distinct: Math.min(state.distinct.estimate(), state.tally.nonEmpty),
+          distinctApproximate: state.distinct.approximate,
+          topValues: state.topValues.top(TOP_VALUES_RETURNED),
+          topValuesApproximate: state.topValues.approximate,
+          numeric: state.numeric.finish(),
+          temporal: schema.columns[colIndex].dayFirst
+            ? (state.temporalDayFirst.count > 0 ? { ...state.temporalDayFirst } : null)
+            : (state.temporal.count > 0 ? { ...state.temporal } : null),
+        };
+      }),
+      duplicateRows: this.duplicateRows,
+      duplicateScanRows: Math.min(this.rowCount, DUPLICATE_SCAN_LIMIT),
+      profiledAt: new Date().toISOString(),
+    };
+
+    this.rowHashes.clear();
+    return { profile, schema };
+  }
+}
@@ -1,80 +1,633 @@
-import Papa from "papaparse";
 import * as XLSX from "xlsx";
+import { SchemaInferrer, type ColumnSchema, type ColumnType, type TableSchema } from "./schemaTool.ts";
+import { readCSVRecords, sniffCSVDialect, TableProfiler, type CSVDialect, type CSVDialectOverrides, type TableProfile } from "./streamTool.ts";
+import { DataStorage } from "./storageTool.ts";
+import type { PDFTable } from "./pdfTool.ts";
+import { CorrelationAnalyzer, formatAssociation, type CorrelationMatrix } from "./correlationTool.ts";
+import { DistributionAnalyzer, type TableDistributions } from "./chartTool.ts";
+import { HashJoin, planUnion, type JoinStats, type JoinType, type UnionStats } from "./joinTool.ts";
+import { ComparisonAnalyzer, type DatasetComparison } from "./comparisonTool.ts";
+import { DriftAnalyzer, type DriftReport } from "./driftTool.ts";
+import { parseSQL, SQLQuery } from "./sqlTool.ts";
+import { proposeSteps, TransformPipeline, type ProposedStep, type StepResult } from "./transformTool.ts";
+import { exportChunks, type ExportFormat, type ExportOptions } from "./exportTool.ts";
+import {
+  findTimeAxis,
+  formatPeriod,
+  GRANULARITY_ADJECTIVES,
+  TimeSeriesAnalyzer,
+  type MetricSeries,
+  type TimeSeriesOptions,
+  type TimeSeriesSummary,
+} from "./timeSeriesTool.ts";
+import {
+  renderInsightText,
+  type ColumnInsight,
+  type FindingSeverity,
+  type InsightBlock,
+  type InsightFinding,
+  type InsightParagraph,
+  type InsightRecommendation,
+  type InsightReport,
+  type InsightSection,
+  type NumericInsight,
+  type RecommendationCategory,
+} from "./insightTool.ts";
 
 export interface TableData {
   headers: string[];
-  rows: string[][];
+  rows: string[][]; // Every row for inline tables; only the first rows when rowsFile holds the table
   rowCount: number;
+  schema?: TableSchema;
+  profile?: TableProfile;
+  rowsFile?: string; // NDJSON row store in extracted_data
+  sheetName?: string;
+  dialect?: CSVDialect; // CSV only: the detected (or overridden) file format
+  correlations?: CorrelationMatrix;
+  timeSeries?: TimeSeriesSummary | null; // Analysis along the detected time axis; null when the table has none
+  distributions?: TableDistributions; // Histogram bins and missing-value blocks behind the report charts
+  sourceFile?: string; // Uploaded file the table was read from
+  derivedFrom?: string; // How a joined or unioned table was made, e.g. "orders.csv left join customers.csv on Customer ID"
+  versionOf?: string; // Cleaned versions: dataset ID of the table the recipe ran on
+  version?: number; // Cleaned versions: 2 for the first cleaned version of a table, and so on
+  recipe?: string; // Cleaned versions: ID of the saved recipe that made the table
 }
 
+export interface JoinOptions {
+  on: string[]; // Key columns of the left table
+  rightOn?: string[]; // Key columns of the right table, in the same order (default: the same names)
+  how?: JoinType;
+}
+
+export interface UnionOptions {
+  sourceColumn?: string; // Adds a column holding each row's source table name
+}
+
+// Whether data loaded from storage is a saved table
+export function isTableData(value: unknown): value is TableData {
+  const table = value as Partial<TableData> | null;
+  return typeof table === "object" && table !== null && Array.isArray(table.headers) && Array.isArray(table.rows) && typeof table.rowCount === "number";
+}
+
+export interface RowPage {
+  offset?: number;
+  limit?: number;
+}
+
+export interface ExcelOptions {
+  sheet?: string;
+  headerRows?: number; // Rows combined into column names (default: detected from merged header cells)
+  range?: string; // A1 range ("B3:F40", "Sheet2!A1:D9") or workbook named range
+}
+
+export interface SheetInfo {
+  name: string;
+  index: number;
+  rowCount: number;
+  columnCount: number;
+  hidden: boolean;
+  mergedCells: number;
+}
+
+export interface WorkbookInfo {
+  sheets: SheetInfo[];
+  namedRanges: Array<{ name: string; ref: string }>;
+}
+
+// Rows kept inline in the saved metadata for previews and prompts
+const PREVIEW_ROWS = 100;
+
+const TYPE_LABELS: Record<ColumnType, string> = {
+  integer: "Numeric, integer",
+  float: "Numeric, decimal",
+  currency: "Numeric, currency",
+  percentage: "Numeric, percentage",
+  boolean: "Boolean",
+  date: "Date",
+  datetime: "Date/Time",
+  categorical: "Categorical",
+  text: "Free Text",
+  identifier: "Identifier",
+  empty: "Empty",
+};
+
 export class TableProcessor {
-  async processCSV(filePath: string): Promise<TableData> {
+  private schemaInferrer = new SchemaInferrer();
+
+  private storage = new DataStorage();
+
+  // Streams the file in chunks; rows go to an NDJSON store while column statistics are computed incrementally.
+  // The dialect is sniffed from the start of the file; `overrides` replace individual detected settings.
+  async processCSV(filePath: string, overrides: CSVDialectOverrides = {}): Promise<TableData> {
     try {
-      const content = await Deno.readTextFile(filePath);
-      
-      const result = Papa.parse(content, {
-        header: true,
-        skipEmptyLines: true,
-        dynamicTyping: false,
-        trimHeaders: true,
-      });
+      const dialect = await sniffCSVDialect(filePath, overrides);
+      const records = readCSVRecords(filePath, dialect);
 
-      if (!result.data || result.data.length === 0) {
-        throw new Error("No data found in CSV file");
+      for (let skipped = 0; skipped < dialect.skipRows; skipped++) {
+        if ((await records.next()).done) break;
       }
 
-      const headers = (result.meta.fields || []).map((h: string) => h.trim());
-      
-      const rows = result.data.map((row: Record<string, any>) =>
-        headers.map((header: string) => {
-          const value = row[header];
-          return value !== null && value !== undefined ? String(value).trim() : "";
-        })
-      );
+      const first = await records.next();
+      if (first.done) {
+        throw new Error("No data found in CSV file");
+      }
 
-      return {
-        headers,
-        rows,
-        rowCount: rows.length,
+      const headers = dialect.hasHeader
+        ? this.combineHeaderRows([first.value], first.value.length)
+        : first.value.map((_, idx) => `Column ${idx + 1}`);
+      const firstRow = dialect.hasHeader ? null : first.value;
+      const rows = async function* () {
+        if (firstRow) yield firstRow.map(value => value.trim());
+        for await (const record of records) {
+          if (record.length === 1 && record[0].trim() === "") continue; // Empty line
+          yield record.map(value => value.trim());
+        }
       };
+
+      const tableData = await this.buildTable(headers, rows(), { dialect });
+      if (tableData.rowCount === 0) {
+        await this.storage.removeRows(tableData.rowsFile!);
+        throw new Error("No data found in CSV file");
+      }
+      return tableData;
     } catch (error) {
       throw new Error(`Failed to process CSV: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  async processExcel(filePath: string): Promise<TableData> {
+  async listSheets(filePath: string): Promise<WorkbookInfo> {
     try {
-      const fileData = await Deno.readFile(filePath);
-      const workbook = XLSX.read(fileData, { type: "buffer" });
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      
-      const jsonData: any[] = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: "" });
-      
-      if (jsonData.length === 0) {
-        throw new Error("No data found in Excel file");
-      }
-      
-      const headers = jsonData[0].map((h: any) => String(h).trim());
-      const rows = jsonData.slice(1)
-        .filter((row: any[]) => row.some((cell: any) => cell !== null && cell !== undefined && String(cell).trim() !== ""))
-        .map((row: any[]) =>
-          headers.map((_: string, idx: number) => {
-            const cell = row[idx];
-            return cell !== null && cell !== undefined ? String(cell).trim() : "";
-          })
-        );
+      const workbook = XLSX.read(await Deno.readFile(filePath), { type: "buffer", cellDates: true });
 
       return {
-        headers,
-        rows,
-        rowCount: rows.length,
+        sheets: workbook.SheetNames.map((name: string, index: number) => {
+          const worksheet = workbook.Sheets[name];
+          const range = worksheet["!ref"] ? XLSX.utils.decode_range(worksheet["!ref"]) : null;
+          return {
+            name,
+            index,
+            rowCount: range ? range.e.r - range.s.r + 1 : 0,
+            columnCount: range ? range.e.c - range.s.c + 1 : 0,
+            hidden: Boolean(workbook.Workbook?.Sheets?.[index]?.Hidden),
+            mergedCells: (worksheet["!merges"] || []).length,
+          };
+        }),
+        namedRanges: (workbook.Workbook?.Names || [])
+          .filter((n: { Name: string; Ref: string }) => !n.Name.startsWith("_xlnm."))
+          .map((n: { Name: string; Ref: string }) => ({ name: n.Name, ref: n.Ref })),
       };
+    } catch (error) {
+      throw new Error(`Failed to read Excel workbook: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // Processes one sheet (default: the first) or a named/A1 range of a workbook
+  async processExcel(filePath: string, options: ExcelOptions = {}): Promise<TableData> {
+    try {
+      const workbook = XLSX.read(await Deno.readFile(filePath), { type: "buffer", cellDates: true });
+      return await this.readWorksheet(workbook, options);
     } catch (error) {
       throw new Error(`Failed to process Excel: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  // Processes several sheets of a workbook, each as its own table ("*" selects every sheet)
+  async processExcelSheets(filePath: string, sheets: string[], options: Omit<ExcelOptions, "sheet"> = {}): Promise<TableData[]> {
+    try {
+      const workbook = XLSX.read(await Deno.readFile(filePath), { type: "buffer", cellDates: true });
+      const selected = sheets.includes("*") ? workbook.SheetNames : sheets;
+
+      const tables: TableData[] = [];
+      for (const sheet of selected) {
+        tables.push(await this.readWorksheet(workbook, { ...options, sheet }));
+      }
+      return tables;
+    } catch (error) {
+      throw new Error(`Failed to process Excel: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // Turns a table found in a PDF into a dataset; header rows are combined into column names as for Excel
+  async processPDFTable(table: PDFTable, name: string): Promise<TableData> {
+    const width = table.columns.length;
+    const headers = table.headerRows.length > 0
+      ? this.combineHeaderRows(table.headerRows, width)
+      : Array.from({ length: width }, (_, col) => `Column ${col + 1}`);
+    return await this.buildTable(headers, table.rows, { sheetName: name });
+  }
+
+  // Combines two tables on key columns into a new table. The right table is held in memory while the left one streams,
+  // so pass the smaller table on the right.
+  async joinTables(left: TableData, right: TableData, options: JoinOptions): Promise<{ table: TableData; stats: JoinStats }> {
+    const how = options.how ?? "inner";
+    const rightOn = options.rightOn && options.rightOn.length > 0 ? options.rightOn : options.on;
+    if (options.on.length === 0) throw new Error("No key columns given");
+    if (rightOn.length !== options.on.length) throw new Error(`${options.on.length} left key column(s) but ${rightOn.length} right key column(s)`);
+
+    const leftKeys = this.resolveColumns(left, options.on, "left");
+    const rightKeys = this.resolveColumns(right, rightOn, "right");
+    const join = new HashJoin(left.headers, right.headers, this.getSchema(left), this.getSchema(right), leftKeys, rightKeys, how, this.tableLabel(right));
+    for await (const row of this.iterateRows(right)) join.addRightRow(row);
+
+    const leftRows = this.iterateRows(left);
+    const rows = async function* () {
+      for await (const row of leftRows) yield* join.probe(row);
+      yield* join.unmatchedRight(left.headers.length);
+    };
+
+    const keyText = leftKeys.map((leftIdx, k) => {
+      const rightName = right.headers[rightKeys[k]];
+      return left.headers[leftIdx] === rightName ? rightName : `${left.headers[leftIdx]} = ${rightName}`;
+    }).join(", ");
+    const table = await this.buildTable(join.headers, rows(), {
+      sheetName: `${this.tableLabel(left)} ${how} join ${this.tableLabel(right)}`,
+      derivedFrom: `${this.tableLabel(left)} ${how} join ${this.tableLabel(right)} on ${keyText}`,
+    });
+    return { table, stats: join.stats };
+  }
+
+  // Stacks tables with matching column names into a new table
+  async unionTables(tables: TableData[], options: UnionOptions = {}): Promise<{ table: TableData; stats: UnionStats }> {
+    if (tables.length < 2) throw new Error("A union needs at least two tables");
+
+    const plan = planUnion(tables.map(table => table.headers), options.sourceColumn);
+    const labels = tables.map(table => this.tableLabel(table));
+    const inputRows = tables.map(() => 0);
+    const iterate = (data: TableData) => this.iterateRows(data);
+    const rows = async function* () {
+      for (let tableIdx = 0; tableIdx < tables.length; tableIdx++) {
+        const columnMap = plan.columnMaps[tableIdx];
+        for await (const row of iterate(tables[tableIdx])) {
+          inputRows[tableIdx]++;
+          const mapped = columnMap.map(idx => (idx === -1 ? "" : row[idx] ?? ""));
+          if (options.sourceColumn) mapped.push(labels[tableIdx]);
+          yield mapped;
+        }
+      }
+    };
+
+    const table = await this.buildTable(plan.headers, rows(), {
+      sheetName: `Union of ${labels.join(", ")}`,
+      derivedFrom: `Union of ${labels.join(", ")}`,
+    });
+    return { table, stats: { inputRows, columnsNotInAll: plan.columnsNotInAll } };
+  }
+
+  // Compares a current table against a baseline; with key columns, rows are also matched one to one
+  async compareTables(baseline: TableData, current: TableData, keys: string[] = []): Promise<DatasetComparison> {
+    const keyColumns = keys.length > 0
+      ? { baseline: this.resolveColumns(baseline, keys, "baseline"), current: this.resolveColumns(current, keys, "current") }
+      : undefined;
+    const analyzer = new ComparisonAnalyzer(
+      { name: this.tableLabel(baseline), headers: baseline.headers, schema: this.getSchema(baseline), profile: this.getProfile(baseline) },
+      { name: this.tableLabel(current), headers: current.headers, schema: this.getSchema(current), profile: this.getProfile(current) },
+      keyColumns,
+    );
+
+    if (analyzer.needsRows) {
+      for await (const row of this.iterateRows(baseline)) analyzer.addBaselineRow(row);
+      for await (const row of this.iterateRows(current)) analyzer.addCurrentRow(row);
+    }
+    return analyzer.finish();
+  }
+
+  // Drift between two versions of one table; throws when their columns differ too much to be versions of each other
+  async detectDrift(baseline: TableData, current: TableData): Promise<DriftReport> {
+    const analyzer = new DriftAnalyzer(
+      { name: this.tableLabel(baseline), headers: baseline.headers, schema: this.getSchema(baseline), profile: this.getProfile(baseline) },
+      { name: this.tableLabel(current), headers: current.headers, schema: this.getSchema(current), profile: this.getProfile(current) },
+    );
+
+    for await (const row of this.iterateRows(baseline)) analyzer.addBaselineRow(row);
+    for await (const row of this.iterateRows(current)) analyzer.addCurrentRow(row);
+    return analyzer.finish();
+  }
+
+  // Runs a SELECT over table datasets named by their dataset IDs and stores the result as a new table
+  async runSQL(sql: string, loadTable: (dataset: string) => Promise<TableData | null>): Promise<TableData> {
+    const statement = parseSQL(sql);
+    const refs = [statement.from, ...statement.joins.map(join => join.table)];
+    const tables: TableData[] = [];
+    for (const ref of refs) {
+      const data = await loadTable(ref.name);
+      if (!data) throw new Error(`Dataset not found: ${ref.name}. Name tables by their dataset ID in double quotes, e.g. FROM "${ref.name}"`);
+      tables.push(data);
+    }
+
+    const query = new SQLQuery(statement, refs.map((ref, idx) => ({ ref, headers: tables[idx].headers, schema: this.getSchema(tables[idx]) })));
+    for (let idx = 1; idx < tables.length; idx++) {
+      for await (const row of this.iterateRows(tables[idx])) query.addJoinRow(idx, row);
+    }
+
+    return await this.buildTable(query.headers, query.execute(this.iterateRows(tables[0])), {
+      sheetName: "SQL result",
+      derivedFrom: `SQL: ${sql.replace(/\s+/g, " ").trim()}`,
+    });
+  }
+
+  // Runs transformation steps over a table and stores the result as the table's next version. Steps that need
+  // statistics take a pass over the rows each; the last pass writes the new table.
+  async transformTable(data: TableData, steps: unknown, sourceDataset?: string): Promise<{ table: TableData; steps: StepResult[] }> {
+    const pipeline = new TransformPipeline(data.headers, steps);
+    while (pipeline.needsFit) {
+      const fitter = pipeline.fitter();
+      for await (const row of pipeline.rows(this.iterateRows(data))) fitter.addRow(row);
+      pipeline.fit(fitter);
+    }
+
+    const version = (data.version ?? 1) + 1;
+    const name = data.version ? (data.sheetName ?? "table").replace(/ v\d+$/, "") : this.tableLabel(data);
+    const table = await this.buildTable(pipeline.headers, pipeline.rows(this.iterateRows(data), true), {
+      sheetName: `${name} v${version}`,
+      derivedFrom: `${name} v${version}: ${pipeline.steps.length} cleaning step${pipeline.steps.length === 1 ? "" : "s"}`,
+      versionOf: sourceDataset,
+      version,
+    });
+    return { table, steps: pipeline.results() };
+  }
+
+  // Cleaning steps the table's profile suggests, with the reason for each
+  proposeTransformations(data: TableData): ProposedStep[] {
+    return proposeSteps(data.headers, this.getSchema(data), this.getProfile(data));
+  }
+
+  // The table as a CSV, XLSX, NDJSON or Parquet file, a chunk at a time; XLSX sheets are named after the table
+  exportTable(data: TableData, format: ExportFormat, options: ExportOptions = {}): AsyncGenerator<Uint8Array> {
+    return exportChunks(format, data.headers, this.iterateRows(data), this.getSchema(data), { sheetName: this.tableLabel(data), ...options });
+  }
+
+  // One page of a table's rows, read from the row store without going past the page
+  async readRowPage(data: TableData, page: RowPage = {}): Promise<string[][]> {
+    const offset = page.offset ?? 0;
+    const limit = page.limit ?? Infinity;
+    const rows: string[][] = [];
+    if (limit <= 0) return rows;
+
+    let position = 0;
+    for await (const row of this.iterateRows(data)) {
+      if (position++ < offset) continue;
+      rows.push(row);
+      if (rows.length >= limit) break;
+    }
+    return rows;
+  }
+
+  // File and sheet a table came from, as shown in join headers and reports
+  tableLabel(data: TableData): string {
+    if (data.derivedFrom) return data.sheetName ?? "derived table";
+    const file = data.sourceFile?.replace(/\.[^.]+$/, "");
+    if (file && data.sheetName) return `${file} / ${data.sheetName}`;
+    return file || data.sheetName || "table";
+  }
+
+  private resolveColumns(data: TableData, names: string[], side: string): number[] {
+    return names.map(name => {
+      const idx = this.findColumnIndex(data.headers, name);
+      if (idx === -1) throw new Error(`Column "${name}" not found in the ${side} table. Available columns: ${data.headers.join(", ")}`);
+      return idx;
+    });
+  }
+
+  private async readWorksheet(workbook: XLSX.WorkBook, options: ExcelOptions): Promise<TableData> {
+    let sheetName = options.sheet || workbook.SheetNames[0];
+    let range: string | undefined;
+
+    if (options.range) {
+      const named = (workbook.Workbook?.Names || []).find((n: { Name: string }) => n.Name.toLowerCase() === options.range!.toLowerCase());
+      const ref = named ? named.Ref : options.range;
+      const bang = ref.lastIndexOf("!");
+      if (bang !== -1) {
+        sheetName = ref.substring(0, bang).replace(/^'|'$/g, "").replace(/''/g, "'");
+      }
+      range = ref.substring(bang + 1).replace(/\$/g, "");
+    }
+
+    const worksheet = workbook.Sheets[sheetName];
+    if (!worksheet) {
+      throw new Error(`Sheet "${sheetName}" not found. Available sheets: ${workbook.SheetNames.join(", ")}`);
+    }
+
+    this.fillMergedCells(worksheet);
+
+    const matrix: unknown[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: "", range, blankrows: true });
+    const cells = matrix.map(row => row.map(cell => this.cellToString(cell)));
+    const isBlank = (row: string[]) => row.every(cell => cell === "");
+
+    // Skip leading blank rows so the header is the first populated row
+    const firstRow = cells.findIndex(row => !isBlank(row));
+    if (firstRow === -1) {
+      throw new Error(`No data found in sheet "${sheetName}"`);
+    }
+
+    const origin = range ? XLSX.utils.decode_range(range).s : XLSX.utils.decode_range(worksheet["!ref"] || "A1").s;
+    const headerRows = options.headerRows ?? this.detectHeaderRows(worksheet, origin.r + firstRow);
+    const headerBlock = cells.slice(firstRow, firstRow + headerRows);
+    const width = cells.reduce((widest, row) => Math.max(widest, row.length), 0);
+    const headers = this.combineHeaderRows(headerBlock, width);
+
+    const rows = cells.slice(firstRow + headerRows)
+      .filter(row => !isBlank(row))
+      .map(row => headers.map((_, idx) => row[idx] ?? ""));
+
+    return await this.buildTable(headers, rows, { sheetName });
+  }
+
+  // Copies the top-left value of every merged region into the cells it covers
+  private fillMergedCells(worksheet: XLSX.WorkSheet): void {
+    for (const merge of worksheet["!merges"] || []) {
+      const source = worksheet[XLSX.utils.encode_cell(merge.s)];
+      if (!source) continue;
+
+      for (let r = merge.s.r; r <= merge.e.r; r++) {
+        for (let c = merge.s.c; c <= merge.e.c; c++) {
+          const address = XLSX.utils.encode_cell({ r, c });
+          const target = worksheet[address];
+          if (!target || target.v === undefined || target.v === "") worksheet[address] = { ...source };
+        }
+      }
+    }
+  }
+
+  // A horizontal merge in the header (e.g. "Q1" spanning three month columns) means the next row holds sub-headers
+  private detectHeaderRows(worksheet: XLSX.WorkSheet, headerStart: number): number {
+    const merges = worksheet["!merges"] || [];
+    let headerRows = 1;
+    let changed = true;
+
+    while (changed && headerRows < 5) {
+      changed = false;
+      for (const merge of merges) {
+        if (merge.s.r >= headerStart && merge.s.r < headerStart + headerRows && merge.e.c > merge.s.c) {
+          const needed = merge.e.r - headerStart + 2;
+          if (needed > headerRows) {
+            headerRows = Math.min(needed, 5);
+            changed = true;
+          }
+        }
+      }
+    }
+
+    return headerRows;
+  }
+
+  private combineHeaderRows(headerBlock: string[][], width: number): string[] {
+    const seen = new Map<string, number>();
+
+    return Array.from({ length: width }, (_, col) => {
+      const parts: string[] = [];
+      for (const row of headerBlock) {
+        const part = (row[col] ?? "").trim();
+        if (part && parts[parts.length - 1] !== part) parts.push(part);
+      }
+
+      const base = parts.join(" - ") || `Column ${col + 1}`;
+      const count = (seen.get(base) || 0) + 1;
+      seen.set(base, count);
+      return count > 1 ? `${base} (${count})` : base;
+    });
+  }
+
+  private cellToString(cell: unknown): string {
+    if (cell === null || cell === undefined) return "";
+    if (cell instanceof Date) {
+      const iso = cell.toISOString();
+      return iso.endsWith("T00:00:00.000Z") ? iso.substring(0, 10) : iso.substring(0, 19).replace("T", " ");
+    }
+    return String(cell).trim();
+  }
+
+  // Writes rows to the row store and profiles them in the same pass; only a preview stays in memory
+  private async buildTable(
+    headers: string[],
+    rows: Iterable<string[]> | AsyncIterable<string[]>,
+    extras: Partial<TableData> = {},
+  ): Promise<TableData> {
+    const profiler = new TableProfiler(headers, this.schemaInferrer);
+    const writer = await this.storage.createRowWriter("table_rows");
+    const preview: string[][] = [];
+
+    try {
+      for await (const row of rows) {
+        const normalized = headers.map((_, idx) => row[idx] ?? "");
+        profiler.addRow(normalized);
+        await writer.write(normalized);
+        if (preview.length < PREVIEW_ROWS) preview.push(normalized);
+      }
+      await writer.close();
+    } catch (error) {
+      try {
+        await writer.close();
+      } catch {
+        // Already closed
+      }
+      await this.storage.removeRows(writer.fileName);
+      throw error;
+    }
+
+    const { profile, schema } = profiler.finish();
+    const tableData: TableData = {
+      headers,
+      rows: preview,
+      rowCount: profile.rowCount,
+      schema,
+      profile,
+      rowsFile: writer.fileName,
+      ...extras,
+    };
+
+    // Pairwise, temporal and distribution statistics need the final column types and ranges, so they take a second pass over the stored rows
+    await this.analyzeRows(tableData);
+    return tableData;
+  }
+
+  // Computes whichever of the correlations, time series and distributions are missing in a single pass over the rows
+  private async analyzeRows(data: TableData): Promise<void> {
+    const schema = this.getSchema(data);
+    const profile = this.getProfile(data);
+    const correlations = data.correlations ? null : new CorrelationAnalyzer(data.headers, schema, profile);
+    const timeAxis = data.timeSeries === undefined ? findTimeAxis(schema, profile) : -1;
+    const timeSeries = timeAxis !== -1 ? new TimeSeriesAnalyzer(data.headers, schema, timeAxis, {}) : null;
+    const distributions = data.distributions ? null : new DistributionAnalyzer(data.headers, schema, profile);
+
+    if (correlations?.hasPairs || timeSeries || distributions) {
+      for await (const row of this.iterateRows(data)) {
+        if (correlations?.hasPairs) correlations.addRow(row);
+        timeSeries?.addRow(row);
+        distributions?.addRow(row);
+      }
+    }
+
+    if (correlations) data.correlations = correlations.finish();
+    if (data.timeSeries === undefined) data.timeSeries = timeSeries ? timeSeries.finish() : null;
+    if (distributions) data.distributions = distributions.finish();
+  }
+
+  // Yields every row, from the row store when there is one
+  async *iterateRows(data: TableData): AsyncGenerator<string[]> {
+    if (data.rowsFile) {
+      yield* this.storage.readRows(data.rowsFile);
+    } else {
+      yield* data.rows;
+    }
+  }
+
+  // Datasets saved before streaming ingestion hold all rows inline and no profile; they are profiled on the fly
+  getProfile(data: TableData): TableProfile {
+    if (data.profile && data.profile.columns.length === data.headers.length) {
+      return data.profile;
+    }
+
+    const profiler = new TableProfiler(data.headers, this.schemaInferrer);
+    data.rows.forEach(row => profiler.addRow(row));
+    const { profile, schema } = profiler.finish();
+    data.profile = profile;
+    if (!data.schema || data.schema.columns.length !== data.headers.length) data.schema = schema;
+    return profile;
+  }
+
+  async getCorrelations(data: TableData): Promise<CorrelationMatrix> {
+    if (!data.correlations) await this.analyzeRows(data);
+    return data.correlations!;
+  }
+
+  async getDistributions(data: TableData): Promise<TableDistributions> {
+    if (!data.distributions) await this.analyzeRows(data);
+    return data.distributions!;
+  }
+
+  // Without options, analyzes the detected time axis (cached on the table); options pick another date column,
+  // granularity or value columns
+  async getTimeSeries(data: TableData, options: TimeSeriesOptions = {}): Promise<TimeSeriesSummary | null> {
+    const useDefaults = Object.values(options).every(value => value === undefined);
+    if (useDefaults) {
+      if (data.timeSeries === undefined) await this.analyzeRows(data);
+      return data.timeSeries ?? null;
+    }
+
+    const schema = this.getSchema(data);
+    const columnIndex = options.column ? this.findColumnIndex(data.headers, options.column) : findTimeAxis(schema, this.getProfile(data));
+    let summary: TimeSeriesSummary | null = null;
+    if (columnIndex !== -1) {
+      const analyzer = new TimeSeriesAnalyzer(data.headers, schema, columnIndex, options);
+      for await (const row of this.iterateRows(data)) analyzer.addRow(row);
+      summary = analyzer.finish(options.granularity);
+    }
+    return summary;
+  }
+
+  getSchema(data: TableData): TableSchema {
+    if (!data.schema || data.schema.columns.length !== data.headers.length) {
+      data.profile = undefined;
+      this.getProfile(data);
+    }
+    return data.schema!;
+  }
+
+  getColumnSchema(data: TableData, columnName: string): ColumnSchema | null {
+    const colIndex = this.findColumnIndex(data.headers, columnName);
+    return colIndex === -1 ? null : this.getSchema(data).columns[colIndex];
+  }
+
   queryData(data: TableData, query: string): string {
     return `Table Data (${data.rowCount} rows):\nHeaders: ${data.headers.join(", ")}\n\nFirst 10 rows:\n${
       data.rows.slice(0, 10).map((row: string[], idx: number) => 
@@ -83,29 +636,24 @@ export class TableProcessor {
     }\n\nQuery: ${query}\n\nAnalyze this data and answer the query.`;
   }
 
-  filterRows(data: TableData, columnName: string, value: string): string[][] {
+  // Streams every row; returns the total match count and the requested page of matching rows
+  async filterRowsAdvanced(data: TableData, columnName: string, value: string, operator: string = "equals", page: RowPage = {}): Promise<{ matchCount: number; rows: string[][] }> {
     const colIndex = this.findColumnIndex(data.headers, columnName);
     if (colIndex === -1) {
-      return [];
+      return { matchCount: 0, rows: [] };
     }
-    
-    const lowerValue = value.toLowerCase().trim();
-    return data.rows.filter((row: string[]) => {
-      const cellValue = (row[colIndex] || "").toLowerCase().trim();
-      return cellValue.includes(lowerValue) || lowerValue.includes(cellValue);
-    });
-  }
 
-  filterRowsAdvanced(data: TableData, columnName: string, value: string, operator: string = "equals"): string[][] {
-    const colIndex = this.findColumnIndex(data.headers, columnName);
-    if (colIndex === -1) {
-      return [];
-    }
+    // Temporal columns compare as timestamps in the column's day order (the filter value too), everything else
+    // through the schema-aware number parser
+    const column = this.getSchema(data).columns[colIndex];
+    const isTemporal = this.schemaInferrer.isTemporal(column.type);
+    const parse = (text: string) =>
+      (isTemporal ? this.schemaInferrer.parseDate(text, column.dayFirst) : this.schemaInferrer.parseNumber(text)) ?? NaN;
+    const numericValue = parse(value);
 
-    return data.rows.filter((row: string[]) => {
+    const matches = (row: string[]) => {
       const cellValue = (row[colIndex] || "").trim();
-      const numericCellValue = parseFloat(cellValue);
-      const numericValue = parseFloat(value);
+      const numericCellValue = parse(cellValue);
 
       switch (operator.toLowerCase()) {
         case "equals":
@@ -137,32 +685,32 @@ export class TableProcessor {
         default:
           return cellValue.toLowerCase().includes(value.toLowerCase().trim());
       }
-    });
+    };
+
+    return await this.collectMatches(data, matches, page);
   }
 
-  aggregateColumn(data: TableData, columnName: string, operation: "sum" | "avg" | "count" | "min" | "max"): number {
+  // Answered from the column profile, which holds the exact count, sum, min and max of every numeric value.
+  // Null when the column has no numeric values, except for count, which is then 0.
+  aggregateColumn(data: TableData, columnName: string, operation: "sum" | "avg" | "count" | "min" | "max"): number | null {
     const colIndex = this.findColumnIndex(data.headers, columnName);
-    if (colIndex === -1) return 0;
-
-    const values = data.rows
-      .map((row: string[]) => parseFloat(row[colIndex]))
-      .filter((val: number) => !isNaN(val));
+    if (colIndex === -1) return null;
 
-    if (values.length === 0) return 0;
+    const stats = this.getProfile(data).columns[colIndex].numeric;
+    if (operation === "count") return stats?.count ?? 0;
+    if (!stats || stats.count === 0) return null;
 
     switch (operation) {
       case "sum":
-        return values.reduce((a: number, b: number) => a + b, 0);
+        return stats.sum;
       case "avg":
-        return values.reduce((a: number, b: number) => a + b, 0) / values.length;
-      case "count":
-        return values.length;
+        return stats.sum / stats.count;
       case "min":
-        return Math.min(...values);
+        return stats.min;
       case "max":
-        return Math.max(...values);
+        return stats.max;
       default:
-        return 0;
+        return null;
     }
   }
 
@@ -184,56 +732,75 @@ export class TableProcessor {
     return -1;
   }
 
-  getUniqueValues(data: TableData, columnName: string): string[] {
+  // Collects distinct values up to `maxValues`; beyond that the count comes from the column profile
+  async getUniqueValues(data: TableData, columnName: string, maxValues: number = 100_000): Promise<{ values: string[]; uniqueCount: number; complete: boolean }> {
     const colIndex = this.findColumnIndex(data.headers, columnName);
-    if (colIndex === -1) return [];
+    if (colIndex === -1) return { values: [], uniqueCount: 0, complete: true };
 
     const uniqueSet = new Set<string>();
-    data.rows.forEach((row: string[]) => {
+    let complete = true;
+    for await (const row of this.iterateRows(data)) {
       const value = (row[colIndex] || "").trim();
-      if (value) uniqueSet.add(value);
-    });
+      if (!value || uniqueSet.has(value)) continue;
+      if (uniqueSet.size >= maxValues) {
+        complete = false;
+        break;
+      }
+      uniqueSet.add(value);
+    }
 
-    return Array.from(uniqueSet).sort();
+    return {
+      values: Array.from(uniqueSet).sort(),
+      uniqueCount: complete ? uniqueSet.size : this.getProfile(data).columns[colIndex].distinct,
+      complete,
+    };
   }
 
-  groupBy(data: TableData, groupColumn: string, valueColumn: string, operation: "sum" | "avg" | "count"): Record<string, number> {
+  // sum and avg take the numeric values of the value column; count takes its non-empty cells, or the rows of each
+  // group when no value column is given
+  async groupBy(data: TableData, groupColumn: string, valueColumn: string | undefined, operation: "sum" | "avg" | "count"): Promise<Record<string, number>> {
     const groupColIndex = this.findColumnIndex(data.headers, groupColumn);
-    const valueColIndex = this.findColumnIndex(data.headers, valueColumn);
+    const valueColIndex = valueColumn ? this.findColumnIndex(data.headers, valueColumn) : -1;
     
     if (groupColIndex === -1) return {};
 
-    const groups: Record<string, number[]> = {};
+    const groups = new Map<string, { sum: number; numbers: number; cells: number }>();
 
-    data.rows.forEach((row: string[]) => {
+    for await (const row of this.iterateRows(data)) {
       const groupKey = (row[groupColIndex] || "").trim();
-      if (!groupKey) return;
+      if (!groupKey) continue;
 
-      if (!groups[groupKey]) {
-        groups[groupKey] = [];
+      let group = groups.get(groupKey);
+      if (!group) {
+        group = { sum: 0, numbers: 0, cells: 0 };
+        groups.set(groupKey, group);
       }
 
-      if (valueColIndex !== -1) {
-        const value = parseFloat(row[valueColIndex]);
-        if (!isNaN(value)) {
-          groups[groupKey].push(value);
-        }
-      } else {
-        groups[groupKey].push(1); // For count operation
+      if (valueColIndex === -1) {
+        group.cells++;
+        continue;
       }
-    });
+      const cell = (row[valueColIndex] || "").trim();
+      if (!cell) continue;
+      group.cells++;
+      const value = this.schemaInferrer.parseNumber(cell);
+      if (value !== null) {
+        group.sum += value;
+        group.numbers++;
+      }
+    }
 
     const result: Record<string, number> = {};
-    for (const [key, values] of Object.entries(groups)) {
+    for (const [key, { sum, numbers, cells }] of groups) {
       switch (operation) {
         case "sum":
-          result[key] = values.reduce((a: number, b: number) => a + b, 0);
+          result[key] = sum;
           break;
         case "avg":
-          result[key] = values.length > 0 ? values.reduce((a: number, b: number) => a + b, 0) / values.length : 0;
+          result[key] = numbers > 0 ? sum / numbers : 0;
           break;
         case "count":
-          result[key] = values.length;
+          result[key] = cells;
           break;
       }
     }
@@ -241,315 +808,592 @@ export class TableProcessor {
     return result;
   }
 
-  searchInTable(data: TableData, searchTerm: string): string[][] {
+  async searchInTable(data: TableData, searchTerm: string, page: RowPage = {}): Promise<{ matchCount: number; rows: string[][] }> {
     const lowerSearchTerm = searchTerm.toLowerCase().trim();
 
-    return data.rows.filter((row: string[]) => {
-      return row.some((cell: string) =>
-        (cell || "").toLowerCase().includes(lowerSearchTerm)
-      );
-    });
+    return await this.collectMatches(data, (row: string[]) =>
+      row.some((cell: string) => (cell || "").toLowerCase().includes(lowerSearchTerm)), page);
   }
 
-  // Generate comprehensive data science analysis with technical insights
-  generateInsights(data: TableData): string {
-    const sections: string[] = [];
+  private async collectMatches(data: TableData, predicate: (row: string[]) => boolean, page: RowPage): Promise<{ matchCount: number; rows: string[][] }> {
+    const offset = page.offset ?? 0;
+    const limit = page.limit ?? Infinity;
+    const rows: string[][] = [];
+    let matchCount = 0;
 
-    // Title
-    sections.push("DATA SCIENCE ANALYSIS REPORT");
-    sections.push("Comprehensive Dataset Evaluation and Insights");
-    sections.push("");
-    sections.push("");
+    for await (const row of this.iterateRows(data)) {
+      if (!predicate(row)) continue;
+      if (matchCount >= offset && rows.length < limit) rows.push(row);
+      matchCount++;
+    }
 
-    // Executive Summary
-    sections.push("EXECUTIVE SUMMARY");
-    sections.push("");
+    return { matchCount, rows };
+  }
+
+  // Generate comprehensive data science analysis with technical insights, rendered as report text
+  async generateInsights(data: TableData): Promise<string> {
+    return renderInsightText(await this.buildInsightReport(data));
+  }
+
+  // Builds the structured insight report: per-column statistics, findings with severity, and
+  // recommendations with the rationale behind them, laid out as titled sections
+  async buildInsightReport(data: TableData): Promise<InsightReport> {
+    const profile = this.getProfile(data);
+    const schema = this.getSchema(data);
+    const correlations = await this.getCorrelations(data);
+    const timeSeries = await this.getTimeSeries(data);
+
+    const columns: ColumnInsight[] = [];
+    const findings: InsightFinding[] = [];
+    const recommendations: InsightRecommendation[] = [];
+    const sections: InsightSection[] = [];
+    const addFinding = (finding: Omit<InsightFinding, "id">) => {
+      findings.push({ id: `${finding.category}${finding.columns.length > 0 ? `:${finding.columns.join("|")}` : ""}`, ...finding });
+    };
+    const addRecommendation = (category: RecommendationCategory, key: string, text: string, rationale: string, columnNames: string[] = []) => {
+      const id = `${category}:${key}`;
+      recommendations.push({ id, category, text, rationale, columns: columnNames });
+      return id;
+    };
+    const paragraph = (text: string, label?: string): InsightBlock => ({ type: "paragraph", paragraph: label ? { label, text } : { text } });
 
+    // Executive Summary
     const totalCells = data.rowCount * data.headers.length;
-    const emptyCount = data.rows.reduce((count, row) =>
-      count + row.filter(cell => !cell || !cell.trim()).length, 0
-    );
+    const emptyCount = profile.columns.reduce((count, column) => count + column.missing, 0);
     const completeness = ((totalCells - emptyCount) / totalCells) * 100;
 
-    sections.push(`This dataset comprises ${data.rowCount.toLocaleString()} observations across ${data.headers.length} distinct variables. The overall data completeness stands at ${completeness.toFixed(1)} percent, with ${(totalCells - emptyCount).toLocaleString()} populated values out of ${totalCells.toLocaleString()} total possible data points. This level of completeness indicates ${completeness >= 95 ? "excellent data quality suitable for advanced modeling" : completeness >= 80 ? "good data quality appropriate for most analytical tasks" : completeness >= 60 ? "moderate data quality requiring some preprocessing" : "limited data quality necessitating significant data cleaning"}.`);
-    sections.push("");
-    sections.push("");
+    sections.push({
+      id: "summary",
+      title: "EXECUTIVE SUMMARY",
+      blocks: [
+        paragraph(`This dataset comprises ${data.rowCount.toLocaleString()} observations across ${data.headers.length} distinct variables. The overall data completeness stands at ${completeness.toFixed(1)} percent, with ${(totalCells - emptyCount).toLocaleString()} populated values out of ${totalCells.toLocaleString()} total possible data points. This level of completeness indicates ${completeness >= 95 ? "excellent data quality suitable for advanced modeling" : completeness >= 80 ? "good data quality appropriate for most analytical tasks" : completeness >= 60 ? "moderate data quality requiring some preprocessing" : "limited data quality necessitating significant data cleaning"}.`),
+      ],
+    });
+
+    if (completeness < 95) {
+      addFinding({
+        category: "completeness",
+        severity: completeness < 60 ? "critical" : completeness < 80 ? "warning" : "info",
+        columns: [],
+        message: `Overall completeness is ${completeness.toFixed(1)} percent; ${emptyCount.toLocaleString()} of ${totalCells.toLocaleString()} values are missing.`,
+        value: completeness,
+      });
+    }
 
     // Dataset Structure
-    sections.push("DATASET STRUCTURE AND DIMENSIONALITY");
-    sections.push("");
-    sections.push(`The dataset contains ${data.headers.length} variables: ${data.headers.join(", ")}. With ${data.rowCount.toLocaleString()} observations and ${data.headers.length} features, the data dimensionality is ${data.headers.length / data.rowCount < 0.01 ? "low, which is favorable for most machine learning algorithms" : data.headers.length / data.rowCount < 0.1 ? "moderate, suitable for various modeling approaches" : "relatively high, which may benefit from dimensionality reduction techniques such as PCA or feature selection methods"}.`);
-    sections.push("");
-    sections.push("");
+    const typeCounts = new Map<ColumnType, number>();
+    schema.columns.forEach(column => typeCounts.set(column.type, (typeCounts.get(column.type) || 0) + 1));
+    const typeSummary = Array.from(typeCounts.entries()).map(([type, count]) => `${count} ${type}`).join(", ");
+
+    sections.push({
+      id: "structure",
+      title: "DATASET STRUCTURE AND DIMENSIONALITY",
+      blocks: [
+        paragraph(`The dataset contains ${data.headers.length} variables: ${data.headers.join(", ")}. Inferred column types: ${typeSummary}. With ${data.rowCount.toLocaleString()} observations and ${data.headers.length} features, the data dimensionality is ${data.headers.length / data.rowCount < 0.01 ? "low, which is favorable for most machine learning algorithms" : data.headers.length / data.rowCount < 0.1 ? "moderate, suitable for various modeling approaches" : "relatively high, which may benefit from dimensionality reduction techniques such as PCA or feature selection methods"}.`),
+      ],
+    });
 
     // Detailed Variable Analysis
-    sections.push("DETAILED VARIABLE ANALYSIS");
-    sections.push("");
-
+    const variableBlocks: InsightBlock[] = [];
     const numericColumns: string[] = [];
     const categoricalColumns: string[] = [];
     const skewedColumns: string[] = [];
+    const skewedNames: string[] = [];
     const outlierColumns: string[] = [];
 
-    for (const header of data.headers) {
-      const colIndex = data.headers.indexOf(header);
-      const values = data.rows.map(row => row[colIndex]).filter(val => val && val.trim());
-
-      if (values.length === 0) {
-        sections.push(`Variable: ${header}`);
-        sections.push(`This variable contains no populated values and requires data collection before analysis. Missing data imputation or feature removal should be considered.`);
-        sections.push("");
+    for (const [colIndex, header] of data.headers.entries()) {
+      const column = schema.columns[colIndex];
+      const stats = profile.columns[colIndex];
+      const missingCount = stats.missing;
+      const missingPercent = ((missingCount / data.rowCount) * 100).toFixed(1);
+      const insight: ColumnInsight = {
+        name: header,
+        type: column.type,
+        typeLabel: TYPE_LABELS[column.type],
+        confidence: column.confidence,
+        parseFailures: column.parseFailures,
+        ...(column.currencySymbol ? { currencySymbol: column.currencySymbol } : {}),
+        count: stats.count,
+        missing: missingCount,
+        missingPercent: parseFloat(missingPercent),
+        distinct: stats.distinct,
+        distinctApproximate: stats.distinctApproximate,
+      };
+      columns.push(insight);
+
+      if (stats.count === 0) {
+        variableBlocks.push({
+          type: "column",
+          column: header,
+          heading: `Variable: ${header}`,
+          paragraphs: [{ text: `This variable contains no populated values and requires data collection before analysis. Missing data imputation or feature removal should be considered.` }],
+        });
+        addFinding({ category: "empty_column", severity: "critical", columns: [header], message: `${header} has no populated values.`, value: 100 });
         continue;
       }
 
-      const uniqueValues = new Set(values);
-      const numericValues = values.map(v => parseFloat(v)).filter(v => !isNaN(v));
-      const isNumeric = numericValues.length > values.length * 0.5;
-      const missingCount = data.rowCount - values.length;
-      const missingPercent = ((missingCount / data.rowCount) * 100).toFixed(1);
+      const paragraphs: InsightParagraph[] = [];
+      variableBlocks.push({ type: "column", column: header, heading: `Variable: ${header} (${TYPE_LABELS[column.type]})`, paragraphs });
+
+      const isNumeric = this.schemaInferrer.isNumeric(column.type) && stats.numeric !== null;
+      const typeNote: InsightParagraph | null = column.parseFailures > 0
+        ? { label: "Type Inference", text: `Classified as ${column.type}${column.currencySymbol ? ` (${column.currencySymbol})` : ""} with ${(column.confidence * 100).toFixed(1)} percent confidence. ${column.parseFailures.toLocaleString()} value${column.parseFailures > 1 ? "s do" : " does"} not parse as ${column.type} and ${column.parseFailures > 1 ? "were" : "was"} excluded from the statistics for this variable; review ${column.parseFailures > 1 ? "them" : "it"} for data entry errors or mixed formats.` }
+        : null;
+      if (typeNote) {
+        addFinding({ category: "type_mismatch", severity: "warning", columns: [header], message: `${column.parseFailures.toLocaleString()} value${column.parseFailures > 1 ? "s" : ""} in ${header} ${column.parseFailures > 1 ? "do" : "does"} not parse as ${column.type}.`, value: column.parseFailures });
+      }
+
+      if (this.schemaInferrer.isTemporal(column.type) && stats.temporal) {
+        const earliest = stats.temporal.min;
+        const latest = stats.temporal.max;
+        const spanDays = (latest - earliest) / 86400000;
+        insight.temporal = { earliest: new Date(earliest).toISOString(), latest: new Date(latest).toISOString(), spanDays };
+
+        paragraphs.push({ label: "Temporal Range", text: `This ${column.type === "datetime" ? "timestamp" : "date"} variable spans from ${new Date(earliest).toISOString().substring(0, column.type === "datetime" ? 19 : 10)} to ${new Date(latest).toISOString().substring(0, column.type === "datetime" ? 19 : 10)}, covering ${spanDays.toLocaleString(undefined, { maximumFractionDigits: 1 })} days with ${stats.distinctApproximate ? "approximately " : ""}${stats.distinct.toLocaleString()} distinct values. Date variables should be decomposed into features such as year, month, day of week or elapsed time rather than encoded as categories.` });
+        if (typeNote) paragraphs.push(typeNote);
+        if (missingCount > 0) {
+          paragraphs.push({ label: "Missing Data", text: `${missingCount.toLocaleString()} observations (${missingPercent} percent) have no value for this date variable.` });
+          this.addMissingFinding(addFinding, header, missingCount, insight.missingPercent);
+        }
+        continue;
+      }
 
       if (isNumeric) {
         numericColumns.push(header);
-        const n = numericValues.length;
-        const sum = numericValues.reduce((a, b) => a + b, 0);
-        const mean = sum / n;
-        const sorted = [...numericValues].sort((a, b) => a - b);
-        const min = sorted[0];
-        const max = sorted[sorted.length - 1];
+        const { mean, median, stdDev, min, max, q1, q3 } = stats.numeric!;
         const range = max - min;
-        const median = sorted.length % 2 === 0
-          ? (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
-          : sorted[Math.floor(sorted.length / 2)];
-
-        // Calculate standard deviation
-        const squaredDiffs = numericValues.map(v => Math.pow(v - mean, 2));
-        const variance = squaredDiffs.reduce((a, b) => a + b, 0) / n;
-        const stdDev = Math.sqrt(variance);
-
-        // Calculate quartiles for IQR
-        const q1Index = Math.floor(n * 0.25);
-        const q3Index = Math.floor(n * 0.75);
-        const q1 = sorted[q1Index];
-        const q3 = sorted[q3Index];
         const iqr = q3 - q1;
 
         // Detect outliers using IQR method
         const lowerBound = q1 - 1.5 * iqr;
         const upperBound = q3 + 1.5 * iqr;
-        const outliers = numericValues.filter(v => v < lowerBound || v > upperBound);
-        const outlierPercent = ((outliers.length / n) * 100).toFixed(1);
+        const outliers = stats.numeric!.outliers;
+        const outlierPercent = ((outliers / stats.numeric!.count) * 100).toFixed(1);
 
-        if (outliers.length > 0) {
+        if (outliers > 0) {
           outlierColumns.push(header);
         }
 
         // Determine skewness
-        const skewness = (mean - median) / (stdDev + 0.0001); // Add small value to avoid division by zero
+        let skew: NumericInsight["skew"] = "symmetric";
         let skewDescription = "";
         if (Math.abs(mean - median) < stdDev * 0.1) {
           skewDescription = "approximately symmetric distribution";
         } else if (mean > median) {
+          skew = "right";
           skewDescription = "right-skewed distribution (positive skew)";
           skewedColumns.push(`${header} (right-skewed)`);
         } else {
+          skew = "left";
           skewDescription = "left-skewed distribution (negative skew)";
           skewedColumns.push(`${header} (left-skewed)`);
         }
+        const variability = stdDev / mean > 0.5 ? "high" : stdDev / mean > 0.2 ? "moderate" : "low";
+
+        insight.numeric = {
+          mean, median, stdDev, min, max, range, q1, q3, iqr,
+          lowerFence: lowerBound,
+          upperFence: upperBound,
+          outliers,
+          outlierPercent: parseFloat(outlierPercent),
+          outliersApproximate: stats.numeric!.outliersApproximate,
+          quantilesApproximate: stats.numeric!.quantilesApproximate,
+          skew,
+          variability,
+        };
+
+        paragraphs.push({ label: "Statistical Summary", text: `This continuous variable exhibits a range from ${min.toLocaleString(undefined, { maximumFractionDigits: 2 })} (minimum) to ${max.toLocaleString(undefined, { maximumFractionDigits: 2 })} (maximum), yielding a range of ${range.toLocaleString(undefined, { maximumFractionDigits: 2 })}. The central tendency measures include a mean of ${mean.toLocaleString(undefined, { maximumFractionDigits: 2 })} and median of ${median.toLocaleString(undefined, { maximumFractionDigits: 2 })}. The standard deviation is ${stdDev.toLocaleString(undefined, { maximumFractionDigits: 2 })}, indicating ${variability} variability in the data.` });
+        if (typeNote) paragraphs.push(typeNote);
+
+        paragraphs.push({ label: "Distribution Characteristics", text: `The data exhibits ${skewDescription}. ${mean > median ? "The mean being higher than the median suggests that extreme high values are pulling the average upward, which is common in positively skewed distributions." : mean < median ? "The mean being lower than the median indicates that extreme low values are pulling the average downward, typical of negatively skewed distributions." : "The similarity between mean and median suggests a relatively symmetric distribution around the central value."}` });
+        if (skew !== "symmetric") {
+          skewedNames.push(header);
+          addFinding({ category: "skewness", severity: "info", columns: [header], message: `${header} is ${skew}-skewed (mean ${mean.toLocaleString(undefined, { maximumFractionDigits: 2 })}, median ${median.toLocaleString(undefined, { maximumFractionDigits: 2 })}).`, value: mean - median });
+        }
 
-        sections.push(`Variable: ${header} (Numeric)`);
-        sections.push(`Statistical Summary: This continuous variable exhibits a range from ${min.toLocaleString(undefined, { maximumFractionDigits: 2 })} (minimum) to ${max.toLocaleString(undefined, { maximumFractionDigits: 2 })} (maximum), yielding a range of ${range.toLocaleString(undefined, { maximumFractionDigits: 2 })}. The central tendency measures include a mean of ${mean.toLocaleString(undefined, { maximumFractionDigits: 2 })} and median of ${median.toLocaleString(undefined, { maximumFractionDigits: 2 })}. The standard deviation is ${stdDev.toLocaleString(undefined, { maximumFractionDigits: 2 })}, indicating ${stdDev / mean > 0.5 ? "high variability" : stdDev / mean > 0.2 ? "moderate variability" : "low variability"} in the data.`);
-        sections.push("");
-        sections.push(`Distribution Characteristics: The data exhibits ${skewDescription}. ${mean > median ? "The mean being higher than the median suggests that extreme high values are pulling the average upward, which is common in positively skewed distributions." : mean < median ? "The mean being lower than the median indicates that extreme low values are pulling the average downward, typical of negatively skewed distributions." : "The similarity between mean and median suggests a relatively symmetric distribution around the central value."}`);
-        sections.push("");
+        if (stats.numeric!.quantilesApproximate) {
+          paragraphs.push({ label: "Sampling Note", text: `The median, quartiles and outlier count for this variable are estimated from a uniform sample of the ${stats.numeric!.count.toLocaleString()} numeric values; count, mean, standard deviation, minimum and maximum are exact.` });
+        }
 
-        if (outliers.length > 0) {
-          sections.push(`Outlier Detection: Using the Interquartile Range (IQR) method with Q1 at ${q1.toLocaleString(undefined, { maximumFractionDigits: 2 })} and Q3 at ${q3.toLocaleString(undefined, { maximumFractionDigits: 2 })}, we identified ${outliers.length.toLocaleString()} outliers (${outlierPercent} percent of observations). These values fall outside the range of ${lowerBound.toLocaleString(undefined, { maximumFractionDigits: 2 })} to ${upperBound.toLocaleString(undefined, { maximumFractionDigits: 2 })}. Consider outlier treatment methods such as Winsorization, transformation, or removal depending on whether these represent genuine extreme values or data errors.`);
-          sections.push("");
+        if (outliers > 0) {
+          paragraphs.push({ label: "Outlier Detection", text: `Using the Interquartile Range (IQR) method with Q1 at ${q1.toLocaleString(undefined, { maximumFractionDigits: 2 })} and Q3 at ${q3.toLocaleString(undefined, { maximumFractionDigits: 2 })}, we identified ${stats.numeric!.outliersApproximate ? "an estimated " : ""}${outliers.toLocaleString()} outliers (${outlierPercent} percent of observations). These values fall outside the range of ${lowerBound.toLocaleString(undefined, { maximumFractionDigits: 2 })} to ${upperBound.toLocaleString(undefined, { maximumFractionDigits: 2 })}. Consider outlier treatment methods such as Winsorization, transformation, or removal depending on whether these represent genuine extreme values or data errors.` });
+          addFinding({ category: "outliers", severity: parseFloat(outlierPercent) > 5 ? "warning" : "info", columns: [header], message: `${stats.numeric!.outliersApproximate ? "An estimated " : ""}${outliers.toLocaleString()} value${outliers > 1 ? "s" : ""} (${outlierPercent} percent) in ${header} ${outliers > 1 ? "fall" : "falls"} outside the IQR fences.`, value: parseFloat(outlierPercent) });
         }
 
         if (missingCount > 0) {
-          sections.push(`Missing Data: ${missingCount.toLocaleString()} observations (${missingPercent} percent) contain missing values for this variable. ${parseFloat(missingPercent) > 5 ? `This significant level of missingness may require imputation techniques such as mean/median imputation, regression imputation, or multiple imputation methods. Alternatively, consider using algorithms that handle missing values naturally, such as XGBoost or LightGBM.` : `This relatively low level of missingness can be addressed through simple imputation methods or by using complete case analysis.`}`);
-          sections.push("");
+          paragraphs.push({ label: "Missing Data", text: `${missingCount.toLocaleString()} observations (${missingPercent} percent) contain missing values for this variable. ${parseFloat(missingPercent) > 5 ? `This significant level of missingness may require imputation techniques such as mean/median imputation, regression imputation, or multiple imputation methods. Alternatively, consider using algorithms that handle missing values naturally, such as XGBoost or LightGBM.` : `This relatively low level of missingness can be addressed through simple imputation methods or by using complete case analysis.`}` });
+          this.addMissingFinding(addFinding, header, missingCount, insight.missingPercent);
         } else {
-          sections.push(`Data Completeness: This variable has no missing values, which is optimal for analysis.`);
-          sections.push("");
+          paragraphs.push({ label: "Data Completeness", text: `This variable has no missing values, which is optimal for analysis.` });
         }
       } else {
-        if (uniqueValues.size < values.length * 0.5 && uniqueValues.size > 1) {
+        if ((column.type === "categorical" || column.type === "boolean") && stats.distinct > 1) {
           categoricalColumns.push(header);
         }
 
-        const frequency = new Map<string, number>();
-        values.forEach(val => frequency.set(val, (frequency.get(val) || 0) + 1));
-        const topValues = Array.from(frequency.entries())
-          .sort((a, b) => b[1] - a[1])
-          .slice(0, 5);
-
-        const cardinality = uniqueValues.size;
-        const cardinalityRatio = cardinality / values.length;
-
-        sections.push(`Variable: ${header} (Categorical)`);
-        sections.push(`Cardinality Analysis: This categorical variable contains ${cardinality.toLocaleString()} unique categories among ${values.length.toLocaleString()} observations, resulting in a cardinality ratio of ${(cardinalityRatio * 100).toFixed(1)} percent. ${cardinality === values.length ? "Each observation has a unique value, suggesting this may be an identifier rather than a predictive feature. Consider removing this variable from modeling." : cardinality > values.length * 0.8 ? "The high cardinality suggests this variable may benefit from grouping rare categories or using target encoding techniques." : cardinality < 10 ? "The low cardinality makes this variable suitable for one-hot encoding in most machine learning algorithms." : "The moderate cardinality may require careful encoding strategies such as target encoding, frequency encoding, or grouping rare categories."}`);
-        sections.push("");
+        const topValues = stats.topValues.slice(0, 5).map(({ value, count }) => [value, count] as const);
+        const observations = stats.count;
+        const cardinality = stats.distinct;
+        const cardinalityRatio = cardinality / observations;
+        const allUnique = stats.distinctApproximate ? cardinality >= observations * 0.95 : cardinality === observations;
+
+        insight.categorical = {
+          topValues: topValues.map(([value, count]) => ({ value, count, percent: (count / observations) * 100 })),
+          topValuesApproximate: stats.topValuesApproximate,
+          cardinalityRatio,
+          allUnique,
+        };
+
+        paragraphs.push({ label: "Cardinality Analysis", text: `This ${column.type === "identifier" ? "identifier" : column.type === "text" ? "free-text" : column.type === "boolean" ? "boolean" : "categorical"} variable contains ${stats.distinctApproximate ? "approximately " : ""}${cardinality.toLocaleString()} unique categories among ${observations.toLocaleString()} observations, resulting in a cardinality ratio of ${(cardinalityRatio * 100).toFixed(1)} percent. ${allUnique ? "Each observation has a unique value, suggesting this may be an identifier rather than a predictive feature. Consider removing this variable from modeling." : cardinality > observations * 0.8 ? "The high cardinality suggests this variable may benefit from grouping rare categories or using target encoding techniques." : cardinality < 10 ? "The low cardinality makes this variable suitable for one-hot encoding in most machine learning algorithms." : "The moderate cardinality may require careful encoding strategies such as target encoding, frequency encoding, or grouping rare categories."}` });
+        if (allUnique) {
+          addFinding({ category: "identifier", severity: "info", columns: [header], message: `Every value of ${header} is unique; it is likely an identifier rather than a predictive feature.`, value: cardinalityRatio * 100 });
+        } else if (cardinality > observations * 0.8 && column.type !== "text") {
+          addFinding({ category: "high_cardinality", severity: "info", columns: [header], message: `${header} has ${cardinality.toLocaleString()} distinct values (${(cardinalityRatio * 100).toFixed(1)} percent of observations).`, value: cardinalityRatio * 100 });
+        }
 
         if (topValues.length > 0) {
-          sections.push(`Category Distribution: The most frequent categories are ${topValues.map(([val, count]) => `"${val}" (${count.toLocaleString()} occurrences, ${((count / values.length) * 100).toFixed(1)} percent)`).join(", ")}. ${topValues[0][1] / values.length > 0.9 ? "The high concentration in a single category indicates severe class imbalance, which may require resampling techniques or algorithm adjustments." : topValues[0][1] / values.length > 0.5 ? "The moderate concentration in the dominant category suggests some imbalance that should be monitored during modeling." : "The distribution shows reasonable balance across categories."}`);
-          sections.push("");
+          const dominantShare = topValues[0][1] / observations;
+          paragraphs.push({ label: "Category Distribution", text: `The most frequent categories are ${topValues.map(([val, count]) => `"${val}" (${count.toLocaleString()} occurrences, ${((count / observations) * 100).toFixed(1)} percent)`).join(", ")}${stats.topValuesApproximate ? " (counts are approximate because of the very large number of distinct values)" : ""}. ${dominantShare > 0.9 ? "The high concentration in a single category indicates severe class imbalance, which may require resampling techniques or algorithm adjustments." : dominantShare > 0.5 ? "The moderate concentration in the dominant category suggests some imbalance that should be monitored during modeling." : "The distribution shows reasonable balance across categories."}` });
+          if (dominantShare > 0.5 && cardinality > 1) {
+            addFinding({ category: "class_imbalance", severity: dominantShare > 0.9 ? "warning" : "info", columns: [header], message: `"${topValues[0][0]}" accounts for ${(dominantShare * 100).toFixed(1)} percent of ${header}.`, value: dominantShare * 100 });
+          }
         }
 
         if (missingCount > 0) {
-          sections.push(`Missing Data: ${missingCount.toLocaleString()} observations (${missingPercent} percent) lack values for this categorical variable. Consider treating missing values as a separate category, using mode imputation, or applying more sophisticated techniques like KNN imputation if appropriate.`);
-          sections.push("");
+          paragraphs.push({ label: "Missing Data", text: `${missingCount.toLocaleString()} observations (${missingPercent} percent) lack values for this categorical variable. Consider treating missing values as a separate category, using mode imputation, or applying more sophisticated techniques like KNN imputation if appropriate.` });
+          this.addMissingFinding(addFinding, header, missingCount, insight.missingPercent);
         }
       }
     }
 
-    // Data Quality Assessment
-    sections.push("");
-    sections.push("DATA QUALITY AND INTEGRITY ASSESSMENT");
-    sections.push("");
+    sections.push({ id: "variables", title: "DETAILED VARIABLE ANALYSIS", blocks: variableBlocks });
+
+    // Correlation and Association Analysis
+    const associationBlocks: InsightBlock[] = [];
+    const formatVif = (vif: number) => Number.isFinite(vif) ? `VIF ${vif.toFixed(1)}` : "perfectly collinear";
+    const collinearColumns = correlations.multicollinearity.map(m => `${m.column} (${formatVif(m.vif)})`);
+
+    if (correlations.pairs.length === 0) {
+      associationBlocks.push(paragraph(`Pairwise associations need at least two numeric variables, two categorical variables with between 2 and 50 categories, or one of each. This dataset has none of these combinations, so no correlation matrix was computed.`, "Association Overview"));
+    } else {
+      const numericCount = correlations.numericColumns.length;
+      const categoricalCount = correlations.categoricalColumns.length;
+      associationBlocks.push(paragraph(`${[
+        numericCount > 1 ? `Pearson and Spearman correlations were computed across ${numericCount} numeric variables` : "",
+        categoricalCount > 1 ? `Cramer's V across ${categoricalCount} categorical variables` : "",
+        numericCount > 0 && categoricalCount > 0 ? "the correlation ratio (eta) for every categorical-numeric pair" : "",
+      ].filter(Boolean).join(", ")}, covering ${correlations.pairs.length.toLocaleString()} variable pairs. Coefficients of 0.7 or more in magnitude are treated as strong, 0.4 to 0.7 as moderate and 0.2 to 0.4 as weak.${correlations.spearmanApproximate ? ` Spearman correlations are estimated from a uniform sample of ${correlations.spearmanSampleRows.toLocaleString()} rows.` : ""}`, "Association Overview"));
+
+      if (correlations.strongPairs.length > 0) {
+        associationBlocks.push(paragraph(`${correlations.strongPairs.slice(0, 10).map(formatAssociation).join("; ")}${correlations.strongPairs.length > 10 ? `; and ${correlations.strongPairs.length - 10} more` : ""}. Strongly associated variables carry overlapping information: when predicting one of them the other is a powerful feature, but using both as features adds little and can make model coefficients unstable.`, "Strong Associations"));
+        for (const pair of correlations.strongPairs) {
+          addFinding({ category: "strong_association", severity: "info", columns: [...pair.columns], message: `Strong association between ${formatAssociation(pair)}.`, value: pair.value });
+        }
+      } else {
+        associationBlocks.push(paragraph(`No pair of variables is strongly associated. The strongest relationship is between ${formatAssociation(correlations.pairs[0])}, which is ${correlations.pairs[0].strength}.`, "Strong Associations"));
+      }
 
-    const rowStrings = data.rows.map(row => row.join("|"));
-    const uniqueRows = new Set(rowStrings);
-    const duplicates = data.rowCount - uniqueRows.size;
+      // A rank correlation well above the linear one points to a monotonic but non-linear relationship
+      const nonLinear: string[] = [];
+      correlations.numericColumns.forEach((a, i) => correlations.numericColumns.forEach((b, j) => {
+        const r = correlations.pearson[i][j];
+        const rho = correlations.spearman[i][j];
+        if (j > i && r !== null && rho !== null && Math.abs(rho) >= 0.4 && Math.abs(rho) - Math.abs(r) >= 0.2) {
+          nonLinear.push(`${a} and ${b} (Pearson r = ${r.toFixed(2)}, Spearman rho = ${rho.toFixed(2)})`);
+          addFinding({ category: "non_linear", severity: "info", columns: [a, b], message: `${a} and ${b} have a monotonic but non-linear relationship (Pearson r = ${r.toFixed(2)}, Spearman rho = ${rho.toFixed(2)}).`, value: rho });
+        }
+      }));
+      if (nonLinear.length > 0) {
+        associationBlocks.push(paragraph(`${nonLinear.slice(0, 5).join("; ")}. The rank correlation is clearly stronger than the linear correlation, so these relationships are monotonic but not linear. Log or rank transformations, or tree-based models, will capture them better than linear terms.`, "Non-Linear Relationships"));
+      }
 
-    sections.push(`Overall Quality Metrics: The dataset exhibits ${completeness >= 95 ? "excellent" : completeness >= 80 ? "good" : completeness >= 60 ? "moderate" : "poor"} data quality with ${completeness.toFixed(1)} percent completeness across all variables. ${duplicates > 0 ? `Duplicate analysis identified ${duplicates.toLocaleString()} duplicate observations (${((duplicates / data.rowCount) * 100).toFixed(1)} percent of the dataset). These duplicates should be investigated to determine if they represent legitimate repeated measurements or data collection errors. Consider using df.drop_duplicates() in Python or similar methods to remove exact duplicates after validation.` : "No duplicate observations were detected, which indicates strong data integrity and quality control measures."}`);
-    sections.push("");
+      if (collinearColumns.length > 0) {
+        associationBlocks.push(paragraph(`${collinearColumns.join(", ")} ${collinearColumns.length > 1 ? "have variance inflation factors" : "has a variance inflation factor"} of 10 or more, meaning ${collinearColumns.length > 1 ? "they are" : "it is"} largely explained by the other numeric variables. Linear and logistic regression coefficients for these variables will be unreliable unless redundant variables are removed or combined, or regularization is used.`, "Multicollinearity"));
+        for (const { column, vif } of correlations.multicollinearity) {
+          addFinding({ category: "multicollinearity", severity: "warning", columns: [column], message: `${column} is ${formatVif(vif) === "perfectly collinear" ? "perfectly collinear with other numeric variables" : `largely explained by other numeric variables (${formatVif(vif)})`}.`, value: vif });
+        }
+      } else if (correlations.numericColumns.length > 1) {
+        associationBlocks.push(paragraph(`No numeric variable has a variance inflation factor of 10 or more, so multicollinearity is unlikely to distort linear models.`, "Multicollinearity"));
+      }
+    }
 
-    if (skewedColumns.length > 0) {
-      sections.push(`Skewness Detected: The following variables exhibit distributional skewness: ${skewedColumns.join(", ")}. For modeling purposes, consider applying transformations such as log transformation, square root transformation, or Box-Cox transformation to normalize these distributions. This is particularly important for linear models and algorithms that assume normally distributed features.`);
-      sections.push("");
+    sections.push({ id: "associations", title: "CORRELATION AND ASSOCIATION ANALYSIS", blocks: associationBlocks });
+
+    // Temporal Analysis
+    if (timeSeries) {
+      sections.push({ id: "temporal", title: "TEMPORAL ANALYSIS", blocks: this.temporalBlocks(timeSeries, schema, addFinding) });
     }
 
-    if (outlierColumns.length > 0) {
-      sections.push(`Outlier Presence: Outliers were detected in ${outlierColumns.length} variable${outlierColumns.length > 1 ? "s" : ""}: ${outlierColumns.join(", ")}. Depending on your analysis goals, consider strategies such as robust scaling (using RobustScaler), outlier capping (Winsorization), or using tree-based algorithms that are naturally resistant to outliers (Random Forest, XGBoost).`);
-      sections.push("");
+    // Data Quality Assessment
+    const qualityBlocks: InsightBlock[] = [];
+    const duplicates = profile.duplicateRows;
+    const duplicateScope = profile.duplicateScanRows < data.rowCount ? ` among the first ${profile.duplicateScanRows.toLocaleString()} rows` : "";
+
+    qualityBlocks.push(paragraph(`The dataset exhibits ${completeness >= 95 ? "excellent" : completeness >= 80 ? "good" : completeness >= 60 ? "moderate" : "poor"} data quality with ${completeness.toFixed(1)} percent completeness across all variables. ${duplicates > 0 ? `Duplicate analysis identified ${duplicates.toLocaleString()} duplicate observations${duplicateScope} (${((duplicates / profile.duplicateScanRows) * 100).toFixed(1)} percent of the ${duplicateScope ? "rows checked" : "dataset"}). These duplicates should be investigated to determine if they represent legitimate repeated measurements or data collection errors. Consider using df.drop_duplicates() in Python or similar methods to remove exact duplicates after validation.` : `No duplicate observations were detected${duplicateScope}, which indicates strong data integrity and quality control measures.`}`, "Overall Quality Metrics"));
+    if (duplicates > 0) {
+      addFinding({ category: "duplicates", severity: "warning", columns: [], message: `${duplicates.toLocaleString()} duplicate rows were found${duplicateScope}.`, value: duplicates });
     }
 
-    // Machine Learning Recommendations
-    sections.push("");
-    sections.push("MACHINE LEARNING AND MODELING RECOMMENDATIONS");
-    sections.push("");
+    if (skewedColumns.length > 0) {
+      qualityBlocks.push(paragraph(`The following variables exhibit distributional skewness: ${skewedColumns.join(", ")}. For modeling purposes, consider applying transformations such as log transformation, square root transformation, or Box-Cox transformation to normalize these distributions. This is particularly important for linear models and algorithms that assume normally distributed features.`, "Skewness Detected"));
+    }
 
-    // Recommended algorithms based on data characteristics
-    const mlRecommendations: string[] = [];
+    if (outlierColumns.length > 0) {
+      qualityBlocks.push(paragraph(`Outliers were detected in ${outlierColumns.length} variable${outlierColumns.length > 1 ? "s" : ""}: ${outlierColumns.join(", ")}. Depending on your analysis goals, consider strategies such as robust scaling (using RobustScaler), outlier capping (Winsorization), or using tree-based algorithms that are naturally resistant to outliers (Random Forest, XGBoost).`, "Outlier Presence"));
+    }
 
-    sections.push("Recommended Preprocessing Steps:");
-    sections.push("");
+    sections.push({ id: "quality", title: "DATA QUALITY AND INTEGRITY ASSESSMENT", blocks: qualityBlocks });
 
+    // Machine Learning Recommendations
     const preprocessingSteps: string[] = [];
 
     if (completeness < 95) {
-      preprocessingSteps.push(`Handle missing values using appropriate imputation methods. For numeric variables, consider mean/median imputation or more advanced techniques like KNN imputation or iterative imputation (MICE). For categorical variables, mode imputation or treating missing as a separate category may be appropriate.`);
+      preprocessingSteps.push(addRecommendation("preprocessing", "missing-values", `Handle missing values using appropriate imputation methods. For numeric variables, consider mean/median imputation or more advanced techniques like KNN imputation or iterative imputation (MICE). For categorical variables, mode imputation or treating missing as a separate category may be appropriate.`, `Overall completeness is ${completeness.toFixed(1)} percent, below 95 percent.`, columns.filter(c => c.missing > 0).map(c => c.name)));
     }
 
     if (duplicates > 0) {
-      preprocessingSteps.push(`Remove or investigate ${duplicates.toLocaleString()} duplicate observations to ensure model training on unique data points.`);
+      preprocessingSteps.push(addRecommendation("preprocessing", "duplicates", `Remove or investigate ${duplicates.toLocaleString()} duplicate observations to ensure model training on unique data points.`, `${duplicates.toLocaleString()} exact duplicate rows were found${duplicateScope}.`));
     }
 
     if (skewedColumns.length > 0) {
-      preprocessingSteps.push(`Apply normalization transformations to skewed variables (${skewedColumns.join(", ")}). Consider log transformation for right-skewed data or power transformations for left-skewed data.`);
+      preprocessingSteps.push(addRecommendation("preprocessing", "skewness", `Apply normalization transformations to skewed variables (${skewedColumns.join(", ")}). Consider log transformation for right-skewed data or power transformations for left-skewed data.`, `The mean and median differ by more than a tenth of a standard deviation in ${skewedNames.join(", ")}.`, skewedNames));
     }
 
     if (outlierColumns.length > 0) {
-      preprocessingSteps.push(`Address outliers in ${outlierColumns.join(", ")} through capping, transformation, or by choosing robust algorithms. For regression tasks, consider using Huber loss or quantile regression.`);
+      preprocessingSteps.push(addRecommendation("preprocessing", "outliers", `Address outliers in ${outlierColumns.join(", ")} through capping, transformation, or by choosing robust algorithms. For regression tasks, consider using Huber loss or quantile regression.`, `Values outside 1.5 times the interquartile range were found in ${outlierColumns.join(", ")}.`, outlierColumns));
+    }
+
+    if (collinearColumns.length > 0) {
+      preprocessingSteps.push(addRecommendation("preprocessing", "multicollinearity", `Reduce multicollinearity among ${correlations.multicollinearity.map(m => m.column).join(", ")} by dropping one variable from each strongly correlated pair, combining them into a single feature, or applying PCA. Alternatively, use Ridge or Lasso regularization.`, `${collinearColumns.join(", ")} ${collinearColumns.length > 1 ? "have variance inflation factors" : "has a variance inflation factor"} of 10 or more.`, correlations.multicollinearity.map(m => m.column)));
     }
 
     if (numericColumns.length > 0) {
-      preprocessingSteps.push(`Scale numeric features using StandardScaler for algorithms sensitive to feature scales (SVM, Neural Networks, K-Nearest Neighbors) or RobustScaler if outliers are present.`);
+      preprocessingSteps.push(addRecommendation("preprocessing", "scaling", `Scale numeric features using StandardScaler for algorithms sensitive to feature scales (SVM, Neural Networks, K-Nearest Neighbors) or RobustScaler if outliers are present.`, `The dataset has ${numericColumns.length} numeric ${numericColumns.length === 1 ? "variable" : "variables"}.`, numericColumns));
     }
 
     if (categoricalColumns.length > 0) {
-      preprocessingSteps.push(`Encode categorical variables appropriately. Use one-hot encoding for low cardinality features (less than 10 categories), target encoding or frequency encoding for high cardinality features, and consider ordinal encoding if there is a natural order.`);
+      preprocessingSteps.push(addRecommendation("preprocessing", "encoding", `Encode categorical variables appropriately. Use one-hot encoding for low cardinality features (less than 10 categories), target encoding or frequency encoding for high cardinality features, and consider ordinal encoding if there is a natural order.`, `The dataset has ${categoricalColumns.length} categorical ${categoricalColumns.length === 1 ? "variable" : "variables"}.`, categoricalColumns));
     }
 
-    preprocessingSteps.forEach((step, idx) => {
-      sections.push(`${idx + 1}. ${step}`);
-      sections.push("");
-    });
+    if (timeSeries && timeSeries.missingPeriods > 0) {
+      preprocessingSteps.push(addRecommendation("preprocessing", "time-gaps", `Reindex the data on ${timeSeries.column} to a complete ${GRANULARITY_ADJECTIVES[timeSeries.granularity]} calendar and decide for each of the ${timeSeries.missingPeriods.toLocaleString()} empty periods whether it means no activity (fill with zero) or missing data (interpolate or leave out) before building lag or rolling features.`, `${timeSeries.missingPeriods.toLocaleString()} of ${timeSeries.expectedPeriods.toLocaleString()} ${GRANULARITY_ADJECTIVES[timeSeries.granularity]} periods have no rows.`, [timeSeries.column]));
+    }
 
-    sections.push("");
-    sections.push("Suitable Machine Learning Algorithms:");
-    sections.push("");
+    if (timeSeries) {
+      preprocessingSteps.push(addRecommendation("preprocessing", "time-features", `Derive time-based features from ${timeSeries.column}: lagged values and rolling-window statistics of the target, and calendar features such as day of week, month or quarter${timeSeries.metrics.some(m => m.seasonality?.detected) ? ", which capture the seasonal pattern found in this data" : ""}.`, `${timeSeries.column} provides a time axis with ${timeSeries.periods.length.toLocaleString()} ${GRANULARITY_ADJECTIVES[timeSeries.granularity]} periods.`, [timeSeries.column]));
+    }
 
     // Determine suitable algorithms based on dataset characteristics
+    const mlRecommendations: string[] = [];
+
     if (data.rowCount >= 10000 && numericColumns.length > 5) {
-      mlRecommendations.push(`Deep Learning approaches (Neural Networks, Deep Neural Networks) are viable given the substantial sample size of ${data.rowCount.toLocaleString()} observations and ${numericColumns.length} numeric features. Consider using frameworks like TensorFlow or PyTorch.`);
+      mlRecommendations.push(addRecommendation("algorithm", "deep-learning", `Deep Learning approaches (Neural Networks, Deep Neural Networks) are viable given the substantial sample size of ${data.rowCount.toLocaleString()} observations and ${numericColumns.length} numeric features. Consider using frameworks like TensorFlow or PyTorch.`, `${data.rowCount.toLocaleString()} observations (at least 10,000) and ${numericColumns.length} numeric features (more than 5).`));
     }
 
     if (numericColumns.length > 0 && categoricalColumns.length > 0) {
-      mlRecommendations.push(`Gradient Boosting algorithms (XGBoost, LightGBM, CatBoost) are highly recommended as they handle mixed data types effectively, are robust to outliers and missing values, and typically provide excellent predictive performance. CatBoost is particularly suitable given the presence of categorical variables as it handles them natively.`);
+      mlRecommendations.push(addRecommendation("algorithm", "gradient-boosting", `Gradient Boosting algorithms (XGBoost, LightGBM, CatBoost) are highly recommended as they handle mixed data types effectively, are robust to outliers and missing values, and typically provide excellent predictive performance. CatBoost is particularly suitable given the presence of categorical variables as it handles them natively.`, `The dataset mixes ${numericColumns.length} numeric and ${categoricalColumns.length} categorical variables.`));
     }
 
     if (data.rowCount >= 1000) {
-      mlRecommendations.push(`Random Forest and other ensemble methods are excellent choices, offering good performance, feature importance insights, and resistance to overfitting through bagging. They work well with the current sample size and handle non-linear relationships effectively.`);
+      mlRecommendations.push(addRecommendation("algorithm", "random-forest", `Random Forest and other ensemble methods are excellent choices, offering good performance, feature importance insights, and resistance to overfitting through bagging. They work well with the current sample size and handle non-linear relationships effectively.`, `${data.rowCount.toLocaleString()} observations (at least 1,000) are enough to train ensembles reliably.`));
     }
 
     if (completeness >= 95 && numericColumns.length > 2) {
-      mlRecommendations.push(`Linear models (Linear Regression, Logistic Regression, Lasso, Ridge) are appropriate if interpretability is important. They perform best when features are normalized and outliers are addressed. Consider regularization (L1/L2) to prevent overfitting.`);
+      mlRecommendations.push(addRecommendation("algorithm", "linear-models", `Linear models (Linear Regression, Logistic Regression, Lasso, Ridge) are appropriate if interpretability is important. They perform best when features are normalized and outliers are addressed. Consider regularization (L1/L2) to prevent overfitting.`, `Completeness is ${completeness.toFixed(1)} percent and there are ${numericColumns.length} numeric features.`));
     }
 
     if (numericColumns.length > 0) {
-      mlRecommendations.push(`Support Vector Machines (SVM) with RBF kernel can capture complex non-linear patterns, though they require feature scaling and are computationally intensive for large datasets. Consider using for datasets under 10,000 observations.`);
+      mlRecommendations.push(addRecommendation("algorithm", "svm", `Support Vector Machines (SVM) with RBF kernel can capture complex non-linear patterns, though they require feature scaling and are computationally intensive for large datasets. Consider using for datasets under 10,000 observations.`, `The dataset has ${numericColumns.length} numeric ${numericColumns.length === 1 ? "feature" : "features"} and ${data.rowCount.toLocaleString()} observations.`));
     }
 
     if (categoricalColumns.length > numericColumns.length) {
-      mlRecommendations.push(`Decision Trees and Rule-based models are interpretable options that handle categorical data naturally without requiring encoding, though they may be prone to overfitting without proper regularization.`);
+      mlRecommendations.push(addRecommendation("algorithm", "decision-trees", `Decision Trees and Rule-based models are interpretable options that handle categorical data naturally without requiring encoding, though they may be prone to overfitting without proper regularization.`, `Categorical variables (${categoricalColumns.length}) outnumber numeric variables (${numericColumns.length}).`));
     }
 
-    mlRecommendations.forEach((rec, idx) => {
-      sections.push(`${idx + 1}. ${rec}`);
-      sections.push("");
+    sections.push({
+      id: "modeling",
+      title: "MACHINE LEARNING AND MODELING RECOMMENDATIONS",
+      blocks: [
+        { type: "recommendations", title: "Recommended Preprocessing Steps:", recommendationIds: preprocessingSteps },
+        { type: "recommendations", title: "Suitable Machine Learning Algorithms:", recommendationIds: mlRecommendations },
+      ],
     });
 
     // Additional Recommendations
-    sections.push("");
-    sections.push("ADDITIONAL DATA SCIENCE RECOMMENDATIONS");
-    sections.push("");
+    const practices: string[] = [];
 
-    const recommendations: string[] = [];
-
-    if (numericColumns.length > 2) {
-      recommendations.push("Perform correlation analysis and create a correlation matrix to identify multicollinearity among numeric features. High correlation (above 0.9) may necessitate feature selection or dimensionality reduction techniques like PCA.");
+    if (correlations.strongPairs.length > 0) {
+      practices.push(addRecommendation("practice", "feature-selection-correlation", `Use the correlation matrix in this report for feature selection: of each strongly associated pair (${correlations.strongPairs.slice(0, 3).map(p => `${p.columns[0]} / ${p.columns[1]}`).join(", ")}${correlations.strongPairs.length > 3 ? ", ..." : ""}), keep the variable that is easier to interpret or has fewer missing values, unless one of them is the prediction target.`, `${correlations.strongPairs.length} variable ${correlations.strongPairs.length === 1 ? "pair is" : "pairs are"} strongly associated.`, [...new Set(correlations.strongPairs.flatMap(p => p.columns))]));
+    } else if (numericColumns.length > 2) {
+      practices.push(addRecommendation("practice", "recompute-correlations", "Recompute the correlation matrix after feature engineering, since derived features (ratios, aggregates, interaction terms) often introduce new multicollinearity.", "No variable pair is currently strongly associated."));
     }
 
     if (data.rowCount >= 5000) {
-      recommendations.push("Implement cross-validation strategies (k-fold cross-validation with k equals 5 or 10) to ensure robust model evaluation and prevent overfitting. For time-series data, use time-series cross-validation.");
+      practices.push(addRecommendation("practice", "cross-validation", "Implement cross-validation strategies (k-fold cross-validation with k equals 5 or 10) to ensure robust model evaluation and prevent overfitting. For time-series data, use time-series cross-validation.", `${data.rowCount.toLocaleString()} observations (at least 5,000) support k-fold evaluation.`));
+    }
+
+    if (timeSeries) {
+      practices.push(addRecommendation("practice", "time-split", `Split training and test data by time on ${timeSeries.column}: train on earlier periods and evaluate on later ones, using expanding-window or rolling-origin cross-validation. Random splits let models learn from the future and overstate their accuracy.`, `The rows are ordered in time along ${timeSeries.column} (${formatPeriod(Date.parse(timeSeries.start), timeSeries.granularity)} to ${formatPeriod(Date.parse(timeSeries.end), timeSeries.granularity)}).`, [timeSeries.column]));
     }
 
     if (categoricalColumns.length > 0 && numericColumns.length > 0) {
-      recommendations.push("Conduct feature engineering to create interaction terms between categorical and numeric variables, which may capture non-linear relationships and improve model performance.");
+      practices.push(addRecommendation("practice", "interaction-features", "Conduct feature engineering to create interaction terms between categorical and numeric variables, which may capture non-linear relationships and improve model performance.", `The dataset mixes numeric and categorical variables.`));
     }
 
     if (skewedColumns.length > 0 || outlierColumns.length > 0) {
-      recommendations.push("Perform exploratory data analysis with visualization techniques (histograms, box plots, Q-Q plots) to better understand distributions and guide preprocessing decisions.");
+      practices.push(addRecommendation("practice", "exploratory-analysis", "Perform exploratory data analysis with visualization techniques (histograms, box plots, Q-Q plots) to better understand distributions and guide preprocessing decisions.", `${[skewedColumns.length > 0 ? `${skewedColumns.length} skewed` : "", outlierColumns.length > 0 ? `${outlierColumns.length} outlier-bearing` : ""].filter(Boolean).join(" and ")} ${skewedColumns.length + outlierColumns.length === 1 ? "variable was" : "variables were"} found.`, [...new Set([...skewedNames, ...outlierColumns])]));
     }
 
-    recommendations.push("Split data into training, validation, and test sets using stratified sampling if dealing with classification problems. A common split is 70 percent training, 15 percent validation, and 15 percent test.");
+    practices.push(addRecommendation("practice", "data-split", "Split data into training, validation, and test sets using stratified sampling if dealing with classification problems. A common split is 70 percent training, 15 percent validation, and 15 percent test.", "Applies to every supervised modeling task."));
 
     if (completeness < 90) {
-      recommendations.push("Analyze missing data patterns using missingness heatmaps or correlation analysis. If data is Missing Not At Random (MNAR), consider specialized handling techniques or collecting additional data.");
+      practices.push(addRecommendation("practice", "missingness-patterns", "Analyze missing data patterns using missingness heatmaps or correlation analysis. If data is Missing Not At Random (MNAR), consider specialized handling techniques or collecting additional data.", `Overall completeness is ${completeness.toFixed(1)} percent, below 90 percent.`));
     }
 
     if (numericColumns.length > 5) {
-      recommendations.push("Consider feature selection techniques such as Recursive Feature Elimination (RFE), L1 regularization, or tree-based feature importance to identify the most predictive variables and reduce model complexity.");
+      practices.push(addRecommendation("practice", "feature-selection", "Consider feature selection techniques such as Recursive Feature Elimination (RFE), L1 regularization, or tree-based feature importance to identify the most predictive variables and reduce model complexity.", `The dataset has ${numericColumns.length} numeric features (more than 5).`));
     }
 
-    recommendations.push("Implement hyperparameter tuning using Grid Search or Randomized Search with cross-validation to optimize model performance. For computationally expensive models, consider Bayesian optimization.");
+    practices.push(addRecommendation("practice", "hyperparameter-tuning", "Implement hyperparameter tuning using Grid Search or Randomized Search with cross-validation to optimize model performance. For computationally expensive models, consider Bayesian optimization.", "Applies to every supervised modeling task."));
 
-    recommendations.push("Establish baseline models (simple heuristics or basic algorithms) before implementing complex models to ensure that added complexity provides meaningful performance gains.");
+    practices.push(addRecommendation("practice", "baseline-models", "Establish baseline models (simple heuristics or basic algorithms) before implementing complex models to ensure that added complexity provides meaningful performance gains.", "Applies to every supervised modeling task."));
 
-    recommendations.forEach((rec, idx) => {
-      sections.push(`${idx + 1}. ${rec}`);
-      sections.push("");
-    });
+    sections.push({ id: "additional", title: "ADDITIONAL DATA SCIENCE RECOMMENDATIONS", blocks: [{ type: "recommendations", recommendationIds: practices }] });
 
     // Conclusion
-    sections.push("");
-    sections.push("CONCLUSION");
-    sections.push("");
-    sections.push(`This dataset comprising ${data.rowCount.toLocaleString()} observations across ${data.headers.length} variables presents ${completeness >= 90 ? "strong" : completeness >= 70 ? "adequate" : "developing"} foundations for machine learning and statistical analysis. The dataset contains ${numericColumns.length} numeric ${numericColumns.length === 1 ? "variable" : "variables"} and ${categoricalColumns.length} categorical ${categoricalColumns.length === 1 ? "variable" : "variables"}, providing ${numericColumns.length + categoricalColumns.length >= 10 ? "rich" : "sufficient"} feature space for modeling. ${outlierColumns.length > 0 ? `Attention should be given to outlier treatment in ${outlierColumns.length} variable${outlierColumns.length > 1 ? "s" : ""}, and ` : ""}${skewedColumns.length > 0 ? `distribution normalization for ${skewedColumns.length} skewed variable${skewedColumns.length > 1 ? "s" : ""}. ` : ""}By following the preprocessing recommendations and selecting appropriate algorithms based on the data characteristics outlined in this report, data scientists can develop robust predictive models and extract meaningful insights to drive data-driven decision-making.`);
+    sections.push({
+      id: "conclusion",
+      title: "CONCLUSION",
+      blocks: [
+        paragraph(`This dataset comprising ${data.rowCount.toLocaleString()} observations across ${data.headers.length} variables presents ${completeness >= 90 ? "strong" : completeness >= 70 ? "adequate" : "developing"} foundations for machine learning and statistical analysis. The dataset contains ${numericColumns.length} numeric ${numericColumns.length === 1 ? "variable" : "variables"} and ${categoricalColumns.length} categorical ${categoricalColumns.length === 1 ? "variable" : "variables"}, providing ${numericColumns.length + categoricalColumns.length >= 10 ? "rich" : "sufficient"} feature space for modeling. ${outlierColumns.length > 0 ? `Attention should be given to outlier treatment in ${outlierColumns.length} variable${outlierColumns.length > 1 ? "s" : ""}, and ` : ""}${skewedColumns.length > 0 ? `distribution normalization for ${skewedColumns.length} skewed variable${skewedColumns.length > 1 ? "s" : ""}. ` : ""}By following the preprocessing recommendations and selecting appropriate algorithms based on the data characteristics outlined in this report, data scientists can develop robust predictive models and extract meaningful insights to drive data-driven decision-making.`),
+      ],
+    });
+
+    const severityOrder: Record<FindingSeverity, number> = { critical: 0, warning: 1, info: 2 };
+    findings.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+
+    return {
+      title: "DATA SCIENCE ANALYSIS REPORT",
+      subtitle: "Comprehensive Dataset Evaluation and Insights",
+      generatedAt: new Date().toISOString(),
+      overview: {
+        rowCount: data.rowCount,
+        columnCount: data.headers.length,
+        totalCells,
+        populatedCells: totalCells - emptyCount,
+        completeness,
+        typeCounts: Object.fromEntries(typeCounts),
+        numericColumns,
+        categoricalColumns,
+        duplicateRows: duplicates,
+        duplicateScanRows: profile.duplicateScanRows,
+      },
+      columns,
+      timeSeries,
+      findings,
+      recommendations,
+      sections,
+    };
+  }
+
+  private temporalBlocks(timeSeries: TimeSeriesSummary, schema: TableSchema, addFinding: (finding: Omit<InsightFinding, "id">) => void): InsightBlock[] {
+    const blocks: InsightBlock[] = [];
+    const paragraph = (label: string, text: string): InsightBlock => ({ type: "paragraph", paragraph: { label, text } });
+    const format = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+    const signed = (percent: number) => `${percent >= 0 ? "+" : ""}${percent.toFixed(1)} percent`;
+    const describe = (metric: MetricSeries) =>
+      metric.aggregation === "count" ? "row count" : `${metric.aggregation === "sum" ? "total" : "average"} ${metric.name}`;
+    const { granularity, column } = timeSeries;
+    const first = formatPeriod(Date.parse(timeSeries.start), granularity);
+    const last = formatPeriod(Date.parse(timeSeries.end), granularity);
+
+    // Series that never change (one row per period, constant columns) have nothing to report
+    const metrics = timeSeries.metrics.filter(m => new Set(m.values.filter(v => v !== null)).size > 1).slice(0, 5);
+    const otherAxes = schema.columns.filter(c => this.schemaInferrer.isTemporal(c.type) && c.name !== column).map(c => c.name);
+
+    blocks.push(paragraph("Temporal Axis", [
+      `${column} (${TYPE_LABELS[timeSeries.columnType].toLowerCase()}) runs from ${first} to ${last} with ${GRANULARITY_ADJECTIVES[granularity]} granularity.`,
+      `Rows were grouped into ${timeSeries.expectedPeriods.toLocaleString()} ${GRANULARITY_ADJECTIVES[granularity]} periods${timeSeries.weekdaysOnly ? " (weekdays only: the data has no weekend rows)" : ""}, and ${timeSeries.metrics.length > 1 ? `${timeSeries.metrics.slice(1).map(describe).join(", ")} and the row count are` : "the row count is"} analyzed per period.`,
+      timeSeries.metrics.some(m => m.aggregation === "sum") ? "Columns named as totals (sales, amounts, quantities) are summed per period; other numeric columns, such as prices, rates or ages, are averaged." : "",
+      timeSeries.unparsedRows > 0 ? `${timeSeries.unparsedRows.toLocaleString()} rows have a value in ${column} that is not a recognizable date and were left out.` : "",
+      otherAxes.length > 0 ? `Other date columns (${otherAxes.join(", ")}) can be analyzed with the time_series_summary tool.` : "",
+    ].filter(Boolean).join(" ")));
+
+    const coverage: string[] = [];
+    if (timeSeries.missingPeriods === 0) {
+      coverage.push(`Every ${timeSeries.weekdaysOnly ? "weekday" : granularity} between the first and last timestamp has data.`);
+    } else {
+      const missingPercent = (timeSeries.missingPeriods / timeSeries.expectedPeriods) * 100;
+      coverage.push(`${timeSeries.missingPeriods.toLocaleString()} of ${timeSeries.expectedPeriods.toLocaleString()} ${GRANULARITY_ADJECTIVES[granularity]} periods (${missingPercent.toFixed(1)} percent) have no rows${timeSeries.largestGap ? `; the longest gap runs from ${timeSeries.largestGap.from} to ${timeSeries.largestGap.to} (${timeSeries.largestGap.periods.toLocaleString()} ${timeSeries.largestGap.periods === 1 ? "period" : "periods"})` : ""}. Gaps break lag and rolling features and can look like sudden drops to a forecasting model.`);
+      addFinding({ category: "time_gaps", severity: missingPercent > 10 ? "warning" : "info", columns: [column], message: `${timeSeries.missingPeriods.toLocaleString()} of ${timeSeries.expectedPeriods.toLocaleString()} ${GRANULARITY_ADJECTIVES[granularity]} periods of ${column} have no rows.`, value: missingPercent });
+    }
+    if (timeSeries.irregularIntervals) {
+      coverage.push(`Timestamps arrive at irregular intervals (the gaps between consecutive timestamps have a coefficient of variation of ${timeSeries.intervalVariation!.toFixed(2)}), which is typical of event or transaction data, so the analysis works on per-period aggregates rather than individual records.`);
+      addFinding({ category: "irregular_intervals", severity: "info", columns: [column], message: `${column} is irregularly spaced (coefficient of variation of intervals ${timeSeries.intervalVariation!.toFixed(2)}).`, value: timeSeries.intervalVariation! });
+    }
+    if (timeSeries.partialLastPeriod) {
+      coverage.push(`The last period (${timeSeries.periods[timeSeries.periods.length - 1]}) has less than half the usual number of rows and is probably incomplete, so period-over-period changes below are measured on the period before it.`);
+      addFinding({ category: "partial_period", severity: "info", columns: [column], message: `The last ${granularity} (${timeSeries.periods[timeSeries.periods.length - 1]}) appears to be incomplete.` });
+    }
+    blocks.push(paragraph("Coverage and Gaps", coverage.join(" ")));
+
+    if (metrics.length === 0) return blocks;
+
+    const trends = metrics.filter(m => m.trend);
+    if (trends.length > 0) {
+      const trending = trends.filter(m => m.trend!.direction !== "flat");
+      blocks.push(paragraph("Trend", `${trends.map(m => {
+        const trend = m.trend!;
+        return trend.direction === "flat"
+          ? `${describe(m)} shows no clear trend (R-squared ${trend.rSquared.toFixed(2)})`
+          : `${describe(m)} is ${trend.direction} by ${format(Math.abs(trend.slopePerPeriod))}${trend.percentPerPeriod !== null ? ` (${Math.abs(trend.percentPerPeriod).toFixed(2)} percent of its mean)` : ""} per ${granularity} (R-squared ${trend.rSquared.toFixed(2)})`;
+      }).join("; ")}. ${trending.length > 0 ? "Trending series are not stationary: difference or detrend them before fitting ARIMA-style models, and expect models trained on earlier periods to underestimate later levels." : "Level series like these can be modeled without detrending."}`.replace(/^./, c => c.toUpperCase())));
+      for (const m of trending) {
+        addFinding({ category: "trend", severity: "info", columns: m.column ? [column, m.column] : [column], message: `${describe(m).replace(/^./, c => c.toUpperCase())} is ${m.trend!.direction} over ${column} (R-squared ${m.trend!.rSquared.toFixed(2)}).`, value: m.trend!.slopePerPeriod });
+      }
+    }
+
+    const seasonal = metrics.filter(m => m.seasonality);
+    if (seasonal.length > 0) {
+      const { cycle, lag } = seasonal[0].seasonality!;
+      const tested = seasonal.filter(m => m.seasonality!.autocorrelation !== null);
+      const detected = tested.filter(m => m.seasonality!.detected);
+      let text: string;
+      if (tested.length === 0) {
+        text = `The series is too short to test for a ${cycle} cycle: at least ${lag * 2} ${GRANULARITY_ADJECTIVES[granularity]} periods are needed and there are ${timeSeries.periods.length.toLocaleString()}.`;
+      } else if (detected.length > 0) {
+        text = `${detected.map(m => `${describe(m)} follows a ${cycle} pattern (autocorrelation ${m.seasonality!.autocorrelation!.toFixed(2)} at a lag of ${lag} ${granularity}s), highest ${granularity === "day" ? "on" : "in"} ${m.seasonality!.peak} and lowest ${granularity === "day" ? "on" : "in"} ${m.seasonality!.trough}`).join("; ")}. Include calendar features or seasonal terms in forecasting models, and compare periods with the same position in the cycle rather than consecutive periods.`.replace(/^./, c => c.toUpperCase());
+        for (const m of detected) {
+          addFinding({ category: "seasonality", severity: "info", columns: m.column ? [column, m.column] : [column], message: `${describe(m).replace(/^./, c => c.toUpperCase())} has a ${cycle} cycle peaking ${granularity === "day" ? "on" : "in"} ${m.seasonality!.peak}.`, value: m.seasonality!.autocorrelation! });
+        }
+      } else {
+        text = `No ${cycle} cycle was found: after removing the trend, the autocorrelation at a lag of ${lag} ${granularity}s stays below 0.3 for every series.`;
+      }
+      blocks.push(paragraph("Seasonality", text));
+    }
 
-    return sections.join("\n");
+    const changes = metrics.filter(m => m.change && m.change.changePercent !== null);
+    if (changes.length > 0) {
+      const { period, previous, seasonalPrevious } = changes[0].change!;
+      blocks.push(paragraph("Period-over-Period Change", `In ${granularity === "week" ? "the " : ""}${period}, compared with ${granularity === "week" ? "the " : ""}${previous}${seasonalPrevious ? ` and with ${granularity === "week" ? "the " : ""}${seasonalPrevious} one cycle earlier` : ""}: ${changes.map(m => `${describe(m)} ${signed(m.change!.changePercent!)}${m.change!.seasonalChangePercent !== null ? ` (${signed(m.change!.seasonalChangePercent)} on the earlier cycle)` : ""}`).join(", ")}.`));
+    }
+
+    const rolling = metrics.filter(m => m.rolling.latestMean !== null).slice(0, 3);
+    if (rolling.length > 0) {
+      const { window } = rolling[0].rolling;
+      blocks.push(paragraph("Rolling Statistics", `Over a rolling window of ${window} ${granularity}s, ${rolling.map(m => `the mean ${describe(m)} ends at ${format(m.rolling.latestMean!)} (rolling standard deviation ${format(m.rolling.latestStdDev!)}) after ranging from ${format(m.rolling.min!.value)} (${m.rolling.min!.period}) to ${format(m.rolling.max!.value)} (${m.rolling.max!.period})`).join("; ")}. Rolling means smooth out ${granularity}-to-${granularity} noise and make good model features when shifted so that each period only sees earlier values.`));
+    }
+
+    return blocks;
   }
-}
\ No newline at end of file
+
+  private addMissingFinding(addFinding: (finding: Omit<InsightFinding, "id">) => void, column: string, missing: number, missingPercent: number): void {
+    addFinding({
+      category: "missing_values",
+      severity: missingPercent > 5 ? "warning" : "info",
+      columns: [column],
+      message: `${missing.toLocaleString()} value${missing > 1 ? "s" : ""} (${missingPercent.toFixed(1)} percent) of ${column} ${missing > 1 ? "are" : "is"} missing.`,
+      value: missingPercent,
+    });
+  }
+}
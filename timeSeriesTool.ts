@@ -0,0 +1,567 @@
+import { SchemaInferrer, type ColumnType, type TableSchema } from "./schemaTool.ts";
+import type { TableProfile } from "./streamTool.ts";
+
+export type TimeGranularity = "second" | "minute" | "hour" | "day" | "week" | "month" | "quarter" | "year";
+export type SeriesAggregation = "sum" | "mean" | "count";
+
+export interface TrendSummary {
+  direction: "increasing" | "decreasing" | "flat";
+  significant: boolean; // |t| of the regression slope is at least 2
+  slopePerPeriod: number;
+  percentPerPeriod: number | null; // Slope relative to the series mean
+  rSquared: number;
+}
+
+export interface SeasonalitySummary {
+  cycle: string; // "daily", "weekly" or "yearly"
+  lag: number; // Cycle length in periods
+  autocorrelation: number | null; // Of the detrended series at `lag`; null when the series is too short
+  detected: boolean;
+  peak: string | null; // Position in the cycle with the highest average detrended value ("Friday", "December")
+  trough: string | null;
+}
+
+export interface PeriodChange {
+  period: string;
+  previous: string | null;
+  changePercent: number | null;
+  seasonalPrevious: string | null; // Same position one cycle earlier (e.g. the same month last year)
+  seasonalChangePercent: number | null;
+}
+
+export interface RollingSummary {
+  window: number;
+  mean: Array<number | null>; // Per period, aligned with TimeSeriesSummary.periods
+  stdDev: Array<number | null>;
+  latestMean: number | null;
+  latestStdDev: number | null;
+  min: { period: string; value: number } | null;
+  max: { period: string; value: number } | null;
+}
+
+export interface MetricSeries {
+  name: string; // "rows" for the row count, otherwise the column name
+  column: string | null;
+  aggregation: SeriesAggregation;
+  values: Array<number | null>; // Per period; null where the period has no data
+  trend: TrendSummary | null;
+  seasonality: SeasonalitySummary | null;
+  change: PeriodChange | null;
+  rolling: RollingSummary;
+}
+
+export interface TimeSeriesSummary {
+  column: string;
+  columnType: ColumnType;
+  granularity: TimeGranularity;
+  start: string; // ISO 8601 timestamps of the first and last values
+  end: string;
+  rows: number; // Rows with a parsable timestamp
+  unparsedRows: number;
+  periods: string[]; // Every period between start and end, including those without rows
+  observedPeriods: number;
+  expectedPeriods: number;
+  missingPeriods: number;
+  missingPeriodSamples: string[];
+  largestGap: { from: string; to: string; periods: number } | null;
+  weekdaysOnly: boolean; // Daily data with no weekend rows; weekends are not counted as gaps
+  medianIntervalSeconds: number | null; // Between consecutive distinct timestamps
+  intervalVariation: number | null; // Coefficient of variation of those intervals
+  irregularIntervals: boolean;
+  partialLastPeriod: boolean;
+  metrics: MetricSeries[];
+}
+
+export interface TimeSeriesOptions {
+  column?: string;
+  granularity?: TimeGranularity;
+  valueColumns?: string[];
+  aggregation?: "sum" | "mean";
+}
+
+const GRANULARITIES: TimeGranularity[] = ["second", "minute", "hour", "day", "week", "month", "quarter", "year"];
+const NOMINAL_MS: Record<TimeGranularity, number> = {
+  second: 1000,
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+  week: 604_800_000,
+  month: 2_629_746_000,
+  quarter: 7_889_238_000,
+  year: 31_556_952_000,
+};
+export const GRANULARITY_ADJECTIVES: Record<TimeGranularity, string> = {
+  second: "per-second",
+  minute: "per-minute",
+  hour: "hourly",
+  day: "daily",
+  week: "weekly",
+  month: "monthly",
+  quarter: "quarterly",
+  year: "yearly",
+};
+const ROLLING_WINDOWS: Record<TimeGranularity, number> = { second: 60, minute: 60, hour: 24, day: 7, week: 4, month: 3, quarter: 4, year: 3 };
+const SEASONAL_CYCLES: Partial<Record<TimeGranularity, { cycle: string; lag: number }>> = {
+  hour: { cycle: "daily", lag: 24 },
+  day: { cycle: "weekly", lag: 7 },
+  week: { cycle: "yearly", lag: 52 },
+  month: { cycle: "yearly", lag: 12 },
+  quarter: { cycle: "yearly", lag: 4 },
+};
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MONTHS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+
+// Distinct timestamps kept before buckets are coarsened to the next resolution
+const MAX_BUCKETS = 20_000;
+// Periods kept in a summary; finer granularities are coarsened until the series fits
+const MAX_PERIODS = 1500;
+const MAX_METRICS = 8;
+const SEASONALITY_THRESHOLD = 0.3;
+const BUCKET_RESOLUTIONS: Array<TimeGranularity | "exact"> = ["exact", "second", "minute", "hour", "day", "month", "year"];
+// Names of columns holding quantities that add up over a period; other numeric columns are averaged, since the sum of
+// a unit price, an age or a rating grows with the number of rows rather than with the value
+const TOTAL_NAME = /\b(totals?|amounts?|revenues?|sales|quantity|quantities|qty|units|volume|counts?|orders|spend|spent|costs?|sum)\b/i;
+const AVERAGE_NAME = /\b(price|rate|ratio|percent|pct|avg|average|mean|median|per|score|rating|age)\b/i;
+
+// Whether a column's name marks it as a total ("Sales", "order_amount", "unitsSold") rather than a per-row value
+// such as "Unit Price"
+export function isTotalColumn(name: string): boolean {
+  const words = name.replace(/([a-z])([A-Z])/g, "$1 $2").replace(/[_\-.]+/g, " ");
+  return TOTAL_NAME.test(words) && !AVERAGE_NAME.test(words);
+}
+
+export function floorToPeriod(timestamp: number, granularity: TimeGranularity): number {
+  const date = new Date(timestamp);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (granularity) {
+    case "second":
+    case "minute":
+    case "hour":
+    case "day":
+      return Math.floor(timestamp / NOMINAL_MS[granularity]) * NOMINAL_MS[granularity];
+    case "week": {
+      // Weeks start on Monday
+      const day = Math.floor(timestamp / NOMINAL_MS.day) * NOMINAL_MS.day;
+      return day - ((date.getUTCDay() + 6) % 7) * NOMINAL_MS.day;
+    }
+    case "month":
+      return Date.UTC(year, month, 1);
+    case "quarter":
+      return Date.UTC(year, month - (month % 3), 1);
+    case "year":
+      return Date.UTC(year, 0, 1);
+  }
+}
+
+function nextPeriod(periodStart: number, granularity: TimeGranularity): number {
+  const date = new Date(periodStart);
+  switch (granularity) {
+    case "month":
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+    case "quarter":
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 3, 1);
+    case "year":
+      return Date.UTC(date.getUTCFullYear() + 1, 0, 1);
+    default:
+      return periodStart + NOMINAL_MS[granularity];
+  }
+}
+
+export function formatPeriod(periodStart: number, granularity: TimeGranularity): string {
+  const iso = new Date(periodStart).toISOString();
+  const month = new Date(periodStart).getUTCMonth();
+  switch (granularity) {
+    case "second":
+      return `${iso.substring(0, 10)} ${iso.substring(11, 19)}`;
+    case "minute":
+      return `${iso.substring(0, 10)} ${iso.substring(11, 16)}`;
+    case "hour":
+      return `${iso.substring(0, 10)} ${iso.substring(11, 13)}:00`;
+    case "day":
+      return iso.substring(0, 10);
+    case "week":
+      return `week of ${iso.substring(0, 10)}`;
+    case "month":
+      return iso.substring(0, 7);
+    case "quarter":
+      return `${iso.substring(0, 4)}-Q${Math.floor(month / 3) + 1}`;
+    case "year":
+      return iso.substring(0, 4);
+  }
+}
+
+// Position of a period within its seasonal cycle, e.g. the weekday of a day or the month of a month
+function cyclePosition(periodStart: number, granularity: TimeGranularity): { index: number; label: string } {
+  const date = new Date(periodStart);
+  switch (granularity) {
+    case "hour":
+      return { index: date.getUTCHours(), label: `${String(date.getUTCHours()).padStart(2, "0")}:00` };
+    case "day":
+      return { index: date.getUTCDay(), label: WEEKDAYS[date.getUTCDay()] };
+    case "week": {
+      const week = Math.min(51, Math.floor((periodStart - Date.UTC(date.getUTCFullYear(), 0, 1)) / NOMINAL_MS.week));
+      return { index: week, label: `week ${week + 1}` };
+    }
+    case "month":
+      return { index: date.getUTCMonth(), label: MONTHS[date.getUTCMonth()] };
+    default:
+      return { index: Math.floor(date.getUTCMonth() / 3), label: `Q${Math.floor(date.getUTCMonth() / 3) + 1}` };
+  }
+}
+
+// Picks the temporal column with the most distinct values as the table's time axis
+export function findTimeAxis(schema: TableSchema, profile: TableProfile): number {
+  const inferrer = new SchemaInferrer();
+  let best = -1;
+  schema.columns.forEach((column, idx) => {
+    const stats = profile.columns[idx];
+    if (!inferrer.isTemporal(column.type) || !stats.temporal || stats.distinct < 3) return;
+    if (best === -1 || stats.distinct > profile.columns[best].distinct) best = idx;
+  });
+  return best;
+}
+
+interface Bucket {
+  rows: number;
+  sums: Float64Array;
+  counts: Float64Array;
+}
+
+// Buckets rows by timestamp in one pass, coarsening the bucket resolution when there are too many
+// distinct timestamps, then infers the granularity and derives trend, seasonality, gaps and rolling statistics
+export class TimeSeriesAnalyzer {
+  private inferrer = new SchemaInferrer();
+  private metricIndexes: number[];
+  private aggregations: Array<"sum" | "mean">;
+  private buckets = new Map<number, Bucket>();
+  private resolution = 0; // Index into BUCKET_RESOLUTIONS
+  private rows = 0;
+  private unparsedRows = 0;
+  private columnType: ColumnType;
+  private dayFirst?: boolean;
+
+  constructor(
+    private headers: string[],
+    schema: TableSchema,
+    private columnIndex: number,
+    options: TimeSeriesOptions = {},
+  ) {
+    this.columnType = schema.columns[columnIndex].type;
+    this.dayFirst = schema.columns[columnIndex].dayFirst;
+    const candidates = options.valueColumns
+      ? options.valueColumns.map(name => headers.findIndex(h => h.toLowerCase() === name.toLowerCase())).filter(idx => idx !== -1)
+      : schema.columns.flatMap((column, idx) => this.inferrer.isNumeric(column.type) ? [idx] : []);
+    this.metricIndexes = candidates.filter(idx => idx !== columnIndex).slice(0, MAX_METRICS);
+    // Counts and amounts add up per period; rates, prices and measurements are averaged
+    this.aggregations = this.metricIndexes.map(idx =>
+      options.aggregation ?? (schema.columns[idx].type !== "percentage" && isTotalColumn(headers[idx]) ? "sum" : "mean")
+    );
+  }
+
+  addRow(row: string[]): void {
+    const timestamp = this.inferrer.parseDate(row[this.columnIndex] ?? "", this.dayFirst);
+    if (timestamp === null) {
+      if ((row[this.columnIndex] ?? "").trim() !== "") this.unparsedRows++;
+      return;
+    }
+    this.rows++;
+
+    const key = this.bucketKey(timestamp);
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { rows: 0, sums: new Float64Array(this.metricIndexes.length), counts: new Float64Array(this.metricIndexes.length) };
+      this.buckets.set(key, bucket);
+    }
+    bucket.rows++;
+    this.metricIndexes.forEach((colIdx, m) => {
+      const value = this.inferrer.parseNumber(row[colIdx] ?? "");
+      if (value !== null) {
+        bucket!.sums[m] += value;
+        bucket!.counts[m]++;
+      }
+    });
+
+    if (this.buckets.size > MAX_BUCKETS && this.resolution < BUCKET_RESOLUTIONS.length - 1) {
+      this.resolution++;
+      this.buckets = this.rebucket(this.buckets, key => this.bucketKey(key));
+    }
+  }
+
+  finish(granularityOverride?: TimeGranularity): TimeSeriesSummary | null {
+    if (this.buckets.size === 0) return null;
+
+    const keys = Array.from(this.buckets.keys()).sort((a, b) => a - b);
+    const intervals = keys.slice(1).map((key, idx) => key - keys[idx]);
+    const medianInterval = intervals.length > 0 ? [...intervals].sort((a, b) => a - b)[Math.floor(intervals.length / 2)] : null;
+    const intervalMean = intervals.length > 0 ? intervals.reduce((sum, i) => sum + i, 0) / intervals.length : 0;
+    const intervalVariation = intervals.length > 1 && intervalMean > 0
+      ? Math.sqrt(intervals.reduce((sum, i) => sum + (i - intervalMean) ** 2, 0) / intervals.length) / intervalMean
+      : null;
+
+    // The granularity is the finest period that holds consecutive timestamps in adjacent periods
+    const resolution = BUCKET_RESOLUTIONS[this.resolution];
+    const minimum = resolution === "exact" ? 0 : GRANULARITIES.indexOf(resolution);
+    let level = granularityOverride
+      ? GRANULARITIES.indexOf(granularityOverride)
+      : medianInterval === null ? GRANULARITIES.indexOf("day") : GRANULARITIES.findIndex(g => NOMINAL_MS[g] >= medianInterval * 0.9);
+    if (level === -1) level = GRANULARITIES.length - 1;
+    level = Math.max(level, minimum);
+
+    const first = keys[0];
+    const last = keys[keys.length - 1];
+    let grid = this.periodGrid(first, last, GRANULARITIES[level]);
+    while (grid.length > MAX_PERIODS && level < GRANULARITIES.length - 1) {
+      level++;
+      grid = this.periodGrid(first, last, GRANULARITIES[level]);
+    }
+    const granularity = GRANULARITIES[level];
+
+    const periodIndex = new Map(grid.map((start, idx) => [start, idx]));
+    const periodBuckets: Array<Bucket | null> = grid.map(() => null);
+    for (const [key, bucket] of this.rebucket(this.buckets, key => floorToPeriod(key, granularity))) {
+      periodBuckets[periodIndex.get(key)!] = bucket;
+    }
+    const labels = grid.map(start => formatPeriod(start, granularity));
+
+    // Daily business data has no weekend rows; those days are not gaps
+    const isWeekend = (start: number) => [0, 6].includes(new Date(start).getUTCDay());
+    const weekdaysOnly = granularity === "day" && grid.length >= 14 && periodBuckets.every((b, idx) => b === null || !isWeekend(grid[idx]));
+    const expected = grid.map(start => !(weekdaysOnly && isWeekend(start)));
+
+    const missing = grid.flatMap((_, idx) => expected[idx] && periodBuckets[idx] === null ? [idx] : []);
+    let largestGap: TimeSeriesSummary["largestGap"] = null;
+    let runStart = -1;
+    let runLength = 0;
+    for (let idx = 0; idx <= grid.length; idx++) {
+      if (idx < grid.length && !expected[idx]) continue;
+      if (idx < grid.length && periodBuckets[idx] === null) {
+        if (runStart === -1) runStart = idx;
+        runLength++;
+        continue;
+      }
+      if (runLength > 0 && (!largestGap || runLength > largestGap.periods)) {
+        largestGap = { from: labels[runStart], to: labels[missing[missing.indexOf(runStart) + runLength - 1]], periods: runLength };
+      }
+      runStart = -1;
+      runLength = 0;
+    }
+
+    const observedRows = periodBuckets.filter((b): b is Bucket => b !== null).map(b => b.rows);
+    const medianRows = [...observedRows].sort((a, b) => a - b)[Math.floor(observedRows.length / 2)];
+    const lastBucket = periodBuckets[periodBuckets.length - 1];
+    const partialLastPeriod = observedRows.length >= 4 && lastBucket !== null && lastBucket.rows < medianRows * 0.5;
+
+    const metrics: MetricSeries[] = [
+      this.analyzeMetric("rows", null, "count", periodBuckets.map(b => b ? b.rows : null), grid, labels, granularity, partialLastPeriod),
+      ...this.metricIndexes.map((colIdx, m) =>
+        this.analyzeMetric(this.headers[colIdx], this.headers[colIdx], this.aggregations[m], periodBuckets.map(b => {
+          if (!b || b.counts[m] === 0) return null;
+          return this.aggregations[m] === "sum" ? b.sums[m] : b.sums[m] / b.counts[m];
+        }), grid, labels, granularity, partialLastPeriod)
+      ),
+    ];
+
+    return {
+      column: this.headers[this.columnIndex],
+      columnType: this.columnType,
+      granularity,
+      start: new Date(first).toISOString(),
+      end: new Date(last).toISOString(),
+      rows: this.rows,
+      unparsedRows: this.unparsedRows,
+      periods: labels,
+      observedPeriods: observedRows.length,
+      expectedPeriods: expected.filter(Boolean).length,
+      missingPeriods: missing.length,
+      missingPeriodSamples: missing.slice(0, 10).map(idx => labels[idx]),
+      largestGap,
+      weekdaysOnly,
+      medianIntervalSeconds: medianInterval === null ? null : medianInterval / 1000,
+      intervalVariation,
+      irregularIntervals: intervalVariation !== null && intervalVariation >= 0.75,
+      partialLastPeriod,
+      metrics,
+    };
+  }
+
+  private bucketKey(timestamp: number): number {
+    const resolution = BUCKET_RESOLUTIONS[this.resolution];
+    return resolution === "exact" ? timestamp : floorToPeriod(timestamp, resolution);
+  }
+
+  private rebucket(buckets: Map<number, Bucket>, keyOf: (key: number) => number): Map<number, Bucket> {
+    const merged = new Map<number, Bucket>();
+    for (const [key, bucket] of buckets) {
+      const target = keyOf(key);
+      const existing = merged.get(target);
+      if (!existing) {
+        merged.set(target, { rows: bucket.rows, sums: bucket.sums.slice(), counts: bucket.counts.slice() });
+        continue;
+      }
+      existing.rows += bucket.rows;
+      bucket.sums.forEach((sum, m) => existing.sums[m] += sum);
+      bucket.counts.forEach((count, m) => existing.counts[m] += count);
+    }
+    return merged;
+  }
+
+  private periodGrid(first: number, last: number, granularity: TimeGranularity): number[] {
+    const grid: number[] = [];
+    for (let start = floorToPeriod(first, granularity); start <= last && grid.length <= MAX_PERIODS; start = nextPeriod(start, granularity)) {
+      grid.push(start);
+    }
+    return grid;
+  }
+
+  private analyzeMetric(
+    name: string,
+    column: string | null,
+    aggregation: SeriesAggregation,
+    values: Array<number | null>,
+    grid: number[],
+    labels: string[],
+    granularity: TimeGranularity,
+    partialLastPeriod: boolean,
+  ): MetricSeries {
+    const points = values.flatMap((value, idx) => value === null ? [] : [{ x: idx, y: value }]);
+    const trend = this.fitTrend(points);
+
+    let seasonality: SeasonalitySummary | null = null;
+    const cycle = SEASONAL_CYCLES[granularity];
+    if (cycle) {
+      seasonality = { cycle: cycle.cycle, lag: cycle.lag, autocorrelation: null, detected: false, peak: null, trough: null };
+      if (values.length >= cycle.lag * 2 && points.length >= cycle.lag + 2) {
+        // Detrend first so a steady rise is not mistaken for a repeating pattern
+        const fitted = this.fitLine(points);
+        const residuals = values.map((value, idx) => value === null ? null : value - (fitted.intercept + fitted.slope * idx));
+        seasonality.autocorrelation = this.autocorrelation(residuals, cycle.lag);
+
+        const positions = new Map<number, { label: string; sum: number; count: number }>();
+        residuals.forEach((residual, idx) => {
+          if (residual === null) return;
+          const { index, label } = cyclePosition(grid[idx], granularity);
+          const entry = positions.get(index) ?? { label, sum: 0, count: 0 };
+          entry.sum += residual;
+          entry.count++;
+          positions.set(index, entry);
+        });
+        const averages = Array.from(positions.values()).map(p => ({ label: p.label, mean: p.sum / p.count }));
+        averages.sort((a, b) => b.mean - a.mean);
+        if (seasonality.autocorrelation !== null) {
+          seasonality.detected = seasonality.autocorrelation >= SEASONALITY_THRESHOLD;
+          seasonality.peak = averages[0].label;
+          seasonality.trough = averages[averages.length - 1].label;
+        }
+      }
+    }
+
+    // An incomplete final period would show a spurious drop, so changes are measured on the last complete one
+    let change: PeriodChange | null = null;
+    const lastIdx = values.length - (partialLastPeriod ? 2 : 1);
+    if (lastIdx > 0 && values[lastIdx] !== null) {
+      const percent = (from: number | null) => from === null || from === 0 ? null : ((values[lastIdx]! - from) / Math.abs(from)) * 100;
+      const seasonalIdx = cycle ? lastIdx - cycle.lag : -1;
+      // Skips empty periods, such as weekends in business-day data
+      let previousIdx = lastIdx - 1;
+      while (previousIdx > 0 && values[previousIdx] === null) previousIdx--;
+      change = {
+        period: labels[lastIdx],
+        previous: labels[previousIdx],
+        changePercent: percent(values[previousIdx]),
+        seasonalPrevious: seasonalIdx >= 0 ? labels[seasonalIdx] : null,
+        seasonalChangePercent: seasonalIdx >= 0 ? percent(values[seasonalIdx]) : null,
+      };
+    }
+
+    return { name, column, aggregation, values, trend, seasonality, change, rolling: this.rolling(values, labels, ROLLING_WINDOWS[granularity]) };
+  }
+
+  private fitLine(points: Array<{ x: number; y: number }>): { slope: number; intercept: number; r: number } {
+    const n = points.length;
+    const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+    const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+    let sxx = 0;
+    let syy = 0;
+    let sxy = 0;
+    for (const { x, y } of points) {
+      sxx += (x - meanX) ** 2;
+      syy += (y - meanY) ** 2;
+      sxy += (x - meanX) * (y - meanY);
+    }
+    const slope = sxx > 0 ? sxy / sxx : 0;
+    return { slope, intercept: meanY - slope * meanX, r: sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0 };
+  }
+
+  private fitTrend(points: Array<{ x: number; y: number }>): TrendSummary | null {
+    if (points.length < 4) return null;
+    const { slope, r } = this.fitLine(points);
+    const n = points.length;
+    const rSquared = r * r;
+    const t = rSquared < 1 ? Math.abs(r) * Math.sqrt((n - 2) / (1 - rSquared)) : Infinity;
+    const significant = t >= 2;
+    const mean = points.reduce((sum, p) => sum + p.y, 0) / n;
+
+    return {
+      direction: !significant || slope === 0 ? "flat" : slope > 0 ? "increasing" : "decreasing",
+      significant,
+      slopePerPeriod: slope,
+      percentPerPeriod: mean !== 0 ? (slope / Math.abs(mean)) * 100 : null,
+      rSquared,
+    };
+  }
+
+  private autocorrelation(values: Array<number | null>, lag: number): number | null {
+    const present = values.filter((v): v is number => v !== null);
+    const mean = present.reduce((sum, v) => sum + v, 0) / present.length;
+    const variance = present.reduce((sum, v) => sum + (v - mean) ** 2, 0) / present.length;
+    if (variance === 0) return null;
+
+    let covariance = 0;
+    let pairs = 0;
+    for (let i = 0; i + lag < values.length; i++) {
+      const a = values[i];
+      const b = values[i + lag];
+      if (a === null || b === null) continue;
+      covariance += (a - mean) * (b - mean);
+      pairs++;
+    }
+    return pairs >= 2 ? covariance / pairs / variance : null;
+  }
+
+  private rolling(values: Array<number | null>, labels: string[], window: number): RollingSummary {
+    const mean: Array<number | null> = [];
+    const stdDev: Array<number | null> = [];
+    const minCount = Math.ceil(window / 2);
+
+    for (let i = 0; i < values.length; i++) {
+      const slice = values.slice(Math.max(0, i - window + 1), i + 1).filter((v): v is number => v !== null);
+      if (i < window - 1 || slice.length < minCount) {
+        mean.push(null);
+        stdDev.push(null);
+        continue;
+      }
+      const avg = slice.reduce((sum, v) => sum + v, 0) / slice.length;
+      mean.push(avg);
+      stdDev.push(slice.length > 1 ? Math.sqrt(slice.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (slice.length - 1)) : 0);
+    }
+
+    let min: RollingSummary["min"] = null;
+    let max: RollingSummary["max"] = null;
+    mean.forEach((value, idx) => {
+      if (value === null) return;
+      if (!min || value < min.value) min = { period: labels[idx], value };
+      if (!max || value > max.value) max = { period: labels[idx], value };
+    });
+
+    return {
+      window,
+      mean,
+      stdDev,
+      latestMean: mean[mean.length - 1] ?? null,
+      latestStdDev: stdDev[stdDev.length - 1] ?? null,
+      min,
+      max,
+    };
+  }
+}
@@ -0,0 +1,845 @@
+import { SchemaInferrer, type TableSchema } from "./schemaTool.ts";
+import type { TableProfile } from "./streamTool.ts";
+
+// Cleaning and feature transformations over table rows, run as a list of steps. A step that needs statistics of its
+// input (imputation values, outlier bounds, bin edges, categories) is fitted with a pass over the rows as the earlier
+// steps leave them, so every pass streams from the row store. The steps are saved as a JSON recipe that can be
+// replayed on another version of the table; replaying fits the statistics again on the new rows.
+
+export type CastType = "number" | "integer" | "date" | "datetime" | "boolean";
+export type ImputeMethod = "mean" | "median" | "mode" | "constant";
+
+export type TransformStep =
+  | { op: "drop_columns"; columns: string[] }
+  | { op: "rename_column"; column: string; to: string }
+  | { op: "cast"; column: string; to: CastType }
+  | { op: "impute"; columns: string[]; method: ImputeMethod; value?: string }
+  | { op: "normalize_text"; columns?: string[]; case?: "lower" | "upper" | "title"; collapse_whitespace?: boolean }
+  | { op: "deduplicate"; columns?: string[] }
+  | { op: "cap_outliers"; columns: string[]; method?: "iqr" | "percentile"; factor?: number; lower?: number; upper?: number }
+  | { op: "log"; column: string; new_column?: string }
+  | { op: "box_cox"; column: string; lambda?: number; new_column?: string }
+  | { op: "bin"; column: string; method?: "equal_width" | "quantile"; bins?: number; edges?: number[]; labels?: string[]; new_column?: string }
+  | { op: "encode"; column: string; method: "one_hot" | "ordinal"; max_categories?: number; order?: string[]; keep_original?: boolean; new_column?: string };
+
+export type TransformOp = TransformStep["op"];
+
+export const RECIPE_FORMAT = "insightflow-recipe";
+
+export interface TransformRecipe {
+  format: typeof RECIPE_FORMAT;
+  version: 1;
+  name?: string;
+  source?: { dataset: string; name: string; headers: string[] }; // Table the recipe was first run on
+  steps: TransformStep[];
+  createdAt: string;
+}
+
+export interface StepResult {
+  step: number; // 1-based position in the recipe
+  op: TransformOp;
+  summary: string;
+  changedCells: number;
+  removedRows: number;
+  invalidValues: number; // Values a numeric or date step could not read; they are left empty
+  fitted?: Record<string, unknown>; // Statistics the step was fitted with on this run
+}
+
+export interface ProposedStep {
+  step: TransformStep;
+  reason: string;
+}
+
+const OPS: TransformOp[] = ["drop_columns", "rename_column", "cast", "impute", "normalize_text", "deduplicate", "cap_outliers", "log", "box_cox", "bin", "encode"];
+const FIT_SAMPLE_SIZE = 1_000_000; // Numeric values kept per column for medians, quantiles and Box-Cox
+const CATEGORY_LIMIT = 10_000; // Distinct values counted per column for modes and encodings
+const DEFAULT_BINS = 5;
+const DEFAULT_MAX_CATEGORIES = 20;
+const DEFAULT_IQR_FACTOR = 1.5;
+const MAX_ONE_HOT_CATEGORIES = 100;
+
+interface StepCounts {
+  changedCells: number;
+  removedRows: number;
+  invalidValues: number;
+}
+
+// A fitted step: its output headers, and a factory for the row function of one pass (deduplication keeps state per pass)
+interface CompiledStep {
+  headers: string[];
+  fitted?: Record<string, unknown>;
+  describe: (counts: StepCounts) => string;
+  start: (counts: StepCounts) => (row: string[]) => string[] | null;
+}
+
+// Values of the columns a step is fitted on, as the earlier steps leave them
+class ColumnStats {
+  count = 0; // Non-empty values
+  missing = 0;
+  numbers: number[] = [];
+  numericCount = 0;
+  sum = 0;
+  min = Infinity;
+  max = -Infinity;
+  counts = new Map<string, number>();
+  countsComplete = true;
+  dayFirstDates = 0; // Numeric dates that can only be read day-first, as in 31/01/2024
+  private sorted: Float64Array | null = null; // The numeric sample, sorted on first use
+
+  add(value: string, inferrer: SchemaInferrer): void {
+    const text = value.trim();
+    if (!text) {
+      this.missing++;
+      return;
+    }
+    this.count++;
+
+    const existing = this.counts.get(text);
+    if (existing !== undefined) this.counts.set(text, existing + 1);
+    else if (this.counts.size < CATEGORY_LIMIT) this.counts.set(text, 1);
+    else this.countsComplete = false;
+    if (inferrer.isDayFirstDate(text)) this.dayFirstDates++;
+
+    const number = inferrer.parseNumber(text);
+    if (number === null) return;
+    this.numericCount++;
+    this.sum += number;
+    if (number < this.min) this.min = number;
+    if (number > this.max) this.max = number;
+    // Uniform reservoir once the sample is full
+    if (this.numbers.length < FIT_SAMPLE_SIZE) {
+      this.numbers.push(number);
+    } else {
+      const slot = Math.floor(Math.random() * this.numericCount);
+      if (slot < FIT_SAMPLE_SIZE) this.numbers[slot] = number;
+    }
+  }
+
+  quantile(q: number): number {
+    if (!this.sorted) this.sorted = Float64Array.from(this.numbers).sort();
+    const position = (this.sorted.length - 1) * q;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return this.sorted[lower] + (this.sorted[upper] - this.sorted[lower]) * (position - lower);
+  }
+
+  mode(): string | null {
+    let best: string | null = null;
+    let bestCount = 0;
+    for (const [value, count] of this.counts) {
+      if (count > bestCount) {
+        best = value;
+        bestCount = count;
+      }
+    }
+    return best;
+  }
+}
+
+// Collects the statistics a pending step is fitted with
+export class StepFitter {
+  readonly stats: ColumnStats[];
+
+  constructor(private columns: number[], private inferrer: SchemaInferrer) {
+    this.stats = columns.map(() => new ColumnStats());
+  }
+
+  addRow(row: string[]): void {
+    this.columns.forEach((col, idx) => this.stats[idx].add(row[col] ?? "", this.inferrer));
+  }
+}
+
+export class TransformPipeline {
+  private inferrer = new SchemaInferrer();
+  private compiled: CompiledStep[] = [];
+  private counts: StepCounts[] = [];
+  readonly steps: TransformStep[];
+
+  constructor(private inputHeaders: string[], steps: unknown) {
+    this.steps = validateSteps(steps);
+    this.advance();
+  }
+
+  // Output columns of the steps fitted so far
+  get headers(): string[] {
+    return this.compiled.length > 0 ? this.compiled[this.compiled.length - 1].headers : this.inputHeaders;
+  }
+
+  // The next step needs a pass over the rows before it can run
+  get needsFit(): boolean {
+    return this.compiled.length < this.steps.length;
+  }
+
+  // Statistics collector for the next step; feed it the output of rows()
+  fitter(): StepFitter {
+    const stepIdx = this.compiled.length;
+    const columns = this.forStep(stepIdx, () => this.fitColumns(this.steps[stepIdx]).map(name => this.column(name)));
+    return new StepFitter(columns, this.inferrer);
+  }
+
+  fit(fitter: StepFitter): void {
+    const stepIdx = this.compiled.length;
+    this.compiled.push(this.forStep(stepIdx, () => this.compile(this.steps[stepIdx], fitter.stats)));
+    this.advance();
+  }
+
+  // Runs the fitted steps over the source rows. With `count`, the per-step counts of this pass become the results.
+  async *rows(source: AsyncIterable<string[]>, count = false): AsyncGenerator<string[]> {
+    const counts = this.compiled.map(() => ({ changedCells: 0, removedRows: 0, invalidValues: 0 }));
+    if (count) this.counts = counts;
+    const functions = this.compiled.map((step, idx) => step.start(counts[idx]));
+    const width = this.inputHeaders.length;
+
+    for await (const input of source) {
+      let row: string[] | null = input.length === width ? input : this.inputHeaders.map((_, idx) => input[idx] ?? "");
+      for (const apply of functions) {
+        row = apply(row);
+        if (!row) break;
+      }
+      if (row) yield row;
+    }
+  }
+
+  // What each step did in the last counted pass
+  results(): StepResult[] {
+    return this.compiled.map((step, idx) => {
+      const counts = this.counts[idx] ?? { changedCells: 0, removedRows: 0, invalidValues: 0 };
+      return {
+        step: idx + 1,
+        op: this.steps[idx].op,
+        summary: step.describe(counts),
+        ...counts,
+        ...(step.fitted ? { fitted: step.fitted } : {}),
+      };
+    });
+  }
+
+  // Compiles steps up to the next one that needs statistics
+  private advance(): void {
+    while (this.compiled.length < this.steps.length) {
+      const stepIdx = this.compiled.length;
+      const step = this.steps[stepIdx];
+      if (this.fitColumns(step).length > 0) return;
+      this.compiled.push(this.forStep(stepIdx, () => this.compile(step, [])));
+    }
+  }
+
+  // Columns whose statistics a step needs; none when it can run without a fitting pass
+  private fitColumns(step: TransformStep): string[] {
+    switch (step.op) {
+      case "impute":
+        return step.method === "constant" ? [] : step.columns;
+      case "cap_outliers":
+        return step.columns;
+      case "log":
+        return [step.column];
+      case "box_cox":
+        return [step.column];
+      case "bin":
+        return step.edges ? [] : [step.column];
+      case "encode":
+        return step.method === "ordinal" && step.order ? [] : [step.column];
+      case "cast":
+        // Dates are read in one day order for the whole column, learned from its values
+        return step.to === "date" || step.to === "datetime" ? [step.column] : [];
+      default:
+        return [];
+    }
+  }
+
+  // Errors name the step they come from
+  private forStep<T>(stepIdx: number, run: () => T): T {
+    try {
+      return run();
+    } catch (error) {
+      throw new Error(`Step ${stepIdx + 1} (${this.steps[stepIdx].op}): ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private column(name: string, headers = this.headers): number {
+    const wanted = name.trim().toLowerCase();
+    const idx = headers.findIndex(header => header.trim().toLowerCase() === wanted);
+    if (idx === -1) throw new Error(`Column not found: ${name}. Available columns: ${headers.join(", ")}`);
+    return idx;
+  }
+
+  private newColumnName(name: string, headers: string[], replacing?: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error("New column names cannot be empty");
+    const clash = headers.find(header => header.trim().toLowerCase() === trimmed.toLowerCase());
+    if (clash && clash !== replacing) throw new Error(`Column ${trimmed} already exists`);
+    return trimmed;
+  }
+
+  private compile(step: TransformStep, stats: ColumnStats[]): CompiledStep {
+    const headers = this.headers;
+    const inferrer = this.inferrer;
+    const fail = (message: string): never => {
+      throw new Error(message);
+    };
+    const numeric = (stat: ColumnStats, name: string) => {
+      if (stat.numericCount === 0 || stat.numericCount < stat.count / 2) fail(`${name} is not a numeric column`);
+    };
+    // Rewrites single cells; a null result leaves the cell empty and counts it as invalid
+    const mapCells = (columns: number[], map: (value: string, colIdx: number) => string | null) => (counts: StepCounts) => (row: string[]) => {
+      let copy: string[] | null = null;
+      for (const col of columns) {
+        const before = row[col] ?? "";
+        let after = map(before, col);
+        if (after === null) {
+          counts.invalidValues++;
+          after = "";
+        }
+        if (after === before) continue;
+        copy ??= row.slice();
+        copy[col] = after;
+        counts.changedCells++;
+      }
+      return copy ?? row;
+    };
+    // Writes a derived value into the column itself, or into a new column placed after it
+    const derive = (col: number, newColumn: string | undefined, map: (value: string) => string | null) => {
+      if (!newColumn) return { headers, start: mapCells([col], value => (value.trim() ? map(value) : value)) };
+      const name = this.newColumnName(newColumn, headers);
+      return {
+        headers: [...headers.slice(0, col + 1), name, ...headers.slice(col + 1)],
+        start: (counts: StepCounts) => (row: string[]) => {
+          const value = row[col] ?? "";
+          let result = value.trim() ? map(value) : "";
+          if (result === null) {
+            counts.invalidValues++;
+            result = "";
+          }
+          if (result) counts.changedCells++;
+          return [...row.slice(0, col + 1), result, ...row.slice(col + 1)];
+        },
+      };
+    };
+    const invalidNote = (counts: StepCounts, what: string) => (counts.invalidValues > 0 ? ` ${counts.invalidValues.toLocaleString()} ${what} left empty.` : "");
+
+    switch (step.op) {
+      case "drop_columns": {
+        const dropped = new Set(step.columns.map(name => this.column(name)));
+        if (dropped.size === headers.length) fail("cannot drop every column");
+        const kept = headers.map((_, idx) => idx).filter(idx => !dropped.has(idx));
+        return {
+          headers: kept.map(idx => headers[idx]),
+          describe: () => `Dropped ${[...dropped].map(idx => headers[idx]).join(", ")}.`,
+          start: () => row => kept.map(idx => row[idx] ?? ""),
+        };
+      }
+
+      case "rename_column": {
+        const col = this.column(step.column);
+        const name = this.newColumnName(step.to, headers, headers[col]);
+        return {
+          headers: headers.map((header, idx) => (idx === col ? name : header)),
+          describe: () => `Renamed ${headers[col]} to ${name}.`,
+          start: () => row => row,
+        };
+      }
+
+      case "cast": {
+        const col = this.column(step.column);
+        const dayFirst = (stats[0]?.dayFirstDates ?? 0) > 0;
+        const convert: Record<CastType, (value: string) => string | null> = {
+          number: value => {
+            const number = inferrer.parseNumber(value);
+            return number === null ? null : formatNumber(number);
+          },
+          integer: value => {
+            const number = inferrer.parseNumber(value);
+            return number === null ? null : String(Math.round(number));
+          },
+          date: value => {
+            const timestamp = inferrer.parseDate(value, dayFirst);
+            return timestamp === null ? null : new Date(timestamp).toISOString().substring(0, 10);
+          },
+          datetime: value => {
+            const timestamp = inferrer.parseDate(value, dayFirst);
+            return timestamp === null ? null : new Date(timestamp).toISOString().substring(0, 19).replace("T", " ");
+          },
+          boolean: value => {
+            const flag = inferrer.parseBoolean(value);
+            return flag === null ? null : String(flag);
+          },
+        };
+        const map = convert[step.to];
+        return {
+          headers,
+          fitted: step.to === "date" || step.to === "datetime" ? { dayFirst } : undefined,
+          describe: counts => `Cast ${headers[col]} to ${step.to}: ${counts.changedCells.toLocaleString()} values rewritten.${invalidNote(counts, `values that are not ${step.to === "integer" ? "an integer" : `a ${step.to}`} were`)}`,
+          start: mapCells([col], value => (value.trim() ? map(value.trim()) : value)),
+        };
+      }
+
+      case "impute": {
+        const columns = step.columns.map(name => this.column(name));
+        let fills: string[];
+        if (step.method === "constant") {
+          if (step.value === undefined || step.value === "") fail("a constant fill needs a value");
+          fills = columns.map(() => step.value!);
+        } else {
+          fills = stats.map((stat, idx) => {
+            const name = headers[columns[idx]];
+            if (stat.count === 0) fail(`${name} has no values to compute a ${step.method} from`);
+            if (step.method === "mode") return stat.mode()!;
+            numeric(stat, name);
+            return formatNumber(step.method === "mean" ? stat.sum / stat.numericCount : stat.quantile(0.5));
+          });
+        }
+        const fillFor = new Map(columns.map((col, idx) => [col, fills[idx]]));
+        return {
+          headers,
+          fitted: step.method === "constant" ? undefined : { values: Object.fromEntries(columns.map((col, idx) => [headers[col], fills[idx]])) },
+          describe: counts => `Filled ${counts.changedCells.toLocaleString()} empty cell(s) of ${columns.map((col, idx) => `${headers[col]} (with ${step.method === "constant" ? "" : `the ${step.method} `}${fills[idx]})`).join(", ")}.`,
+          start: mapCells(columns, (value, col) => (value.trim() ? value : fillFor.get(col)!)),
+        };
+      }
+
+      case "normalize_text": {
+        const columns = step.columns && step.columns.length > 0 ? step.columns.map(name => this.column(name)) : headers.map((_, idx) => idx);
+        const collapse = step.collapse_whitespace !== false;
+        const normalize = (value: string) => {
+          let text = value.trim();
+          if (collapse) text = text.replace(/\s+/g, " ");
+          if (step.case === "lower") text = text.toLowerCase();
+          else if (step.case === "upper") text = text.toUpperCase();
+          else if (step.case === "title") text = text.toLowerCase().replace(/(^|[\s\-/(])(\p{L})/gu, (_, before, letter) => before + letter.toUpperCase());
+          return text;
+        };
+        return {
+          headers,
+          describe: counts => `Normalized text in ${columns.length === headers.length ? "all columns" : columns.map(col => headers[col]).join(", ")} (trimmed${collapse ? ", collapsed spaces" : ""}${step.case ? `, ${step.case} case` : ""}): ${counts.changedCells.toLocaleString()} cell(s) changed.`,
+          start: mapCells(columns, normalize),
+        };
+      }
+
+      case "deduplicate": {
+        const columns = step.columns && step.columns.length > 0 ? step.columns.map(name => this.column(name)) : null;
+        return {
+          headers,
+          describe: counts => `Removed ${counts.removedRows.toLocaleString()} duplicate row(s)${columns ? ` by ${columns.map(col => headers[col]).join(", ")}` : ""}, keeping the first of each.`,
+          start: counts => {
+            const seen = new Set<string>();
+            return row => {
+              const key = JSON.stringify(columns ? columns.map(col => row[col]) : row);
+              if (seen.has(key)) {
+                counts.removedRows++;
+                return null;
+              }
+              seen.add(key);
+              return row;
+            };
+          },
+        };
+      }
+
+      case "cap_outliers": {
+        const columns = step.columns.map(name => this.column(name));
+        const method = step.method ?? "iqr";
+        const bounds = stats.map((stat, idx) => {
+          numeric(stat, headers[columns[idx]]);
+          if (method === "percentile") {
+            const lower = step.lower ?? 1;
+            const upper = step.upper ?? 99;
+            if (lower < 0 || upper > 100 || lower >= upper) fail("percentiles must satisfy 0 <= lower < upper <= 100");
+            return { lower: stat.quantile(lower / 100), upper: stat.quantile(upper / 100) };
+          }
+          const factor = step.factor ?? DEFAULT_IQR_FACTOR;
+          const q1 = stat.quantile(0.25);
+          const q3 = stat.quantile(0.75);
+          return { lower: q1 - factor * (q3 - q1), upper: q3 + factor * (q3 - q1) };
+        });
+        const boundsFor = new Map(columns.map((col, idx) => [col, bounds[idx]]));
+        return {
+          headers,
+          fitted: { bounds: Object.fromEntries(columns.map((col, idx) => [headers[col], { lower: round(bounds[idx].lower), upper: round(bounds[idx].upper) }])) },
+          describe: counts => `Capped ${counts.changedCells.toLocaleString()} outlier(s) ${method === "iqr" ? `beyond ${step.factor ?? DEFAULT_IQR_FACTOR} IQR` : `outside the ${step.lower ?? 1}th-${step.upper ?? 99}th percentiles`}: ${columns.map((col, idx) => `${headers[col]} to [${formatNumber(round(bounds[idx].lower))}, ${formatNumber(round(bounds[idx].upper))}]`).join(", ")}.`,
+          start: mapCells(columns, (value, col) => {
+            const number = inferrer.parseNumber(value);
+            if (number === null) return value;
+            const { lower, upper } = boundsFor.get(col)!;
+            return number < lower ? formatNumber(lower) : number > upper ? formatNumber(upper) : value;
+          }),
+        };
+      }
+
+      case "log":
+      case "box_cox": {
+        const col = this.column(step.column);
+        const stat = stats[0];
+        numeric(stat, headers[col]);
+        // Both need positive values; a shift moves the smallest value to 1
+        const shift = stat.min > 0 ? 0 : 1 - stat.min;
+        let transform: (x: number) => number;
+        let fitted: Record<string, unknown>;
+        let label: string;
+        if (step.op === "log") {
+          transform = x => Math.log(x + shift);
+          fitted = { shift };
+          label = shift === 0 ? `ln(${headers[col]})` : `ln(${headers[col]} + ${formatNumber(shift)})`;
+        } else {
+          const lambda = step.lambda ?? boxCoxLambda(stat.numbers.map(x => x + shift));
+          transform = x => (Math.abs(lambda) < 1e-9 ? Math.log(x + shift) : ((x + shift) ** lambda - 1) / lambda);
+          fitted = { shift, lambda: round(lambda) };
+          label = `Box-Cox of ${headers[col]}${shift ? ` + ${formatNumber(shift)}` : ""} with lambda ${formatNumber(round(lambda))}${step.lambda === undefined ? " (fitted by maximum likelihood)" : ""}`;
+        }
+        const { headers: output, start } = derive(col, step.new_column, value => {
+          const number = inferrer.parseNumber(value);
+          // Values below the fitted minimum only appear when earlier steps differ between passes; treat them as invalid
+          if (number === null || number + shift <= 0) return null;
+          return formatNumber(transform(number));
+        });
+        return {
+          headers: output,
+          fitted,
+          describe: counts => `Applied ${label}${step.new_column ? ` into ${step.new_column}` : ""}: ${counts.changedCells.toLocaleString()} value(s).${invalidNote(counts, "non-numeric values were")}`,
+          start,
+        };
+      }
+
+      case "bin": {
+        const col = this.column(step.column);
+        let edges: number[];
+        if (step.edges) {
+          edges = [...step.edges].sort((a, b) => a - b);
+        } else {
+          const stat = stats[0];
+          numeric(stat, headers[col]);
+          const bins = step.bins ?? DEFAULT_BINS;
+          edges = step.method === "quantile"
+            ? Array.from({ length: bins + 1 }, (_, idx) => stat.quantile(idx / bins))
+            : Array.from({ length: bins + 1 }, (_, idx) => stat.min + ((stat.max - stat.min) * idx) / bins);
+          edges = edges.map(round).filter((edge, idx, all) => idx === 0 || edge > all[idx - 1]);
+          if (edges.length < 2) edges = [stat.min, stat.max];
+        }
+        const binCount = edges.length - 1;
+        if (binCount < 1) fail("binning needs at least two edges");
+        if (step.labels && step.labels.length !== binCount) fail(`${step.labels.length} labels given for ${binCount} bins`);
+        const labels = step.labels ?? edges.slice(0, -1).map((edge, idx) => `[${formatNumber(edge)}, ${formatNumber(edges[idx + 1])}${idx === binCount - 1 ? "]" : ")"}`);
+        const { headers: output, start } = derive(col, step.new_column, value => {
+          const number = inferrer.parseNumber(value);
+          if (number === null || number < edges[0] || number > edges[binCount]) return null;
+          let bin = 0;
+          while (bin < binCount - 1 && number >= edges[bin + 1]) bin++;
+          return labels[bin];
+        });
+        return {
+          headers: output,
+          fitted: step.edges ? undefined : { edges },
+          describe: counts => `Binned ${headers[col]}${step.new_column ? ` into ${step.new_column}` : ""} into ${binCount} ${step.edges ? "given" : step.method === "quantile" ? "quantile" : "equal-width"} bins: ${labels.join(", ")}.${invalidNote(counts, step.edges ? "values outside the edges or not numeric were" : "non-numeric values were")}`,
+          start,
+        };
+      }
+
+      case "encode": {
+        const col = this.column(step.column);
+        const stat = stats[0] as ColumnStats | undefined;
+        const byFrequency = stat ? [...stat.counts].sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1)).map(([value]) => value) : [];
+
+        if (step.method === "ordinal") {
+          const order = step.order ?? [...byFrequency].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+          if (order.length === 0) fail(`${headers[col]} has no values to encode`);
+          const codes = new Map(order.map((value, idx) => [value.toLowerCase(), String(idx)]));
+          const { headers: output, start } = derive(col, step.new_column, value => codes.get(value.trim().toLowerCase()) ?? null);
+          return {
+            headers: output,
+            fitted: step.order ? undefined : { order },
+            describe: counts => `Encoded ${headers[col]}${step.new_column ? ` into ${step.new_column}` : ""} as ordinal codes 0-${order.length - 1} (${order.slice(0, 5).join(", ")}${order.length > 5 ? ", ..." : ""}).${invalidNote(counts, "values not in the order were")}`,
+            start,
+          };
+        }
+
+        const max = Math.min(step.max_categories ?? DEFAULT_MAX_CATEGORIES, MAX_ONE_HOT_CATEGORIES);
+        if (byFrequency.length === 0) fail(`${headers[col]} has no values to encode`);
+        const categories = byFrequency.slice(0, max);
+        const hasOther = byFrequency.length > categories.length || !stat!.countsComplete;
+        const taken = step.keep_original ? headers : headers.filter((_, idx) => idx !== col);
+        const names = [...categories, ...(hasOther ? ["other"] : [])].map(value => this.newColumnName(`${headers[col]}_${value}`, taken));
+        const position = new Map(categories.map((value, idx) => [value, idx]));
+        const keep = step.keep_original ?? false;
+        return {
+          headers: [...headers.slice(0, keep ? col + 1 : col), ...names, ...headers.slice(col + 1)],
+          fitted: { categories },
+          describe: () => `One-hot encoded ${headers[col]} into ${names.length} indicator column(s)${hasOther ? `, with ${byFrequency.length - categories.length}${stat!.countsComplete ? "" : "+"} rarer value(s) in ${names[names.length - 1]}` : ""}.`,
+          start: () => row => {
+            const value = (row[col] ?? "").trim();
+            const indicators = names.map(() => "0");
+            const hot = value ? position.get(value) ?? (hasOther ? names.length - 1 : -1) : -1;
+            if (hot !== -1) indicators[hot] = "1";
+            return [...row.slice(0, keep ? col + 1 : col), ...indicators, ...row.slice(col + 1)];
+          },
+        };
+      }
+    }
+  }
+}
+
+// Checks steps from a recipe or a tool call and returns them typed; errors name the step and the field
+export function validateSteps(steps: unknown): TransformStep[] {
+  if (!Array.isArray(steps) || steps.length === 0) throw new Error("A recipe needs at least one step");
+
+  return steps.map((raw, idx) => {
+    const where = `Step ${idx + 1}`;
+    if (!raw || typeof raw !== "object") throw new Error(`${where} is not an object`);
+    const step = raw as Record<string, unknown>;
+    const op = step.op as TransformOp;
+    if (!OPS.includes(op)) throw new Error(`${where}: unknown op ${JSON.stringify(step.op)}. Available: ${OPS.join(", ")}`);
+
+    const string = (field: string, optional = false) => {
+      const value = step[field];
+      if (value === undefined && optional) return;
+      if (typeof value !== "string" || !value.trim()) throw new Error(`${where} (${op}): ${field} must be a column name`);
+    };
+    const strings = (field: string, optional = false) => {
+      const value = step[field];
+      if (value === undefined && optional) return;
+      if (!Array.isArray(value) || value.length === 0 || value.some(item => typeof item !== "string")) {
+        throw new Error(`${where} (${op}): ${field} must be a list of column names`);
+      }
+    };
+    const number = (field: string) => {
+      const value = step[field];
+      if (value !== undefined && (typeof value !== "number" || !Number.isFinite(value))) throw new Error(`${where} (${op}): ${field} must be a number`);
+    };
+    const oneOf = (field: string, values: string[], optional = false) => {
+      const value = step[field];
+      if (value === undefined && optional) return;
+      if (!values.includes(value as string)) throw new Error(`${where} (${op}): ${field} must be one of ${values.join(", ")}`);
+    };
+
+    switch (op) {
+      case "drop_columns":
+        strings("columns");
+        break;
+      case "rename_column":
+        string("column");
+        string("to");
+        break;
+      case "cast":
+        string("column");
+        oneOf("to", ["number", "integer", "date", "datetime", "boolean"]);
+        break;
+      case "impute":
+        strings("columns");
+        oneOf("method", ["mean", "median", "mode", "constant"]);
+        if (step.value !== undefined) step.value = String(step.value);
+        break;
+      case "normalize_text":
+        strings("columns", true);
+        oneOf("case", ["lower", "upper", "title"], true);
+        break;
+      case "deduplicate":
+        strings("columns", true);
+        break;
+      case "cap_outliers":
+        strings("columns");
+        oneOf("method", ["iqr", "percentile"], true);
+        number("factor");
+        number("lower");
+        number("upper");
+        break;
+      case "log":
+        string("column");
+        string("new_column", true);
+        break;
+      case "box_cox":
+        string("column");
+        number("lambda");
+        string("new_column", true);
+        break;
+      case "bin":
+        string("column");
+        oneOf("method", ["equal_width", "quantile"], true);
+        number("bins");
+        if (step.bins !== undefined && (!Number.isInteger(step.bins) || (step.bins as number) < 1 || (step.bins as number) > 100)) {
+          throw new Error(`${where} (${op}): bins must be a whole number from 1 to 100`);
+        }
+        if (step.edges !== undefined && (!Array.isArray(step.edges) || step.edges.length < 2 || step.edges.some(edge => typeof edge !== "number" || !Number.isFinite(edge)))) {
+          throw new Error(`${where} (${op}): edges must be a list of at least two numbers`);
+        }
+        strings("labels", true);
+        string("new_column", true);
+        break;
+      case "encode":
+        string("column");
+        oneOf("method", ["one_hot", "ordinal"]);
+        number("max_categories");
+        strings("order", true);
+        string("new_column", true);
+        if (step.method === "one_hot" && step.new_column !== undefined) throw new Error(`${where} (${op}): one-hot encoding names its columns <column>_<value>; new_column only applies to ordinal encoding`);
+        break;
+    }
+    return step as TransformStep;
+  });
+}
+
+// Reads a recipe file; a bare list of steps is accepted too
+export function parseRecipe(json: unknown): TransformRecipe {
+  const value = typeof json === "string" ? JSON.parse(json) : json;
+  if (Array.isArray(value)) return { format: RECIPE_FORMAT, version: 1, steps: validateSteps(value), createdAt: new Date().toISOString() };
+  if (!value || typeof value !== "object" || !("steps" in value)) throw new Error("Not a recipe: expected an object with a steps list");
+  const recipe = value as TransformRecipe;
+  return { ...recipe, format: RECIPE_FORMAT, version: 1, steps: validateSteps(recipe.steps) };
+}
+
+// Cleaning steps suggested by a table's profile, each with the statistic behind it
+export function proposeSteps(headers: string[], schema: TableSchema, profile: TableProfile): ProposedStep[] {
+  const inferrer = new SchemaInferrer();
+  const proposals: ProposedStep[] = [];
+  const rows = profile.rowCount;
+  const percent = (count: number) => `${((count / Math.max(1, rows)) * 100).toFixed(1)}%`;
+
+  const mostlyEmpty = profile.columns.filter(column => rows > 0 && column.missing / rows >= 0.5);
+  if (mostlyEmpty.length > 0 && mostlyEmpty.length < headers.length) {
+    proposals.push({
+      step: { op: "drop_columns", columns: mostlyEmpty.map(column => column.name) },
+      reason: `${mostlyEmpty.map(column => `${column.name} is ${percent(column.missing)} empty`).join("; ")}.`,
+    });
+  }
+  const dropped = new Set(mostlyEmpty.length < headers.length ? mostlyEmpty.map(column => column.name) : []);
+  const usable = schema.columns.map((column, idx) => ({ column, stats: profile.columns[idx] })).filter(({ column }) => !dropped.has(column.name));
+
+  for (const { column } of usable) {
+    if (inferrer.isNumeric(column.type) && column.parseFailures > 0) {
+      proposals.push({
+        step: { op: "cast", column: column.name, to: column.type === "integer" ? "integer" : "number" },
+        reason: `${column.parseFailures.toLocaleString()} value(s) of ${column.name} are not numbers; casting leaves them empty so they can be imputed.`,
+      });
+    }
+  }
+
+  const messyText = usable.filter(({ column, stats }) => {
+    if (column.type !== "categorical" && column.type !== "text") return false;
+    const seen = new Set<string>();
+    return stats.topValues.some(({ value }) => {
+      const key = value.trim().replace(/\s+/g, " ").toLowerCase();
+      if (seen.has(key)) return true;
+      seen.add(key);
+      return value !== value.trim() || /\s{2,}/.test(value);
+    });
+  });
+  if (messyText.length > 0) {
+    proposals.push({
+      step: { op: "normalize_text", columns: messyText.map(({ column }) => column.name), case: "lower" },
+      reason: `${messyText.map(({ column }) => column.name).join(", ")} ${messyText.length === 1 ? "has" : "have"} values differing only in case or spacing.`,
+    });
+  }
+
+  if (profile.duplicateRows > 0) {
+    proposals.push({
+      step: { op: "deduplicate" },
+      reason: `${profile.duplicateRows.toLocaleString()} row(s) exactly repeat an earlier row.`,
+    });
+  }
+
+  // Outliers are capped before imputing, so they do not pull the fill values
+  for (const { column, stats } of usable) {
+    const numericStats = stats.numeric;
+    if (!numericStats || !inferrer.isNumeric(column.type) || column.type === "identifier" || numericStats.outliers === 0) continue;
+    proposals.push({
+      step: { op: "cap_outliers", columns: [column.name], method: "iqr" },
+      reason: `${numericStats.outliersApproximate ? "About " : ""}${numericStats.outliers.toLocaleString()} value(s) of ${column.name} lie beyond 1.5 IQR of its quartiles.`,
+    });
+  }
+
+  for (const { column, stats } of usable) {
+    if (stats.missing === 0 || column.type === "identifier" || column.type === "empty") continue;
+    if (inferrer.isNumeric(column.type) && stats.numeric) {
+      const skewed = Math.abs(stats.numeric.mean - stats.numeric.median) > 0.1 * stats.numeric.stdDev;
+      proposals.push({
+        step: { op: "impute", columns: [column.name], method: skewed ? "median" : "mean" },
+        reason: `${column.name} has ${stats.missing.toLocaleString()} empty cell(s) (${percent(stats.missing)}); ${skewed ? "its distribution is skewed, so the median is the safer fill" : "its mean and median are close"}.`,
+      });
+    } else if (column.type === "categorical" || column.type === "boolean") {
+      proposals.push({
+        step: { op: "impute", columns: [column.name], method: "mode" },
+        reason: `${column.name} has ${stats.missing.toLocaleString()} empty cell(s) (${percent(stats.missing)}); the most common value is ${stats.topValues[0]?.value ?? "unknown"}.`,
+      });
+    }
+  }
+
+  for (const { column, stats } of usable) {
+    const numericStats = stats.numeric;
+    if (!numericStats || !inferrer.isNumeric(column.type) || column.type === "identifier") continue;
+    if (numericStats.mean - numericStats.median > 0.1 * numericStats.stdDev && numericStats.min >= 0) {
+      proposals.push({
+        step: { op: "log", column: column.name, new_column: `${column.name} (log)` },
+        reason: `${column.name} is right-skewed: its mean ${formatNumber(round(numericStats.mean))} exceeds its median ${formatNumber(round(numericStats.median))} by more than a tenth of a standard deviation.`,
+      });
+    }
+  }
+
+  for (const { column, stats } of usable) {
+    if (column.type !== "categorical" || stats.distinct < 2 || stats.distinct >= 10) continue;
+    proposals.push({
+      step: { op: "encode", column: column.name, method: "one_hot", keep_original: true },
+      reason: `${column.name} has ${stats.distinct} categories; one-hot columns let models that need numbers use it.`,
+    });
+  }
+
+  return proposals;
+}
+
+export function describeStep(step: TransformStep): string {
+  switch (step.op) {
+    case "drop_columns":
+      return `Drop ${step.columns.join(", ")}`;
+    case "rename_column":
+      return `Rename ${step.column} to ${step.to}`;
+    case "cast":
+      return `Cast ${step.column} to ${step.to}`;
+    case "impute":
+      return `Fill empty ${step.columns.join(", ")} with ${step.method === "constant" ? `"${step.value}"` : `the ${step.method}`}`;
+    case "normalize_text":
+      return `Normalize text in ${step.columns?.length ? step.columns.join(", ") : "all columns"}${step.case ? ` (${step.case} case)` : ""}`;
+    case "deduplicate":
+      return `Remove duplicate rows${step.columns?.length ? ` by ${step.columns.join(", ")}` : ""}`;
+    case "cap_outliers":
+      return `Cap outliers of ${step.columns.join(", ")} (${step.method === "percentile" ? `${step.lower ?? 1}th-${step.upper ?? 99}th percentiles` : `${step.factor ?? DEFAULT_IQR_FACTOR} IQR`})`;
+    case "log":
+      return `Log-transform ${step.column}${step.new_column ? ` into ${step.new_column}` : ""}`;
+    case "box_cox":
+      return `Box-Cox transform ${step.column}${step.lambda !== undefined ? ` (lambda ${step.lambda})` : ""}${step.new_column ? ` into ${step.new_column}` : ""}`;
+    case "bin":
+      return `Bin ${step.column} into ${step.edges ? step.edges.length - 1 : step.bins ?? DEFAULT_BINS} ${step.method === "quantile" ? "quantile" : "equal-width"} bins${step.new_column ? ` (${step.new_column})` : ""}`;
+    case "encode":
+      return `${step.method === "one_hot" ? "One-hot" : "Ordinal"} encode ${step.column}`;
+  }
+}
+
+// Box-Cox lambda maximizing the profile log-likelihood, by golden-section search over [-2, 2]
+function boxCoxLambda(values: number[]): number {
+  const positive = values.filter(x => x > 0);
+  if (positive.length < 2) return 1;
+  const logSum = positive.reduce((sum, x) => sum + Math.log(x), 0);
+  const n = positive.length;
+  const likelihood = (lambda: number) => {
+    let mean = 0;
+    const transformed = positive.map(x => (Math.abs(lambda) < 1e-9 ? Math.log(x) : (x ** lambda - 1) / lambda));
+    for (const y of transformed) mean += y / n;
+    let variance = 0;
+    for (const y of transformed) variance += (y - mean) ** 2 / n;
+    return variance > 0 ? (lambda - 1) * logSum - (n / 2) * Math.log(variance) : -Infinity;
+  };
+
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let low = -2;
+  let high = 2;
+  for (let iteration = 0; iteration < 40; iteration++) {
+    const a = high - ratio * (high - low);
+    const b = low + ratio * (high - low);
+    if (likelihood(a) > likelihood(b)) high = b;
+    else low = a;
+  }
+  return (low + high) / 2;
+}
+
+function round(value: number): number {
+  return Number(value.toPrecision(6));
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(12)));
+}
@@ -1,8 +1,15 @@
-// Session ID for tracking state
-const sessionId = 'session_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
+// Session ID for tracking state; every processed file starts a conversation of its own, saved by the server
+let sessionId = newSessionId();
+
+function newSessionId() {
+  return 'session_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
+}
 
 // DOM Elements
 const fileList = document.getElementById('fileList');
+const conversationList = document.getElementById('conversationList');
+const datasetSection = document.getElementById('datasetSection');
+const datasetList = document.getElementById('datasetList');
 const uploadBtn = document.getElementById('uploadBtn');
 const fileInput = document.getElementById('fileInput');
 const welcomeScreen = document.getElementById('welcomeScreen');
@@ -10,6 +17,7 @@ const chatArea = document.getElementById('chatArea');
 const messages = document.getElementById('messages');
 const questionInput = document.getElementById('questionInput');
 const sendBtn = document.getElementById('sendBtn');
+const cancelBtn = document.getElementById('cancelBtn');
 const processingModal = document.getElementById('processingModal');
 const successModal = document.getElementById('successModal');
 const successDetails = document.getElementById('successDetails');
@@ -20,15 +28,25 @@ const clearChatBtn = document.getElementById('clearChatBtn');
 let currentFile = null;
 let isProcessing = false;
 let currentFileType = null;
+let activeDataset = null; // Table dataset ID (sheet, CSV file or PDF table) for insights and table questions
+let documentId = null; // ID of the processed PDF, for document questions
+let sessionDatasets = []; // Table datasets of the session: its file's sheets or tables, added files, joined and stacked tables
+let answerStream = null; // Aborts the answer being streamed
+const SQL_PAGE_ROWS = 50; // Rows per page of a SQL result
 
 // Initialize
 loadFiles();
+loadConversations();
 
 // Event Listeners
 uploadBtn.addEventListener('click', () => fileInput.click());
 fileInput.addEventListener('change', handleFileUpload);
 sendBtn.addEventListener('click', sendQuestion);
+cancelBtn.addEventListener('click', cancelAnswer);
 clearChatBtn.addEventListener('click', clearChat);
+document.querySelectorAll('.dataset-op-btn').forEach(btn => {
+  btn.addEventListener('click', () => showDatasetOperation(btn.getAttribute('data-operation')));
+});
 questionInput.addEventListener('keypress', (e) => {
   if (e.key === 'Enter' && !e.shiftKey) {
     e.preventDefault();
@@ -159,15 +177,30 @@ async function processFile(filename) {
   if (isProcessing) return;
 
   isProcessing = true;
+
+  // Workbooks with several sheets let the user pick which ones to load
+  let sheets;
+  const ext = filename.split('.').pop().toLowerCase();
+  if (ext === 'xlsx' || ext === 'xls') {
+    sheets = await chooseSheets(filename);
+    if (sheets === null) {
+      isProcessing = false;
+      return;
+    }
+  }
+
   showProcessingModal();
 
+  // Reprocessing the current file continues its conversation; another file starts a new one
+  const conversationId = filename === currentFile ? sessionId : newSessionId();
+
   try {
     const response = await fetch('/api/process', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
       },
-      body: JSON.stringify({ filename, sessionId })
+      body: JSON.stringify({ filename, sessionId: conversationId, sheets })
     });
 
     const data = await response.json();
@@ -179,7 +212,13 @@ async function processFile(filename) {
       return;
     }
 
+    if (conversationId !== sessionId) {
+      sessionId = conversationId;
+      messages.innerHTML = '';
+    }
     currentFile = filename;
+    sessionDatasets = data.sessionDatasets || data.datasets || [];
+    loadConversations();
 
     // Highlight active file
     document.querySelectorAll('.file-item').forEach(item => {
@@ -200,11 +239,89 @@ async function processFile(filename) {
   }
 }
 
+async function chooseSheets(filename) {
+  try {
+    const response = await fetch('/api/sheets', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ filename })
+    });
+
+    const data = await response.json();
+
+    if (data.error || !data.sheets || data.sheets.length <= 1) {
+      return undefined;
+    }
+
+    return await showSheetPicker(data.sheets);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Resolves to the selected sheet names, or null when the user cancels
+function showSheetPicker(sheets) {
+  return new Promise((resolve) => {
+    const modalHTML = `
+      <div class="insights-modal-overlay" id="sheetPickerModal">
+        <div class="insights-modal sheet-picker">
+          <div class="insights-header">
+            <h2>📑 Select Sheets</h2>
+            <button class="close-btn" id="closeSheetPickerBtn">×</button>
+          </div>
+          <div class="insights-meta">
+            <span>This workbook has ${sheets.length} sheets. Each selected sheet is loaded as its own dataset.</span>
+          </div>
+          <div class="sheet-list">
+            ${sheets.map((sheet, idx) => `
+              <label class="sheet-option">
+                <input type="checkbox" value="${idx}" ${idx === 0 ? 'checked' : ''}>
+                <span class="sheet-name">${escapeHtml(sheet.name)}${sheet.hidden ? ' (hidden)' : ''}</span>
+                <span class="sheet-meta">${sheet.rowCount.toLocaleString()} rows × ${sheet.columnCount} columns</span>
+              </label>
+            `).join('')}
+          </div>
+          <div class="insights-actions">
+            <button class="btn btn-secondary" id="selectAllSheetsBtn">Select All</button>
+            <button class="btn btn-primary" id="loadSheetsBtn">Load Selected</button>
+          </div>
+        </div>
+      </div>
+    `;
+
+    document.body.insertAdjacentHTML('beforeend', modalHTML);
+    const modal = document.getElementById('sheetPickerModal');
+    const checkboxes = () => Array.from(modal.querySelectorAll('input[type="checkbox"]'));
+
+    const finish = (result) => {
+      modal.remove();
+      resolve(result);
+    };
+
+    document.getElementById('closeSheetPickerBtn').addEventListener('click', () => finish(null));
+    document.getElementById('selectAllSheetsBtn').addEventListener('click', () => {
+      checkboxes().forEach(box => { box.checked = true; });
+    });
+    document.getElementById('loadSheetsBtn').addEventListener('click', () => {
+      const selected = checkboxes().filter(box => box.checked).map(box => sheets[Number(box.value)].name);
+      if (selected.length === 0) {
+        alert('Please select at least one sheet.');
+        return;
+      }
+      finish(selected);
+    });
+  });
+}
+
 function showSuccessModal(data, filename) {
   let detailsHTML = '';
   let actionsHTML = '';
 
   currentFileType = data.fileType;
+  activeDataset = data.dataset || (data.datasets && data.datasets.length > 0 ? data.datasets[0].dataset : null);
+  documentId = data.fileType === 'pdf' ? data.document : null;
 
   if (data.fileType === 'pdf') {
     detailsHTML = `
@@ -229,7 +346,33 @@ function showSuccessModal(data, filename) {
         <span class="detail-value">${(data.textLength / 1000).toFixed(1)}K chars</span>
       </div>
     `;
+    // Scanned pages read by OCR, with the engine's confidence for each (the summary names low-confidence pages of long scans)
+    if (data.ocr) {
+      detailsHTML += `
+      <div class="detail-row">
+        <span class="detail-label">OCR:</span>
+        <span class="detail-value" style="font-size: 0.85rem;">${escapeHtml(data.ocrSummary || '')}</span>
+      </div>
+      ${data.ocr.pages.length > 10 ? '' : data.ocr.pages.map(page => `
+      <div class="detail-row">
+        <span class="detail-label">Page ${page.page}:</span>
+        <span class="detail-value${page.confidence < 70 ? ' ocr-low' : ''}">${page.confidence}% confidence</span>
+      </div>`).join('')}
+      `;
+    }
     actionsHTML = `<button id="closeSuccessBtn" class="btn btn-primary">Start Asking Questions</button>`;
+    // Tables found in the PDF are datasets of their own and get the same insights as CSV/Excel files
+    if (data.datasets && data.datasets.length > 0) {
+      detailsHTML += `
+      <div class="detail-row">
+        <span class="detail-label">Analyze Table:</span>
+        <select id="sheetSelect" class="sheet-select">
+          ${data.datasets.map(d => `<option value="${d.dataset}">${escapeHtml(d.sheet)} (${d.rowCount.toLocaleString()} rows)</option>`).join('')}
+        </select>
+      </div>
+      `;
+      actionsHTML += `<button id="tableInsightsBtn" class="btn btn-secondary">Extract Table Insights</button>`;
+    }
   } else {
     detailsHTML = `
       <div class="detail-row">
@@ -253,12 +396,48 @@ function showSuccessModal(data, filename) {
         <span class="detail-value" style="font-size: 0.85rem;">${data.headers.slice(0, 3).join(', ')}${data.headers.length > 3 ? '...' : ''}</span>
       </div>
     `;
-    actionsHTML = `<button id="closeSuccessBtn" class="btn btn-primary">Extract Insights</button>`;
+    if (data.datasets && data.datasets.length > 1) {
+      detailsHTML += `
+      <div class="detail-row">
+        <span class="detail-label">Analyze Sheet:</span>
+        <select id="sheetSelect" class="sheet-select">
+          ${data.datasets.map(d => `<option value="${d.dataset}">${escapeHtml(d.sheet)} (${d.rowCount.toLocaleString()} rows)</option>`).join('')}
+        </select>
+      </div>
+      `;
+    } else if (data.sheet) {
+      detailsHTML += `
+      <div class="detail-row">
+        <span class="detail-label">Sheet:</span>
+        <span class="detail-value">${escapeHtml(data.sheet)}</span>
+      </div>
+      `;
+    }
+    if (data.dialectSummary) {
+      detailsHTML += `
+      <div class="detail-row">
+        <span class="detail-label">Detected Format:</span>
+        <span class="detail-value" style="font-size: 0.85rem;">${escapeHtml(data.dialectSummary)}</span>
+      </div>
+      `;
+    }
+    actionsHTML = `
+      <button id="closeSuccessBtn" class="btn btn-primary">Extract Insights</button>
+      <button id="askQuestionsBtn" class="btn btn-secondary">Ask Questions</button>
+    `;
   }
 
   successDetails.innerHTML = detailsHTML;
   document.querySelector('.success-actions').innerHTML = actionsHTML;
 
+  const sheetSelect = document.getElementById('sheetSelect');
+  if (sheetSelect) {
+    sheetSelect.addEventListener('change', () => {
+      activeDataset = sheetSelect.value;
+      displaySessionDatasets();
+    });
+  }
+
   // Re-attach event listeners
   const closeBtn = document.getElementById('closeSuccessBtn');
 
@@ -273,6 +452,25 @@ function showSuccessModal(data, filename) {
     });
   }
 
+  const tableInsightsBtn = document.getElementById('tableInsightsBtn');
+
+  if (tableInsightsBtn) {
+    tableInsightsBtn.addEventListener('click', () => {
+      successModal.classList.remove('active');
+      extractInsights();
+    });
+  }
+
+  const askBtn = document.getElementById('askQuestionsBtn');
+
+  if (askBtn) {
+    askBtn.addEventListener('click', () => {
+      successModal.classList.remove('active');
+      showChatArea();
+    });
+  }
+
+  displaySessionDatasets();
   successModal.classList.add('active');
 }
 
@@ -283,9 +481,10 @@ function showChatArea() {
   sendBtn.disabled = false;
   questionInput.focus();
 
-  // Add system message (only for PDFs)
   if (currentFileType === 'pdf') {
     addMessage('ai', `Great! I've processed ${currentFile}. You can now ask me questions about the document.`);
+  } else {
+    addMessage('ai', `Great! I've loaded ${currentFile}. Ask me anything about the data - I'll compute answers across every row.`);
   }
 }
 
@@ -297,22 +496,66 @@ function hideProcessingModal() {
   processingModal.classList.remove('active');
 }
 
-function addMessage(type, content) {
+function addMessage(type, content, citations = [], date = new Date()) {
   const messageDiv = document.createElement('div');
   messageDiv.className = `message ${type}`;
 
-  const time = new Date().toLocaleTimeString('en-US', {
+  const time = date.toLocaleTimeString('en-US', {
     hour: '2-digit',
     minute: '2-digit'
   });
 
   messageDiv.innerHTML = `
-    <div class="message-content">${escapeHtml(content)}</div>
+    <div class="message-content">${renderCitedText(content, citations)}</div>
+    ${renderSources(citations)}
     <div class="message-time">${time}</div>
   `;
 
   messages.appendChild(messageDiv);
   messages.scrollTop = messages.scrollHeight;
+  return messageDiv;
+}
+
+// Turns the [n] and [p. N] markers of a PDF answer into links that open the document at the cited page
+function renderCitedText(content, citations) {
+  const html = escapeHtml(content);
+  if (!citations || citations.length === 0) return html;
+
+  const byLabel = new Map(citations.map(citation => [citation.label, citation]));
+  const link = (citation, text) => `<a class="citation-link" href="${citation.url}" target="_blank" rel="noopener" title="${escapeAttribute(`Page ${citation.page}: ${citation.quote}`)}">${text}</a>`;
+
+  return html.replace(/\[(?:(p(?:age|\.)?\s*)(\d+)|(\d+(?:\s*,\s*\d+)*))\]/gi, (marker, _prefix, page, numbers) => {
+    if (page) {
+      const citation = byLabel.get(marker);
+      return citation ? link(citation, marker) : marker;
+    }
+    return `[${numbers.split(',').map(n => {
+      const citation = byLabel.get(`[${n.trim()}]`);
+      return citation ? link(citation, n.trim()) : n.trim();
+    }).join(', ')}]`;
+  });
+}
+
+function renderSources(citations) {
+  if (!citations || citations.length === 0) return '';
+
+  return `
+    <div class="message-sources">
+      <div class="message-sources-title">Sources</div>
+      <ul>
+        ${citations.map(citation => `
+          <li>
+            <a class="citation-link" href="${citation.url}" target="_blank" rel="noopener">${escapeHtml(citation.label)} Page ${citation.page}</a>
+            <span class="citation-quote">“${escapeHtml(citation.quote.replace(/\s+/g, ' '))}”</span>
+          </li>
+        `).join('')}
+      </ul>
+    </div>
+  `;
+}
+
+function escapeAttribute(text) {
+  return text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\s+/g, ' ');
 }
 
 function addTypingIndicator() {
@@ -337,61 +580,173 @@ function removeTypingIndicator() {
   }
 }
 
+// Streams the answer: text is shown as it is written, with the tools the agent calls, until the server's final status
 async function sendQuestion() {
   const question = questionInput.value.trim();
   if (!question || isProcessing) return;
 
-  // Only allow Q&A for PDFs
-  if (currentFileType !== 'pdf') {
-    alert('Q&A is only available for PDF files. For CSV/Excel files, please use the "Extract Insights" feature.');
-    return;
-  }
-
   isProcessing = true;
   questionInput.disabled = true;
-  sendBtn.disabled = true;
+  sendBtn.style.display = 'none';
+  cancelBtn.style.display = '';
+  cancelBtn.disabled = false;
 
   // Add user message
   addMessage('user', question);
   questionInput.value = '';
 
-  // Show typing indicator
+  // Show typing indicator until the first event arrives
   addTypingIndicator();
 
+  answerStream = new AbortController();
+  let answerDiv = null;
+  let text = '';
+  let final = null;
+  const tools = [];
+
   try {
-    const response = await fetch('/api/ask', {
+    const response = await fetch('/api/ask/stream', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
       },
       body: JSON.stringify({
         question,
-        sessionId
-      })
+        sessionId,
+        dataset: currentFileType === 'pdf' ? documentId : activeDataset
+      }),
+      signal: answerStream.signal
     });
 
-    const data = await response.json();
-
-    // Remove typing indicator
-    removeTypingIndicator();
+    // Questions the server turns down (no file processed, unknown dataset) are answered with a single JSON error
+    if (!(response.headers.get('Content-Type') || '').includes('ndjson')) {
+      const data = await response.json();
+      removeTypingIndicator();
+      addMessage('ai', 'Error: ' + (data.message || 'Unexpected response from the server'));
+      return;
+    }
 
-    if (data.error) {
-      addMessage('ai', 'Error: ' + data.message);
-    } else {
-      addMessage('ai', data.answer);
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop();
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event = JSON.parse(line);
+
+        if (!answerDiv) {
+          removeTypingIndicator();
+          answerDiv = addStreamedMessage();
+        }
+
+        if (event.type === 'text') {
+          text += event.text;
+          answerDiv.querySelector('.message-content').innerHTML = escapeHtml(text);
+        } else if (event.type === 'tool_start') {
+          tools.push({ tool: event.tool, state: 'running' });
+          renderTools(answerDiv, tools);
+        } else if (event.type === 'tool_end') {
+          const running = tools.find(t => t.tool === event.tool && t.state === 'running') || tools.find(t => t.state === 'running');
+          if (running) {
+            running.state = event.isError ? 'error' : 'done';
+            running.query = event.query;
+            running.file = event.file;
+          }
+          renderTools(answerDiv, tools);
+        } else if (event.type === 'done') {
+          final = event;
+        }
+        messages.scrollTop = messages.scrollHeight;
+      }
     }
+
+    removeTypingIndicator();
+    if (!answerDiv) answerDiv = addStreamedMessage();
+    finishStreamedMessage(answerDiv, final || { status: 'failed', answer: text, citations: [], message: 'The connection closed before the answer was complete.' }, text);
+    if (final && final.status === 'completed') loadConversations();
   } catch (error) {
     removeTypingIndicator();
-    addMessage('ai', 'Error: ' + error.message);
+    // The request itself was aborted: keep what was written so far
+    if (error.name === 'AbortError') {
+      if (!answerDiv) answerDiv = addStreamedMessage();
+      finishStreamedMessage(answerDiv, { status: 'cancelled', answer: text, citations: [] }, text);
+    } else {
+      addMessage('ai', 'Error: ' + error.message);
+    }
   } finally {
+    answerStream = null;
     isProcessing = false;
     questionInput.disabled = false;
+    cancelBtn.style.display = 'none';
+    sendBtn.style.display = '';
     sendBtn.disabled = false;
     questionInput.focus();
   }
 }
 
-async function extractInsights() {
+// Asks the server to stop the answer; it then ends the stream with what was written so far
+async function cancelAnswer() {
+  if (!answerStream) return;
+  cancelBtn.disabled = true;
+
+  try {
+    const response = await fetch('/api/ask/cancel', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ sessionId })
+    });
+
+    const data = await response.json();
+    if (data.error && answerStream) answerStream.abort();
+  } catch (error) {
+    if (answerStream) answerStream.abort();
+  }
+}
+
+function addStreamedMessage() {
+  const messageDiv = addMessage('ai', '');
+  messageDiv.querySelector('.message-content').insertAdjacentHTML('beforebegin', '<div class="message-tools"></div>');
+  return messageDiv;
+}
+
+function renderTools(messageDiv, tools) {
+  const icons = { running: '⏳', done: '✓', error: '⚠️' };
+  messageDiv.querySelector('.message-tools').innerHTML = tools.map(t => `
+    <div class="message-tool tool-${t.state}">${icons[t.state]} ${escapeHtml(t.tool)}${t.state === 'running' ? '…' : t.state === 'error' ? ' failed' : ''}</div>
+    ${t.query ? `<pre class="message-tool-query">${escapeHtml(t.query)}</pre>` : ''}
+    ${t.file ? `<a class="message-tool-file" href="/exports/${encodeURIComponent(t.file)}" download>⬇️ ${escapeHtml(t.file)}</a>` : ''}
+  `).join('');
+}
+
+// Replaces the streamed text with the final answer, linking its citations, and notes a stopped or failed answer
+function finishStreamedMessage(messageDiv, final, text) {
+  const content = messageDiv.querySelector('.message-content');
+
+  if (final.status === 'completed') {
+    content.innerHTML = renderCitedText(final.answer, final.citations);
+    content.insertAdjacentHTML('afterend', renderSources(final.citations));
+  } else if (final.status === 'cancelled') {
+    content.innerHTML = escapeHtml(final.answer || text) + '<div class="message-status">⏹ Stopped</div>';
+  } else {
+    content.innerHTML = (text ? escapeHtml(text) + '<div class="message-status">' : '<div>') + escapeHtml('Error: ' + (final.message || 'The answer could not be completed.')) + '</div>';
+  }
+
+  messageDiv.querySelectorAll('.tool-running').forEach(tool => tool.remove());
+  messages.scrollTop = messages.scrollHeight;
+}
+
+// options.narrative also has the model write an executive narrative from the statistics; options.allowSampleRows lets it see the first rows
+async function extractInsights(options = {}) {
   if (isProcessing) return;
 
   isProcessing = true;
@@ -403,7 +758,7 @@ async function extractInsights() {
       headers: {
         'Content-Type': 'application/json'
       },
-      body: JSON.stringify({ sessionId })
+      body: JSON.stringify({ sessionId, dataset: activeDataset, ...options })
     });
 
     const data = await response.json();
@@ -415,8 +770,10 @@ async function extractInsights() {
       return;
     }
 
+    loadConversations();
+
     // Show insights in a modal or new view
-    showInsightsModal(data.insights, data.rowCount, data.columnCount);
+    showInsightsModal(data.insights, data.rowCount, data.columnCount, data.sheet, data.correlations, data.charts, data.narrative, data.narrativeError);
 
   } catch (error) {
     hideProcessingModal();
@@ -426,7 +783,7 @@ async function extractInsights() {
   }
 }
 
-function showInsightsModal(insights, rowCount, columnCount) {
+function showInsightsModal(insights, rowCount, columnCount, sheet, correlations, charts, narrative, narrativeError) {
   // Create modal HTML
   const modalHTML = `
     <div class="insights-modal-overlay" id="insightsModal">
@@ -436,14 +793,21 @@ function showInsightsModal(insights, rowCount, columnCount) {
           <button class="close-btn" id="closeInsightsBtn">×</button>
         </div>
         <div class="insights-meta">
-          <span>Dataset: ${currentFile}</span>
+          <span>Dataset: ${currentFile}${sheet ? ` — ${escapeHtml(sheet)}` : ''}</span>
           <span>${rowCount.toLocaleString()} rows, ${columnCount} columns</span>
         </div>
         <div class="insights-content">
+          ${renderNarrative(narrative, narrativeError)}
           <pre>${escapeHtml(insights)}</pre>
+          ${renderCharts(charts)}
+          ${renderCorrelationTables(correlations)}
         </div>
         <div class="insights-actions">
           <button class="btn btn-primary" id="downloadPdfBtn">📥 Download PDF</button>
+          <button class="btn btn-secondary" id="downloadHtmlBtn">🌐 Download HTML</button>
+          <button class="btn btn-secondary" id="downloadMdBtn">📝 Download Markdown</button>
+          <button class="btn btn-secondary" id="narrativeBtn">✨ AI Narrative</button>
+          <button class="btn btn-secondary" id="askFromInsightsBtn">💬 Ask Questions</button>
           <button class="btn btn-secondary" id="closeInsights2Btn">Close</button>
         </div>
       </div>
@@ -456,7 +820,14 @@ function showInsightsModal(insights, rowCount, columnCount) {
   // Add event listeners
   document.getElementById('closeInsightsBtn').addEventListener('click', closeInsightsModal);
   document.getElementById('closeInsights2Btn').addEventListener('click', closeInsightsModal);
-  document.getElementById('downloadPdfBtn').addEventListener('click', downloadInsightsPDF);
+  document.getElementById('downloadPdfBtn').addEventListener('click', (e) => downloadInsightsReport('pdf', e.currentTarget));
+  document.getElementById('downloadHtmlBtn').addEventListener('click', (e) => downloadInsightsReport('html', e.currentTarget));
+  document.getElementById('downloadMdBtn').addEventListener('click', (e) => downloadInsightsReport('md', e.currentTarget));
+  document.getElementById('narrativeBtn').addEventListener('click', showNarrativeForm);
+  document.getElementById('askFromInsightsBtn').addEventListener('click', () => {
+    closeInsightsModal();
+    showChatArea();
+  });
 
   // Close on overlay click
   document.getElementById('insightsModal').addEventListener('click', (e) => {
@@ -466,6 +837,100 @@ function showInsightsModal(insights, rowCount, columnCount) {
   });
 }
 
+// The model's narrative is set apart from the computed report below it; its numbers were checked by the server
+function renderNarrative(narrative, narrativeError) {
+  if (narrativeError) {
+    return `<div class="narrative-box narrative-error">✨ The AI narrative could not be written: ${escapeHtml(narrativeError)}</div>`;
+  }
+  if (!narrative) return '';
+
+  const list = (items) => `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+  return `
+    <div class="narrative-box">
+      <h3>✨ AI-Written Narrative</h3>
+      <div class="narrative-note">
+        Written by a language model from the computed statistics${narrative.sampleRows > 0 ? ` and the first ${narrative.sampleRows} rows` : ' only'}.
+        Every number was checked against the statistics of the dataset and of the column or metric named in the same sentence${narrative.omitted > 0 ? `; ${narrative.omitted} statement(s) that did not match were left out` : ''}.
+        The report below is computed directly from the data.
+      </div>
+      ${narrative.summary ? `<h4>Executive Summary</h4><p>${escapeHtml(narrative.summary)}</p>` : ''}
+      ${narrative.findings.length > 0 ? `<h4>Key Findings</h4>${list(narrative.findings)}` : ''}
+      ${narrative.questions.length > 0 ? `<h4>Suggested Next Questions</h4>${list(narrative.questions)}` : ''}
+    </div>
+  `;
+}
+
+// Rewrites the insights with a narrative; the model sees the statistics, and the first rows only when allowed
+function showNarrativeForm() {
+  if (isProcessing) return;
+
+  showDatasetForm('✨ AI Narrative', 'A language model writes an executive summary, key findings and next questions from the computed statistics. Numbers it cannot back with a statistic are left out. The narrative is included in reports downloaded afterwards.', `
+    <label class="transform-option">
+      <input type="checkbox" name="allowSampleRows">
+      <span class="sheet-name">Let the model see the first 5 rows<span class="form-hint">Helps it recognise what the data describes. Without this, only statistics and column names are sent.</span></span>
+    </label>
+  `, 'Write Narrative', (form) => {
+    closeInsightsModal();
+    extractInsights({ narrative: true, allowSampleRows: form.elements.allowSampleRows.checked });
+  });
+}
+
+// Chart SVGs are generated by the server from the computed statistics, with all text escaped
+function renderCharts(charts) {
+  if (!charts || charts.length === 0) return '';
+
+  return `
+    <div class="chart-section">
+      <h3>Charts</h3>
+      <div class="chart-grid">
+        ${charts.map(chart => `
+          <figure class="chart-card chart-${chart.kind}">
+            <figcaption>${escapeHtml(chart.title)}</figcaption>
+            ${chart.svg}
+          </figure>
+        `).join('')}
+      </div>
+    </div>
+  `;
+}
+
+function renderCorrelationTables(correlations) {
+  if (!correlations || correlations.pairs.length === 0) return '';
+
+  const cell = (value) => {
+    if (value === null || value === undefined) return '<td class="corr-empty">–</td>';
+    const magnitude = Math.abs(value);
+    const level = magnitude >= 0.7 ? 'strong' : magnitude >= 0.4 ? 'moderate' : magnitude >= 0.2 ? 'weak' : 'negligible';
+    return `<td class="corr-${level}">${value.toFixed(2)}</td>`;
+  };
+  const matrix = (title, rowNames, columnNames, values) => `
+    <div class="correlation-block">
+      <h4>${title}</h4>
+      <div class="correlation-scroll">
+        <table class="correlation-table">
+          <thead><tr><th></th>${columnNames.map(name => `<th>${escapeHtml(name)}</th>`).join('')}</tr></thead>
+          <tbody>
+            ${rowNames.map((name, i) => `<tr><th>${escapeHtml(name)}</th>${values[i].map(cell).join('')}</tr>`).join('')}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  `;
+
+  let html = '<div class="correlation-section"><h3>Correlation Matrices</h3>';
+  if (correlations.numericColumns.length > 1) {
+    html += matrix('Pearson correlation', correlations.numericColumns, correlations.numericColumns, correlations.pearson);
+    html += matrix(`Spearman rank correlation${correlations.spearmanApproximate ? ` (sample of ${correlations.spearmanSampleRows.toLocaleString()} rows)` : ''}`, correlations.numericColumns, correlations.numericColumns, correlations.spearman);
+  }
+  if (correlations.categoricalColumns.length > 1) {
+    html += matrix('Cramér\'s V (categorical pairs)', correlations.categoricalColumns, correlations.categoricalColumns, correlations.cramersV);
+  }
+  if (correlations.categoricalColumns.length > 0 && correlations.numericColumns.length > 0) {
+    html += matrix('Correlation ratio η (categorical × numeric)', correlations.categoricalColumns, correlations.numericColumns, correlations.correlationRatio);
+  }
+  return html + '</div>';
+}
+
 function closeInsightsModal() {
   const modal = document.getElementById('insightsModal');
   if (modal) {
@@ -473,38 +938,40 @@ function closeInsightsModal() {
   }
 }
 
-async function downloadInsightsPDF() {
+// The insights report as a PDF, a self-contained HTML page or Markdown
+async function downloadInsightsReport(format, btn) {
   if (isProcessing) return;
 
   isProcessing = true;
-  const btn = document.getElementById('downloadPdfBtn');
   const originalText = btn.textContent;
-  btn.textContent = '⏳ Generating PDF...';
+  btn.textContent = '⏳ Generating...';
   btn.disabled = true;
 
   try {
-    const response = await fetch('/api/insights/pdf', {
+    const response = await fetch(`/api/insights/${format}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
       },
-      body: JSON.stringify({ sessionId })
+      body: JSON.stringify({ sessionId, dataset: activeDataset })
     });
 
-    if (!response.ok) {
-      throw new Error('Failed to generate PDF');
+    // Errors come back as JSON
+    if (!response.ok || (response.headers.get('Content-Type') || '').includes('application/json')) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.message || 'Failed to generate the report');
     }
 
-    // Download the PDF
+    // Download the report
     const blob = await response.blob();
-    const url = window.URL.createObjectURL(blob);
+    const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `insights_${currentFile.replace(/\.[^.]+$/, '')}_${Date.now()}.pdf`;
+    a.download = `insights_${currentFile.replace(/\.[^.]+$/, '')}_${Date.now()}.${format}`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
-    window.URL.revokeObjectURL(url);
+    URL.revokeObjectURL(url);
 
     btn.textContent = '✅ Downloaded!';
     setTimeout(() => {
@@ -513,7 +980,7 @@ async function downloadInsightsPDF() {
     }, 2000);
 
   } catch (error) {
-    alert('Error downloading PDF: ' + error.message);
+    alert('Error downloading report: ' + error.message);
     btn.textContent = originalText;
     btn.disabled = false;
   } finally {
@@ -565,6 +1032,8 @@ async function deleteFile(filename) {
       if (currentFile === filename) {
         currentFile = null;
         currentFileType = null;
+        activeDataset = null;
+        documentId = null;
       }
     }
     // Silently ignore errors - no popup
@@ -573,14 +1042,1028 @@ async function deleteFile(filename) {
   }
 }
 
-// Clear chat function
-function clearChat() {
+async function loadConversations() {
+  try {
+    const response = await fetch('/api/sessions');
+    const data = await response.json();
+    displayConversations(data.sessions || []);
+  } catch (error) {
+    console.error('Error loading conversations:', error);
+  }
+}
+
+function displayConversations(conversations) {
+  if (conversations.length === 0) {
+    conversationList.innerHTML = `
+      <div class="empty-state">
+        <span class="empty-icon">💬</span>
+        <p>No conversations yet</p>
+      </div>
+    `;
+    return;
+  }
+
+  conversationList.innerHTML = conversations.map(conversation => `
+    <div class="conversation-item${conversation.id === sessionId ? ' active' : ''}" data-session="${escapeAttribute(conversation.id)}" title="${escapeAttribute(conversation.lastQuestion ? `Last question: ${conversation.lastQuestion}` : 'No questions yet')}">
+      <div class="file-name">
+        <span>💬</span>
+        <span>${escapeHtml(conversation.title)}</span>
+      </div>
+      <div class="file-meta">
+        <span>${escapeHtml(conversation.currentFile)} · ${conversation.turnCount} question${conversation.turnCount === 1 ? '' : 's'}${conversation.reportCount > 0 ? ` · ${conversation.reportCount} report${conversation.reportCount === 1 ? '' : 's'}` : ''}</span>
+        <span>
+          <button class="conversation-action-btn" data-action="rename" title="Rename conversation">✏️</button>
+          <button class="conversation-action-btn" data-action="delete" title="Delete conversation">🗑️</button>
+        </span>
+      </div>
+    </div>
+  `).join('');
+
+  conversationList.querySelectorAll('.conversation-item').forEach(item => {
+    const id = item.getAttribute('data-session');
+    const conversation = conversations.find(c => c.id === id);
+
+    item.addEventListener('click', () => resumeConversation(id));
+    item.querySelectorAll('.conversation-action-btn').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        e.stopPropagation(); // Prevent resuming the conversation
+        if (btn.getAttribute('data-action') === 'rename') {
+          renameConversation(id, conversation.title);
+        } else {
+          deleteConversation(id);
+        }
+      });
+    });
+  });
+}
+
+// Reopens a saved conversation: its file, datasets and earlier questions and answers
+async function resumeConversation(id) {
+  if (isProcessing) return;
+
+  try {
+    const response = await fetch('/api/sessions/resume', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ sessionId: id })
+    });
+
+    const data = await response.json();
+
+    if (data.error) {
+      alert('Error resuming conversation: ' + data.message);
+      return;
+    }
+
+    const session = data.session;
+    sessionId = session.id;
+    currentFile = session.currentFile;
+    currentFileType = session.fileType;
+    documentId = session.document;
+    activeDataset = session.dataset || (session.datasets.length > 0 ? session.datasets[0].dataset : null);
+    sessionDatasets = session.datasets;
+    displaySessionDatasets();
+
+    document.querySelectorAll('.file-item').forEach(item => {
+      item.classList.toggle('active', item.getAttribute('data-filename') === currentFile);
+    });
+
+    messages.innerHTML = '';
+    welcomeScreen.style.display = 'none';
+    chatArea.style.display = 'flex';
+    questionInput.disabled = false;
+    sendBtn.disabled = false;
+
+    addMessage('ai', `Resumed "${session.title}" about ${currentFile}.${session.fileAvailable ? '' : ' The file itself has been deleted, so page links will not open, but its extracted data is still available.'}`);
+    for (const turn of session.turns) {
+      addMessage('user', turn.question, [], new Date(turn.askedAt));
+      addMessage('ai', turn.answer, turn.citations, new Date(turn.askedAt));
+    }
+
+    questionInput.focus();
+    loadConversations();
+  } catch (error) {
+    alert('Error resuming conversation: ' + error.message);
+  }
+}
+
+async function renameConversation(id, currentTitle) {
+  const title = prompt('Conversation name:', currentTitle);
+  if (title === null || !title.trim()) return;
+
+  try {
+    const response = await fetch('/api/sessions/rename', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ sessionId: id, title })
+    });
+
+    const data = await response.json();
+
+    if (data.error) {
+      alert('Error renaming conversation: ' + data.message);
+      return;
+    }
+
+    loadConversations();
+  } catch (error) {
+    alert('Error renaming conversation: ' + error.message);
+  }
+}
+
+async function deleteConversation(id) {
+  if (!confirm('Delete this conversation and its history?')) return;
+
+  try {
+    const response = await fetch('/api/sessions/delete', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ sessionId: id })
+    });
+
+    const data = await response.json();
+
+    // The open conversation is gone, so the file has to be processed again before asking more
+    if (data.success && id === sessionId) {
+      sessionId = newSessionId();
+      currentFile = null;
+      currentFileType = null;
+      activeDataset = null;
+      documentId = null;
+      sessionDatasets = [];
+      displaySessionDatasets();
+      messages.innerHTML = '';
+      chatArea.style.display = 'none';
+      welcomeScreen.style.display = '';
+      questionInput.disabled = true;
+      sendBtn.disabled = true;
+      document.querySelectorAll('.file-item').forEach(item => item.classList.remove('active'));
+    }
+
+    loadConversations();
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+  }
+}
+
+// Clear chat function; the saved conversation loses its turns too, so later questions start without them
+async function clearChat() {
   messages.innerHTML = '';
 
+  if (currentFile) {
+    try {
+      await fetch('/api/sessions/clear', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ sessionId })
+      });
+      loadConversations();
+    } catch (error) {
+      console.error('Error clearing conversation:', error);
+    }
+  }
+
   // Add a confirmation message
   addMessage('ai', 'Chat history cleared. How can I help you with your data?');
 }
 
+// How a dataset is listed: sheets and PDF tables of the session's file by their sheet, added files by file name,
+// joined and stacked tables by how they were made
+function datasetLabel(d) {
+  if (d.derivedFrom) return d.derivedFrom;
+  if (d.file && d.file !== currentFile) return d.sheet ? `${d.file} / ${d.sheet}` : d.file;
+  return d.sheet || currentFile;
+}
+
+// Clicking a dataset makes it the one insights and table questions use
+function displaySessionDatasets() {
+  datasetSection.style.display = currentFile && sessionDatasets.length > 0 ? '' : 'none';
+  datasetList.innerHTML = sessionDatasets.map(d => `
+    <div class="dataset-item${d.dataset === activeDataset ? ' active' : ''}" data-dataset="${escapeAttribute(d.dataset)}">
+      <div class="file-name">
+        <span>${d.derivedFrom ? '🧩' : '📊'}</span>
+        <span>${escapeHtml(datasetLabel(d))}</span>
+      </div>
+      <div class="file-meta">
+        <span>${d.rowCount.toLocaleString()} rows × ${d.headers.length} columns</span>
+      </div>
+    </div>
+  `).join('');
+
+  datasetList.querySelectorAll('.dataset-item').forEach(item => {
+    item.addEventListener('click', () => {
+      activeDataset = item.getAttribute('data-dataset');
+      displaySessionDatasets();
+    });
+  });
+}
+
+function datasetOptions(selected) {
+  return sessionDatasets.map(d => `<option value="${escapeAttribute(d.dataset)}"${d.dataset === selected ? ' selected' : ''}>${escapeHtml(datasetLabel(d))} (${d.rowCount.toLocaleString()} rows)</option>`).join('');
+}
+
+function splitColumns(text) {
+  return text.split(',').map(name => name.trim()).filter(Boolean);
+}
+
+// Shows a form in a modal; `onSubmit` receives the form element and returns false to keep the modal open
+function showDatasetForm(title, description, formHTML, submitLabel, onSubmit) {
+  const modalHTML = `
+    <div class="insights-modal-overlay" id="datasetFormModal">
+      <div class="insights-modal sheet-picker">
+        <div class="insights-header">
+          <h2>${title}</h2>
+          <button class="close-btn" id="closeDatasetFormBtn">×</button>
+        </div>
+        <div class="insights-meta">
+          <span>${description}</span>
+        </div>
+        <form class="dataset-form" id="datasetForm">${formHTML}</form>
+        <div class="insights-actions">
+          <button class="btn btn-secondary" id="cancelDatasetFormBtn">Cancel</button>
+          <button class="btn btn-primary" id="submitDatasetFormBtn">${submitLabel}</button>
+        </div>
+      </div>
+    </div>
+  `;
+
+  document.body.insertAdjacentHTML('beforeend', modalHTML);
+  const modal = document.getElementById('datasetFormModal');
+  const form = document.getElementById('datasetForm');
+  const close = () => modal.remove();
+
+  document.getElementById('closeDatasetFormBtn').addEventListener('click', close);
+  document.getElementById('cancelDatasetFormBtn').addEventListener('click', close);
+  form.addEventListener('submit', (e) => e.preventDefault());
+  document.getElementById('submitDatasetFormBtn').addEventListener('click', async () => {
+    if (await onSubmit(form) !== false) close();
+  });
+  return form;
+}
+
+// Add a file to the session, join, stack or compare the session's datasets, query them with SQL, clean or download them
+async function showDatasetOperation(operation) {
+  if (isProcessing || !currentFile) return;
+
+  if (operation === 'add') {
+    await showAddFileForm();
+    return;
+  }
+  if (operation === 'sql') {
+    showSQLForm();
+    return;
+  }
+  if (operation === 'clean') {
+    await showCleanForm();
+    return;
+  }
+  if (operation === 'download') {
+    showDownloadForm();
+    return;
+  }
+
+  if (sessionDatasets.length < 2) {
+    alert('This needs at least two datasets. Use Add File to load another file into this session.');
+    return;
+  }
+
+  const other = (sessionDatasets.find(d => d.dataset !== activeDataset) || sessionDatasets[0]).dataset;
+
+  if (operation === 'join') {
+    const form = showDatasetForm('🔗 Join Datasets', 'Rows with equal key values are combined into a new dataset. Put the smaller table on the right.', `
+      <label>Left dataset<select name="left">${datasetOptions(activeDataset)}</select></label>
+      <label>Right dataset<select name="right">${datasetOptions(other)}</select></label>
+      <label>Key columns (comma-separated)<input type="text" name="on"><span class="form-hint" id="joinKeyHint"></span></label>
+      <label>Right key columns, if named differently<input type="text" name="rightOn" placeholder="Same names as the left key columns"></label>
+      <label>Join type
+        <select name="how">
+          <option value="inner">Inner - only rows with a match</option>
+          <option value="left">Left - every left row</option>
+          <option value="full">Full - every row of both</option>
+        </select>
+      </label>
+    `, 'Join', (form) => {
+      const on = splitColumns(form.elements.on.value);
+      if (on.length === 0) {
+        alert('Please enter at least one key column.');
+        return false;
+      }
+      runDatasetOperation('join', {
+        left: form.elements.left.value,
+        right: form.elements.right.value,
+        on,
+        rightOn: splitColumns(form.elements.rightOn.value),
+        how: form.elements.how.value
+      });
+    });
+
+    // Suggests the columns both tables share as keys
+    const updateHint = () => {
+      const left = sessionDatasets.find(d => d.dataset === form.elements.left.value);
+      const right = sessionDatasets.find(d => d.dataset === form.elements.right.value);
+      const rightNames = new Set(right.headers.map(name => name.toLowerCase()));
+      const shared = left.headers.filter(name => rightNames.has(name.toLowerCase()));
+      document.getElementById('joinKeyHint').textContent = shared.length > 0 ? `Columns in both: ${shared.join(', ')}` : 'The datasets share no column names; enter the right key columns below.';
+    };
+    form.elements.left.addEventListener('change', updateHint);
+    form.elements.right.addEventListener('change', updateHint);
+    updateHint();
+  } else if (operation === 'union') {
+    showDatasetForm('📚 Union Datasets', 'The rows of the selected datasets are stacked into a new dataset. Columns are matched by name.', `
+      <div class="sheet-list">
+        ${sessionDatasets.map(d => `
+          <label class="sheet-option">
+            <input type="checkbox" name="datasets" value="${escapeAttribute(d.dataset)}" ${d.dataset === activeDataset || d.dataset === other ? 'checked' : ''}>
+            <span class="sheet-name">${escapeHtml(datasetLabel(d))}</span>
+            <span class="sheet-meta">${d.rowCount.toLocaleString()} rows × ${d.headers.length} columns</span>
+          </label>
+        `).join('')}
+      </div>
+      <label>Source column<input type="text" name="sourceColumn" placeholder="Optional: name of a column recording each row's dataset"></label>
+    `, 'Union', (form) => {
+      const datasets = Array.from(form.querySelectorAll('input[name="datasets"]:checked')).map(box => box.value);
+      if (datasets.length < 2) {
+        alert('Please select at least two datasets.');
+        return false;
+      }
+      runDatasetOperation('union', { datasets, sourceColumn: form.elements.sourceColumn.value.trim() || undefined });
+    });
+  } else if (operation === 'compare') {
+    showDatasetForm('⚖️ Compare Datasets', 'Reports schema differences, row count changes and distribution shifts of the current dataset against the baseline.', `
+      <label>Baseline dataset<select name="baseline">${datasetOptions(other)}</select></label>
+      <label>Current dataset<select name="current">${datasetOptions(activeDataset)}</select></label>
+      <label>Key columns<input type="text" name="keyColumns" placeholder="Optional: columns identifying a row, to count added, removed and changed rows"></label>
+    `, 'Compare', (form) => {
+      runDatasetOperation('compare', {
+        baseline: form.elements.baseline.value,
+        current: form.elements.current.value,
+        keyColumns: splitColumns(form.elements.keyColumns.value)
+      });
+    });
+  } else if (operation === 'drift') {
+    showDatasetForm('📉 Data Drift', 'Measures how far each column of the current version drifted from the baseline. Both datasets must be versions of the same table.', `
+      <label>Baseline dataset<select name="baseline">${datasetOptions(other)}</select></label>
+      <label>Current dataset<select name="current">${datasetOptions(activeDataset)}</select></label>
+    `, 'Measure Drift', (form) => {
+      runDatasetOperation('drift', {
+        baseline: form.elements.baseline.value,
+        current: form.elements.current.value
+      });
+    });
+  }
+}
+
+function showSQLForm() {
+  if (sessionDatasets.length === 0) {
+    alert('This file has no table datasets to query.');
+    return;
+  }
+
+  const active = sessionDatasets.find(d => d.dataset === activeDataset) || sessionDatasets[0];
+  showDatasetForm('🧮 SQL Query', 'Runs a SELECT over the session\'s datasets. Name tables by their dataset ID in double quotes, and quote column names with spaces.', `
+    <label>Query<textarea name="query" rows="6" spellcheck="false">SELECT *\nFROM "${escapeHtml(active.dataset)}"\nLIMIT 100</textarea></label>
+    <div class="form-hint">
+      ${sessionDatasets.map(d => `<div><code>"${escapeHtml(d.dataset)}"</code> - ${escapeHtml(datasetLabel(d))}: ${escapeHtml(d.headers.join(', '))}</div>`).join('')}
+    </div>
+  `, 'Run Query', (form) => {
+    const query = form.elements.query.value.trim();
+    if (!query) {
+      alert('Please enter a query.');
+      return false;
+    }
+    runSQLQuery({ query });
+  });
+}
+
+// Runs a query, or with `result` reads another page of an earlier result, and shows the rows
+async function runSQLQuery(params) {
+  if (isProcessing) return;
+
+  isProcessing = true;
+  showProcessingModal();
+
+  try {
+    const response = await fetch('/api/sql', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ sessionId, limit: SQL_PAGE_ROWS, ...params })
+    });
+
+    const data = await response.json();
+
+    hideProcessingModal();
+
+    if (data.error) {
+      alert(`Error: ${data.message}`);
+      return;
+    }
+
+    // A new result becomes a dataset of the session, ready for insights, questions and further queries
+    if (!params.result) {
+      sessionDatasets = data.sessionDatasets;
+      displaySessionDatasets();
+      loadConversations();
+    }
+    closeInsightsModal();
+    showSQLResultModal(data);
+  } catch (error) {
+    hideProcessingModal();
+    alert('Error: ' + error.message);
+  } finally {
+    isProcessing = false;
+  }
+}
+
+function showSQLResultModal(data) {
+  const last = data.offset + data.returned;
+  const modalHTML = `
+    <div class="insights-modal-overlay" id="insightsModal">
+      <div class="insights-modal">
+        <div class="insights-header">
+          <h2>🧮 SQL Result</h2>
+          <button class="close-btn" id="closeInsightsBtn">×</button>
+        </div>
+        <div class="insights-meta">
+          <span>${data.rowCount.toLocaleString()} rows × ${data.headers.length} columns</span>
+          <span>${data.returned > 0 ? `Rows ${(data.offset + 1).toLocaleString()}-${last.toLocaleString()}` : 'No rows'}</span>
+        </div>
+        <div class="insights-content">
+          <pre class="sql-query">${escapeHtml(data.query)}</pre>
+          <div class="correlation-scroll">
+            <table class="correlation-table">
+              <thead><tr>${data.headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>
+              <tbody>
+                ${data.rows.map(row => `<tr>${data.headers.map(header => `<td>${escapeHtml(row[header])}</td>`).join('')}</tr>`).join('')}
+              </tbody>
+            </table>
+          </div>
+        </div>
+        <div class="insights-actions">
+          <button class="btn btn-secondary" id="sqlPrevBtn" ${data.offset > 0 ? '' : 'disabled'}>← Previous</button>
+          <button class="btn btn-secondary" id="sqlNextBtn" ${data.truncated ? '' : 'disabled'}>Next →</button>
+          <button class="btn btn-secondary" id="sqlDownloadBtn">⬇️ Download</button>
+          <button class="btn btn-primary" id="sqlUseBtn">Use as Active Dataset</button>
+          <button class="btn btn-secondary" id="closeInsights2Btn">Close</button>
+        </div>
+      </div>
+    </div>
+  `;
+
+  document.body.insertAdjacentHTML('beforeend', modalHTML);
+
+  document.getElementById('sqlPrevBtn').addEventListener('click', () => runSQLQuery({ result: data.dataset, offset: Math.max(0, data.offset - SQL_PAGE_ROWS) }));
+  document.getElementById('sqlNextBtn').addEventListener('click', () => runSQLQuery({ result: data.dataset, offset: last }));
+  document.getElementById('sqlDownloadBtn').addEventListener('click', () => showDownloadForm(data.dataset));
+  document.getElementById('sqlUseBtn').addEventListener('click', () => {
+    activeDataset = data.dataset;
+    displaySessionDatasets();
+    closeInsightsModal();
+  });
+  document.getElementById('closeInsightsBtn').addEventListener('click', closeInsightsModal);
+  document.getElementById('closeInsights2Btn').addEventListener('click', closeInsightsModal);
+  document.getElementById('insightsModal').addEventListener('click', (e) => {
+    if (e.target.id === 'insightsModal') {
+      closeInsightsModal();
+    }
+  });
+}
+
+// Suggested cleaning steps for the active dataset, applied as checked, or a recipe file saved from an earlier run
+async function showCleanForm() {
+  const source = sessionDatasets.find(d => d.dataset === activeDataset) || sessionDatasets[0];
+  if (!source) {
+    alert('This file has no table datasets to clean.');
+    return;
+  }
+
+  isProcessing = true;
+  showProcessingModal();
+  let proposals = [];
+  try {
+    const response = await fetch('/api/transform/propose', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ sessionId, dataset: source.dataset })
+    });
+    const data = await response.json();
+    if (data.error) {
+      alert(`Error: ${data.message}`);
+      return;
+    }
+    proposals = data.proposals;
+  } catch (error) {
+    alert('Error: ' + error.message);
+    return;
+  } finally {
+    hideProcessingModal();
+    isProcessing = false;
+  }
+
+  showDatasetForm('🧹 Clean Dataset', `Cleans ${escapeHtml(datasetLabel(source))} into a new version; the original is kept. Statistics such as medians and outlier bounds are computed from its rows.`, `
+    ${proposals.length > 0 ? `
+      <div class="sheet-list">
+        ${proposals.map((proposal, idx) => `
+          <label class="sheet-option transform-option">
+            <input type="checkbox" name="step" value="${idx}" checked>
+            <span class="sheet-name">${escapeHtml(proposal.description)}<span class="form-hint">${escapeHtml(proposal.reason)}</span></span>
+          </label>
+        `).join('')}
+      </div>
+    ` : '<div class="form-hint">No cleaning steps suggested: no mostly empty columns, duplicates, missing values, outliers or skewed columns were found.</div>'}
+    <label>Or apply a recipe file from an earlier run<input type="file" name="recipe" accept=".json,application/json"></label>
+  `, 'Apply', async (form) => {
+    const recipeFile = form.elements.recipe.files[0];
+    if (recipeFile) {
+      let recipe;
+      try {
+        recipe = JSON.parse(await recipeFile.text());
+      } catch {
+        alert('The recipe file is not valid JSON.');
+        return false;
+      }
+      runTransform({ dataset: source.dataset, recipe });
+      return;
+    }
+
+    const steps = [...form.querySelectorAll('input[name="step"]:checked')].map(input => proposals[parseInt(input.value)].step);
+    if (steps.length === 0) {
+      alert('Please select at least one step, or choose a recipe file.');
+      return false;
+    }
+    runTransform({ dataset: source.dataset, steps });
+  });
+}
+
+async function runTransform(params) {
+  if (isProcessing) return;
+
+  isProcessing = true;
+  showProcessingModal();
+
+  try {
+    const response = await fetch('/api/transform', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ sessionId, ...params })
+    });
+
+    const data = await response.json();
+
+    hideProcessingModal();
+
+    if (data.error) {
+      alert(`Error: ${data.message}`);
+      return;
+    }
+
+    sessionDatasets = data.sessionDatasets;
+    displaySessionDatasets();
+    loadConversations();
+    closeInsightsModal();
+    showTransformResultModal(data);
+  } catch (error) {
+    hideProcessingModal();
+    alert('Error: ' + error.message);
+  } finally {
+    isProcessing = false;
+  }
+}
+
+function showTransformResultModal(data) {
+  const modalHTML = `
+    <div class="insights-modal-overlay" id="insightsModal">
+      <div class="insights-modal">
+        <div class="insights-header">
+          <h2>🧹 ${escapeHtml(data.sheet)}</h2>
+          <button class="close-btn" id="closeInsightsBtn">×</button>
+        </div>
+        <div class="insights-meta">
+          <span>${data.rowCount.toLocaleString()} rows × ${data.headers.length} columns</span>
+          <span>Recipe ${escapeHtml(data.recipe)}</span>
+        </div>
+        <div class="insights-content">
+          <ol class="transform-steps">
+            ${data.steps.map(step => `<li>${escapeHtml(step.summary)}</li>`).join('')}
+          </ol>
+          <div class="correlation-scroll">
+            <table class="correlation-table">
+              <thead><tr>${data.headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>
+              <tbody>
+                ${data.sampleRows.map(row => `<tr>${data.headers.map((_, idx) => `<td>${escapeHtml(row[idx] ?? '')}</td>`).join('')}</tr>`).join('')}
+              </tbody>
+            </table>
+          </div>
+        </div>
+        <div class="insights-actions">
+          <button class="btn btn-secondary" id="downloadRecipeBtn">📜 Download Recipe</button>
+          <button class="btn btn-secondary" id="downloadCSVBtn">⬇️ CSV</button>
+          <button class="btn btn-secondary" id="downloadXLSXBtn">⬇️ Excel</button>
+          <button class="btn btn-primary" id="transformUseBtn">Use as Active Dataset</button>
+          <button class="btn btn-secondary" id="closeInsights2Btn">Close</button>
+        </div>
+      </div>
+    </div>
+  `;
+
+  document.body.insertAdjacentHTML('beforeend', modalHTML);
+
+  document.getElementById('downloadRecipeBtn').addEventListener('click', () => {
+    const blob = new Blob([JSON.stringify(data.recipeFile, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${data.recipe}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  });
+  document.getElementById('downloadCSVBtn').addEventListener('click', (e) => downloadDataset(data.dataset, 'csv', e.currentTarget));
+  document.getElementById('downloadXLSXBtn').addEventListener('click', (e) => downloadDataset(data.dataset, 'xlsx', e.currentTarget));
+  document.getElementById('transformUseBtn').addEventListener('click', () => {
+    activeDataset = data.dataset;
+    displaySessionDatasets();
+    closeInsightsModal();
+  });
+  document.getElementById('closeInsightsBtn').addEventListener('click', closeInsightsModal);
+  document.getElementById('closeInsights2Btn').addEventListener('click', closeInsightsModal);
+  document.getElementById('insightsModal').addEventListener('click', (e) => {
+    if (e.target.id === 'insightsModal') {
+      closeInsightsModal();
+    }
+  });
+}
+
+function showDownloadForm(dataset = activeDataset) {
+  if (sessionDatasets.length === 0) {
+    alert('This file has no table datasets to download.');
+    return;
+  }
+
+  const form = showDatasetForm('⬇️ Download Dataset', 'Downloads every row of a dataset. Excel, NDJSON and Parquet files keep numbers, dates and booleans typed.', `
+    <label>Dataset<select name="dataset">${datasetOptions(dataset)}</select></label>
+    <label>Format
+      <select name="format">
+        <option value="csv">CSV</option>
+        <option value="xlsx">Excel (.xlsx)</option>
+        <option value="ndjson">NDJSON (one JSON object per line)</option>
+        <option value="parquet">Parquet</option>
+      </select>
+    </label>
+    <div class="csv-options">
+      <label>Delimiter
+        <select name="delimiter">
+          <option value=",">Comma (,)</option>
+          <option value=";">Semicolon (;)</option>
+          <option value="\t">Tab</option>
+          <option value="|">Pipe (|)</option>
+        </select>
+      </label>
+      <label>Encoding
+        <select name="encoding">
+          <option value="utf-8">UTF-8</option>
+          <option value="utf-8-bom">UTF-8 with BOM (for Excel)</option>
+          <option value="utf-16le">UTF-16 LE</option>
+          <option value="windows-1252">Windows-1252</option>
+        </select>
+      </label>
+    </div>
+  `, 'Download', (form) => {
+    const format = form.elements.format.value;
+    const encoding = form.elements.encoding.value;
+    const options = format === 'csv'
+      ? { delimiter: form.elements.delimiter.value, encoding: encoding.replace(/-bom$/, ''), bom: encoding.endsWith('-bom') || undefined }
+      : {};
+    downloadDataset(form.elements.dataset.value, format, null, options);
+  });
+
+  const csvOptions = form.querySelector('.csv-options');
+  form.elements.format.addEventListener('change', () => {
+    csvOptions.style.display = form.elements.format.value === 'csv' ? '' : 'none';
+  });
+}
+
+async function downloadDataset(dataset, format, btn, options = {}) {
+  const originalText = btn?.textContent;
+  if (btn) {
+    btn.disabled = true;
+    btn.textContent = '⏳ Preparing...';
+  }
+
+  try {
+    const response = await fetch('/api/export', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ sessionId, dataset, format, ...options })
+    });
+
+    // Errors come back as JSON
+    if (!response.ok || (response.headers.get('Content-Type') || '').includes('application/json')) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.message || 'Failed to download the dataset');
+    }
+
+    const fileName = (response.headers.get('Content-Disposition') || '').match(/filename="([^"]+)"/)?.[1] || `dataset.${format}`;
+    const blob = await response.blob();
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    alert('Error: ' + error.message);
+  } finally {
+    if (btn) {
+      btn.disabled = false;
+      btn.textContent = originalText;
+    }
+  }
+}
+
+async function showAddFileForm() {
+  let files = [];
+  try {
+    const response = await fetch('/api/files');
+    files = ((await response.json()).files || []).filter(file => file.name !== currentFile && ['CSV', 'XLSX', 'XLS', 'PDF'].includes(file.type));
+  } catch (error) {
+    console.error('Error loading files:', error);
+  }
+
+  if (files.length === 0) {
+    alert('No other files to add. Upload a file first.');
+    return;
+  }
+
+  showDatasetForm('➕ Add File', `Loads another file into this conversation; questions can then use its tables alongside ${escapeHtml(currentFile)}.`, `
+    <label>File
+      <select name="filename">
+        ${files.map(file => `<option value="${escapeAttribute(file.name)}">${escapeHtml(file.name)}</option>`).join('')}
+      </select>
+    </label>
+  `, 'Add File', (form) => {
+    addFileToSession(form.elements.filename.value);
+  });
+}
+
+async function addFileToSession(filename) {
+  if (isProcessing) return;
+
+  isProcessing = true;
+
+  let sheets;
+  const ext = filename.split('.').pop().toLowerCase();
+  if (ext === 'xlsx' || ext === 'xls') {
+    sheets = await chooseSheets(filename);
+    if (sheets === null) {
+      isProcessing = false;
+      return;
+    }
+  }
+
+  showProcessingModal();
+
+  try {
+    const response = await fetch('/api/process', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ filename, sessionId, sheets, append: true })
+    });
+
+    const data = await response.json();
+
+    hideProcessingModal();
+
+    if (data.error) {
+      alert('Error adding file: ' + data.message);
+      return;
+    }
+
+    sessionDatasets = data.sessionDatasets;
+    activeDataset = data.datasets[0].dataset;
+    displaySessionDatasets();
+    loadConversations();
+    addMessage('ai', `Added ${filename} to this conversation: ${data.datasets.map(d => `${datasetLabel(d)} (${d.rowCount.toLocaleString()} rows)`).join(', ')}. Questions can now use it together with ${currentFile}.`);
+  } catch (error) {
+    hideProcessingModal();
+    alert('Error adding file: ' + error.message);
+  } finally {
+    isProcessing = false;
+  }
+}
+
+async function runDatasetOperation(operation, params) {
+  if (isProcessing) return;
+
+  isProcessing = true;
+  showProcessingModal();
+
+  try {
+    const response = await fetch(`/api/datasets/${operation}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ sessionId, ...params })
+    });
+
+    const data = await response.json();
+
+    hideProcessingModal();
+
+    if (data.error) {
+      alert(`Error: ${data.message}`);
+      return;
+    }
+
+    loadConversations();
+
+    if (operation === 'compare') {
+      showComparisonModal(data);
+      return;
+    }
+    if (operation === 'drift') {
+      showDriftModal(data, params);
+      return;
+    }
+
+    // The joined or stacked table becomes the active dataset, ready for insights and questions
+    sessionDatasets = data.sessionDatasets;
+    activeDataset = data.dataset;
+    displaySessionDatasets();
+    addMessage('ai', data.message);
+  } catch (error) {
+    hideProcessingModal();
+    alert('Error: ' + error.message);
+  } finally {
+    isProcessing = false;
+  }
+}
+
+function showComparisonModal(data) {
+  const { comparison } = data;
+  const modalHTML = `
+    <div class="insights-modal-overlay" id="insightsModal">
+      <div class="insights-modal">
+        <div class="insights-header">
+          <h2>⚖️ Dataset Comparison Report</h2>
+          <button class="close-btn" id="closeInsightsBtn">×</button>
+        </div>
+        <div class="insights-meta">
+          <span>${escapeHtml(comparison.baseline.name)} → ${escapeHtml(comparison.current.name)}</span>
+          <span>${comparison.baseline.rowCount.toLocaleString()} → ${comparison.current.rowCount.toLocaleString()} rows</span>
+        </div>
+        <div class="insights-content">
+          <pre>${escapeHtml(data.report)}</pre>
+          ${renderReportTables('Column Comparison', data.comparisonTables)}
+        </div>
+        <div class="insights-actions">
+          <button class="btn btn-secondary" id="closeInsights2Btn">Close</button>
+        </div>
+      </div>
+    </div>
+  `;
+
+  document.body.insertAdjacentHTML('beforeend', modalHTML);
+
+  document.getElementById('closeInsightsBtn').addEventListener('click', closeInsightsModal);
+  document.getElementById('closeInsights2Btn').addEventListener('click', closeInsightsModal);
+  document.getElementById('insightsModal').addEventListener('click', (e) => {
+    if (e.target.id === 'insightsModal') {
+      closeInsightsModal();
+    }
+  });
+}
+
+function showDriftModal(data, params) {
+  const { drift } = data;
+  const modalHTML = `
+    <div class="insights-modal-overlay" id="insightsModal">
+      <div class="insights-modal">
+        <div class="insights-header">
+          <h2>📉 Data Drift Report</h2>
+          <button class="close-btn" id="closeInsightsBtn">×</button>
+        </div>
+        <div class="insights-meta">
+          <span>${escapeHtml(drift.baseline.name)} → ${escapeHtml(drift.current.name)}</span>
+          <span>${drift.driftedColumns.length} of ${drift.columns.length} columns drifted</span>
+        </div>
+        <div class="insights-content">
+          <pre>${escapeHtml(data.report)}</pre>
+          ${renderReportTables('Drift by Column', data.driftTables)}
+        </div>
+        <div class="insights-actions">
+          <button class="btn btn-primary" id="downloadPdfBtn">📥 Download PDF</button>
+          <button class="btn btn-secondary" id="closeInsights2Btn">Close</button>
+        </div>
+      </div>
+    </div>
+  `;
+
+  document.body.insertAdjacentHTML('beforeend', modalHTML);
+
+  document.getElementById('downloadPdfBtn').addEventListener('click', () => downloadDriftPDF(params));
+  document.getElementById('closeInsightsBtn').addEventListener('click', closeInsightsModal);
+  document.getElementById('closeInsights2Btn').addEventListener('click', closeInsightsModal);
+  document.getElementById('insightsModal').addEventListener('click', (e) => {
+    if (e.target.id === 'insightsModal') {
+      closeInsightsModal();
+    }
+  });
+}
+
+async function downloadDriftPDF(params) {
+  if (isProcessing) return;
+
+  isProcessing = true;
+  const btn = document.getElementById('downloadPdfBtn');
+  const originalText = btn.textContent;
+  btn.textContent = '⏳ Generating PDF...';
+  btn.disabled = true;
+
+  try {
+    const response = await fetch('/api/datasets/drift/pdf', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ sessionId, ...params })
+    });
+
+    // Errors come back as JSON
+    if (!response.ok || !(response.headers.get('Content-Type') || '').includes('application/pdf')) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.message || 'Failed to generate PDF');
+    }
+
+    const blob = await response.blob();
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `drift_${currentFile.replace(/\.[^.]+$/, '')}_${Date.now()}.pdf`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    btn.textContent = '✅ Downloaded!';
+    setTimeout(() => {
+      btn.textContent = originalText;
+      btn.disabled = false;
+    }, 2000);
+  } catch (error) {
+    alert('Error downloading PDF: ' + error.message);
+    btn.textContent = originalText;
+    btn.disabled = false;
+  } finally {
+    isProcessing = false;
+  }
+}
+
+// Report tables from the server, first column as row labels
+function renderReportTables(title, tables) {
+  if (!tables || tables.length === 0) return '';
+
+  return `
+    <div class="correlation-section">
+      <h3>${title}</h3>
+      ${tables.map(table => `
+        <div class="correlation-block">
+          <h4>${escapeHtml(table.title)}</h4>
+          <div class="correlation-scroll">
+            <table class="correlation-table">
+              <thead><tr>${table.columns.map(column => `<th>${escapeHtml(column)}</th>`).join('')}</tr></thead>
+              <tbody>
+                ${table.rows.map(row => `<tr><th>${escapeHtml(row[0])}</th>${row.slice(1).map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      `).join('')}
+    </div>
+  `;
+}
+
 // Auto-refresh file list every 30 seconds
 setInterval(loadFiles, 30000);
 
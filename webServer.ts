@@ -1,5 +1,4 @@
 import { AnthropicModelProvider, ZypherAgent } from "@corespeed/zypher";
-import { eachValueFrom } from "rxjs-for-await";
 import { load } from "@std/dotenv";
 import {
   extractPDFTool,
@@ -8,8 +7,50 @@ import {
   listDataTool,
   listFilesTool,
   checkFileTool,
+  filterRowsTool,
+  aggregateColumnTool,
+  groupByTool,
+  uniqueValuesTool,
+  searchTableTool,
+  listSheetsTool,
+  timeSeriesSummaryTool,
+  searchPDFTool,
+  joinDatasetsTool,
+  unionDatasetsTool,
+  compareDatasetsTool,
+  detectDriftTool,
+  runSqlTool,
+  proposeTransformationsTool,
+  transformDatasetTool,
+  exportDataTool,
+  scopedTools,
+  tableQuestionPrompt,
+  type DataScope,
 } from "./customTools.ts";
 import { serveDir } from "https://deno.land/std@0.224.0/http/file_server.ts";
+import { renderDriftLines } from "./driftTool.ts";
+import { sqlTables } from "./sqlTool.ts";
+import { isTableData, TableProcessor } from "./tableTool.ts";
+import { isSavedPDF } from "./pdfTool.ts";
+import { EXPORT_DIR, exportContentType, exportFileName, validateExportOptions } from "./exportTool.ts";
+import { renderInsightLines } from "./insightTool.ts";
+import { withNarrative, writeNarrative, type Narrative } from "./narrativeTool.ts";
+import type { ReportChart } from "./chartTool.ts";
+import { REPORT_CONTENT_TYPES, REPORT_FORMATS, renderReport, renderReportPDF, reportDocument } from "./reportTool.ts";
+import { CITATION_INSTRUCTIONS, citeAnswer, documentIndex, formatPassages, retrievePassages, type Citation } from "./retrievalTool.ts";
+import { DataStorage } from "./storageTool.ts";
+import {
+  SessionStore,
+  conversationDatasets,
+  conversationExports,
+  conversationFiles,
+  formatHistory,
+  summarizeConversation,
+  type ConversationDataset,
+  type ConversationReport,
+  type ConversationTurn,
+  type StoredConversation,
+} from "./sessionTool.ts";
 
 // Load environment variables
 const env = await load();
@@ -42,40 +83,123 @@ try {
   // Directories exist
 }
 
-const agent = new ZypherAgent(
-  {
-    workingDirectory,
-    zypherDir,
-    workspaceDataDir,
-    fileAttachmentCacheDir,
-  },
-  modelProvider
-);
-
-(agent as any).tools = [
+const agentTools = [
   checkFileTool,
   listFilesTool,
   extractPDFTool,
   processTableTool,
   extractInsightsTool,
   listDataTool,
+  filterRowsTool,
+  aggregateColumnTool,
+  groupByTool,
+  uniqueValuesTool,
+  searchTableTool,
+  listSheetsTool,
+  timeSeriesSummaryTool,
+  searchPDFTool,
+  joinDatasetsTool,
+  unionDatasetsTool,
+  compareDatasetsTool,
+  detectDriftTool,
+  runSqlTool,
+  proposeTransformationsTool,
+  transformDatasetTool,
+  exportDataTool,
 ];
 
+// Each answer runs on an agent of its own, whose tools only read the data of the conversation asking and add what
+// they create to `scope`
+function conversationAgent(scope: DataScope): ZypherAgent {
+  const agent = new ZypherAgent(
+    {
+      workingDirectory,
+      zypherDir,
+      workspaceDataDir,
+      fileAttachmentCacheDir,
+    },
+    modelProvider
+  );
+  (agent as any).tools = scopedTools(agentTools, scope);
+  return agent;
+}
+
 // Application state
-const sessions = new Map<string, {
-  currentFile: string;
-  fileType: string;
+const storage = new DataStorage();
+const tableProcessor = new TableProcessor();
+
+// Conversations are saved under .zypher/workspace/sessions after every change; the map only caches them, with the
+// extracted PDF loaded back from storage
+const sessionStore = new SessionStore(`${workspaceDataDir}/sessions`);
+
+interface Session extends StoredConversation {
   isFileProcessed: boolean;
-  tableData: any;
   pdfData: any;
-}>();
+}
+
+const sessions = new Map<string, Session>();
+
+// The session with this ID, read back from disk for conversations started before a restart or a cleanup
+async function getSession(sessionId: string): Promise<Session | null> {
+  const cached = sessions.get(sessionId);
+  if (cached) return cached;
+
+  const conversation = await sessionStore.load(sessionId);
+  if (!conversation) return null;
+  const pdfData = conversation.document ? await storage.loadDataset(conversation.document, "pdf_data") : null;
+  const session: Session = {
+    ...conversation,
+    isFileProcessed: true,
+    pdfData: isSavedPDF(pdfData) ? { ...pdfData, document: conversation.document } : null
+  };
+  sessions.set(sessionId, session);
+  return session;
+}
+
+async function saveSession(session: Session): Promise<void> {
+  session.updatedAt = new Date().toISOString();
+  const { isFileProcessed: _isFileProcessed, pdfData: _pdfData, ...conversation } = session;
+  await sessionStore.save(conversation);
+}
+
+// Uploads and extracted data that saved conversations use; cleanups keep them so the conversations can be resumed.
+// Table datasets keep their rows in a separate file named in the dataset.
+async function savedConversationFiles(): Promise<{ uploads: Set<string>; data: Set<string>; exports: Set<string> }> {
+  const uploads = new Set<string>();
+  const data = new Set<string>();
+  const exports = new Set<string>();
+  for (const conversation of await sessionStore.list()) {
+    conversationFiles(conversation).forEach(file => uploads.add(file));
+    conversationExports(conversation).forEach(file => exports.add(file));
+    for (const id of conversationDatasets(conversation)) {
+      data.add(`${id}.json`);
+      if (id === conversation.document) continue;
+      const table = await storage.loadDataset(id, "table_data");
+      if (isTableData(table) && table.rowsFile) data.add(table.rowsFile);
+    }
+  }
+  return { uploads, data, exports };
+}
+
+// Citations link to the uploaded file, opened at the cited page
+function citationLinks(session: Session, citations: Citation[]) {
+  return citations.map(citation => ({
+    ...citation,
+    url: `/uploads/${encodeURIComponent(session.currentFile)}#page=${citation.page}`
+  }));
+}
 
 // Helper functions from main.ts
-async function processCSV(filePath: string) {
+async function processCSV(filePath: string, options: { delimiter?: string; quoteChar?: string; encoding?: string; hasHeader?: boolean; skipRows?: number } = {}) {
   try {
     const result = await processTableTool.execute({
       file_path: filePath,
-      file_type: 'csv'
+      file_type: 'csv',
+      delimiter: options.delimiter,
+      quote_char: options.quoteChar,
+      encoding: options.encoding,
+      has_header: options.hasHeader,
+      skip_rows: options.skipRows
     });
 
     const parsed = JSON.parse(result);
@@ -88,18 +212,26 @@ async function processCSV(filePath: string) {
       error: false,
       headers: parsed.headers,
       rowCount: parsed.rowCount,
-      sampleRows: parsed.sample_rows
+      sampleRows: parsed.sample_rows,
+      dataset: parsed.dataset,
+      sheet: parsed.sheet,
+      datasets: parsed.datasets,
+      dialect: parsed.dialect,
+      dialectSummary: parsed.dialectSummary
     };
   } catch (error) {
     return { error: true, message: String(error) };
   }
 }
 
-async function processExcel(filePath: string) {
+async function processExcel(filePath: string, options: { sheets?: string[]; headerRows?: number; range?: string } = {}) {
   try {
     const result = await processTableTool.execute({
       file_path: filePath,
-      file_type: 'excel'
+      file_type: 'excel',
+      sheets: options.sheets,
+      header_rows: options.headerRows,
+      range: options.range
     });
 
     const parsed = JSON.parse(result);
@@ -112,7 +244,10 @@ async function processExcel(filePath: string) {
       error: false,
       headers: parsed.headers,
       rowCount: parsed.rowCount,
-      sampleRows: parsed.sample_rows
+      sampleRows: parsed.sample_rows,
+      dataset: parsed.dataset,
+      sheet: parsed.sheet,
+      datasets: parsed.datasets
     };
   } catch (error) {
     return { error: true, message: String(error) };
@@ -131,30 +266,20 @@ async function processPDF(filePath: string) {
       return { error: true, message: parsed.message };
     }
 
-    // Load the full PDF data from storage
-    let fullData = null;
-    try {
-      const files = [];
-      for await (const entry of Deno.readDir("./extracted_data")) {
-        if (entry.name.startsWith("pdf_data")) {
-          files.push(entry.name);
-        }
-      }
-      files.sort((a, b) => b.localeCompare(a));
-
-      if (files.length > 0) {
-        const fs = await Deno.readTextFile(`./extracted_data/${files[0]}`);
-        fullData = JSON.parse(fs);
-      }
-    } catch (error) {
-      console.log(`⚠️  Could not load full PDF data: ${error}`);
-    }
+    // Load the full PDF data saved under the document ID returned by extraction
+    const saved = await storage.loadDataset(parsed.document, "pdf_data");
+    const fullData = isSavedPDF(saved) ? { ...saved, document: parsed.document } : null;
+    if (!fullData) console.log(`⚠️  Could not load full PDF data: ${parsed.document} not found`);
 
     return {
       error: false,
+      document: parsed.document,
       numPages: parsed.numPages,
       tablesFound: parsed.tablesFound || 0,
+      datasets: parsed.datasets || [],
       textLength: parsed.textLength,
+      ocr: parsed.ocr,
+      ocrSummary: parsed.ocrSummary,
       fullData: fullData
     };
   } catch (error) {
@@ -162,212 +287,231 @@ async function processPDF(filePath: string) {
   }
 }
 
-function chunkText(text: string, maxChunkSize: number): string[] {
-  const chunks: string[] = [];
-  const paragraphs = text.split(/\n\n+/);
-  let currentChunk = "";
-
-  for (const paragraph of paragraphs) {
-    if ((currentChunk + paragraph).length > maxChunkSize && currentChunk.length > 0) {
-      chunks.push(currentChunk.trim());
-      currentChunk = paragraph;
-    } else {
-      currentChunk += (currentChunk ? "\n\n" : "") + paragraph;
-    }
-  }
-
-  if (currentChunk.trim()) {
-    chunks.push(currentChunk.trim());
-  }
-
-  return chunks;
+// Whether a dataset ID names the session's PDF document or one of its table datasets. Requests name their dataset
+// explicitly, and a session can only use the datasets of the files it processed itself.
+function sessionDataset(session: Session, dataset?: string): "pdf" | "table" | null {
+  if (!dataset) return null;
+  if (session.document === dataset) return "pdf";
+  return session.datasets.some(d => d.dataset === dataset) ? "table" : null;
 }
 
-function generateInsightsPDF(insights: string, filename: string): Uint8Array {
-  const timestamp = new Date().toLocaleString();
-  const title = `Data Science Analysis Report - ${filename}`;
-
-  // PDF configuration
-  const pageHeight = 792; // US Letter height in points
-  const pageWidth = 612; // US Letter width in points
-  const marginTop = 50;
-  const marginBottom = 50;
-  const marginLeft = 50;
-  const marginRight = 50;
-  const lineHeight = 15;
-  const maxCharsPerLine = 85;
-  const usableHeight = pageHeight - marginTop - marginBottom;
-  const maxLinesPerPage = Math.floor(usableHeight / lineHeight);
-
-  // Split insights into lines and wrap long lines
-  const rawLines = insights.split('\n');
-  const wrappedLines: string[] = [];
-
-  for (const line of rawLines) {
-    const escapedLine = line.replace(/[()\\]/g, '\\$&');
-    if (escapedLine.length > maxCharsPerLine) {
-      // Split long lines
-      for (let i = 0; i < escapedLine.length; i += maxCharsPerLine) {
-        wrappedLines.push(escapedLine.substring(i, i + maxCharsPerLine));
-      }
-    } else {
-      wrappedLines.push(escapedLine);
-    }
-  }
-
-  // Create pages - each page gets header + content
-  const pages: string[] = [];
-  const linesPerPageWithHeader = maxLinesPerPage - 4; // Reserve space for title and timestamp
-
-  for (let i = 0; i < wrappedLines.length; i += linesPerPageWithHeader) {
-    const pageLines = wrappedLines.slice(i, i + linesPerPageWithHeader);
-    const isFirstPage = i === 0;
+// How a dataset is named in prompts: sheets and PDF tables of the session's file by their sheet, datasets of added
+// files with their file name, joined and stacked tables by how they were made
+function datasetLabel(session: Session, d: ConversationDataset): string {
+  if (d.derivedFrom) return d.derivedFrom;
+  if (d.file && d.file !== session.currentFile) return d.sheet ? `${d.file} / ${d.sheet}` : d.file;
+  return d.sheet ? `"${d.sheet}"` : session.currentFile;
+}
 
-    let pageContent = `BT\n`;
-    let yPos = pageHeight - marginTop;
+// Datasets read from the session's own file, as opposed to added files and derived tables
+function ownDatasets(session: Session): ConversationDataset[] {
+  return session.datasets.filter(d => d.file ? d.file === session.currentFile : !d.derivedFrom);
+}
 
-    if (isFirstPage) {
-      // Title and metadata on first page only
-      pageContent += `/F1 16 Tf\n${marginLeft} ${yPos} Td\n(${title.replace(/[()\\]/g, '\\$&')}) Tj\n`;
-      yPos -= 30;
-      pageContent += `0 -30 Td\n/F1 10 Tf\n(Generated: ${timestamp.replace(/[()\\]/g, '\\$&')}) Tj\n`;
-      yPos -= 40;
-      pageContent += `0 -40 Td\n/F1 11 Tf\n`;
-    } else {
-      // Start content immediately on subsequent pages
-      pageContent += `/F1 11 Tf\n${marginLeft} ${yPos} Td\n`;
-    }
+// Events of a streamed answer, sent to the browser as one JSON object per line
+type AnswerEvent =
+  | { type: "text"; text: string }
+  | { type: "tool_start"; tool: string }
+  | { type: "tool_end"; tool: string; isError: boolean; query?: string; file?: string; created?: CreatedDataset }
+  | { type: "done"; status: "completed" | "cancelled" | "failed"; answer: string; citations: Citation[]; message?: string };
+
+// A dataset saved by run_sql, join_datasets, union_datasets or transform_dataset while answering, recorded in the
+// session like the ones made with /api/sql, /api/datasets and /api/transform; SQL results and cleaning runs also
+// come with their report
+interface CreatedDataset {
+  dataset: ConversationDataset;
+  report?: ConversationReport;
+}
 
-    // Add content lines
-    for (let j = 0; j < pageLines.length; j++) {
-      if (j === 0 && !isFirstPage) {
-        pageContent += `(${pageLines[j]}) Tj\n`;
-      } else {
-        pageContent += `0 ${-lineHeight} Td\n(${pageLines[j]}) Tj\n`;
-      }
-    }
+const DATASET_TOOLS = [runSqlTool.name, joinDatasetsTool.name, unionDatasetsTool.name, transformDatasetTool.name];
 
-    pageContent += `ET\n`;
-    pages.push(pageContent);
+// What the browser shows under a finished tool, read from its result: the SQL a run_sql call ran and the file an
+// export_data call wrote, which it links to for download. Datasets a tool saved are passed on to be recorded.
+function toolResultFields(tool: string, content: unknown): { query?: string; file?: string; created?: CreatedDataset } {
+  if (tool !== exportDataTool.name && !DATASET_TOOLS.includes(tool)) return {};
+  const text = typeof content === "string"
+    ? content
+    : Array.isArray(content) ? content.map(part => (typeof part?.text === "string" ? part.text : "")).join("") : "";
+  try {
+    const result = JSON.parse(text);
+    return {
+      query: tool === runSqlTool.name && typeof result.query === "string" ? result.query : undefined,
+      file: tool === exportDataTool.name && typeof result.file_name === "string" ? result.file_name : undefined,
+      created: DATASET_TOOLS.includes(tool) && result.success && typeof result.dataset === "string" ? createdDataset(tool, result) : undefined
+    };
+  } catch {
+    return {};
   }
+}
 
-  // Build PDF structure
-  const pdfHeader = `%PDF-1.4\n%âãÏÓ\n`;
-
-  // Object 1: Catalog
-  const obj1 = `1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n`;
-
-  // Object 2: Pages (root of page tree)
-  const pageRefs = pages.map((_, idx) => `${3 + idx} 0 R`).join(' ');
-  const obj2 = `2 0 obj\n<< /Type /Pages /Kids [${pageRefs}] /Count ${pages.length} >>\nendobj\n`;
-
-  // Object 3+: Font resources (shared across all pages)
-  const fontObjNum = 3 + pages.length;
-  const objFont = `${fontObjNum} 0 obj\n<< /Font << /F1 << /Type /Font /Subtype /Type1 /BaseFont /Helvetica >> >> >>\nendobj\n`;
-
-  // Objects for each page and its content stream
-  const pageObjects: string[] = [];
-  const contentObjects: string[] = [];
-
-  for (let i = 0; i < pages.length; i++) {
-    const pageObjNum = 3 + i;
-    const contentObjNum = fontObjNum + 1 + i;
-
-    // Page object
-    const pageObj = `${pageObjNum} 0 obj\n<< /Type /Page /Parent 2 0 R /Resources ${fontObjNum} 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Contents ${contentObjNum} 0 R >>\nendobj\n`;
-    pageObjects.push(pageObj);
-
-    // Content stream object
-    const contentStream = pages[i];
-    const contentObj = `${contentObjNum} 0 obj\n<< /Length ${contentStream.length} >>\nstream\n${contentStream}endstream\nendobj\n`;
-    contentObjects.push(contentObj);
-  }
+// The fields the dataset tools return for the dataset they saved
+interface SavedDatasetResult {
+  dataset: string;
+  derivedFrom?: string;
+  sheet?: string;
+  headers: string[];
+  rowCount: number;
+  columnTypes: Record<string, string>;
+  query?: string; // run_sql
+  sourceDataset?: string; // transform_dataset
+  recipe?: string; // transform_dataset
+}
 
-  // Combine all objects
-  let pdfBody = obj1 + obj2;
-  for (const pageObj of pageObjects) {
-    pdfBody += pageObj;
-  }
-  pdfBody += objFont;
-  for (const contentObj of contentObjects) {
-    pdfBody += contentObj;
+function createdDataset(tool: string, result: SavedDatasetResult): CreatedDataset {
+  const createdAt = new Date().toISOString();
+  if (tool === runSqlTool.name) {
+    return {
+      dataset: { dataset: result.dataset, derivedFrom: `SQL: ${result.query}`, sheet: "SQL result", headers: result.headers, rowCount: result.rowCount, columnTypes: result.columnTypes },
+      report: { kind: "sql", dataset: result.dataset, query: result.query, rowCount: result.rowCount, columnCount: result.headers.length, createdAt }
+    };
   }
+  const dataset: ConversationDataset = { dataset: result.dataset, derivedFrom: result.derivedFrom, sheet: result.sheet, headers: result.headers, rowCount: result.rowCount, columnTypes: result.columnTypes };
+  if (tool !== transformDatasetTool.name) return { dataset };
+  return {
+    dataset,
+    report: { kind: "transform", dataset: result.dataset, baseline: result.sourceDataset, recipe: result.recipe, sheet: result.sheet, rowCount: result.rowCount, columnCount: result.headers.length, createdAt }
+  };
+}
 
-  // Calculate byte offsets for xref table
-  const offsets: number[] = [0]; // Object 0 is always null
-  let currentOffset = pdfHeader.length;
+// Adds a dataset the agent created to the session, once: run_sql also reports the earlier results it pages through
+function recordCreated(session: Session, created: CreatedDataset) {
+  if (session.datasets.some(d => d.dataset === created.dataset.dataset)) return;
+  session.datasets.push(created.dataset);
+  if (created.report) session.reports.push(created.report);
+}
 
-  // Track offsets for all objects
-  const allObjects = [obj1, obj2, ...pageObjects, objFont, ...contentObjects];
-  for (let i = 0; i < allObjects.length; i++) {
-    offsets.push(currentOffset);
-    currentOffset += allObjects[i].length;
-  }
+// Streamed answers in progress by session, so that /api/ask/cancel can stop them
+const runningAnswers = new Map<string, AbortController>();
 
-  const totalObjects = offsets.length;
+// Runs an agent task and returns its text. Text deltas and tool calls are passed to `onEvent` as they happen;
+// aborting `signal` unsubscribes from the task right away and returns the text received so far.
+function runAgent(prompt: string, scope: DataScope, onEvent?: (event: AnswerEvent) => void, signal?: AbortSignal): Promise<string> {
+  let response = "";
+  // Tools announced by tool_use events; their results come back in the same order
+  const runningTools: string[] = [];
 
-  // Build xref table
-  let xref = `xref\n0 ${totalObjects}\n`;
-  for (let i = 0; i < totalObjects; i++) {
-    if (i === 0) {
-      xref += `0000000000 65535 f \n`;
-    } else {
-      const offset = offsets[i].toString().padStart(10, '0');
-      xref += `${offset} 00000 n \n`;
-    }
-  }
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return resolve(response);
 
-  const xrefStart = pdfHeader.length + pdfBody.length;
-  const trailer = `trailer\n<< /Size ${totalObjects} /Root 1 0 R >>\nstartxref\n${xrefStart}\n%%EOF\n`;
+    const subscription = conversationAgent(scope).runTask(prompt, "claude-sonnet-4-20250514").subscribe({
+      next: (event) => {
+        const fields: Record<string, unknown> = { ...event };
+        if (event.type === "text") {
+          const text = typeof fields.content === "string" ? fields.content : "";
+          response += text;
+          if (text) onEvent?.({ type: "text", text });
+        } else if (event.type === "tool_use") {
+          const tool = String(fields.toolName ?? "tool");
+          runningTools.push(tool);
+          onEvent?.({ type: "tool_start", tool });
+        } else if (event.type === "message") {
+          // Tool results are sent back to the model as tool_result blocks of a user message
+          const message = fields.message as { content?: unknown } | undefined;
+          for (const block of Array.isArray(message?.content) ? message.content : []) {
+            if (block?.type !== "tool_result") continue;
+            const tool = runningTools.shift() ?? "tool";
+            onEvent?.({ type: "tool_end", tool, isError: Boolean(block.is_error), ...toolResultFields(tool, block.content) });
+          }
+        }
+      },
+      error: reject,
+      complete: () => resolve(response),
+    });
 
-  const fullPDF = pdfHeader + pdfBody + xref + trailer;
-  return new TextEncoder().encode(fullPDF);
+    signal?.addEventListener("abort", () => {
+      subscription.unsubscribe();
+      resolve(response);
+    }, { once: true });
+  });
 }
 
-async function answerQuestionWithAI(question: string, sessionData: any): Promise<string> {
+// PDF answers come with citations resolving their [n] and [p. N] markers to pages and quoted sentences.
+// The latest turns of the conversation go into the prompt so that follow-up questions keep their context.
+async function answerQuestionWithAI(
+  question: string,
+  sessionData: Session,
+  dataset: string,
+  onEvent?: (event: AnswerEvent) => void,
+  signal?: AbortSignal
+): Promise<{ answer: string; citations: Citation[]; failed?: boolean; cancelled?: boolean }> {
   let response = "";
+  const history = formatHistory(sessionData.turns);
+  const scope: DataScope = new Set(conversationDatasets(sessionData));
 
   try {
     // Handle PDF questions
-    if (sessionData.pdfData && !sessionData.tableData) {
-      const chunks = chunkText(sessionData.pdfData.text, 15000);
+    if (sessionDataset(sessionData, dataset) === "pdf") {
+      if (!sessionData.pdfData) return { answer: "The extracted text of this document is no longer available. Please process the file again.", citations: [], failed: true };
+      // Only the best-matching passages go into the prompt; the agent can search for more with search_pdf
+      const passages = retrievePassages(documentIndex(sessionData.pdfData), question, 8);
 
       let prompt = `You are analyzing a PDF document with ${sessionData.pdfData.numPages} pages and ${sessionData.pdfData.textLength} characters.
 
-User question: "${question}"
+${history ? `${history}\n\n` : ""}User question: "${question}"
+
+Document reference: ${sessionData.pdfData.document}
 
-PDF Content (complete text in chunks):
+Most relevant passages from the document (ranked by relevance, with page numbers):
 
+${formatPassages(passages)}
 `;
 
-      chunks.forEach((chunk, idx) => {
-        prompt += `\n--- Chunk ${idx + 1}/${chunks.length} ---\n${chunk}\n`;
-      });
+      const pdfTables = ownDatasets(sessionData);
+      if (pdfTables.length > 0) {
+        prompt += `\n\nTables extracted from the PDF, each saved as a dataset for the table tools (filter_rows, aggregate_column, group_by, unique_values, search_table):\n`;
+        for (const d of pdfTables) {
+          prompt += `- ${d.sheet} (dataset "${d.dataset}"): ${d.rowCount.toLocaleString()} rows, columns ${d.headers.join(", ")}\n`;
+        }
+        prompt += `Compute answers about table contents with these tools rather than reading numbers from the passages.\n`;
+      }
 
-      if (sessionData.pdfData.tables && sessionData.pdfData.tables.length > 0) {
-        prompt += `\n\nTables found in PDF (first 5):\n`;
-        sessionData.pdfData.tables.slice(0, 5).forEach((t: string[], i: number) => {
-          prompt += `\nTable ${i + 1}:\n${t.join('\n')}\n`;
-        });
+      const otherDatasets = sessionData.datasets.filter(d => !pdfTables.includes(d));
+      if (otherDatasets.length > 0) {
+        prompt += `\nOther datasets loaded in this session, for the same table tools:\n`;
+        for (const d of otherDatasets) {
+          prompt += `- ${datasetLabel(sessionData, d)} (dataset "${d.dataset}"): ${d.rowCount.toLocaleString()} rows, columns ${d.headers.join(", ")}\n`;
+        }
       }
 
-      prompt += `\n\nPlease answer the user's question based on the complete PDF content above. Be accurate, specific, and cite relevant information from the document. If you need to quote something, use the exact text from the PDF.`;
+      prompt += `\n\nPlease answer the user's question based on the passages above. If they do not contain the answer, use the search_pdf tool (with this document reference) and other words before concluding that the document does not cover it. Be accurate and specific. ${CITATION_INSTRUCTIONS} If you need to quote something, use the exact text from the PDF.`;
 
-      const event$ = agent.runTask(prompt, "claude-sonnet-4-20250514");
+      response = await runAgent(prompt, scope, onEvent, signal);
+      if (signal?.aborted) return { answer: response, citations: [], failed: true, cancelled: true };
 
-      for await (const event of eachValueFrom(event$)) {
-        if (event.type === "text") {
-          const text = (event as any).content || "";
-          response += text;
-        }
-      }
+      const { pages, pageOffsets } = sessionData.pdfData;
+      return { answer: response, citations: pages ? citeAnswer(response, passages, pages, pageOffsets) : [] };
+    }
+
+    // Handle table questions - the agent computes answers with the table tools
+    if (sessionDataset(sessionData, dataset) === "table") {
+      // Sheets other than the first, and tables found in a PDF, are read back from storage
+      const table = sessionData.tableData?.dataset === dataset ? sessionData.tableData : await storage.loadDataset(dataset, "table_data");
+      if (!isTableData(table)) return { answer: `Dataset ${dataset} could not be loaded. Please process the file again.`, citations: [], failed: true };
+      const { headers, rowCount, rows } = table;
+      const entry = sessionData.datasets.find(d => d.dataset === dataset);
+      const name = entry?.derivedFrom ?? entry?.file ?? sessionData.currentFile;
+
+      const prompt = tableQuestionPrompt({
+        question,
+        name,
+        dataset,
+        headers,
+        rowCount,
+        sampleRows: rows || [],
+        otherDatasets: sessionData.datasets.filter(d => d.dataset !== dataset).map(d => ({ ...d, label: datasetLabel(sessionData, d) })),
+        history,
+        downloadLinks: true,
+      });
+
+      response = await runAgent(prompt, scope, onEvent, signal);
+      if (signal?.aborted) return { answer: response, citations: [], failed: true, cancelled: true };
 
-      return response;
+      return { answer: response, citations: [] };
     }
 
-    return "No data loaded. Please process a file first.";
+    return { answer: "This dataset does not belong to the current session. Please process a file first.", citations: [], failed: true };
   } catch (error) {
-    return `Error: ${error instanceof Error ? error.message : String(error)}`;
+    return { answer: `Error: ${error instanceof Error ? error.message : String(error)}`, citations: [], failed: true };
   }
 }
 
@@ -416,7 +560,20 @@ async function handleRequest(req: Request): Promise<Response> {
   if (pathname === "/api/process" && req.method === "POST") {
     try {
       const body = await req.json();
-      const { filename, sessionId } = body;
+      const { filename, sessionId, sheets, headerRows, range, delimiter, quoteChar, encoding, hasHeader, skipRows, append } = body;
+
+      // Adding a file keeps the session's own file and conversation; its tables join the session's datasets
+      const appendTo = append ? await getSession(sessionId) : null;
+      if (append && (!appendTo || !appendTo.isFileProcessed)) {
+        return new Response(JSON.stringify({ error: true, message: "No file processed. Please process a file before adding another one." }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
+      if (appendTo && appendTo.currentFile === filename) {
+        return new Response(JSON.stringify({ error: true, message: `${filename} is already this session's file.` }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
 
       const filePath = `./uploads/${filename}`;
       const ext = filename.split('.').pop()?.toLowerCase();
@@ -426,10 +583,10 @@ async function handleRequest(req: Request): Promise<Response> {
 
       if (ext === 'csv') {
         fileType = 'csv';
-        result = await processCSV(filePath);
+        result = await processCSV(filePath, { delimiter, quoteChar, encoding, hasHeader, skipRows });
       } else if (ext === 'xlsx' || ext === 'xls') {
         fileType = 'excel';
-        result = await processExcel(filePath);
+        result = await processExcel(filePath, { sheets, headerRows, range });
       } else if (ext === 'pdf') {
         fileType = 'pdf';
         result = await processPDF(filePath);
@@ -445,39 +602,82 @@ async function handleRequest(req: Request): Promise<Response> {
         });
       }
 
-      // Update session
-      let session = sessions.get(sessionId);
-      if (!session) {
+      const fileDatasets: ConversationDataset[] = (result.datasets || []).map((d: ConversationDataset) => ({ ...d, file: filename }));
+
+      if (appendTo) {
+        if (fileDatasets.length === 0) {
+          return new Response(JSON.stringify({ error: true, message: `No tables were found in ${filename}, so there is nothing to add to this session.` }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" }
+          });
+        }
+        // Adding the same file again replaces its datasets
+        appendTo.datasets = [...appendTo.datasets.filter(d => d.file !== filename), ...fileDatasets];
+        await saveSession(appendTo);
+
+        return new Response(JSON.stringify({
+          ...result,
+          datasets: fileDatasets,
+          fileType,
+          appended: true,
+          sessionDatasets: appendTo.datasets,
+          success: true
+        }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
+
+      // Update session; processing another file starts the conversation over, reprocessing the same file keeps it
+      let session = await getSession(sessionId);
+      if (!session || session.currentFile !== filename) {
+        const now = new Date().toISOString();
         session = {
+          id: sessionId,
+          title: filename,
+          createdAt: now,
+          updatedAt: now,
           currentFile: '',
           fileType: '',
           isFileProcessed: false,
+          document: null,
           tableData: null,
-          pdfData: null
+          pdfData: null,
+          datasets: [],
+          turns: [],
+          reports: []
         };
       }
 
       session.currentFile = filename;
       session.fileType = fileType;
       session.isFileProcessed = true;
+      // Reprocessing replaces the file's own datasets; added files and joined or stacked tables stay
+      const keptDatasets = session.datasets.filter(d => !ownDatasets(session!).includes(d));
 
       if (fileType === 'pdf') {
         session.pdfData = result.fullData;
+        session.document = result.document;
         session.tableData = null;
+        session.datasets = [...fileDatasets, ...keptDatasets];
       } else {
         session.tableData = {
+          dataset: result.dataset,
           headers: result.headers,
           rowCount: result.rowCount,
-          rows: result.sampleRows
+          rows: result.sampleRows,
+          sheet: result.sheet
         };
+        session.datasets = [...fileDatasets, ...keptDatasets];
         session.pdfData = null;
+        session.document = null;
       }
 
+      await saveSession(session);
       sessions.set(sessionId, session);
 
       return new Response(JSON.stringify({
         ...result,
         fileType,
+        sessionDatasets: session.datasets,
         success: true
       }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" }
@@ -492,12 +692,33 @@ async function handleRequest(req: Request): Promise<Response> {
     }
   }
 
-  if (pathname === "/api/ask" && req.method === "POST") {
+  if (pathname === "/api/sheets" && req.method === "POST") {
     try {
       const body = await req.json();
-      const { question, sessionId } = body;
+      const { filename } = body;
+
+      const result = await listSheetsTool.execute({ file_path: `./uploads/${filename}` });
 
-      const session = sessions.get(sessionId);
+      return new Response(result, {
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({
+        error: true,
+        message: String(error)
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    }
+  }
+
+  // /api/ask answers in one response; /api/ask/stream sends the answer as it is written, one JSON event per line
+  if ((pathname === "/api/ask" || pathname === "/api/ask/stream") && req.method === "POST") {
+    try {
+      const body = await req.json();
+      const { question, sessionId, dataset } = body;
+
+      const session = await getSession(sessionId);
       if (!session || !session.isFileProcessed) {
         return new Response(JSON.stringify({
           error: true,
@@ -507,20 +728,92 @@ async function handleRequest(req: Request): Promise<Response> {
         });
       }
 
-      // Only allow PDF questions
-      if (session.fileType !== 'pdf') {
+      if (!sessionDataset(session, dataset)) {
         return new Response(JSON.stringify({
           error: true,
-          message: "Q&A is only available for PDF files. For CSV/Excel files, please use the 'Extract Insights' feature."
+          message: dataset ? `Dataset ${dataset} does not belong to this session.` : "No dataset given. Pass the dataset ID returned by /api/process."
         }), {
           headers: { ...corsHeaders, "Content-Type": "application/json" }
         });
       }
 
-      const answer = await answerQuestionWithAI(question, session);
+      if (pathname === "/api/ask/stream") {
+        const encoder = new TextEncoder();
+        const abort = new AbortController();
+        runningAnswers.get(sessionId)?.abort();
+        runningAnswers.set(sessionId, abort);
+
+        const stream = new ReadableStream<Uint8Array>({
+          async start(controller) {
+            const send = (event: AnswerEvent) => {
+              try {
+                controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+              } catch {
+                // The browser went away; the abort below stops the agent
+              }
+            };
+
+            try {
+              const exports: string[] = [];
+              const { answer, citations, failed, cancelled } = await answerQuestionWithAI(question, session, dataset, (event) => {
+                if (event.type === "tool_end" && event.file) exports.push(event.file);
+                if (event.type === "tool_end" && event.created) recordCreated(session, event.created);
+                send(event);
+              }, abort.signal);
+              // Failed and cancelled answers are shown but left out of the history, so they are not fed back to the
+              // agent; the datasets they created are kept
+              if (!failed) {
+                const turn: ConversationTurn = { question, answer, dataset, citations, exports, askedAt: new Date().toISOString() };
+                session.turns.push(turn);
+              }
+              await saveSession(session);
+              send({
+                type: "done",
+                status: cancelled ? "cancelled" : failed ? "failed" : "completed",
+                answer,
+                citations: citationLinks(session, citations),
+                ...(failed && !cancelled ? { message: answer } : {})
+              });
+            } catch (error) {
+              send({ type: "done", status: "failed", answer: "", citations: [], message: String(error) });
+            } finally {
+              if (runningAnswers.get(sessionId) === abort) runningAnswers.delete(sessionId);
+              try {
+                controller.close();
+              } catch {
+                // Already closed by the browser
+              }
+            }
+          },
+          cancel() {
+            abort.abort();
+          }
+        });
+
+        return new Response(stream, {
+          headers: { ...corsHeaders, "Content-Type": "application/x-ndjson", "Cache-Control": "no-cache" }
+        });
+      }
+
+      // Files exported while answering are kept by cleanups for as long as the conversation is saved, and datasets
+      // created while answering become datasets of the session
+      const exports: string[] = [];
+      const { answer, citations, failed } = await answerQuestionWithAI(question, session, dataset, (event) => {
+        if (event.type === "tool_end" && event.file) exports.push(event.file);
+        if (event.type === "tool_end" && event.created) recordCreated(session, event.created);
+      });
+
+      // Failed answers are shown but left out of the history, so they are not fed back to the agent; the datasets
+      // they created are kept
+      if (!failed) {
+        const turn: ConversationTurn = { question, answer, dataset, citations, exports, askedAt: new Date().toISOString() };
+        session.turns.push(turn);
+      }
+      await saveSession(session);
 
       return new Response(JSON.stringify({
         answer,
+        citations: citationLinks(session, citations),
         success: true
       }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" }
@@ -535,13 +828,36 @@ async function handleRequest(req: Request): Promise<Response> {
     }
   }
 
+  // Stops the streamed answer of a session; the stream then ends with a "cancelled" status and the text so far
+  if (pathname === "/api/ask/cancel" && req.method === "POST") {
+    try {
+      const body = await req.json();
+      const { sessionId } = body;
+
+      const running = runningAnswers.get(sessionId);
+      running?.abort();
+
+      return new Response(JSON.stringify(running ? { success: true } : { error: true, message: "No answer is being written for this session." }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({
+        error: true,
+        message: String(error)
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    }
+  }
 
   if (pathname === "/api/insights" && req.method === "POST") {
     try {
       const body = await req.json();
-      const { sessionId } = body;
+      const { sessionId, dataset } = body;
+      // narrative: also have the model write an executive narrative from the statistics; allowSampleRows: let it see the first rows
+      const { narrative: narrativeRequested, allowSampleRows } = body;
 
-      const session = sessions.get(sessionId);
+      const session = await getSession(sessionId);
       if (!session || !session.isFileProcessed) {
         return new Response(JSON.stringify({
           error: true,
@@ -551,18 +867,25 @@ async function handleRequest(req: Request): Promise<Response> {
         });
       }
 
-      // Only allow insights for table data
-      if (session.fileType === 'pdf') {
+      // Insights are for table datasets of this session: sheets, CSV files and tables extracted from a PDF
+      if (sessionDataset(session, dataset) !== "table") {
         return new Response(JSON.stringify({
           error: true,
-          message: "Insights extraction is only available for CSV/Excel files. For PDF files, please use the Q&A feature."
+          message: !dataset
+            ? "No dataset given. Pass the dataset ID of a sheet or table returned by /api/process."
+            : session.fileType === 'pdf' && session.datasets.length === 0
+            ? "No tables were found in this PDF. Insights are available for CSV/Excel files and PDF tables; please use the Q&A feature."
+            : `Dataset ${dataset} is not a table of this session.`
         }), {
           headers: { ...corsHeaders, "Content-Type": "application/json" }
         });
       }
 
-      // Generate insights
-      const result = await extractInsightsTool.execute();
+      const result = await extractInsightsTool.execute({
+        dataset,
+        include_charts: true,
+        include_sample_rows: Boolean(narrativeRequested && allowSampleRows)
+      });
       const data = JSON.parse(result);
 
       if (data.error) {
@@ -571,11 +894,36 @@ async function handleRequest(req: Request): Promise<Response> {
         });
       }
 
+      // The insights are returned even when the narrative fails; the client shows why it is missing
+      let narrative: Narrative | null = null;
+      let narrativeError: string | undefined;
+      if (narrativeRequested) {
+        try {
+          narrative = await writeNarrative(data.report, prompt => runAgent(prompt, new Set()), data.sampleRows);
+        } catch (error) {
+          narrativeError = error instanceof Error ? error.message : String(error);
+        }
+      }
+
+      session.reports.push({ kind: "insights", dataset, sheet: data.sheet, rowCount: data.rowCount, columnCount: data.columnCount, createdAt: new Date().toISOString() });
+      if (narrative) {
+        session.reports.push({ kind: "narrative", dataset, sheet: data.sheet, narrative, createdAt: narrative.createdAt });
+      }
+      await saveSession(session);
+
       return new Response(JSON.stringify({
         success: true,
         insights: data.insights,
+        report: data.report,
+        correlations: data.correlations,
+        correlationTables: data.correlationTables,
+        charts: (data.charts ?? []).map((chart: ReportChart) => ({ id: chart.id, kind: chart.kind, title: chart.title, columns: chart.columns, svg: chart.svg })),
+        dataset: data.dataset,
+        sheet: data.sheet,
         rowCount: data.rowCount,
-        columnCount: data.columnCount
+        columnCount: data.columnCount,
+        narrative,
+        narrativeError
       }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" }
       });
@@ -589,12 +937,14 @@ async function handleRequest(req: Request): Promise<Response> {
     }
   }
 
-  if (pathname === "/api/insights/pdf" && req.method === "POST") {
+  // The insights report as a file: PDF, self-contained HTML or Markdown
+  const insightsFormat = REPORT_FORMATS.find(format => pathname === `/api/insights/${format}`);
+  if (insightsFormat && req.method === "POST") {
     try {
       const body = await req.json();
-      const { sessionId } = body;
+      const { sessionId, dataset } = body;
 
-      const session = sessions.get(sessionId);
+      const session = await getSession(sessionId);
       if (!session || !session.isFileProcessed) {
         return new Response(JSON.stringify({
           error: true,
@@ -604,18 +954,24 @@ async function handleRequest(req: Request): Promise<Response> {
         });
       }
 
-      // Only allow insights for table data
-      if (session.fileType === 'pdf') {
+      // Insights are for table datasets of this session: sheets, CSV files and tables extracted from a PDF
+      if (sessionDataset(session, dataset) !== "table") {
         return new Response(JSON.stringify({
           error: true,
-          message: "Insights extraction is only available for CSV/Excel files."
+          message: !dataset
+            ? "No dataset given. Pass the dataset ID of a sheet or table returned by /api/process."
+            : session.fileType === 'pdf' && session.datasets.length === 0
+            ? "No tables were found in this PDF. Insights are available for CSV/Excel files and PDF tables; please use the Q&A feature."
+            : `Dataset ${dataset} is not a table of this session.`
         }), {
           headers: { ...corsHeaders, "Content-Type": "application/json" }
         });
       }
 
-      // Generate insights
-      const result = await extractInsightsTool.execute();
+      const result = await extractInsightsTool.execute({
+        dataset,
+        include_charts: true
+      });
       const data = JSON.parse(result);
 
       if (data.error) {
@@ -624,18 +980,431 @@ async function handleRequest(req: Request): Promise<Response> {
         });
       }
 
-      // Generate PDF
-      const pdfBuffer = generateInsightsPDF(data.insights, session.currentFile);
+      // The latest narrative written for this dataset leads the report, set apart from the computed sections
+      const narrative = session.reports.findLast(report => report.kind === "narrative" && report.dataset === dataset)?.narrative;
+      const doc = reportDocument(withNarrative(renderInsightLines(data.report), narrative), { title: `Data Science Analysis Report - ${session.currentFile}`, tables: data.correlationTables, tablesHeading: "CORRELATION MATRICES", charts: data.charts });
+      const report = await renderReport(doc, insightsFormat);
+      session.reports.push({ kind: insightsFormat, dataset, sheet: data.sheet, rowCount: data.rowCount, columnCount: data.columnCount, createdAt: new Date().toISOString() });
+      await saveSession(session);
 
       // Convert Uint8Array to Blob for Response compatibility
-      const pdfBlob = new Blob([pdfBuffer as BlobPart], { type: 'application/pdf' });
+      const reportBlob = new Blob([report as BlobPart], { type: REPORT_CONTENT_TYPES[insightsFormat] });
+
+      return new Response(reportBlob, {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": REPORT_CONTENT_TYPES[insightsFormat],
+          "Content-Disposition": `attachment; filename="insights_${session.currentFile.replace(/\.[^.]+$/, '')}_${Date.now()}.${insightsFormat}"`
+        }
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({
+        error: true,
+        message: String(error)
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    }
+  }
+
+  // Join, stack or compare the session's table datasets; joined and stacked tables become datasets of the session
+  if (pathname.startsWith("/api/datasets/") && req.method === "POST") {
+    try {
+      const operation = pathname.substring("/api/datasets/".length);
+      const pdf = operation === "drift/pdf";
+      if (operation !== "join" && operation !== "union" && operation !== "compare" && operation !== "drift" && !pdf) {
+        return new Response("Not found", { status: 404 });
+      }
+      const body = await req.json();
+      const { sessionId } = body;
+
+      const session = await getSession(sessionId);
+      if (!session || !session.isFileProcessed) {
+        return new Response(JSON.stringify({
+          error: true,
+          message: "No file processed. Please process a file first."
+        }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
+
+      const datasetIds: string[] = operation === "join"
+        ? [body.left, body.right]
+        : operation === "compare" || operation === "drift" || pdf
+        ? [body.baseline, body.current]
+        : Array.isArray(body.datasets) ? body.datasets : [];
+      const invalid = datasetIds.findIndex(id => sessionDataset(session, id) !== "table");
+      if (invalid !== -1 || datasetIds.length === 0) {
+        return new Response(JSON.stringify({
+          error: true,
+          message: datasetIds.length === 0 || !datasetIds[invalid]
+            ? "No dataset given. Pass dataset IDs of this session's tables."
+            : `Dataset ${datasetIds[invalid]} is not a table of this session.`
+        }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
+
+      const result = operation === "join"
+        ? await joinDatasetsTool.execute({ left_dataset: body.left, right_dataset: body.right, on: body.on, right_on: body.rightOn, how: body.how })
+        : operation === "union"
+        ? await unionDatasetsTool.execute({ datasets: datasetIds, source_column: body.sourceColumn })
+        : operation === "compare"
+        ? await compareDatasetsTool.execute({ baseline_dataset: body.baseline, current_dataset: body.current, key_columns: body.keyColumns })
+        : await detectDriftTool.execute({ baseline_dataset: body.baseline, current_dataset: body.current });
+      const data = JSON.parse(result);
+
+      if (data.error) {
+        return new Response(JSON.stringify(data), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
+
+      if (pdf) {
+        const pdfBuffer = await renderReportPDF(reportDocument(renderDriftLines(data.drift), { title: `Data Drift Report - ${data.drift.current.name}`, tables: data.driftTables, tablesHeading: "DRIFT BY COLUMN" }));
+        session.reports.push({ kind: "drift_pdf", dataset: data.current, baseline: data.baseline, createdAt: new Date().toISOString() });
+        await saveSession(session);
+
+        const pdfBlob = new Blob([pdfBuffer as BlobPart], { type: 'application/pdf' });
+        return new Response(pdfBlob, {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/pdf",
+            "Content-Disposition": `attachment; filename="drift_${session.currentFile.replace(/\.[^.]+$/, '')}_${Date.now()}.pdf"`
+          }
+        });
+      }
 
-      return new Response(pdfBlob, {
+      if (operation === "drift") {
+        session.reports.push({ kind: "drift", dataset: data.current, baseline: data.baseline, createdAt: new Date().toISOString() });
+        await saveSession(session);
+
+        return new Response(JSON.stringify({
+          success: true,
+          report: data.report,
+          drift: data.drift,
+          driftTables: data.driftTables,
+          message: data.message
+        }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
+
+      if (operation === "compare") {
+        session.reports.push({ kind: "comparison", dataset: data.current, baseline: data.baseline, createdAt: new Date().toISOString() });
+        await saveSession(session);
+
+        return new Response(JSON.stringify({
+          success: true,
+          report: data.report,
+          comparison: data.comparison,
+          comparisonTables: data.comparisonTables,
+          message: data.message
+        }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
+
+      const derived: ConversationDataset = {
+        dataset: data.dataset,
+        derivedFrom: data.derivedFrom,
+        sheet: data.sheet,
+        headers: data.headers,
+        rowCount: data.rowCount,
+        columnTypes: data.columnTypes
+      };
+      session.datasets.push(derived);
+      await saveSession(session);
+
+      return new Response(JSON.stringify({
+        success: true,
+        ...derived,
+        stats: data.stats,
+        message: data.message,
+        sessionDatasets: session.datasets
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({
+        error: true,
+        message: String(error)
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    }
+  }
+
+  // SQL over the session's table datasets; results become datasets of the session and are read a page at a time
+  if (pathname === "/api/sql" && req.method === "POST") {
+    try {
+      const { sessionId, query, result, offset, limit } = await req.json();
+
+      const session = await getSession(sessionId);
+      if (!session || !session.isFileProcessed) {
+        return new Response(JSON.stringify({
+          error: true,
+          message: "No file processed. Please process a file first."
+        }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
+
+      let notAllowed: string | undefined;
+      if (result) {
+        const isResult = session.reports.some(report => report.kind === "sql" && report.dataset === result);
+        if (!isResult || sessionDataset(session, result) !== "table") notAllowed = `Dataset ${result} is not a SQL result of this session.`;
+      } else if (typeof query === "string" && query.trim()) {
+        let tables: string[] = [];
+        try {
+          tables = sqlTables(query);
+        } catch {
+          // Syntax errors are reported by run_sql with the rest of its messages
+        }
+        const foreign = tables.find(id => sessionDataset(session, id) !== "table");
+        if (foreign) notAllowed = `Dataset ${foreign} is not a table of this session.`;
+      }
+      if (notAllowed) {
+        return new Response(JSON.stringify({ error: true, message: notAllowed }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
+
+      const data = JSON.parse(await runSqlTool.execute({ query, result_dataset: result, offset, limit }));
+      if (data.error) {
+        return new Response(JSON.stringify(data), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
+
+      if (!result) {
+        session.datasets.push({
+          dataset: data.dataset,
+          derivedFrom: `SQL: ${data.query}`,
+          sheet: "SQL result",
+          headers: data.headers,
+          rowCount: data.rowCount,
+          columnTypes: data.columnTypes
+        });
+        session.reports.push({ kind: "sql", dataset: data.dataset, query: data.query, rowCount: data.rowCount, columnCount: data.headers.length, createdAt: new Date().toISOString() });
+        await saveSession(session);
+      }
+
+      return new Response(JSON.stringify({
+        ...data,
+        sessionDatasets: session.datasets
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({
+        error: true,
+        message: String(error)
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    }
+  }
+
+  // Cleaning steps suggested for one of the session's tables, and cleaning runs that save a new version of it along
+  // with the recipe of steps
+  if ((pathname === "/api/transform" || pathname === "/api/transform/propose") && req.method === "POST") {
+    try {
+      const { sessionId, dataset, steps, recipe, recipeName } = await req.json();
+
+      const session = await getSession(sessionId);
+      if (!session || !session.isFileProcessed) {
+        return new Response(JSON.stringify({
+          error: true,
+          message: "No file processed. Please process a file first."
+        }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
+
+      // Saved recipes are replayed by ID only when this session recorded them; other recipes come as uploaded files
+      let notAllowed: string | undefined;
+      if (sessionDataset(session, dataset) !== "table") {
+        notAllowed = dataset ? `Dataset ${dataset} is not a table of this session.` : "No dataset given. Pass the ID of one of this session's tables.";
+      } else if (typeof recipe === "string" && !session.reports.some(report => report.recipe === recipe)) {
+        notAllowed = `Recipe ${recipe} was not used in this session. Upload the recipe file instead.`;
+      }
+      if (notAllowed) {
+        return new Response(JSON.stringify({ error: true, message: notAllowed }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
+
+      if (pathname === "/api/transform/propose") {
+        return new Response(await proposeTransformationsTool.execute({ dataset }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
+
+      const data = JSON.parse(await transformDatasetTool.execute({ dataset, steps, recipe, recipe_name: recipeName }));
+      if (data.error) {
+        return new Response(JSON.stringify(data), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
+
+      const derived: ConversationDataset = {
+        dataset: data.dataset,
+        derivedFrom: data.derivedFrom,
+        sheet: data.sheet,
+        headers: data.headers,
+        rowCount: data.rowCount,
+        columnTypes: data.columnTypes
+      };
+      session.datasets.push(derived);
+      session.reports.push({ kind: "transform", dataset: data.dataset, baseline: dataset, recipe: data.recipe, sheet: data.sheet, rowCount: data.rowCount, columnCount: data.headers.length, createdAt: new Date().toISOString() });
+      await saveSession(session);
+
+      return new Response(JSON.stringify({
+        success: true,
+        ...derived,
+        sourceDataset: data.sourceDataset,
+        version: data.version,
+        steps: data.steps,
+        sampleRows: data.sample_rows,
+        recipe: data.recipe,
+        recipeFile: await storage.loadDataset(data.recipe, "recipe"),
+        message: data.message,
+        sessionDatasets: session.datasets
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({
+        error: true,
+        message: String(error)
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    }
+  }
+
+  // One of the session's tables as a CSV, XLSX, NDJSON or Parquet download, streamed as it is read from the row store
+  if (pathname === "/api/export" && req.method === "POST") {
+    try {
+      const { sessionId, dataset, format = "csv", delimiter, encoding, bom } = await req.json();
+
+      const session = await getSession(sessionId);
+      if (!session || !session.isFileProcessed) {
+        return new Response(JSON.stringify({
+          error: true,
+          message: "No file processed. Please process a file first."
+        }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
+
+      const data = sessionDataset(session, dataset) === "table" ? await storage.loadDataset(dataset, "table_data") : null;
+      if (!isTableData(data)) {
+        return new Response(JSON.stringify({
+          error: true,
+          message: `Dataset ${dataset} is not a table of this session.`
+        }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
+
+      const options = { delimiter, encoding, bom };
+      const exportFormat = validateExportOptions(format, options);
+      const chunks = tableProcessor.exportTable(data, exportFormat, options);
+      // The first chunk is read before answering, so that errors (an XLSX over the sheet row limit) come back as JSON
+      const first = await chunks.next();
+      const body = ReadableStream.from((async function* () {
+        if (!first.done) yield first.value;
+        yield* chunks;
+      })());
+      return new Response(body, {
         headers: {
           ...corsHeaders,
-          "Content-Type": "application/pdf",
-          "Content-Disposition": `attachment; filename="insights_${session.currentFile.replace(/\.[^.]+$/, '')}_${Date.now()}.pdf"`
+          "Content-Type": exportContentType(exportFormat, options),
+          "Content-Disposition": `attachment; filename="${exportFileName(tableProcessor.tableLabel(data), exportFormat)}"`
+        }
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({
+        error: true,
+        message: String(error)
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    }
+  }
+
+  // Saved conversations, most recently active first
+  if (pathname === "/api/sessions") {
+    try {
+      const conversations = await sessionStore.list();
+      return new Response(JSON.stringify({ sessions: conversations.map(summarizeConversation) }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: true, message: String(error), sessions: [] }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    }
+  }
+
+  // Resume, rename, clear or delete a saved conversation
+  if (pathname.startsWith("/api/sessions/") && req.method === "POST") {
+    try {
+      const action = pathname.substring("/api/sessions/".length);
+      const body = await req.json();
+      const { sessionId, title } = body;
+
+      if (action === "delete") {
+        sessions.delete(sessionId);
+        const deleted = await sessionStore.delete(sessionId);
+        return new Response(JSON.stringify(deleted ? { success: true } : { error: true, message: `Conversation ${sessionId} not found.` }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
+
+      const session = await getSession(sessionId);
+      if (!session) {
+        return new Response(JSON.stringify({
+          error: true,
+          message: `Conversation ${sessionId} not found.`
+        }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
+
+      if (action === "rename") {
+        if (typeof title !== "string" || !title.trim()) {
+          return new Response(JSON.stringify({ error: true, message: "No title given." }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" }
+          });
         }
+        session.title = title.trim().substring(0, 120);
+        await saveSession(session);
+      } else if (action === "clear") {
+        // Later questions start without the earlier turns as context
+        session.turns = [];
+        await saveSession(session);
+      } else if (action !== "resume") {
+        return new Response("Not found", { status: 404 });
+      }
+
+      const fileAvailable = await Deno.stat(`./uploads/${session.currentFile}`).then(() => true, () => false);
+
+      return new Response(JSON.stringify({
+        success: true,
+        session: {
+          ...summarizeConversation(session),
+          document: session.document,
+          dataset: session.tableData?.dataset ?? null,
+          datasets: session.datasets,
+          turns: session.turns.map(turn => ({ ...turn, citations: citationLinks(session, turn.citations) })),
+          reports: session.reports,
+          fileAvailable
+        }
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
       });
     } catch (error) {
       return new Response(JSON.stringify({
@@ -703,7 +1472,7 @@ async function handleRequest(req: Request): Promise<Response> {
         console.log(`Could not delete file: ${error}`);
       }
 
-      // Clean up any sessions associated with this file
+      // Drop cached sessions of this file; their saved conversations stay and can still be resumed
       for (const [sessionId, session] of sessions.entries()) {
         if (session.currentFile === filename) {
           sessions.delete(sessionId);
@@ -730,11 +1499,12 @@ async function handleRequest(req: Request): Promise<Response> {
     try {
       let deletedCount = 0;
       let errors = 0;
+      const kept = await savedConversationFiles();
 
-      // Delete all files in uploads directory
+      // Delete the files in uploads directory that no saved conversation uses
       try {
         for await (const entry of Deno.readDir("./uploads")) {
-          if (entry.isFile) {
+          if (entry.isFile && !kept.uploads.has(entry.name)) {
             try {
               await Deno.remove(`./uploads/${entry.name}`);
               deletedCount++;
@@ -750,10 +1520,10 @@ async function handleRequest(req: Request): Promise<Response> {
         console.log(`ℹ️  Uploads directory cleanup: ${error}`);
       }
 
-      // Delete all files in extracted_data directory
+      // Delete the extracted data that no saved conversation uses
       try {
         for await (const entry of Deno.readDir("./extracted_data")) {
-          if (entry.isFile) {
+          if (entry.isFile && !kept.data.has(entry.name)) {
             try {
               await Deno.remove(`./extracted_data/${entry.name}`);
               deletedCount++;
@@ -769,7 +1539,26 @@ async function handleRequest(req: Request): Promise<Response> {
         console.log(`ℹ️  Extracted data cleanup: ${error}`);
       }
 
-      // Clear all sessions
+      // Delete the exported files that no saved conversation links to
+      try {
+        for await (const entry of Deno.readDir(EXPORT_DIR)) {
+          if (entry.isFile && !kept.exports.has(entry.name)) {
+            try {
+              await Deno.remove(`${EXPORT_DIR}/${entry.name}`);
+              deletedCount++;
+              console.log(`🗑️  Cleaned up export: ${entry.name}`);
+            } catch (error) {
+              errors++;
+              console.log(`⚠️  Could not delete ${entry.name}: ${error}`);
+            }
+          }
+        }
+      } catch (error) {
+        // Directory might not exist or be empty
+        console.log(`ℹ️  Exports cleanup: ${error}`);
+      }
+
+      // Clear the session cache; saved conversations are read back when resumed
       sessions.clear();
       console.log(`🧹 Cleaned up ${deletedCount} files, ${errors} errors`);
 
@@ -790,10 +1579,33 @@ async function handleRequest(req: Request): Promise<Response> {
     }
   }
 
+  // Files the agent exported with export_data
+  if (pathname.startsWith("/exports/")) {
+    try {
+      const filename = decodeURIComponent(pathname.substring("/exports/".length));
+      if (filename.includes("/") || filename.includes("\\") || filename.startsWith(".")) {
+        return new Response("File not found", { status: 404 });
+      }
+      const file = await Deno.open(`${EXPORT_DIR}/${filename}`, { read: true });
+      return new Response(file.readable, {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/octet-stream",
+          "Content-Disposition": `attachment; filename="${filename}"`
+        }
+      });
+    } catch {
+      return new Response("File not found", { status: 404 });
+    }
+  }
+
   // Serve uploaded files
   if (pathname.startsWith("/uploads/")) {
     try {
-      const filename = pathname.substring(9); // Remove "/uploads/"
+      const filename = decodeURIComponent(pathname.substring(9)); // Remove "/uploads/"
+      if (filename.includes("/") || filename.includes("\\") || filename.startsWith(".")) {
+        return new Response("File not found", { status: 404 });
+      }
       const filePath = `./uploads/${filename}`;
       const fileContent = await Deno.readFile(filePath);
 
@@ -913,31 +1725,47 @@ async function cleanupFiles() {
   console.log("🧹 Cleaning up files...");
 
   try {
-    // Delete all uploaded files
+    // Files of saved conversations are kept for the next run
+    const kept = await savedConversationFiles();
+
+    // Delete the uploaded files no saved conversation uses
     try {
       for await (const entry of Deno.readDir("./uploads")) {
-        if (entry.isFile) {
+        if (entry.isFile && !kept.uploads.has(entry.name)) {
           await Deno.remove(`./uploads/${entry.name}`);
         }
       }
-      await Deno.remove("./uploads", { recursive: true });
+      if (kept.uploads.size === 0) await Deno.remove("./uploads", { recursive: true });
       console.log("✅ Uploaded files cleaned");
     } catch {
       // Directory might not exist or already empty
     }
 
-    // Delete all extracted data
+    // Delete the extracted data no saved conversation uses
     try {
       for await (const entry of Deno.readDir("./extracted_data")) {
-        if (entry.isFile) {
+        if (entry.isFile && !kept.data.has(entry.name)) {
           await Deno.remove(`./extracted_data/${entry.name}`);
         }
       }
-      await Deno.remove("./extracted_data", { recursive: true });
+      if (kept.data.size === 0) await Deno.remove("./extracted_data", { recursive: true });
       console.log("✅ Extracted data cleaned");
     } catch {
       // Directory might not exist or already empty
     }
+
+    // Delete the exported files no saved conversation links to
+    try {
+      for await (const entry of Deno.readDir(EXPORT_DIR)) {
+        if (entry.isFile && !kept.exports.has(entry.name)) {
+          await Deno.remove(`${EXPORT_DIR}/${entry.name}`);
+        }
+      }
+      if (kept.exports.size === 0) await Deno.remove(EXPORT_DIR, { recursive: true });
+      console.log("✅ Exported files cleaned");
+    } catch {
+      // Directory might not exist or already empty
+    }
   } catch (error) {
     console.error("⚠️  Error during cleanup:", error);
   }